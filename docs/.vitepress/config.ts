@@ -92,7 +92,12 @@ export default defineConfig({
           text: 'Monitor Types',
           items: [
             { text: 'HTTP', link: '/reference/monitors/http' },
+            { text: 'HTTP Steps', link: '/reference/monitors/http-steps' },
+            { text: 'GraphQL', link: '/reference/monitors/graphql' },
+            { text: 'Prometheus', link: '/reference/monitors/prometheus' },
             { text: 'TCP', link: '/reference/monitors/tcp' },
+            { text: 'SMTP, IMAP, POP3', link: '/reference/monitors/mail' },
+            { text: 'SSH', link: '/reference/monitors/ssh' },
             { text: 'DNS', link: '/reference/monitors/dns' },
             { text: 'Ping', link: '/reference/monitors/ping' },
             { text: 'WebSocket', link: '/reference/monitors/websocket' },
@@ -100,7 +105,13 @@ export default defineConfig({
             { text: 'MySQL', link: '/reference/monitors/mysql' },
             { text: 'PostgreSQL', link: '/reference/monitors/postgresql' },
             { text: 'Redis', link: '/reference/monitors/redis' },
+            { text: 'MongoDB', link: '/reference/monitors/mongodb' },
+            { text: 'Kafka', link: '/reference/monitors/kafka' },
+            { text: 'AMQP', link: '/reference/monitors/amqp' },
+            { text: 'NATS', link: '/reference/monitors/nats' },
+            { text: 'MQTT', link: '/reference/monitors/mqtt' },
             { text: 'Kubernetes', link: '/reference/monitors/kubernetes' },
+            { text: 'Docker', link: '/reference/monitors/docker' },
             { text: 'Push', link: '/reference/monitors/push' },
             { text: 'Steam', link: '/reference/monitors/steam' },
           ],
@@ -21,6 +21,7 @@ export const POSTGRESQL_PORT = 15432;
 export const REDIS_PORT = 16379; // Redis without auth
 export const REDIS_AUTH_PORT = 16380; // Redis with auth
 export const GRPC_PORT = 50151;
+export const MONGODB_PORT = 27017; // Served by the mock server
 
 // Kubernetes configuration
 export const E2E_NAMESPACE = process.env.E2E_NAMESPACE || "yuptime";
@@ -11,6 +11,7 @@ import {
   getWsUrl,
   GRPC_PORT,
   MOCK_SERVER_HOST,
+  MONGODB_PORT,
   MYSQL_PORT,
   POSTGRESQL_PORT,
   REDIS_AUTH_PORT,
@@ -384,6 +385,53 @@ export function createRedisMonitor(overrides: {
   };
 }
 
+/**
+ * Create a MongoDB monitor for E2E testing
+ */
+export function createMongoDbMonitor(overrides: {
+  name: string;
+  host?: string;
+  port?: number;
+  command?: "ping" | "hello";
+  role?: "primary" | "secondary" | "arbiter";
+  requirePrimary?: boolean;
+  timeoutSeconds?: number;
+  labels?: Record<string, string>;
+}): Monitor {
+  const criteria = {
+    ...(overrides.role && { role: overrides.role }),
+    ...(overrides.requirePrimary !== undefined && { requirePrimary: overrides.requirePrimary }),
+  };
+
+  return {
+    apiVersion: "monitoring.yuptime.io/v1",
+    kind: "Monitor",
+    metadata: {
+      name: overrides.name,
+      namespace: E2E_NAMESPACE,
+      labels: {
+        "e2e-test": "true",
+        ...overrides.labels,
+      },
+    },
+    spec: {
+      enabled: true,
+      type: "mongodb",
+      schedule: {
+        intervalSeconds: 30,
+        timeoutSeconds: overrides.timeoutSeconds ?? 10,
+      },
+      target: {
+        mongodb: {
+          hosts: [`${overrides.host ?? MOCK_SERVER_HOST}:${overrides.port ?? MONGODB_PORT}`],
+          ...(overrides.command && { command: overrides.command }),
+        },
+      },
+      ...(Object.keys(criteria).length > 0 && { successCriteria: { mongodb: criteria } }),
+    },
+  };
+}
+
 /**
  * Create a gRPC monitor for E2E testing
  */
@@ -755,6 +803,34 @@ export const redisFixtures = {
     }),
 };
 
+export const mongodbFixtures = {
+  success: () =>
+    createMongoDbMonitor({
+      name: "mongodb-success",
+    }),
+
+  connectionRefused: () =>
+    createMongoDbMonitor({
+      name: "mongodb-refused",
+      port: 27018, // Unused port
+    }),
+
+  // The mock server answers hello as primary of replica set rs0
+  primary: () =>
+    createMongoDbMonitor({
+      name: "mongodb-primary",
+      command: "hello",
+      role: "primary",
+      requirePrimary: true,
+    }),
+
+  roleMismatch: () =>
+    createMongoDbMonitor({
+      name: "mongodb-role-mismatch",
+      role: "secondary",
+    }),
+};
+
 export const grpcFixtures = {
   success: () =>
     createGrpcMonitor({
@@ -22,6 +22,13 @@ const PG_COMMAND_COMPLETE = Buffer.from([0x43, 0, 0, 0, 13, 0x53, 0x45, 0x4c, 0x
 const REDIS_PONG = "+PONG\r\n";
 const REDIS_OK = "+OK\r\n";
 
+// MongoDB Protocol Constants
+const MONGO_OP_REPLY = 1;
+const MONGO_OP_QUERY = 2004;
+const MONGO_OP_MSG = 2013;
+const MONGO_MAX_WIRE_VERSION = 21; // MongoDB 7.0
+const MONGO_REPLICA_SET = "rs0";
+
 /**
  * Create a mock MySQL server
  * Responds to initial handshake and basic queries
@@ -239,6 +246,161 @@ export function createMockRedisServer(port: number): Server {
   return server;
 }
 
+type BsonValue = string | number | boolean | Date | BsonValue[] | { [key: string]: BsonValue };
+
+/**
+ * Encode a document as BSON
+ * Supports just the value types used in hello and command replies
+ */
+function encodeBson(doc: { [key: string]: BsonValue }): Buffer {
+  const elements = Object.entries(doc).map(([key, value]) => {
+    const name = Buffer.from(`${key}\0`);
+
+    if (typeof value === "string") {
+      const bytes = Buffer.from(`${value}\0`);
+      const length = Buffer.alloc(4);
+      length.writeInt32LE(bytes.length);
+      return Buffer.concat([Buffer.from([0x02]), name, length, bytes]);
+    }
+    if (typeof value === "boolean") {
+      return Buffer.concat([Buffer.from([0x08]), name, Buffer.from([value ? 1 : 0])]);
+    }
+    if (typeof value === "number") {
+      const number = Buffer.alloc(Number.isInteger(value) ? 4 : 8);
+      if (Number.isInteger(value)) {
+        number.writeInt32LE(value);
+        return Buffer.concat([Buffer.from([0x10]), name, number]);
+      }
+      number.writeDoubleLE(value);
+      return Buffer.concat([Buffer.from([0x01]), name, number]);
+    }
+    if (value instanceof Date) {
+      const millis = Buffer.alloc(8);
+      millis.writeBigInt64LE(BigInt(value.getTime()));
+      return Buffer.concat([Buffer.from([0x09]), name, millis]);
+    }
+    if (Array.isArray(value)) {
+      const items = Object.fromEntries(value.map((item, index) => [String(index), item]));
+      return Buffer.concat([Buffer.from([0x04]), name, encodeBson(items)]);
+    }
+    return Buffer.concat([Buffer.from([0x03]), name, encodeBson(value)]);
+  });
+
+  const body = Buffer.concat([...elements, Buffer.from([0])]);
+  const length = Buffer.alloc(4);
+  length.writeInt32LE(body.length + 4);
+  return Buffer.concat([length, body]);
+}
+
+/**
+ * Read the command name: the first key of a BSON document
+ */
+function bsonCommandName(data: Buffer, offset: number): string {
+  const end = data.indexOf(0, offset + 5);
+  return data.toString("utf8", offset + 5, end);
+}
+
+/**
+ * Reply to a MongoDB command
+ * Answers hello as the primary of a single-member replica set and acknowledges everything else
+ */
+function mongoReply(command: string, port: number): { [key: string]: BsonValue } {
+  if (["hello", "ismaster", "isMaster"].includes(command)) {
+    const me = `localhost:${port}`;
+    return {
+      helloOk: true,
+      isWritablePrimary: true,
+      ismaster: true,
+      secondary: false,
+      setName: MONGO_REPLICA_SET,
+      hosts: [me],
+      primary: me,
+      me,
+      maxBsonObjectSize: 16777216,
+      maxMessageSizeBytes: 48000000,
+      maxWriteBatchSize: 100000,
+      localTime: new Date(),
+      logicalSessionTimeoutMinutes: 30,
+      connectionId: 1,
+      minWireVersion: 0,
+      maxWireVersion: MONGO_MAX_WIRE_VERSION,
+      readOnly: false,
+      ok: 1,
+    };
+  }
+
+  return { ok: 1 };
+}
+
+/**
+ * Build a MongoDB wire protocol message
+ */
+function mongoMessage(opCode: number, responseTo: number, body: Buffer): Buffer {
+  const header = Buffer.alloc(16);
+  header.writeInt32LE(16 + body.length, 0);
+  header.writeInt32LE(0, 4); // requestID
+  header.writeInt32LE(responseTo, 8);
+  header.writeInt32LE(opCode, 12);
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Create a mock MongoDB server
+ * Responds to hello (OP_QUERY handshake or OP_MSG), ping and other commands with ok: 1
+ */
+export function createMockMongoDbServer(port: number): Server {
+  const server = createServer((socket: Socket) => {
+    let buffered = Buffer.alloc(0);
+
+    socket.on("data", (data) => {
+      buffered = Buffer.concat([buffered, data]);
+
+      while (buffered.length >= 16 && buffered.length >= buffered.readInt32LE(0)) {
+        const message = buffered.subarray(0, buffered.readInt32LE(0));
+        buffered = buffered.subarray(message.length);
+
+        const requestId = message.readInt32LE(4);
+        const opCode = message.readInt32LE(12);
+
+        if (opCode === MONGO_OP_QUERY) {
+          // flags, then fullCollectionName, numberToSkip and numberToReturn before the query
+          const collectionEnd = message.indexOf(0, 20);
+          const command = bsonCommandName(message, collectionEnd + 9);
+          const replyHeader = Buffer.alloc(20);
+          replyHeader.writeInt32LE(1, 16); // numberReturned
+          socket.write(
+            mongoMessage(
+              MONGO_OP_REPLY,
+              requestId,
+              Buffer.concat([replyHeader, encodeBson(mongoReply(command, port))]),
+            ),
+          );
+        } else if (opCode === MONGO_OP_MSG) {
+          // flagBits, then a kind 0 section holding the command document
+          const command = bsonCommandName(message, 21);
+          socket.write(
+            mongoMessage(
+              MONGO_OP_MSG,
+              requestId,
+              Buffer.concat([Buffer.alloc(5), encodeBson(mongoReply(command, port))]),
+            ),
+          );
+        }
+      }
+    });
+
+    socket.on("error", () => {
+      // Ignore socket errors
+    });
+  });
+
+  server.listen(port, () => {
+    console.log(`Mock MongoDB server listening on port ${port}`);
+  });
+
+  return server;
+}
+
 /**
  * Start all database mock servers
  */
@@ -246,8 +408,9 @@ export function startDatabaseServers(ports: {
   mysql?: number;
   postgresql?: number;
   redis?: number;
-}): { mysql?: Server; postgresql?: Server; redis?: Server } {
-  const servers: { mysql?: Server; postgresql?: Server; redis?: Server } = {};
+  mongodb?: number;
+}): { mysql?: Server; postgresql?: Server; redis?: Server; mongodb?: Server } {
+  const servers: { mysql?: Server; postgresql?: Server; redis?: Server; mongodb?: Server } = {};
 
   if (ports.mysql) {
     servers.mysql = createMockMySqlServer(ports.mysql);
@@ -258,6 +421,9 @@ export function startDatabaseServers(ports: {
   if (ports.redis) {
     servers.redis = createMockRedisServer(ports.redis);
   }
+  if (ports.mongodb) {
+    servers.mongodb = createMockMongoDbServer(ports.mongodb);
+  }
 
   return servers;
 }
@@ -16,6 +16,7 @@ const WS_PORT = 8082;
 const MYSQL_PORT = 3306;
 const POSTGRESQL_PORT = 5432;
 const REDIS_PORT = 6379;
+const MONGODB_PORT = 27017;
 const GRPC_PORT = 50151; // Match e2e/lib/config.ts
 
 async function main() {
@@ -33,6 +34,7 @@ async function main() {
     mysql: MYSQL_PORT,
     postgresql: POSTGRESQL_PORT,
     redis: REDIS_PORT,
+    mongodb: MONGODB_PORT,
   });
 
   // Start gRPC mock server
@@ -0,0 +1,83 @@
+/**
+ * MongoDB Monitor E2E Tests
+ *
+ * Requires:
+ * - MongoDB mock server running via mock-server (port 27017)
+ */
+
+import { afterEach, describe, test } from "bun:test";
+import {
+  assertCheckResult,
+  createMonitor,
+  type createMongoDbMonitor,
+  deleteMonitor,
+  E2E_NAMESPACE,
+  mongodbFixtures,
+  uniqueTestName,
+  waitForMonitorStatus,
+} from "../lib";
+
+describe("MongoDB Monitor E2E", () => {
+  const createdMonitors: string[] = [];
+
+  // Cleanup after each test
+  afterEach(async () => {
+    for (const name of createdMonitors) {
+      await deleteMonitor(name, E2E_NAMESPACE);
+    }
+    createdMonitors.length = 0;
+  });
+
+  // Helper to create and track monitor
+  async function createAndTrack(monitor: ReturnType<typeof createMongoDbMonitor>) {
+    const name = uniqueTestName(monitor.metadata.name);
+    monitor.metadata.name = name;
+    createdMonitors.push(name);
+    await createMonitor(monitor);
+    return name;
+  }
+
+  test("returns UP for successful MongoDB ping", async () => {
+    const name = await createAndTrack(mongodbFixtures.success());
+
+    const status = await waitForMonitorStatus(name);
+
+    assertCheckResult(status, {
+      state: "up",
+      reason: "MONGODB_OK",
+    });
+  });
+
+  test("returns DOWN for connection refused", async () => {
+    const name = await createAndTrack(mongodbFixtures.connectionRefused());
+
+    const status = await waitForMonitorStatus(name);
+
+    assertCheckResult(status, {
+      state: "down",
+      reason: "CONNECTION_REFUSED",
+    });
+  });
+
+  test("returns UP for a replica set primary", async () => {
+    const name = await createAndTrack(mongodbFixtures.primary());
+
+    const status = await waitForMonitorStatus(name);
+
+    assertCheckResult(status, {
+      state: "up",
+      reason: "MONGODB_OK",
+    });
+  });
+
+  test("returns DOWN when the member role does not match", async () => {
+    const name = await createAndTrack(mongodbFixtures.roleMismatch());
+
+    const status = await waitForMonitorStatus(name);
+
+    assertCheckResult(status, {
+      state: "down",
+      reason: "MONGODB_ROLE_MISMATCH",
+    });
+  });
+});
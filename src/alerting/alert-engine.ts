@@ -6,26 +6,61 @@
  * - No policy matching
  * - Direct POST to Alertmanager's /api/v1/alerts endpoint
  * - Users configure Alertmanager routing
+ * - Active maintenance windows and silences suppress alerts
  */
 
 import { logger } from "../lib/logger";
-import type { Monitor } from "../types/crd/monitor";
+import { getMonitorUrl } from "../lib/monitor-url";
+import { recordAlertSuppressed } from "../lib/prometheus";
+import type { CertificateInfo, Monitor } from "../types/crd/monitor";
+import { type AlertSuppression, findAlertSuppression } from "./suppression";
 
 /**
- * Send alert to Alertmanager when monitor state changes
- *
- * @param monitor - The Monitor CRD
- * @param toState - The new state ("up" or "down")
- * @param fromState - The previous state
- * @param message - Human-readable message
+ * Find the maintenance window or silence muting an alert, recording the suppression
  */
-export async function sendAlertToAlertmanager(
+function checkSuppression(
   monitor: Monitor,
-  toState: "up" | "down" | "pending" | "flapping" | "paused",
+  toState: string,
   fromState?: string,
-  message?: string,
+): AlertSuppression | null {
+  const suppression = findAlertSuppression(monitor);
+  if (!suppression) {
+    return null;
+  }
+
+  const monitorName = monitor.metadata.name;
+  const namespace = monitor.metadata.namespace;
+
+  recordAlertSuppressed(
+    monitorName,
+    namespace,
+    toState,
+    suppression.kind,
+    `${suppression.namespace}/${suppression.name}`,
+  );
+  logger.info(
+    {
+      monitorId: `${namespace}/${monitorName}`,
+      toState,
+      fromState,
+      suppressedBy: `${suppression.kind}/${suppression.namespace}/${suppression.name}`,
+      reason: suppression.reason,
+    },
+    "Alert suppressed",
+  );
+  return suppression;
+}
+
+/**
+ * POST an alert payload to the monitor's Alertmanager, if one is configured
+ */
+async function postAlert(
+  monitor: Monitor,
+  alert: Record<string, unknown>,
+  context: Record<string, unknown>,
 ): Promise<void> {
   const alertmanagerUrl = monitor.spec.alertmanagerUrl;
+  const monitorId = `${monitor.metadata.namespace}/${monitor.metadata.name}`;
 
   // No Alertmanager URL configured, skip alerting
   if (!alertmanagerUrl) {
@@ -36,9 +71,59 @@ export async function sendAlertToAlertmanager(
     return;
   }
 
+  try {
+    const response = await fetch(alertmanagerUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(alert),
+    });
+
+    if (!response.ok) {
+      const responseText = await response.text();
+      logger.warn(
+        {
+          monitorId,
+          status: response.status,
+          response: responseText,
+        },
+        "Failed to send alert to Alertmanager",
+      );
+      return;
+    }
+
+    logger.info({ monitorId, ...context, alertmanagerUrl }, "Sent alert to Alertmanager");
+  } catch (error) {
+    logger.warn({ monitorId, ...context, error }, "Failed to send alert to Alertmanager");
+  }
+}
+
+/**
+ * Send alert to Alertmanager when monitor state changes
+ *
+ * @param monitor - The Monitor CRD
+ * @param toState - The new state ("up" or "down")
+ * @param fromState - The previous state
+ * @param message - Human-readable message
+ * @returns The maintenance window or silence that suppressed the alert, if any
+ */
+export async function sendAlertToAlertmanager(
+  monitor: Monitor,
+  toState: "up" | "down" | "pending" | "flapping" | "paused",
+  fromState?: string,
+  message?: string,
+): Promise<AlertSuppression | null> {
   const monitorName = monitor.metadata.name;
   const namespace = monitor.metadata.namespace;
   const monitorId = `${namespace}/${monitorName}`;
+
+  // Maintenance windows and silences mute the alert regardless of destination
+  const suppression = checkSuppression(monitor, toState, fromState);
+  if (suppression) {
+    return suppression;
+  }
+
   const reason = monitor.status?.lastResult?.reason || "Unknown";
   const latencyMs = monitor.status?.lastResult?.latencyMs;
   const monitorUrl = getMonitorUrl(monitor);
@@ -49,7 +134,7 @@ export async function sendAlertToAlertmanager(
     alerts: [
       {
         alertname: `${namespace}_${monitorName}`,
-        state: toState === "down" ? "firing" : "resolved",
+        state: toState === "down" || toState === "flapping" ? "firing" : "resolved",
         monitor: monitorName,
         namespace,
         monitorId,
@@ -82,58 +167,130 @@ export async function sendAlertToAlertmanager(
     ],
   };
 
-  try {
-    const response = await fetch(alertmanagerUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(alert),
-    });
+  await postAlert(monitor, alert, { toState, fromState });
+  return null;
+}
 
-    if (!response.ok) {
-      const responseText = await response.text();
-      logger.warn(
-        {
-          monitorId,
-          status: response.status,
-          response: responseText,
-        },
-        "Failed to send alert to Alertmanager",
-      );
-      return;
-    }
+/**
+ * Send a certificate expiry alert, separate from the monitor's up/down alert
+ *
+ * @param monitor - The Monitor CRD
+ * @param cert - Certificate captured by the last check
+ * @param expiring - true once warnBeforeDays is crossed, false when the certificate was renewed
+ * @returns The maintenance window or silence that suppressed the alert, if any
+ */
+export async function sendCertExpiringAlert(
+  monitor: Monitor,
+  cert: CertificateInfo,
+  expiring: boolean,
+): Promise<AlertSuppression | null> {
+  const monitorName = monitor.metadata.name;
+  const namespace = monitor.metadata.namespace;
+  const toState = expiring ? "certExpiring" : "certRenewed";
 
-    logger.info({ monitorId, toState, fromState, alertmanagerUrl }, "Sent alert to Alertmanager");
-  } catch (error) {
-    logger.warn({ monitorId, toState, error }, "Failed to send alert to Alertmanager");
+  const suppression = checkSuppression(monitor, toState);
+  if (suppression) {
+    return suppression;
   }
+
+  const monitorUrl = getMonitorUrl(monitor);
+  const daysRemaining = cert.daysRemaining ?? 0;
+  const description = expiring
+    ? `Certificate for ${monitorUrl} expires in ${daysRemaining} days (${cert.expiresAt})`
+    : `Certificate for ${monitorUrl} was renewed and expires ${cert.expiresAt}`;
+
+  const alert = {
+    receiver: "yuptime",
+    alerts: [
+      {
+        alertname: `${namespace}_${monitorName}_cert_expiring`,
+        state: expiring ? "firing" : "resolved",
+        monitor: monitorName,
+        namespace,
+        monitorId: `${namespace}/${monitorName}`,
+        monitorType: monitor.spec.type,
+        monitorUrl,
+        reason: daysRemaining < 0 ? "CERT_EXPIRED" : "CERT_EXPIRING",
+        message: description,
+        labels: {
+          monitor: monitorName,
+          namespace,
+          alerttype: "certExpiring",
+          ...(monitor.spec.tags && { tags: monitor.spec.tags.join(",") }),
+        },
+        annotations: {
+          summary: `${monitorName} certificate ${expiring ? "is expiring" : "was renewed"}`,
+          description,
+          ...(cert.expiresAt && { expiresAt: cert.expiresAt }),
+          ...(cert.issuer && { issuer: cert.issuer }),
+        },
+        generatorURL: `https://github.com/bsunt/yuptime`,
+        startsAt: new Date().toISOString(),
+      },
+    ],
+  };
+
+  await postAlert(monitor, alert, { toState, daysRemaining });
+  return null;
 }
 
 /**
- * Extract monitor URL for alert annotations
+ * Send a flapping alert, separate from the monitor's up/down alert
+ *
+ * @param monitor - The Monitor CRD
+ * @param flapping - true when flapping starts, false when it ends
+ * @param toggles - State changes counted in the flapping window
+ * @returns The maintenance window or silence that suppressed the alert, if any
  */
-function getMonitorUrl(monitor: Monitor): string {
-  const target = monitor.spec?.target;
+export async function sendFlappingAlert(
+  monitor: Monitor,
+  flapping: boolean,
+  toggles: number,
+): Promise<AlertSuppression | null> {
+  const monitorName = monitor.metadata.name;
+  const namespace = monitor.metadata.namespace;
+  const toState = flapping ? "flapping" : "stable";
 
-  if (target?.http) {
-    return target.http.url;
-  }
-  if (target?.tcp) {
-    return `${target.tcp.host}:${target.tcp.port}`;
-  }
-  if (target?.dns) {
-    return target.dns.name;
-  }
-  if (target?.ping) {
-    return target.ping.host;
-  }
-  if (target?.websocket) {
-    return target.websocket.url;
-  }
-  if (target?.k8s) {
-    return `${target.k8s.resource.kind}/${target.k8s.resource.name}`;
+  const suppression = checkSuppression(monitor, toState);
+  if (suppression) {
+    return suppression;
   }
 
-  return "unknown";
+  const monitorUrl = getMonitorUrl(monitor);
+  const description = flapping
+    ? `Monitor ${monitorName} is flapping (${toggles} state changes)`
+    : `Monitor ${monitorName} stopped flapping`;
+
+  const alert = {
+    receiver: "yuptime",
+    alerts: [
+      {
+        alertname: `${namespace}_${monitorName}_flapping`,
+        state: flapping ? "firing" : "resolved",
+        monitor: monitorName,
+        namespace,
+        monitorId: `${namespace}/${monitorName}`,
+        monitorType: monitor.spec.type,
+        monitorUrl,
+        reason: "FLAPPING",
+        message: description,
+        labels: {
+          monitor: monitorName,
+          namespace,
+          alerttype: "flapping",
+          ...(monitor.spec.tags && { tags: monitor.spec.tags.join(",") }),
+        },
+        annotations: {
+          summary: `${monitorName} ${flapping ? "is flapping" : "stopped flapping"}`,
+          description,
+          ...(monitorUrl && { runbook_url: monitorUrl }),
+        },
+        generatorURL: `https://github.com/bsunt/yuptime`,
+        startsAt: new Date().toISOString(),
+      },
+    ],
+  };
+
+  await postAlert(monitor, alert, { toState, toggles });
+  return null;
 }
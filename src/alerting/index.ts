@@ -8,4 +8,9 @@
  * - Users configure Alertmanager routing (receivers, routes, etc.)
  */
 
-export { sendAlertToAlertmanager } from "./alert-engine";
+export {
+  sendAlertToAlertmanager,
+  sendCertExpiringAlert,
+  sendFlappingAlert,
+} from "./alert-engine";
+export { type AlertSuppression, findAlertSuppression } from "./suppression";
@@ -0,0 +1,190 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { createSilenceReconciler } from "../controller/reconcilers/auth-and-config-reconcilers";
+import { createMaintenanceWindowReconciler } from "../controller/reconcilers/maintenance-window-reconciler";
+import { createTcpMonitor } from "../test-utils/fixtures/monitors";
+import type { MaintenanceWindow, Monitor, Silence } from "../types/crd";
+import { findAlertSuppression } from "./suppression";
+
+const windowReconciler = createMaintenanceWindowReconciler();
+const silenceReconciler = createSilenceReconciler();
+const created: Array<{ kind: "window" | "silence"; name: string }> = [];
+
+function createMonitor(overrides?: {
+  namespace?: string;
+  name?: string;
+  labels?: Record<string, string>;
+  tags?: string[];
+}): Monitor {
+  const monitor = createTcpMonitor();
+  return {
+    ...monitor,
+    metadata: {
+      name: overrides?.name ?? "api",
+      namespace: overrides?.namespace ?? "production",
+      ...(overrides?.labels && { labels: overrides.labels }),
+    },
+    spec: { ...monitor.spec, ...(overrides?.tags && { tags: overrides.tags }) },
+  } as Monitor;
+}
+
+async function addWindow(
+  name: string,
+  spec: {
+    start: string;
+    end: string;
+    rrule?: string;
+    match?: MaintenanceWindow["spec"]["match"];
+    suppressNotifications?: boolean;
+  },
+) {
+  await windowReconciler.reconciler(
+    {
+      apiVersion: "monitoring.yuptime.io/v1",
+      kind: "MaintenanceWindow",
+      metadata: { name, namespace: "default" },
+      spec: {
+        enabled: true,
+        schedule: {
+          start: spec.start,
+          end: spec.end,
+          ...(spec.rrule && { recurrence: { rrule: spec.rrule } }),
+        },
+        match: spec.match,
+        behavior: { suppressNotifications: spec.suppressNotifications ?? true },
+      },
+    },
+    {},
+  );
+  created.push({ kind: "window", name });
+}
+
+async function addSilence(name: string, match: Silence["spec"]["match"], reason?: string) {
+  await silenceReconciler.reconciler(
+    {
+      apiVersion: "monitoring.yuptime.io/v1",
+      kind: "Silence",
+      metadata: { name, namespace: "default" },
+      // Far enough out that no expiry timer is armed
+      spec: { expiresAt: "2099-01-01T00:00:00Z", match, reason },
+    },
+    {},
+  );
+  created.push({ kind: "silence", name });
+}
+
+afterEach(async () => {
+  for (const { kind, name } of created.splice(0)) {
+    const reconciler = kind === "window" ? windowReconciler : silenceReconciler;
+    await reconciler.deleteHandler?.("default", name);
+  }
+});
+
+describe("findAlertSuppression", () => {
+  const now = new Date("2025-06-10T12:30:00Z");
+
+  test("returns null when nothing is active", () => {
+    expect(findAlertSuppression(createMonitor(), now)).toBeNull();
+  });
+
+  test("suppresses during a one-off maintenance window", async () => {
+    await addWindow("upgrade", {
+      start: "2025-06-10T12:00:00Z",
+      end: "2025-06-10T13:00:00Z",
+      match: { matchNamespaces: ["production"] },
+    });
+
+    const suppression = findAlertSuppression(createMonitor(), now);
+    expect(suppression?.kind).toBe("MaintenanceWindow");
+    expect(suppression?.name).toBe("upgrade");
+    expect(suppression?.endsAt.toISOString()).toBe("2025-06-10T13:00:00.000Z");
+
+    expect(findAlertSuppression(createMonitor({ namespace: "staging" }), now)).toBeNull();
+    expect(findAlertSuppression(createMonitor(), new Date("2025-06-10T13:00:00Z"))).toBeNull();
+  });
+
+  test("suppresses during a later occurrence of a recurring window", async () => {
+    await addWindow("nightly", {
+      start: "2025-06-01T12:00:00Z",
+      end: "2025-06-01T13:00:00Z",
+      rrule: "FREQ=DAILY",
+    });
+
+    expect(findAlertSuppression(createMonitor(), now)?.name).toBe("nightly");
+    expect(findAlertSuppression(createMonitor(), new Date("2025-06-10T14:00:00Z"))).toBeNull();
+  });
+
+  test("finds the current occurrence of a recurring window that started long ago", async () => {
+    // More daily occurrences than a walk from the start can step through
+    await addWindow("nightly-legacy", {
+      start: "1990-06-01T12:00:00Z",
+      end: "1990-06-01T13:00:00Z",
+      rrule: "FREQ=DAILY",
+    });
+
+    expect(findAlertSuppression(createMonitor(), now)?.name).toBe("nightly-legacy");
+    expect(findAlertSuppression(createMonitor(), new Date("2025-06-10T14:00:00Z"))).toBeNull();
+  });
+
+  test("matches windows by name, labels and tags", async () => {
+    await addWindow("by-name", {
+      start: "2025-06-10T12:00:00Z",
+      end: "2025-06-10T13:00:00Z",
+      match: { matchNames: [{ namespace: "production", name: "db" }] },
+    });
+    await addWindow("by-label", {
+      start: "2025-06-10T12:00:00Z",
+      end: "2025-06-10T13:00:00Z",
+      match: { matchLabels: { matchLabels: { team: "payments" } } },
+    });
+    await addWindow("by-tag", {
+      start: "2025-06-10T12:00:00Z",
+      end: "2025-06-10T13:00:00Z",
+      match: { matchTags: ["edge"] },
+    });
+
+    expect(findAlertSuppression(createMonitor({ name: "db" }), now)?.name).toBe("by-name");
+    expect(findAlertSuppression(createMonitor({ labels: { team: "payments" } }), now)?.name).toBe(
+      "by-label",
+    );
+    expect(findAlertSuppression(createMonitor({ tags: ["edge"] }), now)?.name).toBe("by-tag");
+    expect(findAlertSuppression(createMonitor(), now)).toBeNull();
+  });
+
+  test("ignores windows that do not suppress notifications", async () => {
+    await addWindow("observe-only", {
+      start: "2025-06-10T12:00:00Z",
+      end: "2025-06-10T13:00:00Z",
+      suppressNotifications: false,
+    });
+
+    expect(findAlertSuppression(createMonitor(), now)).toBeNull();
+  });
+
+  test("suppresses with a matching silence", async () => {
+    await addSilence("noisy", { labels: { team: "payments" }, tags: ["edge"] }, "Known issue");
+
+    const suppression = findAlertSuppression(
+      createMonitor({ labels: { team: "payments" }, tags: ["edge"] }),
+      now,
+    );
+    expect(suppression?.kind).toBe("Silence");
+    expect(suppression?.reason).toBe("Known issue");
+
+    expect(findAlertSuppression(createMonitor({ labels: { team: "payments" } }), now)).toBeNull();
+  });
+
+  test("stops suppressing once the silence is deleted", async () => {
+    await addSilence("temporary", { names: [{ namespace: "production", name: "api" }] });
+    expect(findAlertSuppression(createMonitor(), now)?.kind).toBe("Silence");
+
+    await silenceReconciler.deleteHandler?.("default", "temporary");
+    expect(findAlertSuppression(createMonitor(), now)).toBeNull();
+  });
+
+  test("prefers maintenance windows over silences", async () => {
+    await addSilence("everything", {});
+    await addWindow("upgrade", { start: "2025-06-10T12:00:00Z", end: "2025-06-10T13:00:00Z" });
+
+    expect(findAlertSuppression(createMonitor(), now)?.kind).toBe("MaintenanceWindow");
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Alert suppression - maintenance windows and silences
+ *
+ * Every outgoing alert is checked against the active MaintenanceWindow and
+ * Silence caches, matched on the monitor's namespace, name, labels and tags.
+ */
+
+import { getActiveSilences } from "../controller/reconcilers/auth-and-config-reconcilers";
+import { getActiveMaintenanceWindows } from "../controller/reconcilers/maintenance-window-reconciler";
+import type { Monitor } from "../types/crd/monitor";
+
+/**
+ * The resource that muted an alert
+ */
+export interface AlertSuppression {
+  kind: "MaintenanceWindow" | "Silence";
+  namespace: string;
+  name: string;
+  reason: string;
+  endsAt: Date;
+}
+
+/**
+ * Find the maintenance window or silence muting alerts for a monitor
+ * Maintenance windows take precedence over silences.
+ */
+export function findAlertSuppression(
+  monitor: Monitor,
+  now: Date = new Date(),
+): AlertSuppression | null {
+  const target = {
+    namespace: monitor.metadata.namespace,
+    name: monitor.metadata.name,
+    labels: monitor.metadata.labels,
+    tags: monitor.spec.tags,
+  };
+
+  const window = getActiveMaintenanceWindows(target, now).find((w) => w.suppressNotifications);
+  if (window) {
+    return {
+      kind: "MaintenanceWindow",
+      namespace: window.namespace,
+      name: window.name,
+      reason: `Maintenance window active until ${window.endsAt.toISOString()}`,
+      endsAt: window.endsAt,
+    };
+  }
+
+  const silence = getActiveSilences(target, now)[0];
+  if (silence) {
+    return {
+      kind: "Silence",
+      namespace: silence.namespace,
+      name: silence.name,
+      reason: silence.reason || `Silenced until ${silence.expiresAt.toISOString()}`,
+      endsAt: silence.expiresAt,
+    };
+  }
+
+  return null;
+}
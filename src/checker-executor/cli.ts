@@ -47,15 +47,15 @@ async function main() {
     const result = await executeCheck(namespace, name);
 
     // Update Monitor CRD status
-    await updateMonitorStatus(namespace, name, result);
+    const state = await updateMonitorStatus(namespace, name, result);
 
     // Exit with appropriate status code
     // 0 = healthy, 1 = unhealthy, 2 = error
-    if (result.state === "up") {
+    if (state === "up") {
       logger.info("Check result: healthy");
       process.exit(0);
     } else {
-      logger.info(`Check result: ${result.state}`);
+      logger.info(`Check result: ${state}`);
       process.exit(1);
     }
   } catch (error) {
@@ -6,22 +6,24 @@
 
 import { existsSync, readFileSync } from "node:fs";
 import type { CheckResult } from "../checkers";
-import { executeCheck as runCheck } from "../checkers";
-import type { Monitor } from "../types/crd";
+import { isReplayedPush, executeCheck as runCheck } from "../checkers";
+import { evaluateCheckState } from "../lib/check-state";
+import type { LastResult, Monitor } from "../types/crd";
 
 const logger = console;
 
-// Accept self-signed certificates for local development
-process.env.NODE_TLS_REJECT_UNAUTHORIZED = "0";
-
 // Read service account token for in-cluster auth (required)
 const tokenPath = "/var/run/secrets/kubernetes.io/serviceaccount/token";
+const caPath = "/var/run/secrets/kubernetes.io/serviceaccount/ca.crt";
 
 if (!existsSync(tokenPath)) {
   throw new Error("Not running in-cluster - checker executor requires in-cluster authentication");
 }
 
 const saToken = readFileSync(tokenPath, "utf-8").trim();
+
+// The API server certificate is verified against the cluster CA
+const clusterCa = existsSync(caPath) ? readFileSync(caPath, "utf-8") : undefined;
 const apiServerUrl = `https://${process.env.KUBERNETES_SERVICE_HOST}:${process.env.KUBERNETES_SERVICE_PORT}`;
 
 logger.info(`Loaded in-cluster config, API server: ${apiServerUrl}`);
@@ -49,6 +51,7 @@ function k8sRequest(
     method,
     headers,
     body: body ? JSON.stringify(body) : undefined,
+    ...(clusterCa && { tls: { ca: clusterCa } }),
   });
 }
 
@@ -114,27 +117,50 @@ export async function executeCheck(namespace: string, name: string): Promise<Che
 /**
  * Update Monitor CRD status with check result
  * Uses Kubernetes status subresource with merge patch
+ *
+ * @returns The monitor state after applying retries and grace period
  */
 export async function updateMonitorStatus(
   namespace: string,
   name: string,
   result: CheckResult,
-): Promise<void> {
+): Promise<LastResult["state"]> {
   const monitorId = `${namespace}/${name}`;
   const path = `/apis/monitoring.yuptime.io/v1/namespaces/${namespace}/monitors/${name}/status`;
 
   try {
+    // Re-read the monitor so the previous result is as fresh as possible
+    const monitor = await loadMonitorCRD(namespace, name);
+
+    // Failures stay pending until retries and grace period are used up
+    // Pushes were counted by the push receiver, so replaying one adds no attempt
+    const now = new Date();
+    const transition = evaluateCheckState(
+      monitor.status?.lastResult,
+      result.state,
+      monitor.spec.schedule,
+      now,
+      monitor.spec.type === "push" && isReplayedPush(result),
+    );
+
     // Use merge patch format - simple object merge
     const statusPatch = {
       status: {
         lastResult: {
-          state: result.state,
+          state: transition.state,
           latencyMs: result.latencyMs,
           reason: result.reason || null,
           message: result.message || null,
-          checkedAt: new Date().toISOString(),
-          attempts: 1,
+          checkedAt: now.toISOString(),
+          attempts: transition.attempts,
+          failingSince: transition.failingSince ?? null,
+          timings: result.timings ?? null,
+          steps: result.steps ?? null,
+          // Set again by the controller if the monitor is still flapping
+          flapping: null,
         },
+        // Keep the last captured certificate when a check could not inspect one
+        ...(result.cert && { cert: result.cert }),
       },
     };
 
@@ -145,7 +171,10 @@ export async function updateMonitorStatus(
       throw new Error(`Failed to patch status: ${response.status} ${text}`);
     }
 
-    logger.info(`Updated status for ${monitorId}: ${result.state}`);
+    logger.info(
+      `Updated status for ${monitorId}: ${transition.state} (attempt ${transition.attempts})`,
+    );
+    return transition.state;
   } catch (error) {
     logger.error(`Failed to update status for ${monitorId}:`, error);
     throw error;
@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { createAmqpMonitor } from "../test-utils/fixtures/monitors";
+import { createMockAmqpClientFactory } from "../test-utils/mocks/brokers";
+import { type AmqpClientConfig, createCheckAmqp } from "./amqp";
+
+describe("checkAmqp", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test("returns up with the server product and version", async () => {
+    const checker = createCheckAmqp(createMockAmqpClientFactory());
+    const result = await checker(createAmqpMonitor(), 10);
+
+    expect(result.state).toBe("up");
+    expect(result.reason).toBe("AMQP_OK");
+    expect(result.message).toBe("RabbitMQ 3.13.1 connection successful");
+  });
+
+  test("returns down when no AMQP target configured", async () => {
+    const monitor = createAmqpMonitor();
+    monitor.spec.target = {} as typeof monitor.spec.target;
+    const result = await createCheckAmqp(createMockAmqpClientFactory())(monitor, 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("INVALID_CONFIG");
+    expect(result.message).toBe("No AMQP target configured");
+  });
+
+  test("returns INVALID_CONFIG for thresholds without a queue", async () => {
+    const checker = createCheckAmqp(createMockAmqpClientFactory());
+    const result = await checker(createAmqpMonitor({}, { maxMessages: 10 }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("INVALID_CONFIG");
+  });
+
+  test("reports queue depth and consumers", async () => {
+    const checker = createCheckAmqp(
+      createMockAmqpClientFactory({ queue: { messageCount: 4, consumerCount: 2 } }),
+    );
+    const result = await checker(
+      createAmqpMonitor({ queue: "orders" }, { maxMessages: 100, minConsumers: 1 }),
+      10,
+    );
+
+    expect(result.state).toBe("up");
+    expect(result.message).toBe("AMQP queue orders has 4 messages and 2 consumers");
+  });
+
+  test("returns AMQP_QUEUE_NOT_FOUND for a missing queue", async () => {
+    const checker = createCheckAmqp(createMockAmqpClientFactory({ queue: null }));
+    const result = await checker(createAmqpMonitor({ queue: "orders" }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("AMQP_QUEUE_NOT_FOUND");
+    expect(result.message).toBe("AMQP queue orders not found");
+  });
+
+  test("returns AMQP_QUEUE_DEPTH_EXCEEDED above maxMessages", async () => {
+    const checker = createCheckAmqp(
+      createMockAmqpClientFactory({ queue: { messageCount: 1500, consumerCount: 1 } }),
+    );
+    const result = await checker(createAmqpMonitor({ queue: "orders" }, { maxMessages: 1000 }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("AMQP_QUEUE_DEPTH_EXCEEDED");
+    expect(result.message).toBe("AMQP queue orders has 1500 messages, more than 1000");
+  });
+
+  test("returns AMQP_CONSUMERS_BELOW_MIN below minConsumers", async () => {
+    const checker = createCheckAmqp(
+      createMockAmqpClientFactory({ queue: { messageCount: 0, consumerCount: 0 } }),
+    );
+    const result = await checker(createAmqpMonitor({ queue: "orders" }, { minConsumers: 1 }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("AMQP_CONSUMERS_BELOW_MIN");
+  });
+
+  test("passes credentials from the environment", async () => {
+    process.env.YUPTIME_CRED_AMQP_USERNAME = "probe";
+    process.env.YUPTIME_CRED_AMQP_PASSWORD = "secret";
+    let config: AmqpClientConfig | undefined;
+    const checker = createCheckAmqp(
+      createMockAmqpClientFactory({
+        onConfig: (received) => {
+          config = received;
+        },
+      }),
+    );
+    await checker(
+      createAmqpMonitor({
+        vhost: "orders",
+        credentialsSecretRef: { name: "rabbit", usernameKey: "username", passwordKey: "password" },
+      }),
+      10,
+    );
+
+    expect(config).toMatchObject({
+      host: "rabbitmq.example.com",
+      vhost: "orders",
+      username: "probe",
+      password: "secret",
+    });
+  });
+
+  test("returns CREDENTIALS_ERROR when credentials are missing", async () => {
+    delete process.env.YUPTIME_CRED_AMQP_PASSWORD;
+    const checker = createCheckAmqp(createMockAmqpClientFactory());
+    const result = await checker(
+      createAmqpMonitor({
+        credentialsSecretRef: { name: "rabbit", usernameKey: "username", passwordKey: "password" },
+      }),
+      10,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("CREDENTIALS_ERROR");
+  });
+
+  test("ignores close errors", async () => {
+    const checker = createCheckAmqp(
+      createMockAmqpClientFactory({ closeError: new Error("Connection closed") }),
+    );
+    const result = await checker(createAmqpMonitor(), 10);
+
+    expect(result.state).toBe("up");
+  });
+
+  const errorCases = [
+    { error: "connect ECONNREFUSED 10.0.0.1:5672", reason: "CONNECTION_REFUSED" },
+    { error: "getaddrinfo ENOTFOUND rabbitmq.example.com", reason: "DNS_NXDOMAIN" },
+    {
+      error:
+        'Handshake terminated by server: 403 (ACCESS-REFUSED) with message "ACCESS_REFUSED - Login was refused"',
+      reason: "AUTH_FAILED",
+    },
+    { error: "connect ETIMEDOUT 10.0.0.1:5672", reason: "TIMEOUT" },
+    { error: "Socket closed abruptly during opening handshake", reason: "CONNECTION_ERROR" },
+  ];
+
+  for (const { error, reason } of errorCases) {
+    test(`returns ${reason} for "${error}"`, async () => {
+      const checker = createCheckAmqp(
+        createMockAmqpClientFactory({ connectError: new Error(error) }),
+      );
+      const result = await checker(createAmqpMonitor(), 10);
+
+      expect(result.state).toBe("down");
+      expect(result.reason).toBe(reason);
+    });
+  }
+});
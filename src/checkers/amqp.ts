@@ -0,0 +1,340 @@
+import {
+  type ClientCertificate,
+  getCaBundleFromEnv,
+  getClientCertFromEnv,
+  isTlsError,
+  withSystemRoots,
+} from "../lib/certificates";
+import { logger } from "../lib/logger";
+import type { Monitor } from "../types/crd";
+import type { CheckResult } from "./index";
+
+/**
+ * Get AMQP credentials from environment variables.
+ * These are injected by the Job builder from Kubernetes secrets.
+ */
+function getCredentialsFromEnv(): { username: string; password: string } | null {
+  const username = process.env.YUPTIME_CRED_AMQP_USERNAME;
+  const password = process.env.YUPTIME_CRED_AMQP_PASSWORD;
+
+  if (!username || !password) {
+    return null;
+  }
+
+  return { username, password };
+}
+
+/**
+ * AMQP client interface for dependency injection
+ */
+export interface AmqpClient {
+  /** Open the connection; resolves with the server product and version, e.g. "RabbitMQ 3.13.1" */
+  connect(): Promise<{ server: string }>;
+  /** Passively declare a queue, or null when the queue does not exist */
+  checkQueue(queue: string): Promise<{ messageCount: number; consumerCount: number } | null>;
+  close(): Promise<void>;
+}
+
+/**
+ * AMQP client factory configuration
+ */
+export interface AmqpClientConfig {
+  host: string;
+  port: number;
+  vhost: string;
+  username?: string;
+  password?: string;
+  tls?: {
+    verify: boolean;
+    caBundle?: string;
+    clientCert?: ClientCertificate;
+  };
+  timeoutMs: number;
+}
+
+/**
+ * AMQP client factory type for dependency injection
+ */
+export type AmqpClientFactory = (config: AmqpClientConfig) => Promise<AmqpClient>;
+
+/**
+ * Default AMQP client factory using amqplib
+ * Note: This requires the amqplib package to be installed
+ */
+async function createDefaultAmqpClient(config: AmqpClientConfig): Promise<AmqpClient> {
+  // Use dynamic import to avoid bundling amqplib if not used
+  const amqp = await import("amqplib");
+
+  type Connection = Awaited<ReturnType<typeof amqp.connect>>;
+  let connection: Connection | undefined;
+
+  return {
+    connect: async () => {
+      const opened = await amqp.connect(
+        {
+          protocol: config.tls ? "amqps" : "amqp",
+          hostname: config.host,
+          port: config.port,
+          vhost: config.vhost,
+          // Heartbeats are pointless for a connection that lives for one check
+          heartbeat: 0,
+          ...(config.username && { username: config.username, password: config.password }),
+        },
+        {
+          timeout: config.timeoutMs,
+          ...(config.tls && {
+            servername: config.host,
+            rejectUnauthorized: config.tls.verify,
+            ...(config.tls.caBundle && { ca: withSystemRoots(config.tls.caBundle) }),
+            ...(config.tls.clientCert && {
+              cert: config.tls.clientCert.cert,
+              key: config.tls.clientCert.key,
+            }),
+          }),
+        },
+      );
+      connection = opened;
+      // Errors after the handshake surface through the pending operation
+      opened.on("error", () => {
+        // Handled by the caller
+      });
+
+      const { product, version } = opened.connection.serverProperties;
+      return { server: [product, version].filter(Boolean).join(" ") || "AMQP server" };
+    },
+    checkQueue: async (queue) => {
+      if (!connection) {
+        throw new Error("AMQP connection is not open");
+      }
+
+      const channel = await connection.createChannel();
+      channel.on("error", () => {
+        // A missing queue closes the channel; checkQueue rejects with the reason
+      });
+
+      try {
+        const { messageCount, consumerCount } = await channel.checkQueue(queue);
+        await channel.close();
+        return { messageCount, consumerCount };
+      } catch (error) {
+        if (error instanceof Error && error.message.includes("404")) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    close: async () => {
+      await connection?.close();
+    },
+  };
+}
+
+/**
+ * Internal AMQP checker implementation with injectable client factory
+ */
+async function checkAmqpWithFactory(
+  monitor: Monitor,
+  timeout: number,
+  clientFactory: AmqpClientFactory,
+): Promise<CheckResult> {
+  const target = monitor.spec.target.amqp;
+
+  if (!target) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "INVALID_CONFIG",
+      message: "No AMQP target configured",
+    };
+  }
+
+  const criteria = monitor.spec.successCriteria?.amqp;
+  if (criteria && !target.queue) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "INVALID_CONFIG",
+      message: "AMQP queue thresholds require a queue",
+    };
+  }
+
+  const startTime = Date.now();
+
+  try {
+    // Get credentials from environment variables (injected by Job builder)
+    // Only check env if credentialsSecretRef was defined in the Monitor spec
+    const credentials = target.credentialsSecretRef ? getCredentialsFromEnv() : undefined;
+    if (target.credentialsSecretRef && !credentials) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "CREDENTIALS_ERROR",
+        message: "AMQP credentials not found in environment",
+      };
+    }
+
+    const caBundle = target.tls?.caBundleSecretRef ? getCaBundleFromEnv() : undefined;
+    if (target.tls?.enabled && target.tls.caBundleSecretRef && !caBundle) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "TLS_ERROR",
+        message: "CA bundle not found in environment",
+      };
+    }
+
+    const clientCert = target.tls?.clientCertSecretRef ? getClientCertFromEnv() : undefined;
+    if (target.tls?.enabled && target.tls.clientCertSecretRef && !clientCert) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "TLS_ERROR",
+        message: "Client certificate not found in environment",
+      };
+    }
+
+    const client = await clientFactory({
+      host: target.host,
+      port: target.port ?? 5672,
+      vhost: target.vhost ?? "/",
+      ...credentials,
+      ...(target.tls?.enabled && {
+        tls: {
+          verify: target.tls.verify ?? true,
+          ...(caBundle && { caBundle }),
+          ...(clientCert && { clientCert }),
+        },
+      }),
+      timeoutMs: timeout * 1000,
+    });
+
+    try {
+      const { server } = await client.connect();
+
+      if (!target.queue) {
+        return {
+          state: "up",
+          latencyMs: Date.now() - startTime,
+          reason: "AMQP_OK",
+          message: `${server} connection successful`,
+        };
+      }
+
+      const queue = await client.checkQueue(target.queue);
+      const latencyMs = Date.now() - startTime;
+
+      if (!queue) {
+        return {
+          state: "down",
+          latencyMs,
+          reason: "AMQP_QUEUE_NOT_FOUND",
+          message: `AMQP queue ${target.queue} not found`,
+        };
+      }
+
+      if (criteria?.maxMessages !== undefined && queue.messageCount > criteria.maxMessages) {
+        return {
+          state: "down",
+          latencyMs,
+          reason: "AMQP_QUEUE_DEPTH_EXCEEDED",
+          message: `AMQP queue ${target.queue} has ${queue.messageCount} messages, more than ${criteria.maxMessages}`,
+        };
+      }
+
+      if (criteria?.minConsumers !== undefined && queue.consumerCount < criteria.minConsumers) {
+        return {
+          state: "down",
+          latencyMs,
+          reason: "AMQP_CONSUMERS_BELOW_MIN",
+          message: `AMQP queue ${target.queue} has ${queue.consumerCount} consumers, fewer than ${criteria.minConsumers}`,
+        };
+      }
+
+      return {
+        state: "up",
+        latencyMs,
+        reason: "AMQP_OK",
+        message: `AMQP queue ${target.queue} has ${queue.messageCount} messages and ${queue.consumerCount} consumers`,
+      };
+    } finally {
+      await client.close().catch(() => {
+        // Ignore close errors
+      });
+    }
+  } catch (error) {
+    const latencyMs = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+    logger.warn({ monitor: monitor.metadata.name, error: errorMessage }, "AMQP check failed");
+
+    // Categorize common AMQP errors
+    if (errorMessage.includes("ECONNREFUSED")) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "CONNECTION_REFUSED",
+        message: "AMQP connection refused",
+      };
+    }
+
+    if (errorMessage.includes("ENOTFOUND")) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "DNS_NXDOMAIN",
+        message: "AMQP host not found",
+      };
+    }
+
+    if (errorMessage.includes("ACCESS_REFUSED") || errorMessage.includes("ACCESS-REFUSED")) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "AUTH_FAILED",
+        message: "AMQP authentication failed",
+      };
+    }
+
+    if (isTlsError(error)) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "TLS_ERROR",
+        message: errorMessage,
+      };
+    }
+
+    if (errorMessage.includes("ETIMEDOUT") || /time(d)? ?out/i.test(errorMessage)) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "TIMEOUT",
+        message: `AMQP connection timeout after ${timeout}s`,
+      };
+    }
+
+    return {
+      state: "down",
+      latencyMs,
+      reason: "CONNECTION_ERROR",
+      message: errorMessage,
+    };
+  }
+}
+
+/**
+ * AMQP (RabbitMQ) broker checker
+ */
+export async function checkAmqp(monitor: Monitor, timeout: number): Promise<CheckResult> {
+  return checkAmqpWithFactory(monitor, timeout, createDefaultAmqpClient);
+}
+
+/**
+ * Create an AMQP checker with a custom client factory (for testing)
+ */
+export function createCheckAmqp(
+  clientFactory: AmqpClientFactory,
+): (monitor: Monitor, timeout: number) => Promise<CheckResult> {
+  return (monitor: Monitor, timeout: number) =>
+    checkAmqpWithFactory(monitor, timeout, clientFactory);
+}
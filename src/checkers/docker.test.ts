@@ -0,0 +1,259 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { createDockerMonitor, createDockerMonitorNoTarget } from "../test-utils/fixtures/monitors";
+import { createMockDockerClientFactory } from "../test-utils/mocks/docker";
+import { createCheckDocker, type DockerClientConfig, parseDockerEndpoint } from "./docker";
+
+const startedAgo = (seconds: number) => new Date(Date.now() - seconds * 1000).toISOString();
+
+describe("checkDocker", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test("returns up for a running container", async () => {
+    const checker = createCheckDocker(createMockDockerClientFactory());
+    const result = await checker(createDockerMonitor(), 10);
+
+    expect(result.state).toBe("up");
+    expect(result.reason).toBe("DOCKER_OK");
+    expect(result.message).toContain("Container web running");
+    expect(result.message).toContain("0 restarts");
+  });
+
+  test("returns down when no Docker target configured", async () => {
+    const checker = createCheckDocker(createMockDockerClientFactory());
+    const result = await checker(createDockerMonitorNoTarget(), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("INVALID_CONFIG");
+    expect(result.message).toBe("No Docker target configured");
+  });
+
+  test("returns down for an unsupported endpoint", async () => {
+    const checker = createCheckDocker(createMockDockerClientFactory());
+    const result = await checker(createDockerMonitor({ endpoint: "ssh://docker-host" }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("INVALID_CONFIG");
+    expect(result.message).toBe("Unsupported Docker endpoint: ssh://docker-host");
+  });
+
+  test("returns down when the container does not exist", async () => {
+    const checker = createCheckDocker(createMockDockerClientFactory({ container: null }));
+    const result = await checker(createDockerMonitor({ container: "missing" }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("CONTAINER_NOT_FOUND");
+    expect(result.message).toBe("Container missing not found");
+  });
+
+  test("returns down when the container is not running", async () => {
+    const checker = createCheckDocker(
+      createMockDockerClientFactory({
+        container: { status: "exited", running: false, restartCount: 0, exitCode: 137 },
+      }),
+    );
+    const result = await checker(createDockerMonitor(), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("CONTAINER_NOT_RUNNING");
+    expect(result.message).toBe("Container web is exited (exit code 137)");
+  });
+
+  test("returns down when the container is unhealthy", async () => {
+    const checker = createCheckDocker(
+      createMockDockerClientFactory({
+        container: { status: "running", running: true, health: "unhealthy", restartCount: 0 },
+      }),
+    );
+    const result = await checker(createDockerMonitor(), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("CONTAINER_UNHEALTHY");
+    expect(result.message).toBe("Container web health status is unhealthy");
+  });
+
+  test("returns down while the health check is starting", async () => {
+    const checker = createCheckDocker(
+      createMockDockerClientFactory({
+        container: { status: "running", running: true, health: "starting", restartCount: 0 },
+      }),
+    );
+    const result = await checker(createDockerMonitor(), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("CONTAINER_STARTING");
+  });
+
+  test("ignores health status when requireHealthy is false", async () => {
+    const checker = createCheckDocker(
+      createMockDockerClientFactory({
+        container: { status: "running", running: true, health: "unhealthy", restartCount: 0 },
+      }),
+    );
+    const result = await checker(createDockerMonitor({ requireHealthy: false }), 10);
+
+    expect(result.state).toBe("up");
+    expect(result.message).toContain("health unhealthy");
+  });
+
+  test("returns down when the restart count exceeds the limit", async () => {
+    const checker = createCheckDocker(
+      createMockDockerClientFactory({
+        container: { status: "running", running: true, restartCount: 5 },
+      }),
+    );
+    const result = await checker(createDockerMonitor({ maxRestartCount: 3 }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("RESTART_COUNT_EXCEEDED");
+    expect(result.message).toBe("Container web restarted 5 times (max 3)");
+  });
+
+  test("returns down when uptime is below the minimum", async () => {
+    const checker = createCheckDocker(
+      createMockDockerClientFactory({
+        container: { status: "running", running: true, restartCount: 0, startedAt: startedAgo(30) },
+      }),
+    );
+    const result = await checker(createDockerMonitor({ minUptimeSeconds: 300 }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("UPTIME_TOO_LOW");
+  });
+
+  test("returns up when uptime meets the minimum", async () => {
+    const checker = createCheckDocker(
+      createMockDockerClientFactory({
+        container: {
+          status: "running",
+          running: true,
+          health: "healthy",
+          restartCount: 1,
+          startedAt: startedAgo(600),
+        },
+      }),
+    );
+    const result = await checker(createDockerMonitor({ minUptimeSeconds: 300 }), 10);
+
+    expect(result.state).toBe("up");
+    expect(result.message).toContain("health healthy");
+    expect(result.message).toContain("1 restarts");
+  });
+
+  test("passes TLS client certificates from the environment", async () => {
+    process.env.YUPTIME_CRED_DOCKER_TLS_CA = "ca-pem";
+    process.env.YUPTIME_CRED_DOCKER_TLS_CERT = "cert-pem";
+    process.env.YUPTIME_CRED_DOCKER_TLS_KEY = "key-pem";
+
+    let config: DockerClientConfig | undefined;
+    const checker = createCheckDocker(
+      createMockDockerClientFactory({
+        onConfig: (received) => {
+          config = received;
+        },
+      }),
+    );
+    const result = await checker(
+      createDockerMonitor({
+        endpoint: "tcp://docker.example.com:2376",
+        tlsEnabled: true,
+        secretName: "docker-certs",
+      }),
+      10,
+    );
+
+    expect(result.state).toBe("up");
+    expect(config?.baseUrl).toBe("https://docker.example.com:2376");
+    expect(config?.socketPath).toBeUndefined();
+    expect(config?.tls).toEqual({ ca: "ca-pem", cert: "cert-pem", key: "key-pem", verify: true });
+  });
+
+  test("returns down when TLS client certificates are missing", async () => {
+    delete process.env.YUPTIME_CRED_DOCKER_TLS_CERT;
+    delete process.env.YUPTIME_CRED_DOCKER_TLS_KEY;
+
+    const checker = createCheckDocker(createMockDockerClientFactory());
+    const result = await checker(
+      createDockerMonitor({
+        endpoint: "tcp://docker.example.com:2376",
+        tlsEnabled: true,
+        secretName: "docker-certs",
+      }),
+      10,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("CREDENTIALS_ERROR");
+  });
+
+  // Parameterized error handling tests
+  const errorCases = [
+    {
+      name: "connection refused",
+      error: new Error("connect ECONNREFUSED 127.0.0.1:2375"),
+      reason: "CONNECTION_REFUSED",
+    },
+    {
+      name: "missing socket",
+      error: new Error("ENOENT: no such file or directory"),
+      reason: "CONNECTION_ERROR",
+    },
+    {
+      name: "unknown host",
+      error: new Error("getaddrinfo ENOTFOUND docker.example.com"),
+      reason: "DNS_NXDOMAIN",
+    },
+    {
+      name: "certificate error",
+      error: new Error("unable to verify the first certificate"),
+      reason: "TLS_ERROR",
+    },
+    {
+      name: "API error",
+      error: new Error("Docker API returned HTTP 500: server error"),
+      reason: "DOCKER_API_ERROR",
+    },
+    {
+      name: "timeout",
+      error: Object.assign(new Error("The operation was aborted"), { name: "AbortError" }),
+      reason: "TIMEOUT",
+    },
+  ];
+
+  for (const { name, error, reason } of errorCases) {
+    test(`returns ${reason} for ${name}`, async () => {
+      const checker = createCheckDocker(createMockDockerClientFactory({ inspectError: error }));
+      const result = await checker(createDockerMonitor(), 10);
+
+      expect(result.state).toBe("down");
+      expect(result.reason).toBe(reason);
+    });
+  }
+});
+
+describe("parseDockerEndpoint", () => {
+  test("uses the socket path for unix endpoints", () => {
+    expect(parseDockerEndpoint("unix:///var/run/docker.sock", false)).toEqual({
+      socketPath: "/var/run/docker.sock",
+      baseUrl: "http://localhost",
+    });
+  });
+
+  test("maps tcp endpoints to http or https", () => {
+    expect(parseDockerEndpoint("tcp://10.0.0.5:2375", false)).toEqual({
+      baseUrl: "http://10.0.0.5:2375",
+    });
+    expect(parseDockerEndpoint("tcp://10.0.0.5:2376", true)).toEqual({
+      baseUrl: "https://10.0.0.5:2376",
+    });
+  });
+
+  test("accepts http and https URLs", () => {
+    expect(parseDockerEndpoint("https://docker.example.com:2376/", false)).toEqual({
+      baseUrl: "https://docker.example.com:2376",
+    });
+  });
+});
@@ -0,0 +1,370 @@
+import { logger } from "../lib/logger";
+import type { Monitor } from "../types/crd";
+import type { CheckResult } from "./index";
+
+/**
+ * Get Docker TLS client certificates from environment variables.
+ * These are injected by the Job builder from Kubernetes secrets.
+ */
+function getTlsCredentialsFromEnv(): { ca?: string; cert?: string; key?: string } {
+  return {
+    ca: process.env.YUPTIME_CRED_DOCKER_TLS_CA || undefined,
+    cert: process.env.YUPTIME_CRED_DOCKER_TLS_CERT || undefined,
+    key: process.env.YUPTIME_CRED_DOCKER_TLS_KEY || undefined,
+  };
+}
+
+/**
+ * Container state as reported by the Docker Engine API (GET /containers/{id}/json)
+ */
+export interface DockerContainerState {
+  status: string;
+  running: boolean;
+  health?: string;
+  restartCount: number;
+  startedAt?: string;
+  exitCode?: number;
+}
+
+/**
+ * Docker Engine client interface for dependency injection
+ */
+export interface DockerClient {
+  /** Returns null when the container does not exist */
+  inspectContainer(container: string): Promise<DockerContainerState | null>;
+}
+
+/**
+ * Docker client factory configuration
+ */
+export interface DockerClientConfig {
+  /** Unix socket path, when connecting over a socket */
+  socketPath?: string;
+  /** Base URL of the Engine API, e.g. https://docker.example.com:2376 */
+  baseUrl: string;
+  tls?: {
+    ca?: string;
+    cert?: string;
+    key?: string;
+    verify: boolean;
+  };
+  timeout: number;
+}
+
+/**
+ * Docker client factory type for dependency injection
+ */
+export type DockerClientFactory = (config: DockerClientConfig) => Promise<DockerClient>;
+
+/**
+ * Raw container inspect response (fields used by the checker)
+ */
+interface DockerInspectResponse {
+  RestartCount?: number;
+  State?: {
+    Status?: string;
+    Running?: boolean;
+    ExitCode?: number;
+    StartedAt?: string;
+    Health?: { Status?: string };
+  };
+}
+
+/**
+ * Default Docker client factory using fetch against the Engine HTTP API
+ */
+async function createDefaultDockerClient(config: DockerClientConfig): Promise<DockerClient> {
+  return {
+    inspectContainer: async (container: string) => {
+      const controller = new AbortController();
+      const timeoutHandle = setTimeout(() => controller.abort(), config.timeout * 1000);
+
+      try {
+        const response = await fetch(
+          `${config.baseUrl}/containers/${encodeURIComponent(container)}/json`,
+          {
+            headers: { Accept: "application/json" },
+            signal: controller.signal,
+            ...(config.socketPath && { unix: config.socketPath }),
+            ...(config.tls && {
+              tls: {
+                ca: config.tls.ca,
+                cert: config.tls.cert,
+                key: config.tls.key,
+                rejectUnauthorized: config.tls.verify,
+              },
+            }),
+          },
+        );
+
+        if (response.status === 404) {
+          return null;
+        }
+
+        if (!response.ok) {
+          const body = (await response.json().catch(() => ({}))) as { message?: string };
+          throw new Error(
+            `Docker API returned HTTP ${response.status}${body.message ? `: ${body.message}` : ""}`,
+          );
+        }
+
+        const data = (await response.json()) as DockerInspectResponse;
+        return {
+          status: data.State?.Status ?? "unknown",
+          running: data.State?.Running ?? false,
+          health: data.State?.Health?.Status,
+          restartCount: data.RestartCount ?? 0,
+          startedAt: data.State?.StartedAt,
+          exitCode: data.State?.ExitCode,
+        };
+      } finally {
+        clearTimeout(timeoutHandle);
+      }
+    },
+  };
+}
+
+/**
+ * Resolve a docker endpoint (unix://, tcp://, http://, https://) into client settings
+ */
+export function parseDockerEndpoint(
+  endpoint: string,
+  tlsEnabled: boolean,
+): { socketPath?: string; baseUrl: string } {
+  if (endpoint.startsWith("unix://")) {
+    return { socketPath: endpoint.slice("unix://".length), baseUrl: "http://localhost" };
+  }
+
+  if (endpoint.startsWith("tcp://")) {
+    const scheme = tlsEnabled ? "https" : "http";
+    return { baseUrl: `${scheme}://${endpoint.slice("tcp://".length).replace(/\/+$/, "")}` };
+  }
+
+  if (endpoint.startsWith("http://") || endpoint.startsWith("https://")) {
+    return { baseUrl: endpoint.replace(/\/+$/, "") };
+  }
+
+  throw new Error(`Unsupported Docker endpoint: ${endpoint}`);
+}
+
+/**
+ * Seconds since the container started, if known
+ */
+function getUptimeSeconds(startedAt: string | undefined, now: number): number | undefined {
+  if (!startedAt) return undefined;
+  const started = new Date(startedAt).getTime();
+  if (Number.isNaN(started) || started <= 0) return undefined;
+  return Math.max(0, Math.floor((now - started) / 1000));
+}
+
+/**
+ * Internal Docker checker implementation with injectable client factory
+ */
+async function checkDockerWithFactory(
+  monitor: Monitor,
+  timeout: number,
+  clientFactory: DockerClientFactory,
+): Promise<CheckResult> {
+  const target = monitor.spec.target.docker;
+
+  if (!target) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "INVALID_CONFIG",
+      message: "No Docker target configured",
+    };
+  }
+
+  const startTime = Date.now();
+  const container = target.container;
+
+  try {
+    const tlsEnabled = target.tls?.enabled ?? false;
+    let endpoint: { socketPath?: string; baseUrl: string };
+    try {
+      endpoint = parseDockerEndpoint(target.endpoint ?? "unix:///var/run/docker.sock", tlsEnabled);
+    } catch (error) {
+      return {
+        state: "down",
+        latencyMs: 0,
+        reason: "INVALID_CONFIG",
+        message: error instanceof Error ? error.message : "Invalid Docker endpoint",
+      };
+    }
+
+    // Get client certificates from environment variables (injected by Job builder)
+    const credentials = target.tls?.secretRef ? getTlsCredentialsFromEnv() : {};
+    if (target.tls?.secretRef && (!credentials.cert || !credentials.key)) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "CREDENTIALS_ERROR",
+        message: "Docker TLS client certificate not found in environment",
+      };
+    }
+
+    const client = await clientFactory({
+      ...endpoint,
+      tls:
+        tlsEnabled || endpoint.baseUrl.startsWith("https://")
+          ? { ...credentials, verify: target.tls?.verify ?? true }
+          : undefined,
+      timeout,
+    });
+
+    const state = await client.inspectContainer(container);
+    const latencyMs = Date.now() - startTime;
+
+    if (!state) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "CONTAINER_NOT_FOUND",
+        message: `Container ${container} not found`,
+      };
+    }
+
+    if (!state.running) {
+      const exitCode = state.exitCode !== undefined ? ` (exit code ${state.exitCode})` : "";
+      return {
+        state: "down",
+        latencyMs,
+        reason: "CONTAINER_NOT_RUNNING",
+        message: `Container ${container} is ${state.status}${exitCode}`,
+      };
+    }
+
+    if (target.requireHealthy !== false && state.health && state.health !== "healthy") {
+      return {
+        state: "down",
+        latencyMs,
+        reason: state.health === "starting" ? "CONTAINER_STARTING" : "CONTAINER_UNHEALTHY",
+        message: `Container ${container} health status is ${state.health}`,
+      };
+    }
+
+    if (target.maxRestartCount !== undefined && state.restartCount > target.maxRestartCount) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "RESTART_COUNT_EXCEEDED",
+        message: `Container ${container} restarted ${state.restartCount} times (max ${target.maxRestartCount})`,
+      };
+    }
+
+    const uptimeSeconds = getUptimeSeconds(state.startedAt, Date.now());
+    if (
+      target.minUptimeSeconds !== undefined &&
+      uptimeSeconds !== undefined &&
+      uptimeSeconds < target.minUptimeSeconds
+    ) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "UPTIME_TOO_LOW",
+        message: `Container ${container} up ${uptimeSeconds}s (min ${target.minUptimeSeconds}s)`,
+      };
+    }
+
+    const details = [
+      state.health ? `health ${state.health}` : undefined,
+      uptimeSeconds !== undefined ? `up ${uptimeSeconds}s` : undefined,
+      `${state.restartCount} restarts`,
+    ].filter(Boolean);
+
+    return {
+      state: "up",
+      latencyMs,
+      reason: "DOCKER_OK",
+      message: `Container ${container} running (${details.join(", ")})`,
+    };
+  } catch (error) {
+    const latencyMs = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    const errorCode = (error as { code?: string }).code ?? "";
+
+    logger.warn(
+      { monitor: monitor.metadata.name, container, error: errorMessage || errorCode },
+      "Docker check failed",
+    );
+
+    if (error instanceof Error && error.name === "AbortError") {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "TIMEOUT",
+        message: `Docker API timeout after ${timeout}s`,
+      };
+    }
+
+    if (errorMessage.includes("ECONNREFUSED") || errorCode === "ECONNREFUSED") {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "CONNECTION_REFUSED",
+        message: "Docker Engine connection refused",
+      };
+    }
+
+    if (errorMessage.includes("ENOENT") || errorCode === "ENOENT") {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "CONNECTION_ERROR",
+        message: "Docker socket not found",
+      };
+    }
+
+    if (errorMessage.includes("ENOTFOUND") || errorCode === "ENOTFOUND") {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "DNS_NXDOMAIN",
+        message: "Docker host not found",
+      };
+    }
+
+    if (errorMessage.toLowerCase().includes("certificate") || errorCode.startsWith("ERR_TLS")) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "TLS_ERROR",
+        message: errorMessage,
+      };
+    }
+
+    if (errorMessage.startsWith("Docker API returned HTTP")) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "DOCKER_API_ERROR",
+        message: errorMessage,
+      };
+    }
+
+    return {
+      state: "down",
+      latencyMs,
+      reason: "CONNECTION_ERROR",
+      message: errorMessage || errorCode || "Unknown connection error",
+    };
+  }
+}
+
+/**
+ * Docker container health checker
+ */
+export async function checkDocker(monitor: Monitor, timeout: number): Promise<CheckResult> {
+  return checkDockerWithFactory(monitor, timeout, createDefaultDockerClient);
+}
+
+/**
+ * Create a Docker checker with a custom client factory (for testing)
+ */
+export function createCheckDocker(
+  clientFactory: DockerClientFactory,
+): (monitor: Monitor, timeout: number) => Promise<CheckResult> {
+  return (monitor: Monitor, timeout: number) =>
+    checkDockerWithFactory(monitor, timeout, clientFactory);
+}
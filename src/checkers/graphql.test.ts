@@ -0,0 +1,124 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { createGraphqlMonitor } from "../test-utils/fixtures/monitors";
+import { checkGraphql } from "./graphql";
+
+interface GraphqlRequest {
+  query: string;
+  operationName?: string;
+  variables?: Record<string, unknown>;
+}
+
+describe("checkGraphql", () => {
+  const originalEnv = { ...process.env };
+  let server: ReturnType<typeof Bun.serve>;
+  let url: string;
+  let lastRequest: { body: GraphqlRequest; authorization: string | null } | undefined;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      async fetch(req) {
+        const body = (await req.json()) as GraphqlRequest;
+        lastRequest = { body, authorization: req.headers.get("authorization") };
+
+        if (body.query.includes("broken")) {
+          return new Response("upstream failure", { status: 500 });
+        }
+
+        if (body.query.includes("missingField")) {
+          return Response.json({
+            data: null,
+            errors: [
+              { message: 'Cannot query field "missingField" on type "Query".' },
+              { message: "Second error" },
+            ],
+          });
+        }
+
+        return Response.json({
+          data: { user: { id: body.variables?.id ?? null, roles: ["admin", "viewer"] } },
+        });
+      },
+    });
+    url = `http://127.0.0.1:${server.port}/graphql`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    lastRequest = undefined;
+  });
+
+  test("sends the query, operation name, variables and auth", async () => {
+    process.env.YUPTIME_AUTH_BEARER_TOKEN = "gql-token";
+
+    const result = await checkGraphql(
+      createGraphqlMonitor({
+        url,
+        query: "query GetUser($id: ID!) { user(id: $id) { id roles } }",
+        operationName: "GetUser",
+        variables: { id: "42" },
+        auth: { bearer: { tokenSecretRef: { name: "graphql-token", key: "token" } } },
+      }),
+      5,
+    );
+
+    expect(result.state).toBe("up");
+    expect(result.reason).toBe("GRAPHQL_OK");
+    expect(lastRequest?.body.operationName).toBe("GetUser");
+    expect(lastRequest?.body.variables).toEqual({ id: "42" });
+    expect(lastRequest?.authorization).toBe("Bearer gql-token");
+  });
+
+  test("is down when the response has errors, even with HTTP 200", async () => {
+    const result = await checkGraphql(createGraphqlMonitor({ url, query: "{ missingField }" }), 5);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("GRAPHQL_ERROR");
+    expect(result.message).toBe(
+      'GraphQL error: Cannot query field "missingField" on type "Query". (and 1 more)',
+    );
+  });
+
+  test("evaluates jsonQuery criteria against data", async () => {
+    const monitor = (equals: string) =>
+      createGraphqlMonitor(
+        { url, query: "query($id: ID!) { user(id: $id) { id } }", variables: { id: "7" } },
+        { jsonQuery: { mode: "jsonpath-plus", path: "$.user.id", equals } },
+      );
+
+    expect((await checkGraphql(monitor("7"), 5)).state).toBe("up");
+
+    const result = await checkGraphql(monitor("8"), 5);
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("JSON_VALIDATION_FAILED");
+  });
+
+  test("checks the HTTP status code", async () => {
+    const result = await checkGraphql(createGraphqlMonitor({ url, query: "{ broken }" }), 5);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("HTTP_500");
+  });
+
+  test("reports missing auth credentials", async () => {
+    delete process.env.YUPTIME_AUTH_BEARER_TOKEN;
+
+    const result = await checkGraphql(
+      createGraphqlMonitor({
+        url,
+        query: "{ user { id } }",
+        auth: { bearer: { tokenSecretRef: { name: "graphql-token", key: "token" } } },
+      }),
+      5,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("AUTH_ERROR");
+    expect(lastRequest).toBeUndefined();
+  });
+});
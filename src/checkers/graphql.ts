@@ -0,0 +1,255 @@
+/**
+ * GraphQL checker
+ * POSTs a query to a GraphQL endpoint. GraphQL servers report most failures with
+ * HTTP 200 and an errors array, so a non-empty errors array marks the monitor down.
+ */
+
+import { isTlsError } from "../lib/certificates";
+import { logger } from "../lib/logger";
+import { queryJsonPath, validateJsonPathResult } from "../lib/parsers";
+import { openProxyEndpoint, resolveProxy } from "../lib/proxy";
+import { resolveSecretCached } from "../lib/secrets";
+import type { Monitor } from "../types/crd";
+import { buildAuthHeaders, type CheckResult } from "./http";
+
+interface GraphqlResponse {
+  data?: unknown;
+  errors?: { message?: string }[];
+}
+
+/**
+ * Summarize a GraphQL errors array for the check message
+ */
+function describeErrors(errors: { message?: string }[]): string {
+  const [first] = errors;
+  const message = first?.message ?? "Unknown GraphQL error";
+  return errors.length > 1 ? `${message} (and ${errors.length - 1} more)` : message;
+}
+
+/**
+ * Execute GraphQL check
+ */
+export async function checkGraphql(monitor: Monitor, timeout: number): Promise<CheckResult> {
+  const target = monitor.spec.target.graphql;
+
+  if (!target) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "INVALID_CONFIG",
+      message: "No GraphQL target configured",
+    };
+  }
+
+  const startTime = Date.now();
+  const namespace = monitor.metadata.namespace;
+
+  const headers = new Headers();
+  headers.set("User-Agent", "Yuptime/1.0");
+  headers.set("Content-Type", "application/json");
+  headers.set("Accept", "application/graphql-response+json, application/json");
+
+  // Add authentication headers (Basic, Bearer, OAuth2)
+  const authResult = await buildAuthHeaders(target.auth, timeout);
+  if (authResult.error) {
+    return {
+      state: "down",
+      latencyMs: Date.now() - startTime,
+      reason: "AUTH_ERROR",
+      message: authResult.error,
+    };
+  }
+  authResult.headers.forEach((value, key) => {
+    headers.set(key, value);
+  });
+
+  // Resolve secret-backed headers and variables
+  const variables: Record<string, unknown> = { ...target.variables };
+  try {
+    for (const header of target.headers ?? []) {
+      headers.set(
+        header.name,
+        header.valueFromSecretRef
+          ? await resolveSecretCached(
+              namespace,
+              header.valueFromSecretRef.name,
+              header.valueFromSecretRef.key,
+            )
+          : (header.value ?? ""),
+      );
+    }
+
+    for (const variable of target.variablesFromSecrets ?? []) {
+      variables[variable.name] = await resolveSecretCached(
+        namespace,
+        variable.valueFromSecretRef.name,
+        variable.valueFromSecretRef.key,
+      );
+    }
+  } catch (error) {
+    return {
+      state: "down",
+      latencyMs: Date.now() - startTime,
+      reason: "SECRET_ERROR",
+      message: `Failed to resolve secret: ${error instanceof Error ? error.message : "Unknown error"}`,
+    };
+  }
+
+  const { proxy, error: proxyError } = resolveProxy(target.proxy, new URL(target.url).hostname);
+  if (proxyError) {
+    return {
+      state: "down",
+      latencyMs: Date.now() - startTime,
+      reason: "PROXY_ERROR",
+      message: proxyError,
+    };
+  }
+
+  const controller = new AbortController();
+  const timeoutHandle = setTimeout(() => controller.abort(), timeout * 1000);
+
+  try {
+    const proxyEndpoint = proxy ? await openProxyEndpoint(proxy, timeout * 1000) : undefined;
+    let response: Response;
+    let body: string;
+
+    try {
+      response = await fetch(target.url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          query: target.query,
+          ...(target.operationName && { operationName: target.operationName }),
+          ...(Object.keys(variables).length > 0 && { variables }),
+        }),
+        signal: controller.signal,
+        tls: { rejectUnauthorized: target.tls?.verify ?? true },
+        ...(proxyEndpoint && { proxy: proxyEndpoint.url }),
+      });
+      body = await response.text();
+    } finally {
+      proxyEndpoint?.close();
+    }
+
+    const latencyMs = Date.now() - startTime;
+    const successCriteria = monitor.spec.successCriteria;
+    const acceptedCodes = successCriteria?.http?.acceptedStatusCodes || [200];
+
+    if (!acceptedCodes.includes(response.status)) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: `HTTP_${response.status}`,
+        message: `HTTP ${response.status} received`,
+      };
+    }
+
+    let result: GraphqlResponse;
+    try {
+      result = JSON.parse(body);
+    } catch (_error) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "JSON_ERROR",
+        message: "Response body is not valid JSON",
+      };
+    }
+
+    if (Array.isArray(result?.errors) && result.errors.length > 0) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "GRAPHQL_ERROR",
+        message: `GraphQL error: ${describeErrors(result.errors)}`,
+      };
+    }
+
+    if (result?.data === undefined || result.data === null) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "GRAPHQL_NO_DATA",
+        message: "GraphQL response contains no data",
+      };
+    }
+
+    const latencyThreshold = successCriteria?.http?.latencyMsUnder;
+    if (latencyThreshold && latencyMs > latencyThreshold) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "LATENCY_EXCEEDED",
+        message: `Latency ${latencyMs}ms exceeds threshold ${latencyThreshold}ms`,
+      };
+    }
+
+    // jsonQuery criteria are evaluated against data, not the whole response
+    const jsonQuery = successCriteria?.jsonQuery;
+    if (jsonQuery) {
+      const validation = validateJsonPathResult(
+        queryJsonPath(result.data, jsonQuery.path),
+        jsonQuery,
+      );
+      if (!validation.valid) {
+        return {
+          state: "down",
+          latencyMs,
+          reason: "JSON_VALIDATION_FAILED",
+          message: validation.message,
+        };
+      }
+    }
+
+    return {
+      state: "up",
+      latencyMs,
+      reason: "GRAPHQL_OK",
+      message: target.operationName
+        ? `GraphQL operation ${target.operationName} succeeded`
+        : "GraphQL query succeeded",
+    };
+  } catch (error) {
+    const latencyMs = Date.now() - startTime;
+
+    if (error instanceof Error) {
+      if (error.name === "AbortError") {
+        return {
+          state: "down",
+          latencyMs: timeout * 1000,
+          reason: "TIMEOUT",
+          message: `Request timeout after ${timeout}s`,
+        };
+      }
+
+      if (error.message.includes("ECONNREFUSED")) {
+        return {
+          state: "down",
+          latencyMs,
+          reason: "CONNECTION_REFUSED",
+          message: "Connection refused",
+        };
+      }
+
+      if (isTlsError(error)) {
+        return {
+          state: "down",
+          latencyMs,
+          reason: "TLS_ERROR",
+          message: error.message,
+        };
+      }
+    }
+
+    logger.warn({ monitor: monitor.metadata.name, error }, "GraphQL check failed with error");
+
+    return {
+      state: "down",
+      latencyMs,
+      reason: "ERROR",
+      message: error instanceof Error ? error.message : "Unknown error",
+    };
+  } finally {
+    clearTimeout(timeoutHandle);
+  }
+}
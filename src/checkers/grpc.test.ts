@@ -1,7 +1,8 @@
 import { describe, expect, test } from "bun:test";
 import { createGrpcMonitor, createGrpcMonitorNoTarget } from "../test-utils/fixtures/monitors";
 import { createGrpcError, createMockGrpcClientFactory } from "../test-utils/mocks/database";
-import { createCheckGrpc, GRPC_HEALTH_STATUS } from "./grpc";
+import { createMockCertificateInspector } from "../test-utils/mocks/network";
+import { createCheckGrpc, GRPC_HEALTH_STATUS, type GrpcClientConfig } from "./grpc";
 
 describe("checkGrpc", () => {
   test("returns up for SERVING status", async () => {
@@ -134,18 +135,119 @@ describe("checkGrpc", () => {
   });
 
   test("handles TLS enabled", async () => {
+    const inspector = createMockCertificateInspector({ daysRemaining: 30 });
     const checker = createCheckGrpc(
       createMockGrpcClientFactory({ checkStatus: GRPC_HEALTH_STATUS.SERVING }),
+      inspector,
     );
     const result = await checker(createGrpcMonitor({ tlsEnabled: true }), 10);
 
     expect(result.state).toBe("up");
     expect(result.reason).toBe("GRPC_SERVING");
+    expect(result.cert?.daysRemaining).toBe(30);
+    expect(inspector.calls[0]?.servername).toBe("grpc.example.com");
+  });
+
+  test("stays up when the certificate cannot be inspected", async () => {
+    const checker = createCheckGrpc(
+      createMockGrpcClientFactory({ checkStatus: GRPC_HEALTH_STATUS.SERVING }),
+      createMockCertificateInspector(new Error("socket hang up")),
+    );
+    const result = await checker(createGrpcMonitor({ tlsEnabled: true }), 10);
+
+    expect(result.state).toBe("up");
+    expect(result.cert).toBeUndefined();
+  });
+
+  test("does not inspect certificates without TLS", async () => {
+    const inspector = createMockCertificateInspector();
+    const checker = createCheckGrpc(
+      createMockGrpcClientFactory({ checkStatus: GRPC_HEALTH_STATUS.SERVING }),
+      inspector,
+    );
+    const result = await checker(createGrpcMonitor(), 10);
+
+    expect(result.cert).toBeUndefined();
+    expect(inspector.calls).toHaveLength(0);
+  });
+
+  test("verifies TLS against the configured host when connecting to an IP", async () => {
+    let config: GrpcClientConfig | undefined;
+    const checker = createCheckGrpc(async (clientConfig) => {
+      config = clientConfig;
+      return createMockGrpcClientFactory({ checkStatus: GRPC_HEALTH_STATUS.SERVING })(clientConfig);
+    }, createMockCertificateInspector());
+    const monitor = createGrpcMonitor({ host: "127.0.0.1", tlsEnabled: true });
+    monitor.spec.target.grpc.tls = { enabled: true, verify: true, sni: "grpc.internal" } as never;
+
+    await checker(monitor, 10);
+
+    expect(config?.tls).toBe(true);
+    expect(config?.verifyTls).toBe(true);
+    expect(config?.servername).toBe("grpc.internal");
+  });
+
+  test("presents the client certificate from the environment", async () => {
+    const originalCert = process.env.YUPTIME_TLS_CLIENT_CERT;
+    const originalKey = process.env.YUPTIME_TLS_CLIENT_KEY;
+    process.env.YUPTIME_TLS_CLIENT_CERT = "client-cert";
+    process.env.YUPTIME_TLS_CLIENT_KEY = "client-key";
+
+    try {
+      let config: GrpcClientConfig | undefined;
+      const inspector = createMockCertificateInspector();
+      const checker = createCheckGrpc(async (clientConfig) => {
+        config = clientConfig;
+        return createMockGrpcClientFactory({ checkStatus: GRPC_HEALTH_STATUS.SERVING })(
+          clientConfig,
+        );
+      }, inspector);
+      const monitor = createGrpcMonitor({ tlsEnabled: true });
+      monitor.spec.target.grpc.tls = {
+        enabled: true,
+        verify: true,
+        clientCertSecretRef: { name: "grpc-client", certKey: "tls.crt", keyKey: "tls.key" },
+      } as never;
+
+      const result = await checker(monitor, 10);
+
+      expect(result.state).toBe("up");
+      expect(config?.clientCert).toEqual({ cert: "client-cert", key: "client-key" });
+      expect(inspector.calls[0]?.clientCert).toEqual({ cert: "client-cert", key: "client-key" });
+    } finally {
+      if (originalCert === undefined) {
+        delete process.env.YUPTIME_TLS_CLIENT_CERT;
+      } else {
+        process.env.YUPTIME_TLS_CLIENT_CERT = originalCert;
+      }
+      if (originalKey === undefined) {
+        delete process.env.YUPTIME_TLS_CLIENT_KEY;
+      } else {
+        process.env.YUPTIME_TLS_CLIENT_KEY = originalKey;
+      }
+    }
+  });
+
+  test("returns TLS_ERROR for certificate failures", async () => {
+    const checker = createCheckGrpc(
+      createMockGrpcClientFactory({
+        checkError: createGrpcError(
+          "14 UNAVAILABLE: No connection established. Last error: self-signed certificate",
+          14,
+        ),
+      }),
+      createMockCertificateInspector(),
+    );
+    const result = await checker(createGrpcMonitor({ tlsEnabled: true }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("TLS_ERROR");
   });
 
   test("handles TLS with verification disabled", async () => {
     const checker = createCheckGrpc(
       createMockGrpcClientFactory({ checkStatus: GRPC_HEALTH_STATUS.SERVING }),
+      createMockCertificateInspector(),
     );
     const result = await checker(createGrpcMonitor({ tlsEnabled: true, tlsVerify: false }), 10);
 
@@ -1,6 +1,15 @@
+import {
+  type CertificateInspector,
+  type ClientCertificate,
+  getCaBundleFromEnv,
+  getClientCertFromEnv,
+  inspectCertificate,
+  isTlsError,
+  withSystemRoots,
+} from "../lib/certificates";
 import { getDnsConfigFromEnv, resolveHostname } from "../lib/dns";
 import { logger } from "../lib/logger";
-import type { Monitor } from "../types/crd";
+import type { CertificateInfo, Monitor } from "../types/crd";
 import type { CheckResult } from "./index";
 
 /**
@@ -30,6 +39,12 @@ export interface GrpcClientConfig {
   port: number;
   tls: boolean;
   verifyTls: boolean;
+  /** Name to verify the server certificate against (SNI), when it differs from host */
+  servername?: string;
+  /** PEM bundle of additional trusted CAs */
+  caBundle?: string;
+  /** Client certificate presented for mutual TLS */
+  clientCert?: ClientCertificate;
   timeout: number;
 }
 
@@ -96,14 +111,26 @@ service Health {
 
   const address = `${config.host}:${config.port}`;
   const credentials = config.tls
-    ? grpc.credentials.createSsl(null, null, null, {
-        checkServerIdentity: config.verifyTls ? undefined : () => undefined,
-      })
+    ? grpc.credentials.createSsl(
+        config.caBundle ? Buffer.from(withSystemRoots(config.caBundle).join("\n")) : null,
+        config.clientCert ? Buffer.from(config.clientCert.key) : null,
+        config.clientCert ? Buffer.from(config.clientCert.cert) : null,
+        {
+          rejectUnauthorized: config.verifyTls,
+          checkServerIdentity: config.verifyTls ? undefined : () => undefined,
+        },
+      )
     : grpc.credentials.createInsecure();
 
   const client = new HealthClient(address, credentials, {
     "grpc.initial_reconnect_backoff_ms": 100,
     "grpc.max_reconnect_backoff_ms": config.timeout,
+    // Verify against the configured hostname when connecting to a resolved IP
+    ...(config.tls &&
+      config.servername && {
+        "grpc.ssl_target_name_override": config.servername,
+        "grpc.default_authority": config.servername,
+      }),
   });
 
   // Set deadline for connection
@@ -133,6 +160,39 @@ service Health {
   };
 }
 
+/**
+ * Capture the server certificate of a TLS gRPC target
+ * The health check already proved the connection works, so failures are only logged.
+ */
+async function inspectGrpcCertificate(
+  monitor: Monitor,
+  connection: {
+    host: string;
+    servername: string;
+    caBundle?: string | undefined;
+    clientCert?: ClientCertificate | undefined;
+  },
+  timeout: number,
+  certificateInspector: CertificateInspector,
+): Promise<CertificateInfo | undefined> {
+  const target = monitor.spec.target.grpc;
+  if (!target) return undefined;
+
+  try {
+    return await certificateInspector({
+      host: connection.host,
+      port: target.port ?? 50051,
+      servername: connection.servername,
+      ...(connection.caBundle && { ca: connection.caBundle }),
+      ...(connection.clientCert && { clientCert: connection.clientCert }),
+      timeoutMs: timeout * 1000,
+    });
+  } catch (error) {
+    logger.warn({ monitor: monitor.metadata.name, error }, "Failed to inspect gRPC certificate");
+    return undefined;
+  }
+}
+
 /**
  * Internal gRPC checker implementation with injectable client factory
  */
@@ -140,6 +200,7 @@ async function checkGrpcWithFactory(
   monitor: Monitor,
   timeout: number,
   clientFactory: (config: GrpcClientConfig) => Promise<GrpcHealthClient>,
+  certificateInspector: CertificateInspector,
 ): Promise<CheckResult> {
   const target = monitor.spec.target.grpc;
 
@@ -173,11 +234,36 @@ async function checkGrpcWithFactory(
       );
     }
 
+    const caBundle = target.tls?.caBundleSecretRef ? getCaBundleFromEnv() : undefined;
+    if (target.tls?.enabled && target.tls.caBundleSecretRef && !caBundle) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "TLS_ERROR",
+        message: "CA bundle not found in environment",
+      };
+    }
+
+    const clientCert = target.tls?.clientCertSecretRef ? getClientCertFromEnv() : undefined;
+    if (target.tls?.enabled && target.tls.clientCertSecretRef && !clientCert) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "TLS_ERROR",
+        message: "Client certificate not found in environment",
+      };
+    }
+
+    const servername = target.tls?.sni ?? target.host;
+
     client = await clientFactory({
       host: resolvedHost,
       port: target.port ?? 50051,
       tls: target.tls?.enabled ?? false,
       verifyTls: target.tls?.verify ?? true,
+      ...(servername !== resolvedHost && { servername }),
+      ...(caBundle && { caBundle }),
+      ...(clientCert && { clientCert }),
       timeout: timeout * 1000,
     });
 
@@ -186,6 +272,14 @@ async function checkGrpcWithFactory(
     });
 
     const latencyMs = Date.now() - startTime;
+    const cert = target.tls?.enabled
+      ? await inspectGrpcCertificate(
+          monitor,
+          { host: resolvedHost, servername, caBundle, clientCert },
+          timeout,
+          certificateInspector,
+        )
+      : undefined;
 
     switch (response.status) {
       case GRPC_HEALTH_STATUS.SERVING:
@@ -194,6 +288,7 @@ async function checkGrpcWithFactory(
           latencyMs,
           reason: "GRPC_SERVING",
           message: "gRPC service is serving",
+          ...(cert && { cert }),
         };
 
       case GRPC_HEALTH_STATUS.NOT_SERVING:
@@ -202,6 +297,7 @@ async function checkGrpcWithFactory(
           latencyMs,
           reason: "GRPC_NOT_SERVING",
           message: "gRPC service is not serving",
+          ...(cert && { cert }),
         };
 
       case GRPC_HEALTH_STATUS.SERVICE_UNKNOWN:
@@ -210,6 +306,7 @@ async function checkGrpcWithFactory(
           latencyMs,
           reason: "GRPC_SERVICE_UNKNOWN",
           message: `gRPC service '${target.service}' is unknown`,
+          ...(cert && { cert }),
         };
 
       default:
@@ -218,6 +315,7 @@ async function checkGrpcWithFactory(
           latencyMs,
           reason: "GRPC_UNKNOWN",
           message: `gRPC health check returned unknown status: ${response.status}`,
+          ...(cert && { cert }),
         };
     }
   } catch (error) {
@@ -233,6 +331,16 @@ async function checkGrpcWithFactory(
       "gRPC check failed",
     );
 
+    // Certificate failures surface as UNAVAILABLE, so check for them first
+    if (isTlsError(error)) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "TLS_ERROR",
+        message: errorMessage,
+      };
+    }
+
     // Categorize common gRPC errors
     // gRPC status codes: https://grpc.io/docs/guides/status-codes/
     if (errorCode === 14) {
@@ -290,15 +398,16 @@ async function checkGrpcWithFactory(
  * gRPC health checker
  */
 export async function checkGrpc(monitor: Monitor, timeout: number): Promise<CheckResult> {
-  return checkGrpcWithFactory(monitor, timeout, createDefaultGrpcClient);
+  return checkGrpcWithFactory(monitor, timeout, createDefaultGrpcClient, inspectCertificate);
 }
 
 /**
- * Create a gRPC checker with a custom client factory (for testing)
+ * Create a gRPC checker with a custom client factory and certificate inspector (for testing)
  */
 export function createCheckGrpc(
   clientFactory: (config: GrpcClientConfig) => Promise<GrpcHealthClient>,
+  certificateInspector: CertificateInspector = inspectCertificate,
 ): (monitor: Monitor, timeout: number) => Promise<CheckResult> {
   return (monitor: Monitor, timeout: number) =>
-    checkGrpcWithFactory(monitor, timeout, clientFactory);
+    checkGrpcWithFactory(monitor, timeout, clientFactory, certificateInspector);
 }
@@ -0,0 +1,172 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createHttpStepsMonitor } from "../test-utils/fixtures/monitors";
+import { checkHttpSteps } from "./http-steps";
+
+describe("checkHttpSteps", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let baseUrl: string;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      async fetch(req) {
+        const url = new URL(req.url);
+
+        if (url.pathname === "/login") {
+          const credentials = (await req.json()) as { username?: string };
+          if (credentials.username !== "monitor") {
+            return new Response("denied", { status: 401 });
+          }
+          return new Response(null, {
+            status: 302,
+            headers: { Location: "/welcome", "Set-Cookie": "session=s3cr3t; Path=/; HttpOnly" },
+          });
+        }
+
+        if (url.pathname === "/welcome") {
+          const session = req.headers.get("cookie") === "session=s3cr3t";
+          return Response.json(
+            { token: session ? "t0k3n" : null, user: { id: 42 } },
+            { headers: { "X-Request-Id": "req-1" } },
+          );
+        }
+
+        if (url.pathname === "/api/items") {
+          if (req.headers.get("authorization") !== "Bearer t0k3n") {
+            return new Response("unauthorized", { status: 401 });
+          }
+          return Response.json({ items: [1, 2, 3], owner: url.searchParams.get("owner") });
+        }
+
+        return new Response("not found", { status: 404 });
+      },
+    });
+    baseUrl = `http://127.0.0.1:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  function loginStep(username = "monitor") {
+    return {
+      name: "login",
+      url: `${baseUrl}/login`,
+      method: "POST" as const,
+      body: { type: "json" as const, json: { username } },
+      extract: [
+        { name: "token", jsonPath: "$.token" },
+        { name: "userId", jsonPath: "$.user.id" },
+        { name: "session", cookie: "session" },
+        { name: "requestId", header: "X-Request-Id" },
+      ],
+    };
+  }
+
+  test("passes extracted values and cookies to later steps", async () => {
+    const result = await checkHttpSteps(
+      createHttpStepsMonitor([
+        loginStep(),
+        {
+          name: "list items",
+          url: `${baseUrl}/api/items?owner=\${userId}`,
+          headers: [{ name: "Authorization", value: `Bearer \${token}` }],
+          successCriteria: {
+            jsonQueries: [
+              { path: "$.items[*]", count: 3 },
+              { path: "$.owner", equals: "42" },
+            ],
+          },
+        },
+      ]),
+      5,
+    );
+
+    expect(result.state).toBe("up");
+    expect(result.reason).toBe("HTTP_STEPS_OK");
+    expect(result.steps).toHaveLength(2);
+    expect(result.steps?.[0]).toMatchObject({ name: "login", state: "up", statusCode: 200 });
+    expect(result.steps?.[1]?.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  test("reports the failing step and skips the rest", async () => {
+    const result = await checkHttpSteps(
+      createHttpStepsMonitor([
+        loginStep("intruder"),
+        { name: "list items", url: `${baseUrl}/api/items` },
+      ]),
+      5,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("HTTP_401");
+    expect(result.message).toBe('Step "login" failed: HTTP 401 received');
+    expect(result.steps).toEqual([
+      { name: "login", state: "down", latencyMs: expect.any(Number), statusCode: 401 },
+    ]);
+  });
+
+  test("applies per-step success criteria", async () => {
+    const result = await checkHttpSteps(
+      createHttpStepsMonitor([
+        loginStep(),
+        {
+          name: "list items",
+          url: `${baseUrl}/api/items`,
+          headers: [{ name: "Authorization", value: `Bearer \${token}` }],
+          successCriteria: { contains: ["archived"] },
+        },
+      ]),
+      5,
+    );
+
+    expect(result.reason).toBe("KEYWORD_MISSING");
+    expect(result.message).toStartWith('Step "list items" failed');
+    expect(result.steps?.map((step) => step.state)).toEqual(["up", "down"]);
+  });
+
+  test("fails when a value cannot be extracted", async () => {
+    const result = await checkHttpSteps(
+      createHttpStepsMonitor([
+        {
+          name: "welcome",
+          url: `${baseUrl}/welcome`,
+          extract: [{ name: "x", jsonPath: "$.nope" }],
+        },
+      ]),
+      5,
+    );
+
+    expect(result.reason).toBe("EXTRACT_FAILED");
+    expect(result.message).toBe('Step "welcome" failed: Could not extract x from $.nope');
+  });
+
+  test("fails when a step references an undefined variable", async () => {
+    const result = await checkHttpSteps(
+      createHttpStepsMonitor([{ name: "items", url: `${baseUrl}/api/items?owner=\${owner}` }]),
+      5,
+    );
+
+    expect(result.reason).toBe("VARIABLE_UNDEFINED");
+    expect(result.message).toBe(`Step "items" failed: Variable \${owner} is not defined`);
+  });
+
+  test("reports connection errors against the current step", async () => {
+    const result = await checkHttpSteps(
+      createHttpStepsMonitor([{ name: "unreachable", url: "http://127.0.0.1:1/" }]),
+      5,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.message).toStartWith('Step "unreachable" failed');
+    expect(result.steps?.[0]?.state).toBe("down");
+  });
+
+  test("returns down when no httpSteps target configured", async () => {
+    const monitor = createHttpStepsMonitor([]);
+    const result = await checkHttpSteps({ ...monitor, spec: { ...monitor.spec, target: {} } }, 5);
+
+    expect(result.reason).toBe("INVALID_CONFIG");
+  });
+});
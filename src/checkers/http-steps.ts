@@ -0,0 +1,408 @@
+/**
+ * Multi-step HTTP transaction checker
+ * Runs an ordered list of requests (e.g. log in, then call an authenticated API),
+ * passing values extracted from one response to the requests of later steps.
+ */
+
+import { logger } from "../lib/logger";
+import { queryJsonPath, validateJsonPathResult } from "../lib/parsers";
+import { openProxyEndpoint, resolveProxy } from "../lib/proxy";
+import { resolveSecretCached } from "../lib/secrets";
+import { renderJsonTemplate, renderTemplate } from "../lib/template";
+import type { Monitor } from "../types/crd";
+import type {
+  HttpStep,
+  HttpStepCriteria,
+  HttpStepResult,
+  HttpStepsTarget,
+} from "../types/crd/monitor";
+import { type CheckResult, checkHeaderAssertions, fetchWithRedirects } from "./http";
+
+/**
+ * Cookies set during the transaction, by hostname
+ */
+type CookieJar = Map<string, Map<string, string>>;
+
+/**
+ * Variables and cookies carried between steps
+ */
+interface StepContext {
+  namespace: string;
+  variables: Record<string, string>;
+  cookies: CookieJar;
+  signal: AbortSignal;
+  timeout: number;
+}
+
+interface StepFailure {
+  reason: string;
+  message: string;
+}
+
+interface StepOutcome {
+  latencyMs: number;
+  statusCode?: number;
+  failure?: StepFailure;
+}
+
+/**
+ * Remember the cookies a response sets for its host
+ */
+function storeCookies(jar: CookieJar, url: string, response: Response): void {
+  const hostname = new URL(url).hostname;
+  const cookies = jar.get(hostname) ?? new Map<string, string>();
+
+  for (const header of response.headers.getSetCookie()) {
+    const [pair = ""] = header.split(";");
+    const separator = pair.indexOf("=");
+    if (separator > 0) {
+      cookies.set(pair.slice(0, separator).trim(), pair.slice(separator + 1).trim());
+    }
+  }
+
+  jar.set(hostname, cookies);
+}
+
+/**
+ * Cookie header for a host, or undefined when nothing was set for it
+ */
+function cookieHeader(jar: CookieJar, url: string | URL): string | undefined {
+  const cookies = jar.get(new URL(url).hostname);
+  if (!cookies || cookies.size === 0) {
+    return undefined;
+  }
+  return [...cookies].map(([name, value]) => `${name}=${value}`).join("; ");
+}
+
+/**
+ * Build the request headers of a step, resolving secrets and variables
+ */
+async function buildStepHeaders(
+  step: HttpStep,
+  url: string,
+  context: StepContext,
+): Promise<{ headers: Headers; failure?: StepFailure }> {
+  const headers = new Headers();
+  headers.set("User-Agent", "Yuptime/1.0");
+
+  const cookies = cookieHeader(context.cookies, url);
+  if (cookies) {
+    headers.set("Cookie", cookies);
+  }
+
+  for (const header of step.headers ?? []) {
+    if (header.valueFromSecretRef) {
+      try {
+        headers.set(
+          header.name,
+          await resolveSecretCached(
+            context.namespace,
+            header.valueFromSecretRef.name,
+            header.valueFromSecretRef.key,
+          ),
+        );
+      } catch (_error) {
+        return {
+          headers,
+          failure: {
+            reason: "SECRET_ERROR",
+            message: `Failed to resolve secret for header ${header.name}`,
+          },
+        };
+      }
+      continue;
+    }
+
+    const rendered = renderTemplate(header.value ?? "", context.variables);
+    if (rendered.missing) {
+      return { headers, failure: undefinedVariable(rendered.missing) };
+    }
+    headers.set(header.name, rendered.value);
+  }
+
+  return { headers };
+}
+
+function undefinedVariable(name: string): StepFailure {
+  return { reason: "VARIABLE_UNDEFINED", message: `Variable \${${name}} is not defined` };
+}
+
+/**
+ * Parse a response body as JSON, caching the result for later queries
+ */
+function parseJsonBody(body: string, cache: { data?: unknown }): unknown {
+  if (!("data" in cache)) {
+    cache.data = JSON.parse(body);
+  }
+  return cache.data;
+}
+
+/**
+ * Check a step response against its success criteria
+ */
+function checkStepCriteria(
+  criteria: HttpStepCriteria | undefined,
+  response: Response,
+  body: string,
+  latencyMs: number,
+  json: { data?: unknown },
+): StepFailure | undefined {
+  const acceptedCodes = criteria?.acceptedStatusCodes || [200];
+  if (!acceptedCodes.includes(response.status)) {
+    return { reason: `HTTP_${response.status}`, message: `HTTP ${response.status} received` };
+  }
+
+  if (criteria?.latencyMsUnder && latencyMs > criteria.latencyMsUnder) {
+    return {
+      reason: "LATENCY_EXCEEDED",
+      message: `Latency ${latencyMs}ms exceeds threshold ${criteria.latencyMsUnder}ms`,
+    };
+  }
+
+  const headerFailure = checkHeaderAssertions(response.headers, criteria?.headers);
+  if (headerFailure) {
+    return headerFailure;
+  }
+
+  for (const keyword of criteria?.contains ?? []) {
+    if (!body.includes(keyword)) {
+      return { reason: "KEYWORD_MISSING", message: `Expected keyword "${keyword}" not found` };
+    }
+  }
+
+  for (const query of criteria?.jsonQueries ?? []) {
+    let data: unknown;
+    try {
+      data = parseJsonBody(body, json);
+    } catch (_error) {
+      return { reason: "JSON_ERROR", message: "Response body is not valid JSON" };
+    }
+
+    const validation = validateJsonPathResult(queryJsonPath(data, query.path), query);
+    if (!validation.valid) {
+      return { reason: "JSON_VALIDATION_FAILED", message: `${query.path}: ${validation.message}` };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Capture values from a step response into variables for later steps
+ */
+function extractVariables(
+  step: HttpStep,
+  response: Response,
+  body: string,
+  finalUrl: string,
+  context: StepContext,
+  json: { data?: unknown },
+): StepFailure | undefined {
+  for (const extract of step.extract ?? []) {
+    let value: string | undefined;
+
+    if (extract.jsonPath) {
+      try {
+        const [match] = queryJsonPath(parseJsonBody(body, json), extract.jsonPath).values;
+        if (match !== undefined && match !== null) {
+          value = typeof match === "string" ? match : JSON.stringify(match);
+        }
+      } catch (_error) {
+        return { reason: "EXTRACT_FAILED", message: "Response body is not valid JSON" };
+      }
+    } else if (extract.header) {
+      value = response.headers.get(extract.header) ?? undefined;
+    } else if (extract.cookie) {
+      value = context.cookies.get(new URL(finalUrl).hostname)?.get(extract.cookie);
+    }
+
+    if (value === undefined) {
+      const source = extract.jsonPath ?? extract.header ?? extract.cookie ?? "no source";
+      return {
+        reason: "EXTRACT_FAILED",
+        message: `Could not extract ${extract.name} from ${source}`,
+      };
+    }
+
+    context.variables[extract.name] = value;
+  }
+
+  return undefined;
+}
+
+/**
+ * Run one step: render the request, send it, check it and extract variables
+ */
+async function runStep(
+  target: HttpStepsTarget,
+  step: HttpStep,
+  context: StepContext,
+): Promise<StepOutcome> {
+  const start = Date.now();
+
+  const url = renderTemplate(step.url, context.variables);
+  if (url.missing) {
+    return { latencyMs: 0, failure: undefinedVariable(url.missing) };
+  }
+
+  const { headers, failure: headerFailure } = await buildStepHeaders(step, url.value, context);
+  if (headerFailure) {
+    return { latencyMs: 0, failure: headerFailure };
+  }
+
+  let body: string | undefined;
+  if (step.body?.type === "json") {
+    const rendered = renderJsonTemplate(step.body.json ?? {}, context.variables);
+    if (rendered.missing) {
+      return { latencyMs: 0, failure: undefinedVariable(rendered.missing) };
+    }
+    body = JSON.stringify(rendered.value);
+    headers.set("Content-Type", "application/json");
+  } else if (step.body?.type === "text") {
+    const rendered = renderTemplate(step.body.text ?? "", context.variables);
+    if (rendered.missing) {
+      return { latencyMs: 0, failure: undefinedVariable(rendered.missing) };
+    }
+    body = rendered.value;
+  }
+
+  const { proxy, error: proxyError } = resolveProxy(undefined, new URL(url.value).hostname);
+  if (proxyError) {
+    return { latencyMs: 0, failure: { reason: "PROXY_ERROR", message: proxyError } };
+  }
+  const proxyEndpoint = proxy ? await openProxyEndpoint(proxy, context.timeout * 1000) : undefined;
+
+  try {
+    const redirected = await fetchWithRedirects(
+      {
+        url: url.value,
+        followRedirects: target.followRedirects,
+        maxRedirects: target.maxRedirects,
+      },
+      url.value,
+      {
+        method: step.method,
+        headers,
+        body,
+        signal: context.signal,
+        tls: { rejectUnauthorized: target.tls?.verify ?? true },
+        ...(proxyEndpoint && { proxy: proxyEndpoint.url }),
+      },
+      (response, fromUrl, toUrl, nextHeaders) => {
+        // Session cookies are often set on the redirect after a login
+        storeCookies(context.cookies, fromUrl, response);
+        const cookies = cookieHeader(context.cookies, toUrl);
+        if (cookies) {
+          nextHeaders.set("Cookie", cookies);
+        }
+      },
+    );
+    const { response } = redirected;
+    const responseBody = await response.text();
+    const latencyMs = Date.now() - start;
+    storeCookies(context.cookies, redirected.finalUrl, response);
+
+    if (redirected.error) {
+      return {
+        latencyMs,
+        statusCode: response.status,
+        failure: { reason: "TOO_MANY_REDIRECTS", message: redirected.error },
+      };
+    }
+
+    const json: { data?: unknown } = {};
+    const failure =
+      checkStepCriteria(step.successCriteria, response, responseBody, latencyMs, json) ??
+      extractVariables(step, response, responseBody, redirected.finalUrl, context, json);
+
+    return { latencyMs, statusCode: response.status, ...(failure && { failure }) };
+  } finally {
+    proxyEndpoint?.close();
+  }
+}
+
+/**
+ * Execute a multi-step HTTP transaction
+ * Steps run in order and stop at the first failure, which is reported with its step name.
+ */
+export async function checkHttpSteps(monitor: Monitor, timeout: number): Promise<CheckResult> {
+  const target = monitor.spec.target.httpSteps;
+
+  if (!target || target.steps.length === 0) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "INVALID_CONFIG",
+      message: "No httpSteps target configured",
+    };
+  }
+
+  const startTime = Date.now();
+  const controller = new AbortController();
+  const timeoutHandle = setTimeout(() => controller.abort(), timeout * 1000);
+  const context: StepContext = {
+    namespace: monitor.metadata.namespace,
+    variables: {},
+    cookies: new Map(),
+    signal: controller.signal,
+    timeout,
+  };
+  const steps: HttpStepResult[] = [];
+  let stepStart = startTime;
+  let currentStep = target.steps[0]?.name ?? "";
+
+  try {
+    for (const step of target.steps) {
+      currentStep = step.name;
+      stepStart = Date.now();
+      const outcome = await runStep(target, step, context);
+
+      steps.push({
+        name: step.name,
+        state: outcome.failure ? "down" : "up",
+        latencyMs: outcome.latencyMs,
+        ...(outcome.statusCode !== undefined && { statusCode: outcome.statusCode }),
+      });
+
+      if (outcome.failure) {
+        return {
+          state: "down",
+          latencyMs: Date.now() - startTime,
+          reason: outcome.failure.reason,
+          message: `Step "${step.name}" failed: ${outcome.failure.message}`,
+          steps,
+        };
+      }
+    }
+
+    return {
+      state: "up",
+      latencyMs: Date.now() - startTime,
+      reason: "HTTP_STEPS_OK",
+      message: `All ${steps.length} steps passed`,
+      steps,
+    };
+  } catch (error) {
+    steps.push({ name: currentStep, state: "down", latencyMs: Date.now() - stepStart });
+    const timedOut = error instanceof Error && error.name === "AbortError";
+
+    if (!timedOut) {
+      logger.warn(
+        { monitor: monitor.metadata.name, step: currentStep, error },
+        "HTTP step failed with error",
+      );
+    }
+
+    return {
+      state: "down",
+      latencyMs: Date.now() - startTime,
+      reason: timedOut ? "TIMEOUT" : "ERROR",
+      message: timedOut
+        ? `Step "${currentStep}" timed out after ${timeout}s`
+        : `Step "${currentStep}" failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      steps,
+    };
+  } finally {
+    clearTimeout(timeoutHandle);
+  }
+}
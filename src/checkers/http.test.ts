@@ -0,0 +1,724 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { createServer, type Server } from "node:https";
+import { type AddressInfo, connect, createServer as createTcpServer } from "node:net";
+import { TEST_TLS_CERT, TEST_TLS_KEY } from "../test-utils/fixtures/certificates";
+import { createHttpMonitor } from "../test-utils/fixtures/monitors";
+import { startConnectProxy, startSocksProxy } from "../test-utils/mocks/proxy";
+import { checkHttp } from "./http";
+
+describe("checkHttp TLS", () => {
+  const originalEnv = { ...process.env };
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    server = createServer({ cert: TEST_TLS_CERT, key: TEST_TLS_KEY }, (_req, res) => {
+      res.end("ok");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `https://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test("rejects untrusted certificates by default", async () => {
+    const result = await checkHttp(createHttpMonitor({ url }), 5);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("TLS_ERROR");
+    expect(result.cert?.chainTrusted).toBe(false);
+    expect(result.cert?.subject).toBe("localhost");
+  });
+
+  test("accepts untrusted certificates when tls.verify is false", async () => {
+    const result = await checkHttp(createHttpMonitor({ url, tls: { verify: false } }), 5);
+
+    expect(result.state).toBe("up");
+    expect(result.cert?.chainTrusted).toBe(false);
+  });
+
+  test("trusts certificates signed by the CA bundle", async () => {
+    process.env.YUPTIME_TLS_CA_BUNDLE = TEST_TLS_CERT;
+
+    const result = await checkHttp(
+      createHttpMonitor({
+        url,
+        tls: { sni: "localhost", caBundleSecretRef: { name: "ca", key: "ca.crt" } },
+      }),
+      5,
+    );
+
+    expect(result.state).toBe("up");
+    expect(result.cert?.valid).toBe(true);
+    expect(result.cert?.subject).toBe("localhost");
+  });
+
+  test("verifies the hostname against the SNI override", async () => {
+    process.env.YUPTIME_TLS_CA_BUNDLE = TEST_TLS_CERT;
+
+    const result = await checkHttp(
+      createHttpMonitor({
+        url,
+        tls: { sni: "api.example.com", caBundleSecretRef: { name: "ca", key: "ca.crt" } },
+      }),
+      5,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("TLS_ERROR");
+  });
+
+  test("returns down when the CA bundle is missing from the environment", async () => {
+    delete process.env.YUPTIME_TLS_CA_BUNDLE;
+
+    const result = await checkHttp(
+      createHttpMonitor({ url, tls: { caBundleSecretRef: { name: "ca", key: "ca.crt" } } }),
+      5,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("TLS_ERROR");
+    expect(result.message).toBe("CA bundle not found in environment");
+  });
+});
+
+describe("checkHttp mutual TLS", () => {
+  const originalEnv = { ...process.env };
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    server = createServer(
+      {
+        cert: TEST_TLS_CERT,
+        key: TEST_TLS_KEY,
+        ca: TEST_TLS_CERT,
+        requestCert: true,
+        rejectUnauthorized: true,
+      },
+      (_req, res) => {
+        res.end("ok");
+      },
+    );
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `https://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test("presents the client certificate from the environment", async () => {
+    process.env.YUPTIME_TLS_CLIENT_CERT = TEST_TLS_CERT;
+    process.env.YUPTIME_TLS_CLIENT_KEY = TEST_TLS_KEY;
+
+    const result = await checkHttp(
+      createHttpMonitor({
+        url,
+        tls: {
+          verify: false,
+          clientCertSecretRef: { name: "client", certKey: "tls.crt", keyKey: "tls.key" },
+        },
+      }),
+      5,
+    );
+
+    expect(result.state).toBe("up");
+    expect(result.cert?.subject).toBe("localhost");
+  });
+
+  test("fails the handshake without a client certificate", async () => {
+    const result = await checkHttp(createHttpMonitor({ url, tls: { verify: false } }), 5);
+
+    expect(result.state).toBe("down");
+  });
+
+  test("returns down when the client certificate is missing from the environment", async () => {
+    delete process.env.YUPTIME_TLS_CLIENT_CERT;
+
+    const result = await checkHttp(
+      createHttpMonitor({
+        url,
+        tls: {
+          verify: false,
+          clientCertSecretRef: { name: "client", certKey: "tls.crt", keyKey: "tls.key" },
+        },
+      }),
+      5,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("TLS_ERROR");
+    expect(result.message).toBe("Client certificate not found in environment");
+  });
+});
+
+describe("checkHttp proxy", () => {
+  const originalEnv = { ...process.env };
+  let server: Server;
+  let port: number;
+
+  beforeAll(async () => {
+    server = createServer({ cert: TEST_TLS_CERT, key: TEST_TLS_KEY }, (_req, res) => {
+      res.end("ok");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test("tunnels the request and certificate check through an HTTP proxy", async () => {
+    const proxy = await startConnectProxy({ username: "user", password: "secret" });
+    process.env.YUPTIME_PROXY_MODE = "http";
+    process.env.YUPTIME_PROXY_URL = proxy.url;
+    process.env.YUPTIME_PROXY_USERNAME = "user";
+    process.env.YUPTIME_PROXY_PASSWORD = "secret";
+
+    try {
+      const result = await checkHttp(
+        createHttpMonitor({
+          url: `https://localhost:${port}/`,
+          tls: { verify: false },
+          proxy: { mode: "http" },
+        }),
+        5,
+      );
+
+      expect(result.state).toBe("up");
+      expect(result.cert?.subject).toBe("localhost");
+      expect(proxy.requests).toContain(`localhost:${port}`);
+    } finally {
+      await proxy.close();
+    }
+  });
+
+  test("tunnels the request through a SOCKS5 proxy", async () => {
+    const proxy = await startSocksProxy();
+    process.env.YUPTIME_PROXY_MODE = "socks";
+    process.env.YUPTIME_PROXY_URL = proxy.url;
+
+    try {
+      const result = await checkHttp(
+        createHttpMonitor({
+          url: `https://localhost:${port}/`,
+          tls: { verify: false },
+          proxy: { mode: "socks" },
+        }),
+        5,
+      );
+
+      expect(result.state).toBe("up");
+      expect(proxy.requests).toContain(`localhost:${port}`);
+    } finally {
+      await proxy.close();
+    }
+  });
+
+  test("connects directly for hosts excluded by the cluster proxy", async () => {
+    const proxy = await startConnectProxy();
+    process.env.YUPTIME_PROXY_MODE = "http";
+    process.env.YUPTIME_PROXY_URL = proxy.url;
+    process.env.YUPTIME_NO_PROXY = "localhost";
+
+    try {
+      const result = await checkHttp(
+        createHttpMonitor({ url: `https://localhost:${port}/`, tls: { verify: false } }),
+        5,
+      );
+
+      expect(result.state).toBe("up");
+      expect(proxy.requests).toEqual([]);
+    } finally {
+      await proxy.close();
+    }
+  });
+
+  test("returns PROXY_ERROR when the proxy URL is missing from the environment", async () => {
+    delete process.env.YUPTIME_PROXY_URL;
+
+    const result = await checkHttp(
+      createHttpMonitor({ url: `https://localhost:${port}/`, proxy: { mode: "http" } }),
+      5,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("PROXY_ERROR");
+  });
+});
+
+describe("checkHttp timings", () => {
+  const originalEnv = { ...process.env };
+  let server: Server;
+  let port: number;
+  let url: string;
+
+  beforeAll(async () => {
+    server = createServer({ cert: TEST_TLS_CERT, key: TEST_TLS_KEY }, (_req, res) => {
+      setTimeout(() => res.end("ok"), 50);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+    url = `https://127.0.0.1:${port}/`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test("reports connect, TLS, first byte and transfer timings", async () => {
+    const result = await checkHttp(createHttpMonitor({ url, tls: { verify: false } }), 5);
+
+    expect(result.state).toBe("up");
+    expect(Object.keys(result.timings ?? {}).sort()).toEqual([
+      "connectMs",
+      "firstByteMs",
+      "tlsMs",
+      "transferMs",
+    ]);
+    expect(result.timings?.connectMs).toBeLessThan(40);
+    expect(result.timings?.tlsMs).toBeLessThan(40);
+    expect(result.timings?.firstByteMs).toBeGreaterThanOrEqual(40);
+    expect(result.timings?.transferMs).toBeGreaterThanOrEqual(0);
+  });
+
+  test("reports a slow TLS handshake as TLS time, not first byte", async () => {
+    // Relay that holds the ClientHello before passing it on
+    const relay = createTcpServer((client) => {
+      const upstream = connect(port, "127.0.0.1");
+      client.once("data", (hello) => {
+        client.pause();
+        setTimeout(() => {
+          upstream.write(hello);
+          client.pipe(upstream);
+          upstream.pipe(client);
+        }, 100);
+      });
+      client.on("error", () => upstream.destroy());
+      upstream.on("error", () => client.destroy());
+    });
+    await new Promise<void>((resolve) => relay.listen(0, "127.0.0.1", resolve));
+
+    try {
+      const monitor = createHttpMonitor({
+        url: `https://127.0.0.1:${(relay.address() as AddressInfo).port}/`,
+        tls: { verify: false },
+      });
+      const result = await checkHttp(
+        {
+          ...monitor,
+          spec: {
+            ...monitor.spec,
+            successCriteria: { http: { phaseLatencyMsUnder: { tlsMs: 80 } } },
+          },
+        },
+        5,
+      );
+
+      expect(result.reason).toBe("PHASE_LATENCY_EXCEEDED");
+      expect(result.message).toStartWith("TLS handshake took");
+      expect(result.timings?.connectMs).toBeLessThan(90);
+      expect(result.timings?.tlsMs).toBeGreaterThanOrEqual(90);
+      expect(result.timings?.firstByteMs).toBeLessThan(90);
+    } finally {
+      relay.close();
+    }
+  });
+
+  test("reports proxy tunnel setup as connect time", async () => {
+    const proxy = await startConnectProxy({ delayMs: 100 });
+    process.env.YUPTIME_PROXY_MODE = "http";
+    process.env.YUPTIME_PROXY_URL = proxy.url;
+
+    try {
+      const result = await checkHttp(
+        createHttpMonitor({
+          url: `https://localhost:${port}/`,
+          tls: { verify: false },
+          proxy: { mode: "http" },
+        }),
+        5,
+      );
+
+      expect(result.state).toBe("up");
+      expect(result.timings?.dnsMs).toBeUndefined();
+      expect(result.timings?.connectMs).toBeGreaterThanOrEqual(90);
+      expect(result.timings?.tlsMs).toBeLessThan(90);
+      expect(result.timings?.firstByteMs).toBeLessThan(90);
+    } finally {
+      await proxy.close();
+    }
+  });
+
+  test("reports no TLS time for plain HTTP", async () => {
+    const plain = Bun.serve({ port: 0, hostname: "127.0.0.1", fetch: () => new Response("ok") });
+
+    try {
+      const result = await checkHttp(
+        createHttpMonitor({ url: `http://127.0.0.1:${plain.port}/` }),
+        5,
+      );
+
+      expect(result.state).toBe("up");
+      expect(result.timings?.connectMs).toBeGreaterThanOrEqual(0);
+      expect(result.timings?.tlsMs).toBeUndefined();
+      expect(result.timings?.firstByteMs).toBeGreaterThanOrEqual(0);
+    } finally {
+      plain.stop(true);
+    }
+  });
+
+  test("returns PHASE_LATENCY_EXCEEDED when a phase exceeds its threshold", async () => {
+    const monitor = createHttpMonitor({ url, tls: { verify: false } });
+    const result = await checkHttp(
+      {
+        ...monitor,
+        spec: {
+          ...monitor.spec,
+          successCriteria: { http: { phaseLatencyMsUnder: { firstByteMs: 10 } } },
+        },
+      },
+      5,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("PHASE_LATENCY_EXCEEDED");
+    expect(result.message).toStartWith("Time to first byte took");
+    expect(result.timings?.firstByteMs).toBeGreaterThan(10);
+  });
+});
+
+describe("checkHttp redirects and headers", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let baseUrl: string;
+
+  /**
+   * HTTP monitor against the local server with extra target and success criteria fields
+   */
+  function createMonitor(
+    path: string,
+    http: Record<string, unknown> = {},
+    criteria: Record<string, unknown> = {},
+  ) {
+    const monitor = createHttpMonitor({ url: `${baseUrl}${path}` });
+    return {
+      ...monitor,
+      spec: {
+        ...monitor.spec,
+        target: { http: { ...monitor.spec.target.http, ...http } },
+        successCriteria: { http: criteria },
+      },
+    };
+  }
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch(req) {
+        const url = new URL(req.url);
+        const hops = Number(url.searchParams.get("hops") ?? 0);
+
+        if (url.pathname === "/chain") {
+          const location = hops > 1 ? `/chain?hops=${hops - 1}` : "/final";
+          return new Response(null, { status: 302, headers: { Location: location } });
+        }
+
+        return new Response("ok", {
+          headers: { "Strict-Transport-Security": "max-age=31536000", "X-Powered-By": "bun" },
+        });
+      },
+    });
+    baseUrl = `http://127.0.0.1:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test("follows the redirect chain to the final URL", async () => {
+    const result = await checkHttp(
+      createMonitor("/chain?hops=3", {}, { redirects: { finalUrl: `${baseUrl}/final` } }),
+      5,
+    );
+
+    expect(result.state).toBe("up");
+  });
+
+  test("returns TOO_MANY_REDIRECTS when maxRedirects is exceeded", async () => {
+    const result = await checkHttp(createMonitor("/chain?hops=3", { maxRedirects: 2 }), 5);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("TOO_MANY_REDIRECTS");
+    expect(result.message).toContain("Exceeded 2 redirects");
+  });
+
+  test("returns the redirect status when followRedirects is false", async () => {
+    const result = await checkHttp(createMonitor("/chain?hops=1", { followRedirects: false }), 5);
+
+    expect(result.reason).toBe("HTTP_302");
+  });
+
+  test("returns REDIRECT_HOPS_EXCEEDED for a chain longer than maxHops", async () => {
+    const result = await checkHttp(
+      createMonitor("/chain?hops=2", {}, { redirects: { maxHops: 1 } }),
+      5,
+    );
+
+    expect(result.reason).toBe("REDIRECT_HOPS_EXCEEDED");
+  });
+
+  test("returns REDIRECT_MISMATCH when the final URL differs", async () => {
+    const result = await checkHttp(
+      createMonitor("/chain?hops=1", {}, { redirects: { finalUrl: "https://example.com/" } }),
+      5,
+    );
+
+    expect(result.reason).toBe("REDIRECT_MISMATCH");
+    expect(result.message).toBe(`Redirected to ${baseUrl}/final, expected https://example.com/`);
+  });
+
+  test("returns HTTPS_UPGRADE_MISSING when HTTP is not redirected to HTTPS", async () => {
+    const result = await checkHttp(
+      createMonitor("/chain?hops=1", {}, { redirects: { httpsUpgrade: true } }),
+      5,
+    );
+
+    expect(result.reason).toBe("HTTPS_UPGRADE_MISSING");
+  });
+
+  test("passes present, equals, contains and regex header assertions", async () => {
+    const result = await checkHttp(
+      createMonitor(
+        "/",
+        {},
+        {
+          headers: [
+            { name: "strict-transport-security" },
+            { name: "X-Powered-By", equals: "bun" },
+            { name: "Strict-Transport-Security", contains: "max-age" },
+            { name: "Strict-Transport-Security", regex: "^max-age=\\d+$" },
+            { name: "Server-Timing", absent: true },
+          ],
+        },
+      ),
+      5,
+    );
+
+    expect(result.state).toBe("up");
+  });
+
+  test("returns HEADER_PRESENT for a header that must be absent", async () => {
+    const result = await checkHttp(
+      createMonitor("/", {}, { headers: [{ name: "X-Powered-By", absent: true }] }),
+      5,
+    );
+
+    expect(result.reason).toBe("HEADER_PRESENT");
+    expect(result.message).toBe("Unexpected header X-Powered-By: bun");
+  });
+
+  test("returns HEADER_MISSING for a required header", async () => {
+    const result = await checkHttp(
+      createMonitor("/", {}, { headers: [{ name: "Content-Security-Policy" }] }),
+      5,
+    );
+
+    expect(result.reason).toBe("HEADER_MISSING");
+  });
+
+  test("returns HEADER_MISMATCH when a header value does not match", async () => {
+    const result = await checkHttp(
+      createMonitor("/", {}, { headers: [{ name: "X-Powered-By", equals: "nginx" }] }),
+      5,
+    );
+
+    expect(result.reason).toBe("HEADER_MISMATCH");
+    expect(result.message).toBe('Header X-Powered-By is "bun", expected "nginx"');
+  });
+});
+
+describe("checkHttp body assertions", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let baseUrl: string;
+
+  /**
+   * HTTP monitor against the local server with body criteria
+   */
+  function createMonitor(
+    path: string,
+    successCriteria: Record<string, unknown>,
+    http: Record<string, unknown> = {},
+  ) {
+    const monitor = createHttpMonitor({ url: `${baseUrl}${path}` });
+    return {
+      ...monitor,
+      spec: {
+        ...monitor.spec,
+        target: { http: { ...monitor.spec.target.http, ...http } },
+        successCriteria,
+      },
+    };
+  }
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      async fetch(req) {
+        const url = new URL(req.url);
+
+        if (url.pathname === "/echo") {
+          return new Response(`${req.headers.get("content-type")}\n${await req.text()}`);
+        }
+
+        if (url.pathname === "/page") {
+          return new Response(
+            '<html><body><h1 class="status">All systems operational</h1></body></html>',
+            { headers: { "Content-Type": "text/html" } },
+          );
+        }
+
+        if (url.pathname === "/large") {
+          return new Response("x".repeat(4096));
+        }
+
+        if (url.pathname === "/huge") {
+          return new Response("x".repeat(2 * 1048576));
+        }
+
+        return Response.json({ status: "healthy", services: [{ name: "db" }, { name: "cache" }] });
+      },
+    });
+    baseUrl = `http://127.0.0.1:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test("passes keyword and jsonQuery criteria on the same body", async () => {
+    const result = await checkHttp(
+      createMonitor("/health", {
+        keyword: { contains: ["healthy"], notContains: ["error"], regex: ['"services":\\['] },
+        jsonQuery: { mode: "jsonpath-plus", path: "$.services[*]", count: 2 },
+      }),
+      5,
+    );
+
+    expect(result.state).toBe("up");
+    expect(result.reason).toBe("HTTP_OK");
+  });
+
+  test("passes keyword and htmlQuery criteria on the same body", async () => {
+    const result = await checkHttp(
+      createMonitor("/page", {
+        keyword: { contains: ["operational"] },
+        htmlQuery: { mode: "css", selector: "h1.status", text: { contains: "operational" } },
+      }),
+      5,
+    );
+
+    expect(result.state).toBe("up");
+  });
+
+  test("keeps the reason of a single failed assertion", async () => {
+    const result = await checkHttp(
+      createMonitor("/health", { keyword: { contains: ["degraded"] } }),
+      5,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("KEYWORD_MISSING");
+    expect(result.message).toBe('Expected keyword "degraded" not found');
+  });
+
+  test("reports every failed assertion", async () => {
+    const result = await checkHttp(
+      createMonitor("/health", {
+        keyword: { contains: ["degraded"], notContains: ["healthy"] },
+        jsonQuery: { mode: "jsonpath-plus", path: "$.status", equals: "ok" },
+        xmlQuery: { mode: "xpath", path: "/status", exists: true, ignoreNamespace: false },
+      }),
+      5,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("BODY_ASSERTIONS_FAILED");
+    expect(result.message).toStartWith("4 body assertions failed: ");
+    expect(result.message).toContain('Expected keyword "degraded" not found');
+    expect(result.message).toContain('Unexpected keyword "healthy" found');
+    expect(result.message).toContain('does not equal ""ok""');
+    expect(result.message).toContain("Invalid XML");
+  });
+
+  test("sends form bodies and checks the response", async () => {
+    const result = await checkHttp(
+      createMonitor(
+        "/echo",
+        { keyword: { contains: ["application/x-www-form-urlencoded", "user=monitor&probe=1"] } },
+        {
+          method: "POST",
+          body: {
+            type: "form",
+            fields: [
+              { name: "user", value: "monitor" },
+              { name: "probe", value: "1" },
+            ],
+          },
+        },
+      ),
+      5,
+    );
+
+    expect(result.state).toBe("up");
+  });
+
+  test("returns BODY_TOO_LARGE when the body exceeds maxBodyBytes", async () => {
+    const result = await checkHttp(createMonitor("/large", {}, { maxBodyBytes: 1024 }), 5);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("BODY_TOO_LARGE");
+    expect(result.message).toBe("Response body exceeds 1024 bytes");
+  });
+
+  test("reads bodies of any size when maxBodyBytes is 0", async () => {
+    const result = await checkHttp(createMonitor("/large", {}, { maxBodyBytes: 0 }), 5);
+
+    expect(result.state).toBe("up");
+  });
+
+  test("ignores the body size when nothing inspects the body", async () => {
+    const result = await checkHttp(createMonitor("/huge", {}), 5);
+
+    expect(result.state).toBe("up");
+  });
+
+  test("limits inspected bodies to 1 MiB by default", async () => {
+    const result = await checkHttp(createMonitor("/huge", { keyword: { contains: ["x"] } }), 5);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("BODY_TOO_LARGE");
+    expect(result.message).toBe("Response body exceeds 1048576 bytes");
+  });
+});
@@ -1,24 +1,57 @@
+import { isIP } from "node:net";
+import {
+  type CertificateInspectOptions,
+  getCaBundleFromEnv,
+  getClientCertFromEnv,
+  inspectCertificate,
+  isTlsError,
+  withSystemRoots,
+} from "../lib/certificates";
 import { getDnsConfigFromEnv, resolveHostname } from "../lib/dns";
 import { logger } from "../lib/logger";
 import { fetchOAuth2Token } from "../lib/oauth";
+import {
+  queryCssSelector,
+  queryJsonPath,
+  queryXPath,
+  validateCssSelectorResult,
+  validateJsonPathResult,
+  validateXPathResult,
+} from "../lib/parsers";
+import { resolveProxy } from "../lib/proxy";
+import { buildRequestBody } from "../lib/request-body";
 import { resolveSecretCached } from "../lib/secrets";
+import { elapsedMs, findSlowPhase, requestTimed, sumTimings } from "../lib/timings";
 import type { Monitor } from "../types/crd";
-import type { HttpAuth } from "../types/crd/monitor";
+import type {
+  CertificateInfo,
+  HttpAuth,
+  HttpHeaderAssertion,
+  HttpRedirectCriteria,
+  HttpStepResult,
+  HttpTarget,
+  HttpTimings,
+  SuccessCriteria,
+} from "../types/crd/monitor";
 
 export interface CheckResult {
   state: "up" | "down";
   latencyMs: number;
   reason: string;
   message: string;
-  certExpiresAt?: Date;
-  certDaysRemaining?: number;
+  // Certificate presented by TLS targets
+  cert?: CertificateInfo;
+  // Phase breakdown of HTTP checks
+  timings?: HttpTimings;
+  // Per-step outcome of httpSteps checks
+  steps?: HttpStepResult[];
 }
 
 /**
  * Build authentication headers based on auth configuration.
  * Credentials are read from environment variables injected by the Job builder.
  */
-async function buildAuthHeaders(
+export async function buildAuthHeaders(
   auth: HttpAuth | undefined,
   timeout: number,
 ): Promise<{ headers: Headers; error?: string }> {
@@ -80,6 +113,329 @@ async function buildAuthHeaders(
   return { headers };
 }
 
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * Response after following redirects, with the URLs that redirected to it
+ */
+export interface RedirectedResponse {
+  response: Response;
+  /** URLs that answered with a redirect, in order */
+  redirects: string[];
+  finalUrl: string;
+  error?: string;
+}
+
+/**
+ * Sends a single request of a redirect chain
+ */
+export type RequestSender = (url: string, init: BunFetchRequestInit) => Promise<Response>;
+
+/**
+ * Fetch a URL, following redirects up to target.maxRedirects
+ * fetch() can't cap the number of hops or report the chain, so redirects are followed by hand.
+ * The first request may go to a pre-resolved IP (requestUrl); later hops use the Location URL.
+ */
+export async function fetchWithRedirects(
+  target: Pick<HttpTarget, "url" | "followRedirects" | "maxRedirects">,
+  requestUrl: string,
+  init: BunFetchRequestInit,
+  onRedirect?: (response: Response, fromUrl: string, toUrl: URL, headers: Headers) => void,
+  send: RequestSender = fetch,
+): Promise<RedirectedResponse> {
+  const redirects: string[] = [];
+  let currentUrl = target.url;
+  let currentInit: BunFetchRequestInit = { ...init, redirect: "manual" };
+
+  for (;;) {
+    const response = await send(redirects.length === 0 ? requestUrl : currentUrl, currentInit);
+    const location = response.headers.get("location");
+
+    if (!target.followRedirects || !REDIRECT_STATUSES.has(response.status) || !location) {
+      return { response, redirects, finalUrl: currentUrl };
+    }
+
+    if (redirects.length >= target.maxRedirects) {
+      return {
+        response,
+        redirects,
+        finalUrl: currentUrl,
+        error: `Exceeded ${target.maxRedirects} redirects at ${currentUrl}`,
+      };
+    }
+
+    await response.body?.cancel();
+    const nextUrl = new URL(location, currentUrl);
+    const headers = new Headers(currentInit.headers);
+    let { method, body, tls } = currentInit;
+
+    // 303, and 301/302 after a POST, switch to GET without a body
+    if (response.status === 303 || (method === "POST" && response.status <= 302)) {
+      method = method === "HEAD" ? "HEAD" : "GET";
+      body = undefined;
+      headers.delete("content-type");
+    }
+
+    // The Host override, SNI override and credentials only apply to the original host
+    if (nextUrl.host !== new URL(currentUrl).host) {
+      headers.delete("host");
+      headers.delete("authorization");
+      headers.delete("cookie");
+      tls = tls && { ...tls, serverName: nextUrl.hostname };
+    }
+
+    onRedirect?.(response, currentUrl, nextUrl, headers);
+    redirects.push(currentUrl);
+    currentUrl = nextUrl.toString();
+    currentInit = { ...currentInit, method, body, headers, tls };
+  }
+}
+
+/**
+ * Check response headers against successCriteria.http.headers
+ * An assertion without equals/contains/regex/absent only requires the header to be present.
+ */
+export function checkHeaderAssertions(
+  headers: Headers,
+  assertions: HttpHeaderAssertion[] | undefined,
+): { reason: string; message: string } | undefined {
+  for (const assertion of assertions ?? []) {
+    const value = headers.get(assertion.name);
+
+    if (assertion.absent) {
+      if (value !== null) {
+        return {
+          reason: "HEADER_PRESENT",
+          message: `Unexpected header ${assertion.name}: ${value}`,
+        };
+      }
+      continue;
+    }
+
+    if (value === null) {
+      return { reason: "HEADER_MISSING", message: `Expected header ${assertion.name} not found` };
+    }
+
+    if (assertion.equals !== undefined && value !== assertion.equals) {
+      return {
+        reason: "HEADER_MISMATCH",
+        message: `Header ${assertion.name} is "${value}", expected "${assertion.equals}"`,
+      };
+    }
+
+    if (assertion.contains !== undefined && !value.includes(assertion.contains)) {
+      return {
+        reason: "HEADER_MISMATCH",
+        message: `Header ${assertion.name} does not contain "${assertion.contains}"`,
+      };
+    }
+
+    if (assertion.regex !== undefined) {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(assertion.regex);
+      } catch (_error) {
+        return { reason: "INVALID_REGEX", message: `Invalid regex pattern: ${assertion.regex}` };
+      }
+
+      if (!regex.test(value)) {
+        return {
+          reason: "HEADER_MISMATCH",
+          message: `Header ${assertion.name} does not match "${assertion.regex}"`,
+        };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check the redirect chain against successCriteria.http.redirects
+ */
+function checkRedirectAssertions(
+  result: RedirectedResponse,
+  criteria: HttpRedirectCriteria | undefined,
+): { reason: string; message: string } | undefined {
+  if (!criteria) {
+    return undefined;
+  }
+
+  if (criteria.maxHops !== undefined && result.redirects.length > criteria.maxHops) {
+    return {
+      reason: "REDIRECT_HOPS_EXCEEDED",
+      message: `Followed ${result.redirects.length} redirects, expected at most ${criteria.maxHops}`,
+    };
+  }
+
+  if (criteria.finalUrl !== undefined && result.finalUrl !== criteria.finalUrl) {
+    return {
+      reason: "REDIRECT_MISMATCH",
+      message: `Redirected to ${result.finalUrl}, expected ${criteria.finalUrl}`,
+    };
+  }
+
+  if (criteria.httpsUpgrade && new URL(result.finalUrl).protocol !== "https:") {
+    return {
+      reason: "HTTPS_UPGRADE_MISSING",
+      message: `${result.finalUrl} was not redirected to HTTPS`,
+    };
+  }
+
+  return undefined;
+}
+
+const DEFAULT_MAX_BODY_BYTES = 1048576;
+
+type AssertionFailure = { reason: string; message: string };
+
+/**
+ * Check whether any success criterion inspects the response body
+ */
+function hasBodyAssertions(criteria: SuccessCriteria | undefined): boolean {
+  return Boolean(
+    criteria?.keyword || criteria?.jsonQuery || criteria?.xmlQuery || criteria?.htmlQuery,
+  );
+}
+
+/**
+ * Read a response body, giving up as soon as it exceeds maxBytes (0 disables the limit)
+ * Without keep the body is only drained, so transfer can still be timed.
+ * @returns Body text (empty when not kept), or undefined when the body is too large
+ */
+async function readBody(
+  response: Response,
+  maxBytes: number,
+  keep = true,
+): Promise<string | undefined> {
+  const declaredLength = Number(response.headers.get("content-length"));
+  if (maxBytes > 0 && declaredLength > maxBytes) {
+    await response.body?.cancel();
+    return undefined;
+  }
+
+  if (!response.body) {
+    return "";
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let chunk = await reader.read();
+
+  while (!chunk.done) {
+    size += chunk.value.byteLength;
+    if (maxBytes > 0 && size > maxBytes) {
+      await reader.cancel();
+      return undefined;
+    }
+    if (keep) {
+      chunks.push(chunk.value);
+    }
+    chunk = await reader.read();
+  }
+
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Check the body against every keyword, jsonQuery, xmlQuery and htmlQuery criterion
+ * @returns All failed assertions, empty when the body satisfies them
+ */
+function checkBodyAssertions(
+  body: string,
+  criteria: SuccessCriteria | undefined,
+): AssertionFailure[] {
+  const failures: AssertionFailure[] = [];
+
+  for (const keyword of criteria?.keyword?.contains ?? []) {
+    if (!body.includes(keyword)) {
+      failures.push({
+        reason: "KEYWORD_MISSING",
+        message: `Expected keyword "${keyword}" not found`,
+      });
+    }
+  }
+
+  for (const keyword of criteria?.keyword?.notContains ?? []) {
+    if (body.includes(keyword)) {
+      failures.push({
+        reason: "KEYWORD_PRESENT",
+        message: `Unexpected keyword "${keyword}" found`,
+      });
+    }
+  }
+
+  for (const pattern of criteria?.keyword?.regex ?? []) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern);
+    } catch (_error) {
+      failures.push({ reason: "INVALID_REGEX", message: `Invalid regex pattern: ${pattern}` });
+      continue;
+    }
+
+    if (!regex.test(body)) {
+      failures.push({
+        reason: "REGEX_NO_MATCH",
+        message: `Regex pattern "${pattern}" did not match`,
+      });
+    }
+  }
+
+  const jsonQuery = criteria?.jsonQuery;
+  if (jsonQuery) {
+    let data: unknown;
+    try {
+      data = JSON.parse(body);
+    } catch (_error) {
+      failures.push({ reason: "JSON_ERROR", message: "Response body is not valid JSON" });
+    }
+
+    if (data !== undefined) {
+      const validation = validateJsonPathResult(queryJsonPath(data, jsonQuery.path), jsonQuery);
+      if (!validation.valid) {
+        failures.push({ reason: "JSON_VALIDATION_FAILED", message: validation.message });
+      }
+    }
+  }
+
+  const xmlQuery = criteria?.xmlQuery;
+  if (xmlQuery) {
+    const result = queryXPath(body, xmlQuery.path, { ignoreNamespace: xmlQuery.ignoreNamespace });
+    const validation = validateXPathResult(result, xmlQuery);
+    if (!validation.valid) {
+      failures.push({ reason: "XML_VALIDATION_FAILED", message: validation.message });
+    }
+  }
+
+  const htmlQuery = criteria?.htmlQuery;
+  if (htmlQuery) {
+    const result = queryCssSelector(body, htmlQuery.selector);
+    const validation = validateCssSelectorResult(result, htmlQuery);
+    if (!validation.valid) {
+      failures.push({ reason: "HTML_VALIDATION_FAILED", message: validation.message });
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Combine failed assertions into one result; a single failure keeps its own reason
+ */
+function summarizeFailures(failures: AssertionFailure[]): AssertionFailure {
+  const [first] = failures;
+  if (failures.length === 1 && first) {
+    return first;
+  }
+
+  return {
+    reason: "BODY_ASSERTIONS_FAILED",
+    message: `${failures.length} body assertions failed: ${failures.map((failure) => failure.message).join("; ")}`,
+  };
+}
+
 /**
  * HTTP/HTTPS monitor checker
  */
@@ -96,6 +452,9 @@ export async function checkHttp(monitor: Monitor, timeout: number): Promise<Chec
     };
   }
 
+  // Set once the TLS settings are known, so a failed handshake can still report the certificate
+  let certificateTarget: CertificateInspectOptions | undefined;
+
   try {
     const startTime = Date.now();
     const headers = new Headers();
@@ -107,15 +466,29 @@ export async function checkHttp(monitor: Monitor, timeout: number): Promise<Chec
     const originalUrl = new URL(target.url);
     const originalHostname = originalUrl.hostname;
 
+    const { proxy, error: proxyError } = resolveProxy(target.proxy, originalHostname);
+    if (proxyError) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "PROXY_ERROR",
+        message: proxyError,
+      };
+    }
+
     // Get DNS config from monitor target or environment (injected by job-builder)
     const dnsConfig = target.dns ?? getDnsConfigFromEnv();
 
-    // Resolve hostname (HTTP uses external DNS by default)
-    const resolvedIp = await resolveHostname(originalHostname, {
-      config: dnsConfig,
-      defaultToExternal: true, // HTTP checker defaults to external DNS
-      timeoutMs: timeout * 1000,
-    });
+    // Resolve hostname (HTTP uses external DNS by default); proxies resolve names themselves
+    const dnsStart = performance.now();
+    const resolvedIp = proxy
+      ? originalHostname
+      : await resolveHostname(originalHostname, {
+          config: dnsConfig,
+          defaultToExternal: true, // HTTP checker defaults to external DNS
+          timeoutMs: timeout * 1000,
+        });
+    const dnsMs = proxy || isIP(originalHostname) ? undefined : elapsedMs(dnsStart);
 
     // Build the URL to use for the request
     let fetchUrl = target.url;
@@ -176,38 +549,132 @@ export async function checkHttp(monitor: Monitor, timeout: number): Promise<Chec
       }
     }
 
-    // Prepare request body
-    let body: string | undefined;
-    if (target.body) {
-      switch (target.body.type) {
-        case "json":
-          body = JSON.stringify(target.body.json || {});
-          headers.set("Content-Type", "application/json");
-          break;
-        case "text":
-          body = target.body.text;
-          break;
-        default:
-          break;
-      }
+    // Prepare request body (inline, form, multipart or binary, optionally from a secret)
+    const requestBody = await buildRequestBody(target.body, (ref) =>
+      resolveSecretCached(monitor.metadata.namespace, ref.name, ref.key),
+    );
+    if (requestBody.error) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "SECRET_ERROR",
+        message: requestBody.error,
+      };
+    }
+    if (requestBody.contentType && !headers.has("Content-Type")) {
+      headers.set("Content-Type", requestBody.contentType);
+    }
+
+    // TLS is verified unless tls.verify is false; a custom CA bundle extends the system roots
+    const caBundle = target.tls?.caBundleSecretRef ? getCaBundleFromEnv() : undefined;
+    if (target.tls?.caBundleSecretRef && !caBundle) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "TLS_ERROR",
+        message: "CA bundle not found in environment",
+      };
+    }
+
+    // Client certificate for endpoints that require mutual TLS
+    const clientCert = target.tls?.clientCertSecretRef ? getClientCertFromEnv() : undefined;
+    if (target.tls?.clientCertSecretRef && !clientCert) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "TLS_ERROR",
+        message: "Client certificate not found in environment",
+      };
+    }
+
+    // SNI and hostname verification use the original hostname, not the resolved IP
+    const servername = target.tls?.sni ?? originalHostname;
+    if (originalUrl.protocol === "https:") {
+      certificateTarget = {
+        host: resolvedIp,
+        port: Number(originalUrl.port) || 443,
+        servername,
+        ...(caBundle && { ca: caBundle }),
+        ...(clientCert && { clientCert }),
+        ...(proxy && { proxy }),
+        timeoutMs: timeout * 1000,
+      };
     }
 
     // Create abort controller for timeout
     const controller = new AbortController();
     const timeoutHandle = setTimeout(() => controller.abort(), timeout * 1000);
 
+    // Phase timings of each request in the redirect chain
+    const hops: HttpTimings[] = [];
+    const send: RequestSender = async (url, init) => {
+      const { response, timings } = await requestTimed(url, init, proxy, timeout * 1000);
+      hops.push(timings);
+      return response;
+    };
+
     try {
-      const response = await fetch(fetchUrl, {
-        method: target.method || "GET",
-        headers,
-        body,
-        redirect: target.followRedirects ? "follow" : "manual",
-        signal: controller.signal,
-      });
+      const redirected = await fetchWithRedirects(
+        target,
+        fetchUrl,
+        {
+          method: target.method || "GET",
+          headers,
+          body: requestBody.body,
+          signal: controller.signal,
+          tls: {
+            rejectUnauthorized: target.tls?.verify ?? true,
+            ...(!isIP(servername) && { serverName: servername }),
+            ...(caBundle && { ca: withSystemRoots(caBundle) }),
+            ...clientCert,
+          },
+        },
+        undefined,
+        send,
+      );
+      const { response } = redirected;
 
-      clearTimeout(timeoutHandle);
       const latencyMs = Date.now() - startTime;
 
+      // Read the body so content transfer is timed; the size limit applies when the body
+      // is inspected or when maxBodyBytes is set explicitly
+      const keepBody = hasBodyAssertions(spec.successCriteria);
+      const maxBodyBytes = target.maxBodyBytes ?? (keepBody ? DEFAULT_MAX_BODY_BYTES : 0);
+      const transferStart = performance.now();
+      const responseBody = await readBody(response, maxBodyBytes, keepBody);
+      const transferMs = elapsedMs(transferStart);
+      clearTimeout(timeoutHandle);
+
+      // fetch() doesn't expose the peer certificate, so capture it with a separate handshake
+      let cert: CertificateInfo | undefined;
+      if (certificateTarget) {
+        try {
+          cert = await inspectCertificate(certificateTarget);
+        } catch (error) {
+          logger.warn(
+            { monitor: monitor.metadata.name, error },
+            "Failed to inspect HTTPS certificate",
+          );
+        }
+      }
+
+      const timings: HttpTimings = {
+        ...(dnsMs !== undefined && { dnsMs }),
+        ...sumTimings(hops),
+        transferMs,
+      };
+
+      if (redirected.error) {
+        return {
+          state: "down",
+          latencyMs,
+          reason: "TOO_MANY_REDIRECTS",
+          message: redirected.error,
+          ...(cert && { cert }),
+          timings,
+        };
+      }
+
       // Check status codes
       const successCriteria = spec.successCriteria?.http;
       const acceptedCodes = successCriteria?.acceptedStatusCodes || [200];
@@ -218,6 +685,8 @@ export async function checkHttp(monitor: Monitor, timeout: number): Promise<Chec
           latencyMs,
           reason: `HTTP_${response.status}`,
           message: `HTTP ${response.status} received`,
+          ...(cert && { cert }),
+          timings,
         };
       }
 
@@ -230,16 +699,47 @@ export async function checkHttp(monitor: Monitor, timeout: number): Promise<Chec
             latencyMs,
             reason: "INVALID_CONTENT_TYPE",
             message: `Expected ${target.expectedContentType}, got ${contentType}`,
+            ...(cert && { cert }),
+            timings,
           };
         }
       }
 
-      // Extract and validate certificate info if HTTPS
-      const certInfo: { expiresAt?: Date; daysRemaining?: number } = {};
-      if (target.url.startsWith("https://")) {
-        // Note: fetch() doesn't expose certificate info directly
-        // In a real implementation, you'd use node-fetch with custom agent
-        // or use a library like node-https-proxy-agent
+      // Check response headers and the redirect chain if specified
+      const assertionFailure =
+        checkHeaderAssertions(response.headers, successCriteria?.headers) ??
+        checkRedirectAssertions(redirected, successCriteria?.redirects);
+      if (assertionFailure) {
+        return {
+          state: "down",
+          latencyMs,
+          ...assertionFailure,
+          ...(cert && { cert }),
+          timings,
+        };
+      }
+
+      if (responseBody === undefined) {
+        return {
+          state: "down",
+          latencyMs,
+          reason: "BODY_TOO_LARGE",
+          message: `Response body exceeds ${maxBodyBytes} bytes`,
+          ...(cert && { cert }),
+          timings,
+        };
+      }
+
+      // Check keyword, JSON, XML and HTML criteria against the body
+      const bodyFailures = checkBodyAssertions(responseBody, spec.successCriteria);
+      if (bodyFailures.length > 0) {
+        return {
+          state: "down",
+          latencyMs,
+          ...summarizeFailures(bodyFailures),
+          ...(cert && { cert }),
+          timings,
+        };
       }
 
       // Check latency if specified
@@ -249,6 +749,21 @@ export async function checkHttp(monitor: Monitor, timeout: number): Promise<Chec
           latencyMs,
           reason: "LATENCY_EXCEEDED",
           message: `Latency ${latencyMs}ms exceeds threshold ${successCriteria.latencyMsUnder}ms`,
+          ...(cert && { cert }),
+          timings,
+        };
+      }
+
+      // Check per-phase latency if specified
+      const slowPhase = findSlowPhase(timings, successCriteria?.phaseLatencyMsUnder);
+      if (slowPhase) {
+        return {
+          state: "down",
+          latencyMs,
+          reason: "PHASE_LATENCY_EXCEEDED",
+          message: slowPhase,
+          ...(cert && { cert }),
+          timings,
         };
       }
 
@@ -257,7 +772,8 @@ export async function checkHttp(monitor: Monitor, timeout: number): Promise<Chec
         latencyMs,
         reason: "HTTP_OK",
         message: `HTTP ${response.status} OK`,
-        ...certInfo,
+        ...(cert && { cert }),
+        timings,
       };
     } finally {
       clearTimeout(timeoutHandle);
@@ -293,12 +809,17 @@ export async function checkHttp(monitor: Monitor, timeout: number): Promise<Chec
         };
       }
 
-      if (error.message.includes("certificate")) {
+      if (isTlsError(error)) {
+        // Report the expired or untrusted certificate that failed the request
+        const cert = certificateTarget
+          ? await inspectCertificate(certificateTarget).catch(() => undefined)
+          : undefined;
         return {
           state: "down",
           latencyMs,
           reason: "TLS_ERROR",
           message: error.message,
+          ...(cert && { cert }),
         };
       }
     }
@@ -313,317 +834,3 @@ export async function checkHttp(monitor: Monitor, timeout: number): Promise<Chec
     };
   }
 }
-
-/**
- * Execute HTTP check with keyword matching
- */
-export async function checkKeyword(monitor: Monitor, timeout: number): Promise<CheckResult> {
-  // First do the HTTP check
-  const httpResult = await checkHttp(monitor, timeout);
-
-  if (httpResult.state === "down") {
-    return httpResult;
-  }
-
-  // Then check keyword criteria
-  const target = monitor.spec.target.http;
-  if (!target) {
-    return {
-      state: "down",
-      latencyMs: httpResult.latencyMs,
-      reason: "INVALID_CONFIG",
-      message: "No HTTP target for keyword check",
-    };
-  }
-
-  const criteria = monitor.spec.successCriteria?.keyword;
-  if (!criteria) {
-    return httpResult; // No keyword criteria, just return HTTP result
-  }
-
-  try {
-    const controller = new AbortController();
-    const timeoutHandle = setTimeout(() => controller.abort(), timeout * 1000);
-
-    const response = await fetch(target.url, {
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutHandle);
-    const body = await response.text();
-
-    // Check contains
-    if (criteria.contains && criteria.contains.length > 0) {
-      for (const keyword of criteria.contains) {
-        if (!body.includes(keyword)) {
-          return {
-            state: "down",
-            latencyMs: httpResult.latencyMs,
-            reason: "KEYWORD_MISSING",
-            message: `Expected keyword "${keyword}" not found`,
-          };
-        }
-      }
-    }
-
-    // Check notContains
-    if (criteria.notContains && criteria.notContains.length > 0) {
-      for (const keyword of criteria.notContains) {
-        if (body.includes(keyword)) {
-          return {
-            state: "down",
-            latencyMs: httpResult.latencyMs,
-            reason: "KEYWORD_PRESENT",
-            message: `Unexpected keyword "${keyword}" found`,
-          };
-        }
-      }
-    }
-
-    // Check regex
-    if (criteria.regex && criteria.regex.length > 0) {
-      for (const pattern of criteria.regex) {
-        try {
-          const regex = new RegExp(pattern);
-          if (!regex.test(body)) {
-            return {
-              state: "down",
-              latencyMs: httpResult.latencyMs,
-              reason: "REGEX_NO_MATCH",
-              message: `Regex pattern "${pattern}" did not match`,
-            };
-          }
-        } catch (_error) {
-          return {
-            state: "down",
-            latencyMs: httpResult.latencyMs,
-            reason: "INVALID_REGEX",
-            message: `Invalid regex pattern: ${pattern}`,
-          };
-        }
-      }
-    }
-
-    return httpResult;
-  } catch (error) {
-    logger.warn({ monitor: monitor.metadata.name, error }, "Keyword check failed");
-
-    return {
-      state: "down",
-      latencyMs: httpResult.latencyMs,
-      reason: "CHECK_ERROR",
-      message: error instanceof Error ? error.message : "Unknown error",
-    };
-  }
-}
-
-/**
- * Execute HTTP check with JSON path validation (enhanced with full JSONPath support)
- */
-export async function checkJsonQuery(monitor: Monitor, timeout: number): Promise<CheckResult> {
-  // First do the HTTP check
-  const httpResult = await checkHttp(monitor, timeout);
-
-  if (httpResult.state === "down") {
-    return httpResult;
-  }
-
-  const target = monitor.spec.target.http;
-  if (!target) {
-    return {
-      state: "down",
-      latencyMs: httpResult.latencyMs,
-      reason: "INVALID_CONFIG",
-      message: "No HTTP target for JSON query",
-    };
-  }
-
-  const criteria = monitor.spec.successCriteria?.jsonQuery;
-  if (!criteria) {
-    return httpResult;
-  }
-
-  try {
-    const controller = new AbortController();
-    const timeoutHandle = setTimeout(() => controller.abort(), timeout * 1000);
-
-    const response = await fetch(target.url, {
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutHandle);
-    const data = await response.json();
-
-    // Use enhanced JSONPath parser
-    const { queryJsonPath, validateJsonPathResult } = await import("../lib/parsers");
-    const result = queryJsonPath(data, criteria.path);
-    const validation = validateJsonPathResult(result, {
-      equals: criteria.equals,
-      contains: criteria.contains,
-      exists: criteria.exists,
-      count: criteria.count,
-      greaterThan: criteria.greaterThan,
-      lessThan: criteria.lessThan,
-    });
-
-    if (!validation.valid) {
-      return {
-        state: "down",
-        latencyMs: httpResult.latencyMs,
-        reason: "JSON_VALIDATION_FAILED",
-        message: validation.message,
-      };
-    }
-
-    return httpResult;
-  } catch (error) {
-    logger.warn({ monitor: monitor.metadata.name, error }, "JSON query failed");
-
-    return {
-      state: "down",
-      latencyMs: httpResult.latencyMs,
-      reason: "JSON_ERROR",
-      message: error instanceof Error ? error.message : "Invalid JSON response",
-    };
-  }
-}
-
-/**
- * Execute HTTP check with XML/XPath validation
- */
-export async function checkXmlQuery(monitor: Monitor, timeout: number): Promise<CheckResult> {
-  // First do the HTTP check
-  const httpResult = await checkHttp(monitor, timeout);
-
-  if (httpResult.state === "down") {
-    return httpResult;
-  }
-
-  const target = monitor.spec.target.http;
-  if (!target) {
-    return {
-      state: "down",
-      latencyMs: httpResult.latencyMs,
-      reason: "INVALID_CONFIG",
-      message: "No HTTP target for XML query",
-    };
-  }
-
-  const criteria = monitor.spec.successCriteria?.xmlQuery;
-  if (!criteria) {
-    return httpResult;
-  }
-
-  try {
-    const controller = new AbortController();
-    const timeoutHandle = setTimeout(() => controller.abort(), timeout * 1000);
-
-    const response = await fetch(target.url, {
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutHandle);
-    const xml = await response.text();
-
-    // Use XPath parser
-    const { queryXPath, validateXPathResult } = await import("../lib/parsers");
-    const result = queryXPath(xml, criteria.path, {
-      ignoreNamespace: criteria.ignoreNamespace,
-    });
-    const validation = validateXPathResult(result, {
-      equals: criteria.equals,
-      contains: criteria.contains,
-      exists: criteria.exists,
-      count: criteria.count,
-    });
-
-    if (!validation.valid) {
-      return {
-        state: "down",
-        latencyMs: httpResult.latencyMs,
-        reason: "XML_VALIDATION_FAILED",
-        message: validation.message,
-      };
-    }
-
-    return httpResult;
-  } catch (error) {
-    logger.warn({ monitor: monitor.metadata.name, error }, "XML query failed");
-
-    return {
-      state: "down",
-      latencyMs: httpResult.latencyMs,
-      reason: "XML_ERROR",
-      message: error instanceof Error ? error.message : "Invalid XML response",
-    };
-  }
-}
-
-/**
- * Execute HTTP check with HTML/CSS selector validation
- */
-export async function checkHtmlQuery(monitor: Monitor, timeout: number): Promise<CheckResult> {
-  // First do the HTTP check
-  const httpResult = await checkHttp(monitor, timeout);
-
-  if (httpResult.state === "down") {
-    return httpResult;
-  }
-
-  const target = monitor.spec.target.http;
-  if (!target) {
-    return {
-      state: "down",
-      latencyMs: httpResult.latencyMs,
-      reason: "INVALID_CONFIG",
-      message: "No HTTP target for HTML query",
-    };
-  }
-
-  const criteria = monitor.spec.successCriteria?.htmlQuery;
-  if (!criteria) {
-    return httpResult;
-  }
-
-  try {
-    const controller = new AbortController();
-    const timeoutHandle = setTimeout(() => controller.abort(), timeout * 1000);
-
-    const response = await fetch(target.url, {
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutHandle);
-    const html = await response.text();
-
-    // Use CSS selector parser
-    const { queryCssSelector, validateCssSelectorResult } = await import("../lib/parsers");
-    const result = queryCssSelector(html, criteria.selector);
-    const validation = validateCssSelectorResult(result, {
-      exists: criteria.exists,
-      count: criteria.count,
-      text: criteria.text,
-      attribute: criteria.attribute,
-    });
-
-    if (!validation.valid) {
-      return {
-        state: "down",
-        latencyMs: httpResult.latencyMs,
-        reason: "HTML_VALIDATION_FAILED",
-        message: validation.message,
-      };
-    }
-
-    return httpResult;
-  } catch (error) {
-    logger.warn({ monitor: monitor.metadata.name, error }, "HTML query failed");
-
-    return {
-      state: "down",
-      latencyMs: httpResult.latencyMs,
-      reason: "HTML_ERROR",
-      message: error instanceof Error ? error.message : "Invalid HTML response",
-    };
-  }
-}
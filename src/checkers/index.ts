@@ -1,21 +1,25 @@
 import { logger } from "../lib/logger";
 import type { Monitor } from "../types/crd";
+import { checkAmqp } from "./amqp";
 import { checkDns } from "./dns";
+import { checkDocker } from "./docker";
+import { checkGraphql } from "./graphql";
 import { checkGrpc } from "./grpc";
-import {
-  type CheckResult,
-  checkHtmlQuery,
-  checkHttp,
-  checkJsonQuery,
-  checkKeyword,
-  checkXmlQuery,
-} from "./http";
+import { type CheckResult, checkHttp } from "./http";
+import { checkHttpSteps } from "./http-steps";
+import { checkKafka } from "./kafka";
 import { checkKubernetes } from "./kubernetes";
+import { checkImap, checkPop3, checkSmtp } from "./mail";
+import { checkMongoDb } from "./mongodb";
+import { checkMqtt } from "./mqtt";
 import { checkMySql } from "./mysql";
+import { checkNats } from "./nats";
 import { checkPing } from "./ping";
 import { checkPostgreSql } from "./postgresql";
+import { checkPrometheus } from "./prometheus";
 import { checkPush } from "./push";
 import { checkRedis } from "./redis";
+import { checkSsh } from "./ssh";
 import { checkSteam } from "./steam";
 import { checkTcp } from "./tcp";
 import { checkWebSocket } from "./websocket";
@@ -32,26 +36,40 @@ export async function executeCheck(monitor: Monitor, timeout: number): Promise<C
     logger.debug({ monitor: monitor.metadata.name, type, timeout }, "Executing check");
 
     switch (type) {
-      // Content-based HTTP checks
+      // Content-based HTTP checks; body criteria can be combined on any of these types
       case "http":
-        return await checkHttp(monitor, timeout);
-
       case "keyword":
-        return await checkKeyword(monitor, timeout);
-
       case "jsonQuery":
-        return await checkJsonQuery(monitor, timeout);
-
       case "xmlQuery":
-        return await checkXmlQuery(monitor, timeout);
-
       case "htmlQuery":
-        return await checkHtmlQuery(monitor, timeout);
+        return await checkHttp(monitor, timeout);
+
+      case "httpSteps":
+        return await checkHttpSteps(monitor, timeout);
+
+      case "graphql":
+        return await checkGraphql(monitor, timeout);
+
+      case "prometheus":
+        return await checkPrometheus(monitor, timeout);
 
       // Network checks
       case "tcp":
         return await checkTcp(monitor, timeout);
 
+      // Mail server checks
+      case "smtp":
+        return await checkSmtp(monitor, timeout);
+
+      case "imap":
+        return await checkImap(monitor, timeout);
+
+      case "pop3":
+        return await checkPop3(monitor, timeout);
+
+      case "ssh":
+        return await checkSsh(monitor, timeout);
+
       case "dns":
         return await checkDns(monitor, timeout);
 
@@ -71,12 +89,7 @@ export async function executeCheck(monitor: Monitor, timeout: number): Promise<C
         return await checkKubernetes(monitor, timeout);
 
       case "docker":
-        return {
-          state: "down",
-          latencyMs: 0,
-          reason: "NOT_IMPLEMENTED",
-          message: "Docker checker not yet implemented",
-        };
+        return await checkDocker(monitor, timeout);
 
       // Database checks
       case "mysql":
@@ -88,6 +101,22 @@ export async function executeCheck(monitor: Monitor, timeout: number): Promise<C
       case "redis":
         return await checkRedis(monitor, timeout);
 
+      case "mongodb":
+        return await checkMongoDb(monitor, timeout);
+
+      // Message broker checks
+      case "kafka":
+        return await checkKafka(monitor, timeout);
+
+      case "amqp":
+        return await checkAmqp(monitor, timeout);
+
+      case "nats":
+        return await checkNats(monitor, timeout);
+
+      case "mqtt":
+        return await checkMqtt(monitor, timeout);
+
       // gRPC health check
       case "grpc":
         return await checkGrpc(monitor, timeout);
@@ -120,4 +149,4 @@ export async function executeCheck(monitor: Monitor, timeout: number): Promise<C
 }
 
 export type { CheckResult };
-export { recordPush, validatePushToken } from "./push";
+export { buildPushStatus, isReplayedPush, validatePushToken } from "./push";
@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { createKafkaMonitor } from "../test-utils/fixtures/monitors";
+import { createMockKafkaClientFactory } from "../test-utils/mocks/brokers";
+import { createCheckKafka, type KafkaClientConfig } from "./kafka";
+
+const sasl = {
+  mechanism: "scram-sha-512" as const,
+  credentialsSecretRef: { name: "kafka-probe", usernameKey: "username", passwordKey: "password" },
+};
+
+describe("checkKafka", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test("returns up with the cluster size", async () => {
+    const checker = createCheckKafka(createMockKafkaClientFactory());
+    const result = await checker(createKafkaMonitor(), 10);
+
+    expect(result.state).toBe("up");
+    expect(result.reason).toBe("KAFKA_OK");
+    expect(result.message).toBe("Kafka cluster mock-cluster has 3 brokers");
+  });
+
+  test("returns down when no Kafka target configured", async () => {
+    const monitor = createKafkaMonitor();
+    monitor.spec.target = {} as typeof monitor.spec.target;
+    const result = await createCheckKafka(createMockKafkaClientFactory())(monitor, 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("INVALID_CONFIG");
+    expect(result.message).toBe("No Kafka target configured");
+  });
+
+  test("returns up when every partition of the topic has a leader", async () => {
+    const checker = createCheckKafka(createMockKafkaClientFactory());
+    const result = await checker(createKafkaMonitor({ topic: "orders" }), 10);
+
+    expect(result.state).toBe("up");
+    expect(result.message).toBe("Kafka topic orders has leaders for all 2 partitions");
+  });
+
+  test("returns KAFKA_NO_LEADER for leaderless partitions", async () => {
+    const checker = createCheckKafka(
+      createMockKafkaClientFactory({
+        partitions: [
+          { partition: 0, leader: 1 },
+          { partition: 1, leader: -1 },
+          { partition: 2, leader: -1 },
+        ],
+      }),
+    );
+    const result = await checker(createKafkaMonitor({ topic: "orders" }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("KAFKA_NO_LEADER");
+    expect(result.message).toBe("Kafka topic orders has no leader for partitions 1, 2");
+  });
+
+  test("returns KAFKA_TOPIC_NOT_FOUND for a missing topic", async () => {
+    const checker = createCheckKafka(createMockKafkaClientFactory({ partitions: null }));
+    const result = await checker(createKafkaMonitor({ topic: "orders" }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("KAFKA_TOPIC_NOT_FOUND");
+  });
+
+  test("passes SASL credentials from the environment", async () => {
+    process.env.YUPTIME_CRED_KAFKA_USERNAME = "probe";
+    process.env.YUPTIME_CRED_KAFKA_PASSWORD = "secret";
+    let config: KafkaClientConfig | undefined;
+    const checker = createCheckKafka(
+      createMockKafkaClientFactory({
+        onConfig: (received) => {
+          config = received;
+        },
+      }),
+    );
+    await checker(createKafkaMonitor({ sasl, tls: { enabled: true, verify: false } }), 10);
+
+    expect(config?.sasl).toEqual({
+      mechanism: "scram-sha-512",
+      username: "probe",
+      password: "secret",
+    });
+    expect(config?.tls).toEqual({ verify: false });
+    expect(config?.timeoutMs).toBe(10000);
+  });
+
+  test("returns CREDENTIALS_ERROR when SASL credentials are missing", async () => {
+    delete process.env.YUPTIME_CRED_KAFKA_USERNAME;
+    const checker = createCheckKafka(createMockKafkaClientFactory());
+    const result = await checker(createKafkaMonitor({ sasl }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("CREDENTIALS_ERROR");
+  });
+
+  const errorCases = [
+    { error: "Connection error: connect ECONNREFUSED 10.0.0.1:9092", reason: "CONNECTION_REFUSED" },
+    { error: "getaddrinfo ENOTFOUND kafka.example.com", reason: "DNS_NXDOMAIN" },
+    {
+      error: "SASL SCRAM SHA512 authentication failed: Authentication failed during authentication",
+      reason: "AUTH_FAILED",
+    },
+    { error: "Connection timeout", reason: "TIMEOUT" },
+    { error: "Closed connection", reason: "CONNECTION_ERROR" },
+  ];
+
+  for (const { error, reason } of errorCases) {
+    test(`returns ${reason} for "${error}"`, async () => {
+      const checker = createCheckKafka(
+        createMockKafkaClientFactory({ connectError: new Error(error) }),
+      );
+      const result = await checker(createKafkaMonitor(), 10);
+
+      expect(result.state).toBe("down");
+      expect(result.reason).toBe(reason);
+    });
+  }
+});
@@ -0,0 +1,322 @@
+import type { SASLOptions } from "kafkajs";
+import {
+  type ClientCertificate,
+  getCaBundleFromEnv,
+  getClientCertFromEnv,
+  isTlsError,
+  withSystemRoots,
+} from "../lib/certificates";
+import { logger } from "../lib/logger";
+import type { Monitor } from "../types/crd";
+import type { CheckResult } from "./index";
+
+/**
+ * Get Kafka SASL credentials from environment variables.
+ * These are injected by the Job builder from Kubernetes secrets.
+ */
+function getCredentialsFromEnv(): { username: string; password: string } | null {
+  const username = process.env.YUPTIME_CRED_KAFKA_USERNAME;
+  const password = process.env.YUPTIME_CRED_KAFKA_PASSWORD;
+
+  if (!username || !password) {
+    return null;
+  }
+
+  return { username, password };
+}
+
+/**
+ * Leader of one topic partition; -1 when the partition has no leader
+ */
+export interface KafkaPartition {
+  partition: number;
+  leader: number;
+}
+
+/**
+ * Kafka admin client interface for dependency injection
+ */
+export interface KafkaAdminClient {
+  connect(): Promise<void>;
+  describeCluster(): Promise<{ clusterId: string; brokers: number }>;
+  /** Partitions of a topic, or null when the topic does not exist */
+  topicPartitions(topic: string): Promise<KafkaPartition[] | null>;
+  disconnect(): Promise<void>;
+}
+
+/**
+ * Kafka client factory configuration
+ */
+export interface KafkaClientConfig {
+  brokers: string[];
+  clientId: string;
+  sasl?: {
+    mechanism: "plain" | "scram-sha-256" | "scram-sha-512";
+    username: string;
+    password: string;
+  };
+  tls?: {
+    verify: boolean;
+    caBundle?: string;
+    clientCert?: ClientCertificate;
+  };
+  timeoutMs: number;
+}
+
+/**
+ * Kafka client factory type for dependency injection
+ */
+export type KafkaClientFactory = (config: KafkaClientConfig) => Promise<KafkaAdminClient>;
+
+/**
+ * Default Kafka client factory using kafkajs
+ * Note: This requires the kafkajs package to be installed
+ */
+async function createDefaultKafkaClient(config: KafkaClientConfig): Promise<KafkaAdminClient> {
+  // Use dynamic import to avoid bundling kafkajs if not used
+  const { Kafka, logLevel } = await import("kafkajs");
+
+  const kafka = new Kafka({
+    clientId: config.clientId,
+    brokers: config.brokers,
+    connectionTimeout: config.timeoutMs,
+    requestTimeout: config.timeoutMs,
+    // A single attempt - retries would hide an unavailable broker until the timeout
+    retry: { retries: 0 },
+    logLevel: logLevel.NOTHING,
+    // kafkajs types SASL options per mechanism
+    ...(config.sasl && { sasl: config.sasl as SASLOptions }),
+    ...(config.tls && {
+      ssl: {
+        rejectUnauthorized: config.tls.verify,
+        ...(config.tls.caBundle && { ca: withSystemRoots(config.tls.caBundle) }),
+        ...(config.tls.clientCert && {
+          cert: config.tls.clientCert.cert,
+          key: config.tls.clientCert.key,
+        }),
+      },
+    }),
+  });
+  const admin = kafka.admin();
+
+  return {
+    connect: async () => {
+      await admin.connect();
+    },
+    describeCluster: async () => {
+      const cluster = await admin.describeCluster();
+      return { clusterId: cluster.clusterId, brokers: cluster.brokers.length };
+    },
+    topicPartitions: async (topic) => {
+      // Listing first avoids creating the topic on brokers with auto-creation enabled
+      const topics = await admin.listTopics();
+      if (!topics.includes(topic)) {
+        return null;
+      }
+
+      const metadata = await admin.fetchTopicMetadata({ topics: [topic] });
+      return (metadata.topics[0]?.partitions ?? []).map(({ partitionId, leader }) => ({
+        partition: partitionId,
+        leader,
+      }));
+    },
+    disconnect: async () => {
+      await admin.disconnect();
+    },
+  };
+}
+
+/**
+ * Internal Kafka checker implementation with injectable client factory
+ */
+async function checkKafkaWithFactory(
+  monitor: Monitor,
+  timeout: number,
+  clientFactory: KafkaClientFactory,
+): Promise<CheckResult> {
+  const target = monitor.spec.target.kafka;
+
+  if (!target) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "INVALID_CONFIG",
+      message: "No Kafka target configured",
+    };
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const credentials = target.sasl ? getCredentialsFromEnv() : undefined;
+    if (target.sasl && !credentials) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "CREDENTIALS_ERROR",
+        message: "Kafka credentials not found in environment",
+      };
+    }
+
+    const caBundle = target.tls?.caBundleSecretRef ? getCaBundleFromEnv() : undefined;
+    if (target.tls?.enabled && target.tls.caBundleSecretRef && !caBundle) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "TLS_ERROR",
+        message: "CA bundle not found in environment",
+      };
+    }
+
+    const clientCert = target.tls?.clientCertSecretRef ? getClientCertFromEnv() : undefined;
+    if (target.tls?.enabled && target.tls.clientCertSecretRef && !clientCert) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "TLS_ERROR",
+        message: "Client certificate not found in environment",
+      };
+    }
+
+    const client = await clientFactory({
+      brokers: target.brokers,
+      clientId: target.clientId ?? "yuptime",
+      ...(target.sasl &&
+        credentials && {
+          sasl: { mechanism: target.sasl.mechanism ?? "plain", ...credentials },
+        }),
+      ...(target.tls?.enabled && {
+        tls: {
+          verify: target.tls.verify ?? true,
+          ...(caBundle && { caBundle }),
+          ...(clientCert && { clientCert }),
+        },
+      }),
+      timeoutMs: timeout * 1000,
+    });
+
+    try {
+      await client.connect();
+      const cluster = await client.describeCluster();
+
+      if (!target.topic) {
+        return {
+          state: "up",
+          latencyMs: Date.now() - startTime,
+          reason: "KAFKA_OK",
+          message: `Kafka cluster ${cluster.clusterId} has ${cluster.brokers} brokers`,
+        };
+      }
+
+      const partitions = await client.topicPartitions(target.topic);
+      const latencyMs = Date.now() - startTime;
+
+      if (!partitions || partitions.length === 0) {
+        return {
+          state: "down",
+          latencyMs,
+          reason: "KAFKA_TOPIC_NOT_FOUND",
+          message: `Kafka topic ${target.topic} not found`,
+        };
+      }
+
+      const leaderless = partitions.filter(({ leader }) => leader < 0);
+      if (leaderless.length > 0) {
+        return {
+          state: "down",
+          latencyMs,
+          reason: "KAFKA_NO_LEADER",
+          message: `Kafka topic ${target.topic} has no leader for partitions ${leaderless
+            .map(({ partition }) => partition)
+            .join(", ")}`,
+        };
+      }
+
+      return {
+        state: "up",
+        latencyMs,
+        reason: "KAFKA_OK",
+        message: `Kafka topic ${target.topic} has leaders for all ${partitions.length} partitions`,
+      };
+    } finally {
+      await client.disconnect().catch(() => {
+        // Ignore close errors
+      });
+    }
+  } catch (error) {
+    const latencyMs = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+    logger.warn({ monitor: monitor.metadata.name, error: errorMessage }, "Kafka check failed");
+
+    // Categorize common Kafka errors
+    if (errorMessage.includes("ECONNREFUSED")) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "CONNECTION_REFUSED",
+        message: "Kafka connection refused",
+      };
+    }
+
+    if (errorMessage.includes("ENOTFOUND")) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "DNS_NXDOMAIN",
+        message: "Kafka broker not found",
+      };
+    }
+
+    if (/authentication failed|SASL/i.test(errorMessage)) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "AUTH_FAILED",
+        message: "Kafka authentication failed",
+      };
+    }
+
+    if (isTlsError(error)) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "TLS_ERROR",
+        message: errorMessage,
+      };
+    }
+
+    if (errorMessage.includes("ETIMEDOUT") || /time(d)? ?out/i.test(errorMessage)) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "TIMEOUT",
+        message: `Kafka connection timeout after ${timeout}s`,
+      };
+    }
+
+    return {
+      state: "down",
+      latencyMs,
+      reason: "CONNECTION_ERROR",
+      message: errorMessage,
+    };
+  }
+}
+
+/**
+ * Kafka cluster checker
+ */
+export async function checkKafka(monitor: Monitor, timeout: number): Promise<CheckResult> {
+  return checkKafkaWithFactory(monitor, timeout, createDefaultKafkaClient);
+}
+
+/**
+ * Create a Kafka checker with a custom client factory (for testing)
+ */
+export function createCheckKafka(
+  clientFactory: KafkaClientFactory,
+): (monitor: Monitor, timeout: number) => Promise<CheckResult> {
+  return (monitor: Monitor, timeout: number) =>
+    checkKafkaWithFactory(monitor, timeout, clientFactory);
+}
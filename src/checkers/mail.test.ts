@@ -0,0 +1,536 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { type AddressInfo, createServer } from "node:net";
+import { createMailMonitor } from "../test-utils/fixtures/monitors";
+import { createMockMailConnector, type MockMailServer } from "../test-utils/mocks/mail";
+import {
+  checkSmtp,
+  createCheckImap,
+  createCheckPop3,
+  createCheckSmtp,
+  hasCapability,
+} from "./mail";
+
+/**
+ * SMTP server advertising the given EHLO capabilities
+ */
+function smtpServer(options: { capabilities?: string[]; authCode?: number } = {}): MockMailServer {
+  const capabilities = options.capabilities ?? ["PIPELINING", "SIZE 10240000", "STARTTLS"];
+  const ehlo = ["mail.example.com", ...capabilities].map(
+    (line, index, all) => `250${index === all.length - 1 ? " " : "-"}${line}`,
+  );
+
+  return {
+    greeting: ["220 mail.example.com ESMTP Postfix"],
+    reply: (command) => {
+      if (command.startsWith("EHLO")) return ehlo;
+      if (command === "STARTTLS") return ["220 2.0.0 Ready to start TLS"];
+      if (command === "AUTH LOGIN") return ["334 VXNlcm5hbWU6"];
+      if (command.startsWith("AUTH PLAIN")) {
+        return [`${options.authCode ?? 235} 2.7.0 Authentication result`];
+      }
+      if (command === "QUIT") return ["221 2.0.0 Bye"];
+      // AUTH LOGIN username and password
+      return [command === Buffer.from("user").toString("base64") ? "334 UGFzc3dvcmQ6" : "235 OK"];
+    },
+  };
+}
+
+function imapServer(options: { capabilities?: string; loginStatus?: string } = {}): MockMailServer {
+  const capabilities = options.capabilities ?? "IMAP4rev1 STARTTLS AUTH=PLAIN IDLE";
+
+  return {
+    greeting: ["* OK [CAPABILITY IMAP4rev1] Dovecot ready."],
+    reply: (command) => {
+      const [tag, verb] = command.split(" ");
+      switch (verb) {
+        case "CAPABILITY":
+          return [`* CAPABILITY ${capabilities}`, `${tag} OK Capability completed.`];
+        case "STARTTLS":
+          return [`${tag} OK Begin TLS negotiation now.`];
+        case "LOGIN":
+          return [`${tag} ${options.loginStatus ?? "OK Logged in"}`];
+        default:
+          return [`${tag} OK Logout completed.`];
+      }
+    },
+  };
+}
+
+function pop3Server(options: { capabilities?: string[] | null; passReply?: string } = {}) {
+  const capabilities =
+    options.capabilities === undefined ? ["USER", "STLS", "TOP"] : options.capabilities;
+
+  return {
+    greeting: ["+OK Dovecot ready."],
+    reply: (command: string) => {
+      if (command === "CAPA") {
+        return capabilities ? ["+OK", ...capabilities, "."] : ["-ERR Unknown command"];
+      }
+      if (command.startsWith("PASS")) return [options.passReply ?? "+OK Logged in."];
+      return ["+OK"];
+    },
+  } satisfies MockMailServer;
+}
+
+describe("checkSmtp", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test("returns up after the EHLO exchange", async () => {
+    const connector = createMockMailConnector(smtpServer());
+    const result = await createCheckSmtp(connector)(createMailMonitor("smtp"), 10);
+
+    expect(result.state).toBe("up");
+    expect(result.reason).toBe("SMTP_OK");
+    expect(result.message).toBe("SMTP server ready");
+    expect(connector.commands).toEqual(["EHLO yuptime", "QUIT"]);
+    expect(connector.configs[0]).toMatchObject({
+      host: "mail.example.com",
+      port: 25,
+      servername: "mail.example.com",
+    });
+  });
+
+  test("returns down when no SMTP target configured", async () => {
+    const monitor = createMailMonitor("smtp");
+    monitor.spec.target = {};
+    const result = await createCheckSmtp(createMockMailConnector(smtpServer()))(monitor, 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("INVALID_CONFIG");
+    expect(result.message).toBe("No SMTP target configured");
+  });
+
+  test("returns PROTOCOL_ERROR when the greeting is not 220", async () => {
+    const connector = createMockMailConnector({
+      ...smtpServer(),
+      greeting: ["554 5.3.2 Service unavailable"],
+    });
+    const result = await createCheckSmtp(connector)(createMailMonitor("smtp"), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("PROTOCOL_ERROR");
+    expect(result.message).toBe(
+      "SMTP server rejected the connection: 554 5.3.2 Service unavailable",
+    );
+  });
+
+  test("upgrades with STARTTLS and repeats EHLO", async () => {
+    const connector = createMockMailConnector({ ...smtpServer(), cert: { daysRemaining: 20 } });
+    const result = await createCheckSmtp(connector)(
+      createMailMonitor("smtp", {
+        tls: { mode: "starttls", verify: true, sni: "smtp.example.com" },
+      }),
+      10,
+    );
+
+    expect(result.state).toBe("up");
+    expect(result.cert?.daysRemaining).toBe(20);
+    expect(connector.tlsUpgrades).toBe(1);
+    expect(connector.configs[0]?.servername).toBe("smtp.example.com");
+    expect(connector.commands).toEqual(["EHLO yuptime", "STARTTLS", "EHLO yuptime", "QUIT"]);
+  });
+
+  test("returns TLS_ERROR when STARTTLS is not advertised", async () => {
+    const connector = createMockMailConnector(smtpServer({ capabilities: ["PIPELINING"] }));
+    const result = await createCheckSmtp(connector)(
+      createMailMonitor("smtp", { tls: { mode: "starttls", verify: true } }),
+      10,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("TLS_ERROR");
+    expect(result.message).toBe("SMTP server does not advertise STARTTLS");
+  });
+
+  test("fails on an untrusted certificate before sending credentials", async () => {
+    process.env.YUPTIME_CRED_MAIL_USERNAME = "user";
+    process.env.YUPTIME_CRED_MAIL_PASSWORD = "secret";
+    const connector = createMockMailConnector({
+      ...smtpServer({ capabilities: ["STARTTLS", "AUTH PLAIN LOGIN"] }),
+      cert: { valid: false, validationError: "self-signed certificate" },
+    });
+    const result = await createCheckSmtp(connector)(
+      createMailMonitor("smtp", {
+        tls: { mode: "starttls", verify: true },
+        credentialsSecretRef: { name: "mail", usernameKey: "username", passwordKey: "password" },
+      }),
+      10,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("TLS_ERROR");
+    expect(result.message).toBe("Certificate validation failed: self-signed certificate");
+    expect(result.cert?.valid).toBe(false);
+    expect(connector.commands.some((command) => command.startsWith("AUTH"))).toBe(false);
+  });
+
+  test("accepts an untrusted certificate when verify is false", async () => {
+    const connector = createMockMailConnector({ ...smtpServer(), cert: { valid: false } });
+    const result = await createCheckSmtp(connector)(
+      createMailMonitor("smtp", { tls: { mode: "starttls", verify: false } }),
+      10,
+    );
+
+    expect(result.state).toBe("up");
+    expect(result.cert?.valid).toBe(false);
+  });
+
+  test("connects with implicit TLS before reading the greeting", async () => {
+    const connector = createMockMailConnector(smtpServer());
+    const result = await createCheckSmtp(connector)(
+      createMailMonitor("smtp", { port: 465, tls: { mode: "implicit", verify: true } }),
+      10,
+    );
+
+    expect(result.state).toBe("up");
+    expect(result.cert).toBeDefined();
+    expect(connector.tlsUpgrades).toBe(1);
+    expect(connector.commands).toEqual(["EHLO yuptime", "QUIT"]);
+  });
+
+  test("authenticates with AUTH PLAIN using credentials from the environment", async () => {
+    process.env.YUPTIME_CRED_MAIL_USERNAME = "user";
+    process.env.YUPTIME_CRED_MAIL_PASSWORD = "secret";
+    const connector = createMockMailConnector(smtpServer({ capabilities: ["AUTH PLAIN LOGIN"] }));
+    const result = await createCheckSmtp(connector)(
+      createMailMonitor("smtp", {
+        allowInsecureAuth: true,
+        credentialsSecretRef: { name: "mail", usernameKey: "username", passwordKey: "password" },
+      }),
+      10,
+    );
+
+    expect(result.state).toBe("up");
+    expect(result.message).toBe("SMTP login successful");
+    expect(connector.commands).toContain(
+      `AUTH PLAIN ${Buffer.from("\0user\0secret").toString("base64")}`,
+    );
+  });
+
+  test("falls back to AUTH LOGIN", async () => {
+    process.env.YUPTIME_CRED_MAIL_USERNAME = "user";
+    process.env.YUPTIME_CRED_MAIL_PASSWORD = "secret";
+    const connector = createMockMailConnector(smtpServer({ capabilities: ["AUTH LOGIN"] }));
+    const result = await createCheckSmtp(connector)(
+      createMailMonitor("smtp", {
+        allowInsecureAuth: true,
+        credentialsSecretRef: { name: "mail", usernameKey: "username", passwordKey: "password" },
+      }),
+      10,
+    );
+
+    expect(result.state).toBe("up");
+    expect(connector.commands.slice(1, 4)).toEqual([
+      "AUTH LOGIN",
+      Buffer.from("user").toString("base64"),
+      Buffer.from("secret").toString("base64"),
+    ]);
+  });
+
+  test("returns AUTH_FAILED when the server rejects the credentials", async () => {
+    process.env.YUPTIME_CRED_MAIL_USERNAME = "user";
+    process.env.YUPTIME_CRED_MAIL_PASSWORD = "wrong";
+    const connector = createMockMailConnector(
+      smtpServer({ capabilities: ["AUTH PLAIN"], authCode: 535 }),
+    );
+    const result = await createCheckSmtp(connector)(
+      createMailMonitor("smtp", {
+        allowInsecureAuth: true,
+        credentialsSecretRef: { name: "mail", usernameKey: "username", passwordKey: "password" },
+      }),
+      10,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("AUTH_FAILED");
+    expect(result.message).toContain("535");
+  });
+
+  test("refuses to send credentials without TLS", async () => {
+    process.env.YUPTIME_CRED_MAIL_USERNAME = "user";
+    process.env.YUPTIME_CRED_MAIL_PASSWORD = "secret";
+    const connector = createMockMailConnector(smtpServer({ capabilities: ["AUTH PLAIN"] }));
+    const result = await createCheckSmtp(connector)(
+      createMailMonitor("smtp", {
+        credentialsSecretRef: { name: "mail", usernameKey: "username", passwordKey: "password" },
+      }),
+      10,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("INVALID_CONFIG");
+    expect(connector.commands).toEqual([]);
+  });
+
+  test("returns CREDENTIALS_ERROR when credentials are missing from the environment", async () => {
+    delete process.env.YUPTIME_CRED_MAIL_USERNAME;
+    delete process.env.YUPTIME_CRED_MAIL_PASSWORD;
+    const connector = createMockMailConnector(smtpServer());
+    const result = await createCheckSmtp(connector)(
+      createMailMonitor("smtp", {
+        credentialsSecretRef: { name: "mail", usernameKey: "username", passwordKey: "password" },
+      }),
+      10,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("CREDENTIALS_ERROR");
+    expect(connector.configs).toHaveLength(0);
+  });
+
+  test("checks advertised capabilities and the banner", async () => {
+    const connector = createMockMailConnector(smtpServer({ capabilities: ["AUTH PLAIN LOGIN"] }));
+    const up = await createCheckSmtp(connector)(
+      createMailMonitor("smtp", {}, { bannerContains: "Postfix", capabilities: ["auth"] }),
+      10,
+    );
+    const missing = await createCheckSmtp(connector)(
+      createMailMonitor("smtp", {}, { capabilities: ["AUTH", "STARTTLS", "SMTPUTF8"] }),
+      10,
+    );
+    const banner = await createCheckSmtp(connector)(
+      createMailMonitor("smtp", {}, { bannerContains: "Exim" }),
+      10,
+    );
+
+    expect(up.state).toBe("up");
+    expect(missing.reason).toBe("CAPABILITY_MISSING");
+    expect(missing.message).toBe("SMTP server does not advertise STARTTLS, SMTPUTF8");
+    expect(banner.reason).toBe("BANNER_MISMATCH");
+  });
+
+  test("times out when the server stops responding", async () => {
+    const connector = createMockMailConnector({ ...smtpServer(), reply: () => undefined });
+    const result = await createCheckSmtp(connector)(createMailMonitor("smtp"), 1);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("TIMEOUT");
+    expect(result.message).toBe("SMTP check timeout after 1s");
+  });
+
+  test("returns CONNECTION_REFUSED when the connection is refused", async () => {
+    const connector = createMockMailConnector({
+      ...smtpServer(),
+      connectError: new Error("connect ECONNREFUSED 10.0.0.1:25"),
+    });
+    const result = await createCheckSmtp(connector)(createMailMonitor("smtp"), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("CONNECTION_REFUSED");
+    expect(result.message).toBe("SMTP connection refused");
+  });
+});
+
+describe("checkSmtp over a socket", () => {
+  test("reads multi-line replies split across packets", async () => {
+    const server = createServer((socket) => {
+      socket.write("220 mail.example.com ESMTP\r\n");
+      socket.on("data", (data) => {
+        if (data.toString().startsWith("EHLO")) {
+          socket.write("250-mail.example.com\r\n250-SIZE 1024");
+          setTimeout(() => socket.write("0\r\n250 SMTPUTF8\r\n"), 10);
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const result = await checkSmtp(
+        createMailMonitor("smtp", { host: "127.0.0.1", port }, { capabilities: ["SMTPUTF8"] }),
+        5,
+      );
+
+      expect(result.state).toBe("up");
+      expect(result.reason).toBe("SMTP_OK");
+    } finally {
+      server.close();
+    }
+  });
+});
+
+describe("checkImap", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test("returns up with the advertised capabilities", async () => {
+    const connector = createMockMailConnector(imapServer());
+    const result = await createCheckImap(connector)(
+      createMailMonitor("imap", {}, { capabilities: ["IMAP4rev1", "AUTH=PLAIN", "idle"] }),
+      10,
+    );
+
+    expect(result.state).toBe("up");
+    expect(result.reason).toBe("IMAP_OK");
+    expect(connector.commands).toEqual(["Y1 CAPABILITY", "Y2 LOGOUT"]);
+    expect(connector.configs[0]?.port).toBe(143);
+  });
+
+  test("upgrades with STARTTLS and logs in with quoted credentials", async () => {
+    process.env.YUPTIME_CRED_MAIL_USERNAME = "user";
+    process.env.YUPTIME_CRED_MAIL_PASSWORD = 'pa"ss';
+    const connector = createMockMailConnector(imapServer());
+    const result = await createCheckImap(connector)(
+      createMailMonitor("imap", {
+        tls: { mode: "starttls", verify: true },
+        credentialsSecretRef: { name: "mail", usernameKey: "username", passwordKey: "password" },
+      }),
+      10,
+    );
+
+    expect(result.state).toBe("up");
+    expect(result.message).toBe("IMAP login successful");
+    expect(connector.commands).toEqual([
+      "Y1 CAPABILITY",
+      "Y2 STARTTLS",
+      "Y3 CAPABILITY",
+      'Y4 LOGIN "user" "pa\\"ss"',
+      "Y5 LOGOUT",
+    ]);
+  });
+
+  test("returns AUTH_FAILED when LOGIN is rejected", async () => {
+    process.env.YUPTIME_CRED_MAIL_USERNAME = "user";
+    process.env.YUPTIME_CRED_MAIL_PASSWORD = "wrong";
+    const connector = createMockMailConnector(
+      imapServer({ loginStatus: "NO [AUTHENTICATIONFAILED] Authentication failed." }),
+    );
+    const result = await createCheckImap(connector)(
+      createMailMonitor("imap", {
+        allowInsecureAuth: true,
+        credentialsSecretRef: { name: "mail", usernameKey: "username", passwordKey: "password" },
+      }),
+      10,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("AUTH_FAILED");
+    expect(result.message).toBe(
+      "IMAP LOGIN failed: NO [AUTHENTICATIONFAILED] Authentication failed.",
+    );
+  });
+
+  test("returns AUTH_FAILED when the server disables LOGIN", async () => {
+    process.env.YUPTIME_CRED_MAIL_USERNAME = "user";
+    process.env.YUPTIME_CRED_MAIL_PASSWORD = "secret";
+    const connector = createMockMailConnector(
+      imapServer({ capabilities: "IMAP4rev1 STARTTLS LOGINDISABLED" }),
+    );
+    const result = await createCheckImap(connector)(
+      createMailMonitor("imap", {
+        allowInsecureAuth: true,
+        credentialsSecretRef: { name: "mail", usernameKey: "username", passwordKey: "password" },
+      }),
+      10,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("AUTH_FAILED");
+    expect(result.message).toBe("IMAP server disables LOGIN");
+  });
+
+  test("returns PROTOCOL_ERROR when the server says BYE", async () => {
+    const connector = createMockMailConnector({
+      ...imapServer(),
+      greeting: ["* BYE Too many connections"],
+    });
+    const result = await createCheckImap(connector)(createMailMonitor("imap"), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("PROTOCOL_ERROR");
+  });
+});
+
+describe("checkPop3", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test("returns up with the CAPA capabilities", async () => {
+    const connector = createMockMailConnector(pop3Server());
+    const result = await createCheckPop3(connector)(
+      createMailMonitor("pop3", {}, { capabilities: ["TOP", "USER"] }),
+      10,
+    );
+
+    expect(result.state).toBe("up");
+    expect(result.reason).toBe("POP3_OK");
+    expect(connector.commands).toEqual(["CAPA", "QUIT"]);
+  });
+
+  test("treats servers without CAPA as advertising nothing", async () => {
+    const connector = createMockMailConnector(pop3Server({ capabilities: null }));
+    const result = await createCheckPop3(connector)(
+      createMailMonitor("pop3", {}, { capabilities: ["STLS"] }),
+      10,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("CAPABILITY_MISSING");
+  });
+
+  test("upgrades with STLS and logs in", async () => {
+    process.env.YUPTIME_CRED_MAIL_USERNAME = "user";
+    process.env.YUPTIME_CRED_MAIL_PASSWORD = "secret";
+    const connector = createMockMailConnector(pop3Server());
+    const result = await createCheckPop3(connector)(
+      createMailMonitor("pop3", {
+        tls: { mode: "starttls", verify: true },
+        credentialsSecretRef: { name: "mail", usernameKey: "username", passwordKey: "password" },
+      }),
+      10,
+    );
+
+    expect(result.state).toBe("up");
+    expect(connector.commands).toEqual([
+      "CAPA",
+      "STLS",
+      "CAPA",
+      "USER user",
+      "PASS secret",
+      "QUIT",
+    ]);
+  });
+
+  test("returns AUTH_FAILED when PASS is rejected", async () => {
+    process.env.YUPTIME_CRED_MAIL_USERNAME = "user";
+    process.env.YUPTIME_CRED_MAIL_PASSWORD = "wrong";
+    const connector = createMockMailConnector(
+      pop3Server({ passReply: "-ERR [AUTH] Authentication failed." }),
+    );
+    const result = await createCheckPop3(connector)(
+      createMailMonitor("pop3", {
+        allowInsecureAuth: true,
+        credentialsSecretRef: { name: "mail", usernameKey: "username", passwordKey: "password" },
+      }),
+      10,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("AUTH_FAILED");
+    expect(result.message).toBe("POP3 PASS failed: -ERR [AUTH] Authentication failed.");
+  });
+});
+
+describe("hasCapability", () => {
+  test("matches capability names and full capabilities case-insensitively", () => {
+    const advertised = ["SIZE 10240000", "AUTH=PLAIN", "starttls"];
+
+    expect(hasCapability(advertised, "SIZE")).toBe(true);
+    expect(hasCapability(advertised, "size 10240000")).toBe(true);
+    expect(hasCapability(advertised, "AUTH")).toBe(true);
+    expect(hasCapability(advertised, "AUTH=PLAIN")).toBe(true);
+    expect(hasCapability(advertised, "STARTTLS")).toBe(true);
+    expect(hasCapability(advertised, "AUTH=LOGIN")).toBe(false);
+    expect(hasCapability(advertised, "PIPELINING")).toBe(false);
+  });
+});
@@ -0,0 +1,694 @@
+/**
+ * SMTP, IMAP and POP3 checkers
+ * Speak enough of each protocol to read the greeting and capabilities, optionally
+ * upgrade with STARTTLS (capturing the certificate) and log in with credentials.
+ */
+
+import { once } from "node:events";
+import { isIP, type Socket } from "node:net";
+import { connect as tlsConnect } from "node:tls";
+import {
+  getCaBundleFromEnv,
+  isTlsError,
+  summarizeCertificate,
+  withSystemRoots,
+} from "../lib/certificates";
+import { getDnsConfigFromEnv, resolveHostname } from "../lib/dns";
+import { logger } from "../lib/logger";
+import { connectTimed } from "../lib/timings";
+import type { Monitor } from "../types/crd";
+import type { CertificateInfo, ImapTarget, Pop3Target, SmtpTarget } from "../types/crd/monitor";
+import type { CheckResult } from "./index";
+
+type MailProtocol = "smtp" | "imap" | "pop3";
+
+const PROTOCOL_NAMES: Record<MailProtocol, string> = {
+  smtp: "SMTP",
+  imap: "IMAP",
+  pop3: "POP3",
+};
+
+/**
+ * Line-oriented connection to a mail server
+ */
+export interface MailConnection {
+  /** Next line sent by the server, without the CRLF */
+  readLine(): Promise<string>;
+  writeLine(line: string): Promise<void>;
+  /** Upgrade the connection to TLS and capture the server certificate */
+  startTls(): Promise<CertificateInfo>;
+  close(): void;
+}
+
+/**
+ * Mail connection factory configuration
+ */
+export interface MailConnectionConfig {
+  host: string;
+  port: number;
+  /** Hostname the certificate must match (SNI) */
+  servername: string;
+  /** PEM bundle of additional trusted CAs */
+  ca?: string;
+  timeoutMs: number;
+}
+
+/**
+ * Mail connection factory type for dependency injection
+ */
+export type MailConnector = (config: MailConnectionConfig) => Promise<MailConnection>;
+
+/**
+ * Greeting and capabilities read during the session
+ */
+interface MailSession {
+  banner: string;
+  capabilities: string[];
+}
+
+/**
+ * Protocol dialogue run on an open connection
+ * upgrade() performs STARTTLS at the TLS layer once the protocol command was accepted.
+ */
+type MailDialogue = (
+  connection: MailConnection,
+  options: {
+    startTls: boolean;
+    upgrade: () => Promise<void>;
+    credentials?: { username: string; password: string };
+    heloName: string;
+  },
+) => Promise<MailSession>;
+
+/**
+ * Error carrying the CheckResult reason it should be reported with
+ */
+function mailError(reason: string, message: string): Error {
+  return Object.assign(new Error(message), { reason });
+}
+
+function getReason(error: unknown): string | undefined {
+  const reason = (error as { reason?: unknown }).reason;
+  return typeof reason === "string" ? reason : undefined;
+}
+
+/**
+ * Get mail credentials from environment variables.
+ * These are injected by the Job builder from Kubernetes secrets.
+ */
+function getCredentialsFromEnv(): { username: string; password: string } | null {
+  const username = process.env.YUPTIME_CRED_MAIL_USERNAME;
+  const password = process.env.YUPTIME_CRED_MAIL_PASSWORD;
+
+  if (!username || !password) {
+    return null;
+  }
+
+  return { username, password };
+}
+
+/**
+ * Check whether a capability is advertised
+ * Matches the full capability (AUTH=PLAIN, SIZE 1000) or its name (AUTH, SIZE), case-insensitively.
+ */
+export function hasCapability(advertised: string[], required: string): boolean {
+  const wanted = required.trim().toUpperCase();
+
+  return advertised.some((capability) => {
+    const upper = capability.trim().toUpperCase();
+    return upper === wanted || upper.split(/[ =]/)[0] === wanted;
+  });
+}
+
+/**
+ * Default mail connection over node:net, upgraded in place with node:tls
+ * Certificates are never rejected during the handshake so they can be reported;
+ * the checker validates them before sending credentials.
+ */
+async function createDefaultMailConnection(config: MailConnectionConfig): Promise<MailConnection> {
+  const { socket: tcpSocket } = await connectTimed(
+    config.host,
+    config.port,
+    undefined,
+    config.timeoutMs,
+  );
+
+  let socket: Socket = tcpSocket;
+  let buffered = "";
+  let failure: Error | undefined;
+  const lines: string[] = [];
+  const waiting: { resolve: (line: string) => void; reject: (error: Error) => void }[] = [];
+
+  const onData = (data: Buffer) => {
+    buffered += data.toString("utf8");
+
+    for (let end = buffered.indexOf("\n"); end >= 0; end = buffered.indexOf("\n")) {
+      const line = buffered.slice(0, end).replace(/\r$/, "");
+      buffered = buffered.slice(end + 1);
+
+      const reader = waiting.shift();
+      if (reader) {
+        reader.resolve(line);
+      } else {
+        lines.push(line);
+      }
+    }
+  };
+
+  const onError = (error: Error) => {
+    failure ??= error;
+    for (const reader of waiting.splice(0)) {
+      reader.reject(failure);
+    }
+  };
+
+  const onClose = () => onError(new Error("Connection closed by server"));
+
+  const attach = (target: Socket) => {
+    target.on("data", onData);
+    target.on("error", onError);
+    target.on("close", onClose);
+  };
+
+  const detach = (target: Socket) => {
+    target.off("data", onData);
+    target.off("error", onError);
+    target.off("close", onClose);
+  };
+
+  attach(socket);
+
+  return {
+    readLine() {
+      const line = lines.shift();
+      if (line !== undefined) return Promise.resolve(line);
+      if (failure) return Promise.reject(failure);
+
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    },
+    writeLine(line) {
+      return new Promise((resolve, reject) => {
+        socket.write(`${line}\r\n`, (error) => (error ? reject(error) : resolve()));
+      });
+    },
+    async startTls() {
+      detach(socket);
+
+      const secure = tlsConnect({
+        socket,
+        // SNI must not be an IP address
+        ...(!isIP(config.servername) && { servername: config.servername }),
+        ...(config.ca && { ca: withSystemRoots(config.ca) }),
+        rejectUnauthorized: false,
+      });
+      socket = secure;
+      await once(secure, "secureConnect");
+      attach(secure);
+
+      const peer = secure.getPeerCertificate(true);
+      if (!peer || Object.keys(peer).length === 0) {
+        throw new Error("No peer certificate presented");
+      }
+
+      return summarizeCertificate(peer, {
+        servername: config.servername,
+        authorized: secure.authorized,
+        authorizationError: secure.authorizationError
+          ? String(secure.authorizationError)
+          : undefined,
+      });
+    },
+    close() {
+      socket.destroy();
+    },
+  };
+}
+
+/**
+ * Read an SMTP reply, following "250-" continuation lines
+ */
+async function readSmtpReply(
+  connection: MailConnection,
+): Promise<{ code: number; lines: string[] }> {
+  const lines: string[] = [];
+
+  for (;;) {
+    const line = await connection.readLine();
+    lines.push(line.slice(4));
+
+    if (line.charAt(3) !== "-") {
+      return { code: Number.parseInt(line.slice(0, 3), 10), lines };
+    }
+  }
+}
+
+async function smtpCommand(
+  connection: MailConnection,
+  command: string,
+  expectedCode: number,
+  failureReason = "PROTOCOL_ERROR",
+): Promise<string[]> {
+  await connection.writeLine(command);
+  const reply = await readSmtpReply(connection);
+
+  if (reply.code !== expectedCode) {
+    const verb = command.split(" ", 2).join(" ");
+    throw mailError(
+      failureReason,
+      `SMTP ${verb} failed: ${reply.code} ${reply.lines.join(" ")}`.trim(),
+    );
+  }
+
+  return reply.lines;
+}
+
+const smtpDialogue: MailDialogue = async (connection, options) => {
+  const greeting = await readSmtpReply(connection);
+  if (greeting.code !== 220) {
+    throw mailError(
+      "PROTOCOL_ERROR",
+      `SMTP server rejected the connection: ${greeting.code} ${greeting.lines.join(" ")}`.trim(),
+    );
+  }
+
+  // The first EHLO line is the server greeting, the rest are capabilities
+  const ehlo = async () =>
+    (await smtpCommand(connection, `EHLO ${options.heloName}`, 250)).slice(1);
+
+  let capabilities = await ehlo();
+
+  if (options.startTls) {
+    if (!hasCapability(capabilities, "STARTTLS")) {
+      throw mailError("TLS_ERROR", "SMTP server does not advertise STARTTLS");
+    }
+    await smtpCommand(connection, "STARTTLS", 220, "TLS_ERROR");
+    await options.upgrade();
+    // Capabilities before STARTTLS must be discarded
+    capabilities = await ehlo();
+  }
+
+  if (options.credentials) {
+    const { username, password } = options.credentials;
+    const mechanisms =
+      capabilities
+        .find((capability) => hasCapability([capability], "AUTH"))
+        ?.toUpperCase()
+        .split(/[ =]/)
+        .slice(1) ?? [];
+
+    if (mechanisms.includes("PLAIN")) {
+      const token = Buffer.from(`\0${username}\0${password}`).toString("base64");
+      await smtpCommand(connection, `AUTH PLAIN ${token}`, 235, "AUTH_FAILED");
+    } else if (mechanisms.includes("LOGIN")) {
+      await smtpCommand(connection, "AUTH LOGIN", 334, "AUTH_FAILED");
+      await smtpCommand(connection, Buffer.from(username).toString("base64"), 334, "AUTH_FAILED");
+      await smtpCommand(connection, Buffer.from(password).toString("base64"), 235, "AUTH_FAILED");
+    } else {
+      throw mailError("AUTH_FAILED", "SMTP server offers no PLAIN or LOGIN authentication");
+    }
+  }
+
+  await connection.writeLine("QUIT").catch(() => {
+    // Ignore errors while closing the session
+  });
+
+  return { banner: greeting.lines.join(" "), capabilities };
+};
+
+/**
+ * Quote an IMAP string argument
+ */
+function imapQuote(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+const imapDialogue: MailDialogue = async (connection, options) => {
+  const greeting = await connection.readLine();
+  if (!/^\* (OK|PREAUTH)\b/i.test(greeting)) {
+    throw mailError("PROTOCOL_ERROR", `IMAP server rejected the connection: ${greeting}`);
+  }
+
+  let counter = 0;
+
+  // Send a tagged command and collect the untagged responses until its completion
+  const command = async (text: string, failureReason = "PROTOCOL_ERROR") => {
+    counter++;
+    const tag = `Y${counter}`;
+    await connection.writeLine(`${tag} ${text}`);
+
+    const untagged: string[] = [];
+    for (;;) {
+      const line = await connection.readLine();
+      if (!line.startsWith(`${tag} `)) {
+        untagged.push(line);
+        continue;
+      }
+
+      const status = line.slice(tag.length + 1);
+      if (!/^OK\b/i.test(status)) {
+        const verb = text.split(" ", 1)[0];
+        throw mailError(failureReason, `IMAP ${verb} failed: ${status}`);
+      }
+      return untagged;
+    }
+  };
+
+  const capability = async () =>
+    (await command("CAPABILITY"))
+      .filter((line) => /^\* CAPABILITY /i.test(line))
+      .flatMap((line) => line.slice("* CAPABILITY ".length).split(" "))
+      .filter(Boolean);
+
+  let capabilities = await capability();
+
+  if (options.startTls) {
+    if (!hasCapability(capabilities, "STARTTLS")) {
+      throw mailError("TLS_ERROR", "IMAP server does not advertise STARTTLS");
+    }
+    await command("STARTTLS", "TLS_ERROR");
+    await options.upgrade();
+    capabilities = await capability();
+  }
+
+  if (options.credentials) {
+    if (hasCapability(capabilities, "LOGINDISABLED")) {
+      throw mailError("AUTH_FAILED", "IMAP server disables LOGIN");
+    }
+    const { username, password } = options.credentials;
+    await command(`LOGIN ${imapQuote(username)} ${imapQuote(password)}`, "AUTH_FAILED");
+  }
+
+  await connection.writeLine(`Y${counter + 1} LOGOUT`).catch(() => {
+    // Ignore errors while closing the session
+  });
+
+  return { banner: greeting.slice(2), capabilities };
+};
+
+const pop3Dialogue: MailDialogue = async (connection, options) => {
+  const greeting = await connection.readLine();
+  if (!greeting.startsWith("+OK")) {
+    throw mailError("PROTOCOL_ERROR", `POP3 server rejected the connection: ${greeting}`);
+  }
+
+  const command = async (text: string, failureReason = "PROTOCOL_ERROR") => {
+    await connection.writeLine(text);
+    const reply = await connection.readLine();
+
+    if (!reply.startsWith("+OK")) {
+      const verb = text.split(" ", 1)[0];
+      throw mailError(failureReason, `POP3 ${verb} failed: ${reply}`);
+    }
+  };
+
+  // Servers without CAPA (RFC 2449) answer -ERR and advertise nothing
+  const capa = async () => {
+    await connection.writeLine("CAPA");
+    if (!(await connection.readLine()).startsWith("+OK")) {
+      return [];
+    }
+
+    const capabilities: string[] = [];
+    for (let line = await connection.readLine(); line !== "."; line = await connection.readLine()) {
+      capabilities.push(line);
+    }
+    return capabilities;
+  };
+
+  let capabilities = await capa();
+
+  if (options.startTls) {
+    if (!hasCapability(capabilities, "STLS")) {
+      throw mailError("TLS_ERROR", "POP3 server does not advertise STLS");
+    }
+    await command("STLS", "TLS_ERROR");
+    await options.upgrade();
+    capabilities = await capa();
+  }
+
+  if (options.credentials) {
+    await command(`USER ${options.credentials.username}`, "AUTH_FAILED");
+    await command(`PASS ${options.credentials.password}`, "AUTH_FAILED");
+  }
+
+  await connection.writeLine("QUIT").catch(() => {
+    // Ignore errors while closing the session
+  });
+
+  return { banner: greeting.slice(3).trim(), capabilities };
+};
+
+const DIALOGUES: Record<MailProtocol, MailDialogue> = {
+  smtp: smtpDialogue,
+  imap: imapDialogue,
+  pop3: pop3Dialogue,
+};
+
+/**
+ * Map a failed session to a CheckResult
+ */
+function toFailure(error: unknown, name: string, latencyMs: number): CheckResult {
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  const reason = getReason(error);
+
+  if (reason) {
+    return { state: "down", latencyMs, reason, message: errorMessage };
+  }
+
+  if (errorMessage.includes("ECONNREFUSED")) {
+    return {
+      state: "down",
+      latencyMs,
+      reason: "CONNECTION_REFUSED",
+      message: `${name} connection refused`,
+    };
+  }
+
+  if (errorMessage.includes("ENOTFOUND")) {
+    return { state: "down", latencyMs, reason: "DNS_NXDOMAIN", message: `${name} host not found` };
+  }
+
+  if (errorMessage.includes("ETIMEDOUT") || errorMessage.includes("timeout")) {
+    return { state: "down", latencyMs, reason: "TIMEOUT", message: errorMessage };
+  }
+
+  if (isTlsError(error)) {
+    return {
+      state: "down",
+      latencyMs,
+      reason: "TLS_ERROR",
+      message: `TLS handshake failed: ${errorMessage}`,
+    };
+  }
+
+  return { state: "down", latencyMs, reason: "CONNECTION_ERROR", message: errorMessage };
+}
+
+/**
+ * Internal mail checker implementation with injectable connection factory
+ */
+async function checkMailWithConnector(
+  monitor: Monitor,
+  timeout: number,
+  protocol: MailProtocol,
+  connector: MailConnector,
+): Promise<CheckResult> {
+  const target: SmtpTarget | ImapTarget | Pop3Target | undefined = monitor.spec.target[protocol];
+  const name = PROTOCOL_NAMES[protocol];
+
+  if (!target) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "INVALID_CONFIG",
+      message: `No ${name} target configured`,
+    };
+  }
+
+  const startTime = Date.now();
+  const tlsMode = target.tls?.mode ?? "none";
+
+  const credentials = target.credentialsSecretRef ? getCredentialsFromEnv() : undefined;
+  if (target.credentialsSecretRef && !credentials) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "CREDENTIALS_ERROR",
+      message: `${name} credentials not found in environment`,
+    };
+  }
+
+  // Never send credentials in clear text unless explicitly allowed
+  if (credentials && tlsMode === "none" && !target.allowInsecureAuth) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "INVALID_CONFIG",
+      message: `Refusing to send ${name} credentials without TLS; set tls.mode to starttls or implicit, or allowInsecureAuth: true`,
+    };
+  }
+
+  const caBundle = target.tls?.caBundleSecretRef ? getCaBundleFromEnv() : undefined;
+  if (tlsMode !== "none" && target.tls?.caBundleSecretRef && !caBundle) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "TLS_ERROR",
+      message: "CA bundle not found in environment",
+    };
+  }
+
+  let connection: MailConnection | undefined;
+  let finished = false;
+  let cert: CertificateInfo | undefined;
+  let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+
+  // Untrusted certificates fail before any credentials are sent, unless tls.verify is false
+  const upgrade = async () => {
+    if (!connection) return;
+    cert = await connection.startTls();
+
+    if (target.tls?.verify !== false && !cert.valid) {
+      throw mailError(
+        "TLS_ERROR",
+        `Certificate validation failed: ${cert.validationError ?? "certificate is not valid"}`,
+      );
+    }
+  };
+
+  const session = async () => {
+    const dnsConfig = target.dns ?? getDnsConfigFromEnv();
+    const resolvedHost = await resolveHostname(target.host, {
+      config: dnsConfig,
+      defaultToExternal: false,
+      timeoutMs: timeout * 1000,
+    });
+
+    const opened = await connector({
+      host: resolvedHost,
+      port: target.port,
+      servername: target.tls?.sni ?? target.host,
+      ...(caBundle && { ca: caBundle }),
+      timeoutMs: timeout * 1000,
+    });
+    connection = opened;
+    if (finished) {
+      opened.close();
+    }
+
+    if (tlsMode === "implicit") {
+      await upgrade();
+    }
+
+    return DIALOGUES[protocol](opened, {
+      startTls: tlsMode === "starttls",
+      upgrade,
+      ...(credentials && { credentials }),
+      heloName: "heloName" in target ? target.heloName : "yuptime",
+    });
+  };
+
+  const timedOut = new Promise<never>((_, reject) => {
+    timeoutHandle = setTimeout(
+      () => reject(mailError("TIMEOUT", `${name} check timeout after ${timeout}s`)),
+      timeout * 1000,
+    );
+  });
+
+  try {
+    const { banner, capabilities } = await Promise.race([session(), timedOut]);
+    const latencyMs = Date.now() - startTime;
+    const criteria = monitor.spec.successCriteria?.mail;
+
+    if (criteria?.bannerContains && !banner.includes(criteria.bannerContains)) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "BANNER_MISMATCH",
+        message: `${name} banner does not contain "${criteria.bannerContains}": ${banner}`,
+        ...(cert && { cert }),
+      };
+    }
+
+    const missing = (criteria?.capabilities ?? []).filter(
+      (required) => !hasCapability(capabilities, required),
+    );
+    if (missing.length > 0) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "CAPABILITY_MISSING",
+        message: `${name} server does not advertise ${missing.join(", ")}`,
+        ...(cert && { cert }),
+      };
+    }
+
+    return {
+      state: "up",
+      latencyMs,
+      reason: `${name}_OK`,
+      message: credentials ? `${name} login successful` : `${name} server ready`,
+      ...(cert && { cert }),
+    };
+  } catch (error) {
+    const latencyMs = Date.now() - startTime;
+    logger.warn({ monitor: monitor.metadata.name, error }, `${name} check failed`);
+
+    return { ...toFailure(error, name, latencyMs), ...(cert && { cert }) };
+  } finally {
+    finished = true;
+    clearTimeout(timeoutHandle);
+    connection?.close();
+  }
+}
+
+/**
+ * SMTP server checker
+ */
+export async function checkSmtp(monitor: Monitor, timeout: number): Promise<CheckResult> {
+  return checkMailWithConnector(monitor, timeout, "smtp", createDefaultMailConnection);
+}
+
+/**
+ * IMAP server checker
+ */
+export async function checkImap(monitor: Monitor, timeout: number): Promise<CheckResult> {
+  return checkMailWithConnector(monitor, timeout, "imap", createDefaultMailConnection);
+}
+
+/**
+ * POP3 server checker
+ */
+export async function checkPop3(monitor: Monitor, timeout: number): Promise<CheckResult> {
+  return checkMailWithConnector(monitor, timeout, "pop3", createDefaultMailConnection);
+}
+
+/**
+ * Create an SMTP checker with a custom connection factory (for testing)
+ */
+export function createCheckSmtp(
+  connector: MailConnector,
+): (monitor: Monitor, timeout: number) => Promise<CheckResult> {
+  return (monitor: Monitor, timeout: number) =>
+    checkMailWithConnector(monitor, timeout, "smtp", connector);
+}
+
+/**
+ * Create an IMAP checker with a custom connection factory (for testing)
+ */
+export function createCheckImap(
+  connector: MailConnector,
+): (monitor: Monitor, timeout: number) => Promise<CheckResult> {
+  return (monitor: Monitor, timeout: number) =>
+    checkMailWithConnector(monitor, timeout, "imap", connector);
+}
+
+/**
+ * Create a POP3 checker with a custom connection factory (for testing)
+ */
+export function createCheckPop3(
+  connector: MailConnector,
+): (monitor: Monitor, timeout: number) => Promise<CheckResult> {
+  return (monitor: Monitor, timeout: number) =>
+    checkMailWithConnector(monitor, timeout, "pop3", connector);
+}
@@ -0,0 +1,264 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { createMongoDbMonitor } from "../test-utils/fixtures/monitors";
+import { createMockMongoDbClientFactory } from "../test-utils/mocks/database";
+import { createCheckMongoDb, type MongoDbClientConfig } from "./mongodb";
+
+const replicaSetHello = (overrides: Record<string, unknown> = {}) => ({
+  setName: "rs0",
+  isWritablePrimary: false,
+  secondary: true,
+  primary: "mongo-0.example.com:27017",
+  ok: 1,
+  ...overrides,
+});
+
+describe("checkMongoDb", () => {
+  // Store original env vars
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    // Set credentials in environment (simulating Job injection)
+    process.env.YUPTIME_CRED_MONGODB_USERNAME = "mock-user";
+    process.env.YUPTIME_CRED_MONGODB_PASSWORD = "mock-password";
+  });
+
+  afterEach(() => {
+    // Restore original environment
+    process.env = { ...originalEnv };
+  });
+
+  test("returns up for a successful ping", async () => {
+    const checker = createCheckMongoDb(createMockMongoDbClientFactory());
+    const result = await checker(createMongoDbMonitor(), 10);
+
+    expect(result.state).toBe("up");
+    expect(result.reason).toBe("MONGODB_OK");
+    expect(result.message).toBe("MongoDB ping successful");
+  });
+
+  test("returns down when no MongoDB target configured", async () => {
+    const monitor = createMongoDbMonitor();
+    monitor.spec.target = {} as typeof monitor.spec.target;
+    const result = await createCheckMongoDb(createMockMongoDbClientFactory())(monitor, 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("INVALID_CONFIG");
+    expect(result.message).toBe("No MongoDB target configured");
+  });
+
+  test("requires exactly one of connectionString and hosts", async () => {
+    const checker = createCheckMongoDb(createMockMongoDbClientFactory());
+
+    const both = await checker(
+      createMongoDbMonitor({ connectionString: "mongodb://mongo.example.com/" }),
+      10,
+    );
+    const neither = await checker(createMongoDbMonitor({ hosts: [] }), 10);
+
+    expect(both.reason).toBe("INVALID_CONFIG");
+    expect(neither.reason).toBe("INVALID_CONFIG");
+  });
+
+  test("builds the URI from the host list and connects directly to a single host", async () => {
+    const configs: MongoDbClientConfig[] = [];
+    const checker = createCheckMongoDb(
+      createMockMongoDbClientFactory({ onConfig: (config) => configs.push(config) }),
+    );
+
+    await checker(createMongoDbMonitor({ hosts: ["mongo-0"] }), 10);
+    await checker(
+      createMongoDbMonitor({ hosts: ["mongo-0", "mongo-1:27018"], replicaSet: "rs0" }),
+      10,
+    );
+
+    expect(configs[0]).toMatchObject({ uri: "mongodb://mongo-0:27017/", directConnection: true });
+    expect(configs[1]).toMatchObject({
+      uri: "mongodb://mongo-0:27017,mongo-1:27018/",
+      replicaSet: "rs0",
+    });
+    expect(configs[1]?.directConnection).toBeUndefined();
+  });
+
+  test("passes the connection string and credentials from the environment", async () => {
+    let config: MongoDbClientConfig | undefined;
+    const checker = createCheckMongoDb(
+      createMockMongoDbClientFactory({
+        onConfig: (received) => {
+          config = received;
+        },
+      }),
+    );
+    const result = await checker(
+      createMongoDbMonitor({
+        hosts: undefined,
+        connectionString: "mongodb+srv://cluster0.example.com/",
+        authSource: "admin",
+        credentialsSecretRef: {
+          name: "mongo-secret",
+          usernameKey: "username",
+          passwordKey: "password",
+        },
+      }),
+      10,
+    );
+
+    expect(result.state).toBe("up");
+    expect(config).toMatchObject({
+      uri: "mongodb+srv://cluster0.example.com/",
+      username: "mock-user",
+      password: "mock-password",
+      authSource: "admin",
+      timeoutMs: 10000,
+    });
+  });
+
+  test("returns CREDENTIALS_ERROR when credentials are missing from the environment", async () => {
+    delete process.env.YUPTIME_CRED_MONGODB_PASSWORD;
+    const checker = createCheckMongoDb(createMockMongoDbClientFactory());
+    const result = await checker(
+      createMongoDbMonitor({
+        credentialsSecretRef: {
+          name: "mongo-secret",
+          usernameKey: "username",
+          passwordKey: "password",
+        },
+      }),
+      10,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("CREDENTIALS_ERROR");
+    expect(result.message).toBe("MongoDB credentials not found in environment");
+  });
+
+  test("reports the replica set role for the hello command", async () => {
+    const checker = createCheckMongoDb(
+      createMockMongoDbClientFactory({ helloResult: replicaSetHello() }),
+    );
+    const result = await checker(createMongoDbMonitor({ command: "hello" }), 10);
+
+    expect(result.state).toBe("up");
+    expect(result.message).toBe("MongoDB secondary of replica set rs0");
+  });
+
+  test("sends hello after ping when replica set assertions are configured", async () => {
+    const commands: string[] = [];
+    const checker = createCheckMongoDb(
+      createMockMongoDbClientFactory({
+        helloResult: replicaSetHello(),
+        onCommand: (name) => commands.push(name),
+      }),
+    );
+    const result = await checker(createMongoDbMonitor({}, { role: "secondary" }), 10);
+
+    expect(result.state).toBe("up");
+    expect(commands).toEqual(["ping", "hello"]);
+  });
+
+  test("returns MONGODB_ROLE_MISMATCH when the member has another role", async () => {
+    const checker = createCheckMongoDb(
+      createMockMongoDbClientFactory({ helloResult: replicaSetHello() }),
+    );
+    const result = await checker(createMongoDbMonitor({}, { role: "primary" }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("MONGODB_ROLE_MISMATCH");
+    expect(result.message).toBe("MongoDB member is secondary, expected primary");
+  });
+
+  test("returns MONGODB_NO_PRIMARY when the replica set has no primary", async () => {
+    const checker = createCheckMongoDb(
+      createMockMongoDbClientFactory({ helloResult: replicaSetHello({ primary: undefined }) }),
+    );
+    const result = await checker(createMongoDbMonitor({}, { requirePrimary: true }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("MONGODB_NO_PRIMARY");
+    expect(result.message).toBe("MongoDB replica set rs0 has no primary");
+  });
+
+  test("returns MONGODB_NOT_REPLICA_SET for a standalone server with assertions", async () => {
+    const checker = createCheckMongoDb(createMockMongoDbClientFactory());
+    const result = await checker(createMongoDbMonitor({}, { requirePrimary: true }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("MONGODB_NOT_REPLICA_SET");
+  });
+
+  test("returns MONGODB_UNEXPECTED_RESPONSE when the command is not ok", async () => {
+    const checker = createCheckMongoDb(createMockMongoDbClientFactory({ pingResult: { ok: 0 } }));
+    const result = await checker(createMongoDbMonitor(), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("MONGODB_UNEXPECTED_RESPONSE");
+    expect(result.message).toBe("Unexpected ping response: ok=0");
+  });
+
+  test("returns TLS_ERROR when the CA bundle is missing from the environment", async () => {
+    delete process.env.YUPTIME_TLS_CA_BUNDLE;
+    const checker = createCheckMongoDb(createMockMongoDbClientFactory());
+    const result = await checker(
+      createMongoDbMonitor({
+        tls: { enabled: true, verify: true, caBundleSecretRef: { name: "ca", key: "ca.crt" } },
+      }),
+      10,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("TLS_ERROR");
+  });
+
+  test("ignores close errors", async () => {
+    const checker = createCheckMongoDb(
+      createMockMongoDbClientFactory({ closeError: new Error("close failed") }),
+    );
+    const result = await checker(createMongoDbMonitor(), 10);
+
+    expect(result.state).toBe("up");
+  });
+
+  // Parameterized error handling tests
+  const errorCases = [
+    {
+      error: new Error("connect ECONNREFUSED 127.0.0.1:27017"),
+      reason: "CONNECTION_REFUSED",
+      message: "MongoDB connection refused",
+    },
+    {
+      error: new Error("getaddrinfo ENOTFOUND mongo.example.com"),
+      reason: "DNS_NXDOMAIN",
+      message: "MongoDB host not found",
+    },
+    {
+      error: new Error("Authentication failed."),
+      reason: "AUTH_FAILED",
+      message: "MongoDB authentication failed",
+    },
+    {
+      error: new Error("unable to verify the first certificate"),
+      reason: "TLS_ERROR",
+      message: "unable to verify the first certificate",
+    },
+    {
+      error: new Error("Server selection timed out after 10000 ms"),
+      reason: "TIMEOUT",
+      message: "MongoDB connection timeout after 10s",
+    },
+    {
+      error: new Error("connection closed"),
+      reason: "CONNECTION_ERROR",
+      message: "connection closed",
+    },
+  ];
+
+  for (const { error, reason, message } of errorCases) {
+    test(`returns ${reason} for "${error.message}"`, async () => {
+      const checker = createCheckMongoDb(createMockMongoDbClientFactory({ connectError: error }));
+      const result = await checker(createMongoDbMonitor(), 10);
+
+      expect(result.state).toBe("down");
+      expect(result.reason).toBe(reason);
+      expect(result.message).toBe(message);
+    });
+  }
+});
@@ -0,0 +1,356 @@
+import {
+  type ClientCertificate,
+  getCaBundleFromEnv,
+  getClientCertFromEnv,
+  isTlsError,
+  withSystemRoots,
+} from "../lib/certificates";
+import { logger } from "../lib/logger";
+import type { Monitor } from "../types/crd";
+import type { CheckResult } from "./index";
+
+/**
+ * Get MongoDB credentials from environment variables.
+ * These are injected by the Job builder from Kubernetes secrets.
+ */
+function getCredentialsFromEnv(): { username: string; password: string } | null {
+  const username = process.env.YUPTIME_CRED_MONGODB_USERNAME;
+  const password = process.env.YUPTIME_CRED_MONGODB_PASSWORD;
+
+  if (!username || !password) {
+    return null;
+  }
+
+  return { username, password };
+}
+
+/**
+ * MongoDB client interface for dependency injection
+ */
+export interface MongoDbClient {
+  connect(): Promise<void>;
+  command(name: "ping" | "hello"): Promise<Record<string, unknown>>;
+  close(): Promise<void>;
+}
+
+/**
+ * MongoDB client factory configuration
+ */
+export interface MongoDbClientConfig {
+  uri: string;
+  database: string;
+  username?: string;
+  password?: string;
+  authSource?: string;
+  replicaSet?: string;
+  /** Talk to the single seed host instead of discovering the replica set */
+  directConnection?: boolean;
+  timeoutMs: number;
+  tls?: {
+    verify: boolean;
+    caBundle?: string;
+    clientCert?: ClientCertificate;
+  };
+}
+
+/**
+ * MongoDB client factory type for dependency injection
+ */
+export type MongoDbClientFactory = (config: MongoDbClientConfig) => Promise<MongoDbClient>;
+
+/**
+ * Default MongoDB client factory using the mongodb driver
+ * Note: This requires the mongodb package to be installed
+ */
+async function createDefaultMongoDbClient(config: MongoDbClientConfig): Promise<MongoDbClient> {
+  // Use dynamic import to avoid bundling mongodb if not used
+  const { MongoClient } = await import("mongodb");
+
+  const client = new MongoClient(config.uri, {
+    ...(config.username && {
+      auth: { username: config.username, password: config.password },
+    }),
+    ...(config.authSource && { authSource: config.authSource }),
+    ...(config.replicaSet && { replicaSet: config.replicaSet }),
+    ...(config.directConnection !== undefined && { directConnection: config.directConnection }),
+    serverSelectionTimeoutMS: config.timeoutMs,
+    connectTimeoutMS: config.timeoutMs,
+    socketTimeoutMS: config.timeoutMs,
+    // A failed health check command should not be retried on another member
+    retryReads: false,
+    ...(config.tls && {
+      tls: true,
+      tlsAllowInvalidCertificates: !config.tls.verify,
+      ...(config.tls.caBundle && { ca: withSystemRoots(config.tls.caBundle) }),
+      ...(config.tls.clientCert && {
+        cert: config.tls.clientCert.cert,
+        key: config.tls.clientCert.key,
+      }),
+    }),
+  });
+
+  return {
+    connect: async () => {
+      await client.connect();
+    },
+    command: async (name) => {
+      // Secondaries still answer when the replica set has no primary
+      return await client
+        .db(config.database)
+        .command({ [name]: 1 }, { readPreference: "primaryPreferred" });
+    },
+    close: async () => {
+      await client.close();
+    },
+  };
+}
+
+/**
+ * Build a mongodb:// URI from a seed list, adding the default port where missing
+ */
+function buildUri(hosts: string[], port: number): string {
+  const seeds = hosts.map((host) => (/:\d+$/.test(host) ? host : `${host}:${port}`));
+  return `mongodb://${seeds.join(",")}/`;
+}
+
+/**
+ * Replica set role of the member that answered hello
+ */
+function memberRole(hello: Record<string, unknown>): string {
+  if (hello.isWritablePrimary === true || hello.ismaster === true) return "primary";
+  if (hello.secondary === true) return "secondary";
+  if (hello.arbiterOnly === true) return "arbiter";
+  return "other";
+}
+
+/**
+ * Internal MongoDB checker implementation with injectable client factory
+ */
+async function checkMongoDbWithFactory(
+  monitor: Monitor,
+  timeout: number,
+  clientFactory: MongoDbClientFactory,
+): Promise<CheckResult> {
+  const target = monitor.spec.target.mongodb;
+
+  if (!target) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "INVALID_CONFIG",
+      message: "No MongoDB target configured",
+    };
+  }
+
+  const hosts = target.hosts ?? [];
+  if (Boolean(target.connectionString) === hosts.length > 0) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "INVALID_CONFIG",
+      message: "MongoDB target requires either connectionString or hosts",
+    };
+  }
+
+  const criteria = monitor.spec.successCriteria?.mongodb;
+  const startTime = Date.now();
+
+  try {
+    // Get credentials from environment variables (injected by Job builder)
+    // Only check env if credentialsSecretRef was defined in the Monitor spec
+    const credentials = target.credentialsSecretRef ? getCredentialsFromEnv() : undefined;
+    if (target.credentialsSecretRef && !credentials) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "CREDENTIALS_ERROR",
+        message: "MongoDB credentials not found in environment",
+      };
+    }
+
+    const caBundle = target.tls?.caBundleSecretRef ? getCaBundleFromEnv() : undefined;
+    if (target.tls?.enabled && target.tls.caBundleSecretRef && !caBundle) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "TLS_ERROR",
+        message: "CA bundle not found in environment",
+      };
+    }
+
+    const clientCert = target.tls?.clientCertSecretRef ? getClientCertFromEnv() : undefined;
+    if (target.tls?.enabled && target.tls.clientCertSecretRef && !clientCert) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "TLS_ERROR",
+        message: "Client certificate not found in environment",
+      };
+    }
+
+    const port = target.port ?? 27017;
+    const client = await clientFactory({
+      uri: target.connectionString ?? buildUri(hosts, port),
+      database: target.database ?? "admin",
+      ...(credentials && { username: credentials.username, password: credentials.password }),
+      ...(target.authSource && { authSource: target.authSource }),
+      ...(target.replicaSet && { replicaSet: target.replicaSet }),
+      ...(hosts.length === 1 && !target.replicaSet && { directConnection: true }),
+      timeoutMs: timeout * 1000,
+      ...(target.tls?.enabled && {
+        tls: {
+          verify: target.tls.verify ?? true,
+          ...(caBundle && { caBundle }),
+          ...(clientCert && { clientCert }),
+        },
+      }),
+    });
+
+    try {
+      await client.connect();
+
+      const command = target.command ?? "ping";
+      const response = await client.command(command);
+      // Replica set assertions need the hello response even when the check pings
+      const hello = criteria && command !== "hello" ? await client.command("hello") : response;
+
+      const latencyMs = Date.now() - startTime;
+
+      if (response.ok !== 1) {
+        return {
+          state: "down",
+          latencyMs,
+          reason: "MONGODB_UNEXPECTED_RESPONSE",
+          message: `Unexpected ${command} response: ok=${String(response.ok)}`,
+        };
+      }
+
+      if (command === "ping" && !criteria) {
+        return {
+          state: "up",
+          latencyMs,
+          reason: "MONGODB_OK",
+          message: "MongoDB ping successful",
+        };
+      }
+
+      const setName = typeof hello.setName === "string" ? hello.setName : undefined;
+      const role = memberRole(hello);
+
+      if ((criteria?.role || criteria?.requirePrimary) && !setName) {
+        return {
+          state: "down",
+          latencyMs,
+          reason: "MONGODB_NOT_REPLICA_SET",
+          message: "MongoDB server is not a replica set member",
+        };
+      }
+
+      if (criteria?.role && role !== criteria.role) {
+        return {
+          state: "down",
+          latencyMs,
+          reason: "MONGODB_ROLE_MISMATCH",
+          message: `MongoDB member is ${role}, expected ${criteria.role}`,
+        };
+      }
+
+      if (criteria?.requirePrimary && role !== "primary" && typeof hello.primary !== "string") {
+        return {
+          state: "down",
+          latencyMs,
+          reason: "MONGODB_NO_PRIMARY",
+          message: `MongoDB replica set ${setName} has no primary`,
+        };
+      }
+
+      return {
+        state: "up",
+        latencyMs,
+        reason: "MONGODB_OK",
+        message: setName
+          ? `MongoDB ${role} of replica set ${setName}`
+          : "MongoDB standalone server is healthy",
+      };
+    } finally {
+      await client.close().catch(() => {
+        // Ignore close errors
+      });
+    }
+  } catch (error) {
+    const latencyMs = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+    logger.warn({ monitor: monitor.metadata.name, error: errorMessage }, "MongoDB check failed");
+
+    // Categorize common MongoDB errors
+    if (errorMessage.includes("ECONNREFUSED")) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "CONNECTION_REFUSED",
+        message: "MongoDB connection refused",
+      };
+    }
+
+    if (errorMessage.includes("ENOTFOUND")) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "DNS_NXDOMAIN",
+        message: "MongoDB host not found",
+      };
+    }
+
+    if (errorMessage.includes("Authentication failed")) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "AUTH_FAILED",
+        message: "MongoDB authentication failed",
+      };
+    }
+
+    if (isTlsError(error)) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "TLS_ERROR",
+        message: errorMessage,
+      };
+    }
+
+    if (errorMessage.includes("ETIMEDOUT") || /timed? ?out/i.test(errorMessage)) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "TIMEOUT",
+        message: `MongoDB connection timeout after ${timeout}s`,
+      };
+    }
+
+    return {
+      state: "down",
+      latencyMs,
+      reason: "CONNECTION_ERROR",
+      message: errorMessage,
+    };
+  }
+}
+
+/**
+ * MongoDB health checker
+ */
+export async function checkMongoDb(monitor: Monitor, timeout: number): Promise<CheckResult> {
+  return checkMongoDbWithFactory(monitor, timeout, createDefaultMongoDbClient);
+}
+
+/**
+ * Create a MongoDB checker with a custom client factory (for testing)
+ */
+export function createCheckMongoDb(
+  clientFactory: MongoDbClientFactory,
+): (monitor: Monitor, timeout: number) => Promise<CheckResult> {
+  return (monitor: Monitor, timeout: number) =>
+    checkMongoDbWithFactory(monitor, timeout, clientFactory);
+}
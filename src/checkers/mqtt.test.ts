@@ -0,0 +1,518 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { type AddressInfo, connect, createServer, type Socket } from "node:net";
+import { TEST_TLS_CERT, TEST_TLS_KEY } from "../test-utils/fixtures/certificates";
+import { createMqttMonitor } from "../test-utils/fixtures/monitors";
+import { createMockMqttClientFactory } from "../test-utils/mocks/brokers";
+import { checkMqtt, createCheckMqtt, type MqttClientConfig } from "./mqtt";
+
+describe("checkMqtt", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test("returns up after the probe round trip", async () => {
+    const published: string[] = [];
+    const checker = createCheckMqtt(
+      createMockMqttClientFactory({ onPublish: (_topic, payload) => published.push(payload) }),
+    );
+    const result = await checker(createMqttMonitor(), 10);
+
+    expect(result.state).toBe("up");
+    expect(result.reason).toBe("MQTT_OK");
+    expect(result.message).toMatch(/^MQTT round trip on yuptime\/probe in \d+ms$/);
+    expect(published[0]).toMatch(/^yuptime-probe-[0-9a-f-]{36}$/);
+  });
+
+  test("returns down when no MQTT target configured", async () => {
+    const monitor = createMqttMonitor();
+    monitor.spec.target = {} as typeof monitor.spec.target;
+    const result = await createCheckMqtt(createMockMqttClientFactory())(monitor, 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("INVALID_CONFIG");
+    expect(result.message).toBe("No MQTT target configured");
+  });
+
+  test("defaults the port per transport and TLS", async () => {
+    const ports: number[] = [];
+    const checker = createCheckMqtt(
+      createMockMqttClientFactory({ onConfig: (config) => ports.push(config.port) }),
+    );
+
+    await checker(createMqttMonitor(), 10);
+    await checker(createMqttMonitor({ tls: { enabled: true, verify: true } }), 10);
+    await checker(createMqttMonitor({ transport: "websocket" }), 10);
+    await checker(
+      createMqttMonitor({ transport: "websocket", tls: { enabled: true, verify: true } }),
+      10,
+    );
+
+    expect(ports).toEqual([1883, 8883, 80, 443]);
+  });
+
+  test("passes credentials, TLS and a generated client ID", async () => {
+    process.env.YUPTIME_CRED_MQTT_USERNAME = "probe";
+    process.env.YUPTIME_CRED_MQTT_PASSWORD = "secret";
+    let config: MqttClientConfig | undefined;
+    const checker = createCheckMqtt(
+      createMockMqttClientFactory({
+        onConfig: (received) => {
+          config = received;
+        },
+      }),
+    );
+    await checker(
+      createMqttMonitor({
+        transport: "websocket",
+        credentialsSecretRef: { name: "mqtt", usernameKey: "username", passwordKey: "password" },
+        tls: { enabled: true, verify: false, sni: "broker.example.com" },
+      }),
+      10,
+    );
+
+    expect(config).toMatchObject({
+      transport: "websocket",
+      host: "mqtt.example.com",
+      route: { host: "mqtt.example.com" },
+      path: "/mqtt",
+      username: "probe",
+      password: "secret",
+      tls: { verify: false, servername: "broker.example.com" },
+    });
+    expect(config?.clientId).toMatch(/^yuptime-[0-9a-f]{8}$/);
+  });
+
+  test("returns CREDENTIALS_ERROR when credentials are missing", async () => {
+    delete process.env.YUPTIME_CRED_MQTT_USERNAME;
+    const checker = createCheckMqtt(createMockMqttClientFactory());
+    const result = await checker(
+      createMqttMonitor({
+        credentialsSecretRef: { name: "mqtt", usernameKey: "username", passwordKey: "password" },
+      }),
+      10,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("CREDENTIALS_ERROR");
+  });
+
+  test("returns LATENCY_EXCEEDED when the round trip is too slow", async () => {
+    const checker = createCheckMqtt(createMockMqttClientFactory({ roundTripDelayMs: 30 }));
+    const result = await checker(createMqttMonitor({}, { latencyMsUnder: 5 }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("LATENCY_EXCEEDED");
+    expect(result.message).toMatch(/^MQTT round trip \d+ms exceeds threshold 5ms$/);
+  });
+
+  test("returns TIMEOUT when the probe never comes back", async () => {
+    const checker = createCheckMqtt(createMockMqttClientFactory({ dropMessages: true }));
+    const result = await checker(createMqttMonitor(), 1);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("TIMEOUT");
+    expect(result.message).toBe("MQTT check timeout after 1s");
+  });
+
+  test("checks the retained message instead of publishing", async () => {
+    const published: string[] = [];
+    const checker = createCheckMqtt(
+      createMockMqttClientFactory({
+        retained: '{"status":"online"}',
+        onPublish: (_topic, payload) => published.push(payload),
+      }),
+    );
+    const result = await checker(
+      createMqttMonitor({ topic: "devices/gw-1/status" }, { retained: { contains: "online" } }),
+      10,
+    );
+
+    expect(result.state).toBe("up");
+    expect(result.message).toBe("MQTT retained message on devices/gw-1/status matches");
+    expect(published).toEqual([]);
+  });
+
+  const retainedCases = [
+    {
+      criteria: { equals: "online" },
+      message: 'MQTT retained message on yuptime/probe is "offline", expected "online"',
+    },
+    {
+      criteria: { contains: "on" },
+      message: 'MQTT retained message on yuptime/probe "offline" does not contain "on"',
+    },
+    {
+      criteria: { matches: "^on" },
+      message: 'MQTT retained message on yuptime/probe "offline" does not match /^on/',
+    },
+  ];
+
+  for (const { criteria, message } of retainedCases) {
+    test(`returns MQTT_RETAINED_MISMATCH for ${Object.keys(criteria)[0]}`, async () => {
+      const checker = createCheckMqtt(createMockMqttClientFactory({ retained: "offline" }));
+      const result = await checker(createMqttMonitor({}, { retained: criteria }), 10);
+
+      expect(result.state).toBe("down");
+      expect(result.reason).toBe("MQTT_RETAINED_MISMATCH");
+      expect(result.message).toBe(message);
+    });
+  }
+
+  test("returns MQTT_NO_RETAINED_MESSAGE when the topic has none", async () => {
+    const checker = createCheckMqtt(createMockMqttClientFactory());
+    const result = await checker(createMqttMonitor({}, { retained: { equals: "online" } }), 1);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("MQTT_NO_RETAINED_MESSAGE");
+    expect(result.message).toBe("No retained message on yuptime/probe within 1s");
+  });
+
+  test("returns INVALID_CONFIG for an invalid retained pattern", async () => {
+    const checker = createCheckMqtt(createMockMqttClientFactory({ retained: "online" }));
+    const result = await checker(createMqttMonitor({}, { retained: { matches: "(" } }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("INVALID_CONFIG");
+  });
+
+  const errorCases = [
+    { error: "connect ECONNREFUSED 10.0.0.1:1883", reason: "CONNECTION_REFUSED" },
+    { error: "getaddrinfo ENOTFOUND mqtt.example.com", reason: "DNS_NXDOMAIN" },
+    { error: "Connection refused: Not authorized", reason: "AUTH_FAILED" },
+    { error: "Connection refused: Bad username or password", reason: "AUTH_FAILED" },
+    { error: "connack timeout", reason: "TIMEOUT" },
+    { error: "read ECONNRESET", reason: "CONNECTION_ERROR" },
+  ];
+
+  for (const { error, reason } of errorCases) {
+    test(`returns ${reason} for ${error}`, async () => {
+      const checker = createCheckMqtt(
+        createMockMqttClientFactory({ connectError: new Error(error) }),
+      );
+      const result = await checker(createMqttMonitor(), 10);
+
+      expect(result.state).toBe("down");
+      expect(result.reason).toBe(reason);
+    });
+  }
+});
+
+describe("checkMqtt against an MQTT broker", () => {
+  /**
+   * Minimal MQTT 3.1.1 broker: QoS 0 and 1 delivery, retained messages, password auth
+   * and refused subscriptions for topics under denied/
+   */
+  async function startBroker(
+    options: { password?: string; retained?: Record<string, string> } = {},
+  ): Promise<{ port: number; close: () => void }> {
+    const retained = new Map(Object.entries(options.retained ?? {}));
+    const subscribers = new Map<Socket, Set<string>>();
+
+    const encodeLength = (length: number) => {
+      const bytes: number[] = [];
+      let remaining = length;
+      do {
+        let byte = remaining % 128;
+        remaining = Math.floor(remaining / 128);
+        if (remaining > 0) byte |= 0x80;
+        bytes.push(byte);
+      } while (remaining > 0);
+      return Buffer.from(bytes);
+    };
+    const encodeString = (value: string) => {
+      const data = Buffer.from(value, "utf8");
+      const length = Buffer.alloc(2);
+      length.writeUInt16BE(data.length);
+      return Buffer.concat([length, data]);
+    };
+    const packet = (header: number, body: Buffer) =>
+      Buffer.concat([Buffer.from([header]), encodeLength(body.length), body]);
+    const publish = (topic: string, payload: string, retain: boolean) =>
+      packet(0x30 | (retain ? 1 : 0), Buffer.concat([encodeString(topic), Buffer.from(payload)]));
+
+    const handle = (socket: Socket, type: number, flags: number, body: Buffer) => {
+      let offset = 0;
+      const readString = () => {
+        const length = body.readUInt16BE(offset);
+        const value = body.subarray(offset + 2, offset + 2 + length).toString("utf8");
+        offset += 2 + length;
+        return value;
+      };
+
+      if (type === 1) {
+        readString(); // Protocol name
+        const connectFlags = body[offset + 1] ?? 0;
+        offset += 4;
+        readString(); // Client ID
+        if (connectFlags & 0x80) readString();
+        const password = connectFlags & 0x40 ? readString() : undefined;
+        const accepted = !options.password || password === options.password;
+        socket.write(packet(0x20, Buffer.from([0, accepted ? 0 : 4])));
+        if (!accepted) socket.end();
+      } else if (type === 8) {
+        const packetId = body.subarray(0, 2);
+        offset = 2;
+        const granted: number[] = [];
+        const topics: string[] = [];
+        while (offset < body.length) {
+          const topic = readString();
+          offset += 1;
+          const denied = topic.startsWith("denied/");
+          granted.push(denied ? 0x80 : 0);
+          if (!denied) topics.push(topic);
+        }
+        socket.write(packet(0x90, Buffer.concat([packetId, Buffer.from(granted)])));
+        for (const topic of topics) {
+          subscribers.get(socket)?.add(topic);
+          const message = retained.get(topic);
+          if (message !== undefined) socket.write(publish(topic, message, true));
+        }
+      } else if (type === 3) {
+        const qos = (flags >> 1) & 3;
+        const topic = readString();
+        if (qos > 0) {
+          socket.write(packet(0x40, body.subarray(offset, offset + 2)));
+          offset += 2;
+        }
+        const payload = body.subarray(offset).toString("utf8");
+        if (flags & 1) retained.set(topic, payload);
+        for (const [subscriber, topics] of subscribers) {
+          if (topics.has(topic)) subscriber.write(publish(topic, payload, false));
+        }
+      } else if (type === 12) {
+        socket.write(Buffer.from([0xd0, 0]));
+      } else if (type === 14) {
+        socket.end();
+      }
+    };
+
+    const server = createServer((socket) => {
+      subscribers.set(socket, new Set());
+      let buffered = Buffer.alloc(0);
+
+      socket.on("data", (data) => {
+        buffered = Buffer.concat([buffered, data]);
+        while (buffered.length >= 2) {
+          let length = 0;
+          let multiplier = 1;
+          let index = 1;
+          let byte: number;
+          do {
+            byte = buffered[index] ?? 0;
+            length += (byte & 0x7f) * multiplier;
+            multiplier *= 128;
+            index += 1;
+          } while (byte & 0x80 && index < buffered.length);
+          if (buffered.length < index + length) return;
+
+          const header = buffered[0] ?? 0;
+          handle(socket, header >> 4, header & 0x0f, buffered.subarray(index, index + length));
+          buffered = buffered.subarray(index + length);
+        }
+      });
+      socket.on("close", () => subscribers.delete(socket));
+      socket.on("error", () => {
+        // Clients disconnect without DISCONNECT
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    return {
+      port,
+      close: () => {
+        for (const socket of subscribers.keys()) socket.destroy();
+        server.close();
+      },
+    };
+  }
+
+  test("measures the publish/subscribe round trip", async () => {
+    const broker = await startBroker();
+    try {
+      const result = await checkMqtt(
+        createMqttMonitor({ host: "127.0.0.1", port: broker.port }),
+        5,
+      );
+
+      expect(result.state).toBe("up");
+      expect(result.message).toMatch(/^MQTT round trip on yuptime\/probe in \d+ms$/);
+    } finally {
+      broker.close();
+    }
+  });
+
+  test("completes the round trip with QoS 1", async () => {
+    const broker = await startBroker();
+    try {
+      const result = await checkMqtt(
+        createMqttMonitor({ host: "127.0.0.1", port: broker.port, qos: 1 }),
+        5,
+      );
+
+      expect(result.state).toBe("up");
+    } finally {
+      broker.close();
+    }
+  });
+
+  test("matches the retained message", async () => {
+    const broker = await startBroker({ retained: { "devices/gw-1/status": "online" } });
+    try {
+      const result = await checkMqtt(
+        createMqttMonitor(
+          { host: "127.0.0.1", port: broker.port, topic: "devices/gw-1/status" },
+          { retained: { equals: "online" } },
+        ),
+        5,
+      );
+
+      expect(result.state).toBe("up");
+      expect(result.reason).toBe("MQTT_OK");
+    } finally {
+      broker.close();
+    }
+  });
+
+  test("returns MQTT_NO_RETAINED_MESSAGE when the topic has none", async () => {
+    const broker = await startBroker();
+    try {
+      const result = await checkMqtt(
+        createMqttMonitor(
+          { host: "127.0.0.1", port: broker.port, topic: "devices/gw-2/status" },
+          { retained: { equals: "online" } },
+        ),
+        1,
+      );
+
+      expect(result.state).toBe("down");
+      expect(result.reason).toBe("MQTT_NO_RETAINED_MESSAGE");
+    } finally {
+      broker.close();
+    }
+  });
+
+  test("returns AUTH_FAILED for a rejected password", async () => {
+    process.env.YUPTIME_CRED_MQTT_USERNAME = "probe";
+    process.env.YUPTIME_CRED_MQTT_PASSWORD = "wrong";
+    const broker = await startBroker({ password: "right" });
+    try {
+      const result = await checkMqtt(
+        createMqttMonitor({
+          host: "127.0.0.1",
+          port: broker.port,
+          credentialsSecretRef: { name: "mqtt", usernameKey: "username", passwordKey: "password" },
+        }),
+        5,
+      );
+
+      expect(result.state).toBe("down");
+      expect(result.reason).toBe("AUTH_FAILED");
+    } finally {
+      broker.close();
+      delete process.env.YUPTIME_CRED_MQTT_USERNAME;
+      delete process.env.YUPTIME_CRED_MQTT_PASSWORD;
+    }
+  });
+
+  test("returns MQTT_SUBSCRIBE_REJECTED when the broker refuses the topic", async () => {
+    const broker = await startBroker();
+    try {
+      const result = await checkMqtt(
+        createMqttMonitor({ host: "127.0.0.1", port: broker.port, topic: "denied/probe" }),
+        5,
+      );
+
+      expect(result.state).toBe("down");
+      expect(result.reason).toBe("MQTT_SUBSCRIBE_REJECTED");
+      expect(result.message).toBe("Subscription to denied/probe was rejected");
+    } finally {
+      broker.close();
+    }
+  });
+
+  /**
+   * WebSocket gateway bridging each session to the broker's TCP listener
+   */
+  function startGateway(brokerPort: number, tls?: { cert: string; key: string }) {
+    return Bun.serve<{ upstream?: Socket }, never>({
+      port: 0,
+      hostname: "127.0.0.1",
+      ...(tls && { tls }),
+      fetch: (request, server) =>
+        server.upgrade(request, { headers: { "Sec-WebSocket-Protocol": "mqtt" }, data: {} })
+          ? undefined
+          : new Response("Upgrade required", { status: 426 }),
+      websocket: {
+        open: (ws) => {
+          const upstream = connect(brokerPort, "127.0.0.1");
+          upstream.on("data", (data) => ws.sendBinary(data));
+          upstream.on("close", () => ws.close());
+          ws.data.upstream = upstream;
+        },
+        message: (ws, message) => {
+          ws.data.upstream?.write(message);
+        },
+        close: (ws) => {
+          ws.data.upstream?.destroy();
+        },
+      },
+    });
+  }
+
+  test("completes the round trip over WebSocket", async () => {
+    const broker = await startBroker();
+    const gateway = startGateway(broker.port);
+    try {
+      const result = await checkMqtt(
+        createMqttMonitor({ host: "127.0.0.1", port: gateway.port, transport: "websocket" }),
+        5,
+      );
+
+      expect(result.state).toBe("up");
+      expect(result.message).toMatch(/^MQTT round trip on yuptime\/probe in \d+ms$/);
+    } finally {
+      gateway.stop(true);
+      broker.close();
+    }
+  });
+
+  test("completes the round trip over secure WebSocket with the CA bundle", async () => {
+    process.env.YUPTIME_TLS_CA_BUNDLE = TEST_TLS_CERT;
+    const broker = await startBroker();
+    const gateway = startGateway(broker.port, { cert: TEST_TLS_CERT, key: TEST_TLS_KEY });
+    try {
+      const result = await checkMqtt(
+        createMqttMonitor({
+          host: "localhost",
+          port: gateway.port,
+          transport: "websocket",
+          tls: {
+            enabled: true,
+            verify: true,
+            caBundleSecretRef: { name: "mqtt-ca", key: "ca.crt" },
+          },
+        }),
+        5,
+      );
+
+      expect(result.state).toBe("up");
+    } finally {
+      gateway.stop(true);
+      broker.close();
+      delete process.env.YUPTIME_TLS_CA_BUNDLE;
+    }
+  });
+
+  test("returns CONNECTION_REFUSED when nothing listens", async () => {
+    const broker = await startBroker();
+    broker.close();
+
+    const result = await checkMqtt(createMqttMonitor({ host: "127.0.0.1", port: broker.port }), 5);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("CONNECTION_REFUSED");
+  });
+});
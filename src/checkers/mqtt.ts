@@ -0,0 +1,631 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { once } from "node:events";
+import { Duplex } from "node:stream";
+import { connect as tlsConnect } from "node:tls";
+import type { IClientOptions, MqttClient as MqttJsClient, OnMessageCallback } from "mqtt";
+import {
+  type ClientCertificate,
+  getCaBundleFromEnv,
+  getClientCertFromEnv,
+  isTlsError,
+  withSystemRoots,
+} from "../lib/certificates";
+import { logger } from "../lib/logger";
+import type { Monitor } from "../types/crd";
+import type { CheckResult } from "./index";
+import { openTcpSocket, resolveTcpRoute, type TcpRoute, tcpConnectionFailure } from "./tcp";
+
+/**
+ * Get MQTT credentials from environment variables.
+ * These are injected by the Job builder from Kubernetes secrets.
+ */
+function getCredentialsFromEnv(): { username: string; password: string } | null {
+  const username = process.env.YUPTIME_CRED_MQTT_USERNAME;
+  const password = process.env.YUPTIME_CRED_MQTT_PASSWORD;
+
+  if (!username || !password) {
+    return null;
+  }
+
+  return { username, password };
+}
+
+/**
+ * MQTT client interface for dependency injection
+ */
+export interface MqttClient {
+  /** Connect and authenticate; rejects when the broker refuses the CONNECT */
+  connect(): Promise<void>;
+  /** Subscribe to the topic, publish the payload and resolve once it is delivered back */
+  roundTrip(topic: string, payload: string, qos: 0 | 1 | 2): Promise<void>;
+  /** Subscribe to the topic and resolve with its retained message; pending while there is none */
+  retained(topic: string, qos: 0 | 1 | 2): Promise<string>;
+  close(): Promise<void>;
+}
+
+/**
+ * MQTT client factory configuration
+ */
+export interface MqttClientConfig {
+  transport: "tcp" | "websocket";
+  /** Broker host as configured, used for the WebSocket Host header and SNI */
+  host: string;
+  /** Route both transports connect along */
+  route: TcpRoute;
+  port: number;
+  /** WebSocket endpoint path */
+  path: string;
+  clientId: string;
+  username?: string;
+  password?: string;
+  tls?: {
+    verify: boolean;
+    servername: string;
+    caBundle?: string;
+    clientCert?: ClientCertificate;
+  };
+  timeoutMs: number;
+}
+
+/**
+ * MQTT client factory type for dependency injection
+ */
+export type MqttClientFactory = (config: MqttClientConfig) => Promise<MqttClient>;
+
+/**
+ * Error raised when the broker rejects a subscription in its SUBACK
+ */
+class MqttSubscribeError extends Error {
+  constructor(topic: string) {
+    super(`Subscription to ${topic} was rejected`);
+    this.name = "MqttSubscribeError";
+  }
+}
+
+/**
+ * Open the transport stream: a socket along the route, upgraded to TLS when enabled
+ */
+async function openMqttStream(config: MqttClientConfig): Promise<Duplex> {
+  const socket = await openTcpSocket(config.route, config.port, config.timeoutMs);
+  if (!config.tls) {
+    return socket;
+  }
+
+  const secure = tlsConnect({
+    socket,
+    servername: config.tls.servername,
+    rejectUnauthorized: config.tls.verify,
+    ...(config.tls.caBundle && { ca: withSystemRoots(config.tls.caBundle) }),
+    ...(config.tls.clientCert && {
+      cert: config.tls.clientCert.cert,
+      key: config.tls.clientCert.key,
+    }),
+  });
+
+  try {
+    await once(secure, "secureConnect");
+  } catch (error) {
+    secure.destroy();
+    throw error;
+  }
+
+  return secure;
+}
+
+/** RFC 6455 key suffix for the Sec-WebSocket-Accept check */
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+/**
+ * Encode a masked client frame
+ */
+function encodeWebSocketFrame(opcode: number, payload: Buffer): Buffer {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, 0x80 | payload.length]);
+  } else if (payload.length < 0x10000) {
+    header = Buffer.from([0x80 | opcode, 0x80 | 126, 0, 0]);
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.from([0x80 | opcode, 0x80 | 127, 0, 0, 0, 0, 0, 0, 0, 0]);
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+
+  const mask = randomBytes(4);
+  const masked = payload.map((byte, index) => byte ^ (mask[index % 4] ?? 0));
+  return Buffer.concat([header, mask, masked]);
+}
+
+/**
+ * Decode the next server frame, or undefined while it is incomplete
+ */
+function decodeWebSocketFrame(
+  buffer: Buffer,
+): { opcode: number; payload: Buffer; size: number } | undefined {
+  if (buffer.length < 2) return undefined;
+
+  const opcode = (buffer[0] ?? 0) & 0x0f;
+  let length = (buffer[1] ?? 0) & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) return undefined;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return undefined;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+
+  if (buffer.length < offset + length) return undefined;
+  return { opcode, payload: buffer.subarray(offset, offset + length), size: offset + length };
+}
+
+/**
+ * Upgrade an open stream to a WebSocket and carry MQTT in its binary frames
+ * The request names the configured host, so the stream may lead to a resolved address or proxy.
+ */
+async function openWebSocketStream(stream: Duplex, config: MqttClientConfig): Promise<Duplex> {
+  const key = randomBytes(16).toString("base64");
+  stream.write(
+    `${[
+      `GET ${config.path} HTTP/1.1`,
+      `Host: ${config.host}:${config.port}`,
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Key: ${key}`,
+      "Sec-WebSocket-Version: 13",
+      "Sec-WebSocket-Protocol: mqtt",
+    ].join("\r\n")}\r\n\r\n`,
+  );
+
+  let buffered = Buffer.alloc(0);
+  const head = await new Promise<string>((resolve, reject) => {
+    const cleanup = () => {
+      stream.pause();
+      stream.off("data", onData);
+      stream.off("close", onClose);
+      stream.off("error", onError);
+    };
+    const onData = (chunk: Buffer) => {
+      buffered = Buffer.concat([buffered, chunk]);
+      const end = buffered.indexOf("\r\n\r\n");
+      if (end === -1) return;
+
+      cleanup();
+      resolve(buffered.subarray(0, end).toString());
+      buffered = buffered.subarray(end + 4);
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error("WebSocket upgrade failed: connection closed"));
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    stream.on("data", onData);
+    stream.once("close", onClose);
+    stream.once("error", onError);
+  });
+
+  const [statusLine = "", ...headerLines] = head.split("\r\n");
+  const accept = headerLines
+    .find((line) => /^sec-websocket-accept:/i.test(line))
+    ?.replace(/^[^:]+:\s*/, "");
+  const expected = createHash("sha1").update(`${key}${WEBSOCKET_GUID}`).digest("base64");
+  if (!/^HTTP\/1\.1 101/.test(statusLine) || accept !== expected) {
+    stream.destroy();
+    throw new Error(`WebSocket upgrade failed: ${statusLine || "empty response"}`);
+  }
+
+  const socket = new Duplex({
+    read() {
+      // Frames are pushed as they arrive
+    },
+    write(chunk: Buffer, _encoding, callback) {
+      stream.write(encodeWebSocketFrame(0x2, chunk), callback);
+    },
+    final(callback) {
+      stream.end(encodeWebSocketFrame(0x8, Buffer.alloc(0)), callback);
+    },
+    destroy(error, callback) {
+      stream.destroy();
+      callback(error);
+    },
+  });
+
+  const receive = (chunk: Buffer) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    for (
+      let frame = decodeWebSocketFrame(buffered);
+      frame;
+      frame = decodeWebSocketFrame(buffered)
+    ) {
+      buffered = buffered.subarray(frame.size);
+      if (frame.opcode === 0x8) {
+        socket.push(null);
+        stream.end();
+        return;
+      }
+      if (frame.opcode === 0x9) {
+        stream.write(encodeWebSocketFrame(0xa, frame.payload));
+      } else if (frame.opcode <= 0x2) {
+        // Continuation, text and binary frames all carry MQTT bytes
+        socket.push(frame.payload);
+      }
+    }
+  };
+  stream.on("data", receive);
+  stream.on("end", () => socket.push(null));
+  stream.on("error", (error) => socket.destroy(error));
+  // Frames that arrived together with the upgrade response
+  receive(Buffer.alloc(0));
+  stream.resume();
+
+  return socket;
+}
+
+/**
+ * Default MQTT client factory using mqtt.js
+ * Note: This requires the mqtt package to be installed
+ */
+async function createDefaultMqttClient(config: MqttClientConfig): Promise<MqttClient> {
+  // Use dynamic import to avoid bundling mqtt if not used
+  const mqtt = await import("mqtt");
+
+  const options: IClientOptions = {
+    clientId: config.clientId,
+    protocolVersion: 4,
+    clean: true,
+    connectTimeout: config.timeoutMs,
+    // Fail the check instead of reconnecting
+    reconnectPeriod: 0,
+    ...(config.username && { username: config.username, password: config.password }),
+  };
+
+  let client: MqttJsClient | undefined;
+
+  const subscribe = async (opened: MqttJsClient, topic: string, qos: 0 | 1 | 2) => {
+    // mqtt.js rejects subscriptions refused in the SUBACK (return code 0x80)
+    await opened.subscribeAsync(topic, { qos }).catch((error: Error) => {
+      throw /subscribe error/i.test(error.message) ? new MqttSubscribeError(topic) : error;
+    });
+  };
+
+  const waitFor = (
+    opened: MqttJsClient,
+    topic: string,
+    accept: (payload: string, retain: boolean) => boolean,
+  ) => {
+    let listener: OnMessageCallback | undefined;
+    const delivered = new Promise<string>((resolve) => {
+      listener = (received, message, packet) => {
+        const payload = message.toString("utf8");
+        if (received === topic && accept(payload, packet.retain)) {
+          resolve(payload);
+        }
+      };
+      opened.on("message", listener);
+    });
+    return delivered.finally(() => {
+      if (listener) opened.removeListener("message", listener);
+    });
+  };
+
+  return {
+    connect: async () => {
+      const socket = await openMqttStream(config);
+      const stream =
+        config.transport === "websocket" ? await openWebSocketStream(socket, config) : socket;
+      const opened = new mqtt.MqttClient(() => stream, { ...options, manualConnect: true });
+      client = opened;
+
+      await new Promise<void>((resolve, reject) => {
+        opened.once("connect", () => resolve());
+        // CONNACK refusals and protocol errors
+        opened.once("error", reject);
+        opened.connect();
+      });
+    },
+    roundTrip: async (topic, payload, qos) => {
+      const opened = client;
+      if (!opened) {
+        throw new Error("MQTT connection is not open");
+      }
+
+      // Other probes may share the topic
+      const delivered = waitFor(opened, topic, (received) => received === payload);
+      await subscribe(opened, topic, qos);
+      await opened.publishAsync(topic, payload, { qos });
+      await delivered;
+    },
+    retained: async (topic, qos) => {
+      const opened = client;
+      if (!opened) {
+        throw new Error("MQTT connection is not open");
+      }
+
+      // The broker sends the retained message right after the SUBACK
+      const delivered = waitFor(opened, topic, (_, retain) => retain);
+      await subscribe(opened, topic, qos);
+      return await delivered;
+    },
+    close: async () => {
+      await client?.endAsync(true);
+    },
+  };
+}
+
+/**
+ * Compare a retained message with the configured criteria
+ * Returns a failure message, or undefined when the message matches.
+ */
+function matchRetained(
+  value: string,
+  criteria: { equals?: string; contains?: string; matches?: string },
+): string | undefined {
+  if (criteria.equals !== undefined && value !== criteria.equals) {
+    return `is "${value}", expected "${criteria.equals}"`;
+  }
+
+  if (criteria.contains !== undefined && !value.includes(criteria.contains)) {
+    return `"${value}" does not contain "${criteria.contains}"`;
+  }
+
+  if (criteria.matches !== undefined && !new RegExp(criteria.matches).test(value)) {
+    return `"${value}" does not match /${criteria.matches}/`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Internal MQTT checker implementation with injectable client factory
+ */
+async function checkMqttWithFactory(
+  monitor: Monitor,
+  timeout: number,
+  clientFactory: MqttClientFactory,
+): Promise<CheckResult> {
+  const target = monitor.spec.target.mqtt;
+
+  if (!target) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "INVALID_CONFIG",
+      message: "No MQTT target configured",
+    };
+  }
+
+  const criteria = monitor.spec.successCriteria?.mqtt;
+  const retainedCriteria = criteria?.retained;
+  if (retainedCriteria?.matches !== undefined) {
+    try {
+      new RegExp(retainedCriteria.matches);
+    } catch (error) {
+      return {
+        state: "down",
+        latencyMs: 0,
+        reason: "INVALID_CONFIG",
+        message: `Invalid retained message pattern: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  const startTime = Date.now();
+
+  const credentials = target.credentialsSecretRef ? getCredentialsFromEnv() : undefined;
+  if (target.credentialsSecretRef && !credentials) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "CREDENTIALS_ERROR",
+      message: "MQTT credentials not found in environment",
+    };
+  }
+
+  const caBundle = target.tls?.caBundleSecretRef ? getCaBundleFromEnv() : undefined;
+  if (target.tls?.enabled && target.tls.caBundleSecretRef && !caBundle) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "TLS_ERROR",
+      message: "CA bundle not found in environment",
+    };
+  }
+
+  const clientCert = target.tls?.clientCertSecretRef ? getClientCertFromEnv() : undefined;
+  if (target.tls?.enabled && target.tls.clientCertSecretRef && !clientCert) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "TLS_ERROR",
+      message: "Client certificate not found in environment",
+    };
+  }
+
+  const transport = target.transport ?? "tcp";
+  const tls = target.tls?.enabled;
+  const port = target.port ?? (transport === "websocket" ? (tls ? 443 : 80) : tls ? 8883 : 1883);
+  const topic = target.topic ?? "yuptime/probe";
+  const qos = target.qos ?? 0;
+
+  let client: MqttClient | undefined;
+  let finished = false;
+  // Set once connected; a timeout while waiting for the retained message means there is none
+  let awaitingRetained = false;
+  let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+
+  const session = async () => {
+    const { route, error: proxyError } = await resolveTcpRoute(target, timeout * 1000);
+    if (!route) {
+      throw new Error(proxyError ?? "Proxy unavailable");
+    }
+
+    const opened = await clientFactory({
+      transport,
+      host: target.host,
+      route,
+      port,
+      path: target.path ?? "/mqtt",
+      clientId: target.clientId ?? `yuptime-${randomUUID().slice(0, 8)}`,
+      ...credentials,
+      ...(tls && {
+        tls: {
+          verify: target.tls?.verify ?? true,
+          servername: target.tls?.sni ?? target.host,
+          ...(caBundle && { caBundle }),
+          ...(clientCert && { clientCert }),
+        },
+      }),
+      timeoutMs: timeout * 1000,
+    });
+    client = opened;
+    if (finished) {
+      // The check already timed out and cleaned up before the client existed
+      await opened.close();
+      return timedOut;
+    }
+
+    await opened.connect();
+
+    if (retainedCriteria) {
+      awaitingRetained = true;
+      return { retained: await opened.retained(topic, qos) };
+    }
+
+    const published = Date.now();
+    await opened.roundTrip(topic, `yuptime-probe-${randomUUID()}`, qos);
+
+    return { roundTripMs: Date.now() - published };
+  };
+
+  const timedOut = new Promise<never>((_, reject) => {
+    timeoutHandle = setTimeout(
+      () => reject(new Error(`MQTT check timeout after ${timeout}s`)),
+      timeout * 1000,
+    );
+  });
+
+  try {
+    const outcome = await Promise.race([session(), timedOut]);
+    const latencyMs = Date.now() - startTime;
+
+    if (outcome.retained !== undefined && retainedCriteria) {
+      const mismatch = matchRetained(outcome.retained, retainedCriteria);
+      if (mismatch) {
+        return {
+          state: "down",
+          latencyMs,
+          reason: "MQTT_RETAINED_MISMATCH",
+          message: `MQTT retained message on ${topic} ${mismatch}`,
+        };
+      }
+
+      return {
+        state: "up",
+        latencyMs,
+        reason: "MQTT_OK",
+        message: `MQTT retained message on ${topic} matches`,
+      };
+    }
+
+    const roundTripMs = outcome.roundTripMs ?? latencyMs;
+    const threshold = criteria?.latencyMsUnder;
+    if (threshold && roundTripMs > threshold) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "LATENCY_EXCEEDED",
+        message: `MQTT round trip ${roundTripMs}ms exceeds threshold ${threshold}ms`,
+      };
+    }
+
+    return {
+      state: "up",
+      latencyMs,
+      reason: "MQTT_OK",
+      message: `MQTT round trip on ${topic} in ${roundTripMs}ms`,
+    };
+  } catch (error) {
+    const latencyMs = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+    logger.warn({ monitor: monitor.metadata.name, error: errorMessage }, "MQTT check failed");
+
+    if (error instanceof MqttSubscribeError) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "MQTT_SUBSCRIBE_REJECTED",
+        message: errorMessage,
+      };
+    }
+
+    // CONNACK return codes 4 and 5
+    if (/bad username or password|not authorized/i.test(errorMessage)) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "AUTH_FAILED",
+        message: "MQTT authentication failed",
+      };
+    }
+
+    if (isTlsError(error)) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "TLS_ERROR",
+        message: errorMessage,
+      };
+    }
+
+    if (/check timeout|connack timeout/i.test(errorMessage)) {
+      if (awaitingRetained) {
+        return {
+          state: "down",
+          latencyMs,
+          reason: "MQTT_NO_RETAINED_MESSAGE",
+          message: `No retained message on ${topic} within ${timeout}s`,
+        };
+      }
+
+      return {
+        state: "down",
+        latencyMs,
+        reason: "TIMEOUT",
+        message: `MQTT check timeout after ${timeout}s`,
+      };
+    }
+
+    return tcpConnectionFailure(
+      error instanceof Error ? error : new Error(errorMessage),
+      latencyMs,
+    );
+  } finally {
+    finished = true;
+    clearTimeout(timeoutHandle);
+    await client?.close().catch(() => {
+      // Ignore close errors
+    });
+  }
+}
+
+/**
+ * MQTT publish/subscribe round-trip and retained message checker
+ */
+export async function checkMqtt(monitor: Monitor, timeout: number): Promise<CheckResult> {
+  return checkMqttWithFactory(monitor, timeout, createDefaultMqttClient);
+}
+
+/**
+ * Create an MQTT checker with a custom client factory (for testing)
+ */
+export function createCheckMqtt(
+  clientFactory: MqttClientFactory,
+): (monitor: Monitor, timeout: number) => Promise<CheckResult> {
+  return (monitor: Monitor, timeout: number) =>
+    checkMqttWithFactory(monitor, timeout, clientFactory);
+}
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
 import { createMySqlMonitor, createMySqlMonitorNoTarget } from "../test-utils/fixtures/monitors";
 import { createMockMySqlClientFactory } from "../test-utils/mocks/database";
-import { createCheckMySql } from "./mysql";
+import { createCheckMySql, type MySqlClientConfig } from "./mysql";
 
 describe("checkMySql", () => {
   // Store original env vars
@@ -192,4 +192,80 @@ describe("checkMySql", () => {
     expect(result.state).toBe("up");
     expect(result.reason).toBe("MYSQL_OK");
   });
+
+  test("presents the client certificate when TLS is enabled", async () => {
+    process.env.YUPTIME_TLS_CLIENT_CERT = "client-cert";
+    process.env.YUPTIME_TLS_CLIENT_KEY = "client-key";
+
+    let config: MySqlClientConfig | undefined;
+    const checker = createCheckMySql(async (clientConfig) => {
+      config = clientConfig;
+      return createMockMySqlClientFactory()(clientConfig);
+    });
+    const monitor = createMySqlMonitor();
+    const result = await checker(
+      {
+        ...monitor,
+        spec: {
+          ...monitor.spec,
+          target: {
+            mysql: {
+              ...monitor.spec.target.mysql,
+              tls: {
+                enabled: true,
+                verify: false,
+                clientCertSecretRef: {
+                  name: "mysql-client",
+                  certKey: "tls.crt",
+                  keyKey: "tls.key",
+                },
+              },
+            },
+          },
+        },
+      },
+      10,
+    );
+
+    expect(result.state).toBe("up");
+    expect(config?.ssl).toEqual({
+      rejectUnauthorized: false,
+      cert: "client-cert",
+      key: "client-key",
+    });
+  });
+
+  test("trusts the CA bundle when TLS is enabled", async () => {
+    process.env.YUPTIME_TLS_CA_BUNDLE = "ca-pem";
+
+    let config: MySqlClientConfig | undefined;
+    const checker = createCheckMySql(async (clientConfig) => {
+      config = clientConfig;
+      return createMockMySqlClientFactory()(clientConfig);
+    });
+    const monitor = createMySqlMonitor();
+    const result = await checker(
+      {
+        ...monitor,
+        spec: {
+          ...monitor.spec,
+          target: {
+            mysql: {
+              ...monitor.spec.target.mysql,
+              tls: {
+                enabled: true,
+                verify: true,
+                caBundleSecretRef: { name: "mysql-ca", key: "ca.crt" },
+              },
+            },
+          },
+        },
+      },
+      10,
+    );
+
+    expect(result.state).toBe("up");
+    expect(config?.ssl?.rejectUnauthorized).toBe(true);
+    expect(config?.ssl?.ca).toContain("ca-pem");
+  });
 });
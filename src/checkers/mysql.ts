@@ -1,3 +1,4 @@
+import { getCaBundleFromEnv, getClientCertFromEnv, withSystemRoots } from "../lib/certificates";
 import { logger } from "../lib/logger";
 import type { Monitor } from "../types/crd";
 import type { CheckResult } from "./index";
@@ -36,6 +37,12 @@ export interface MySqlClientConfig {
   password: string;
   database?: string;
   connectTimeout: number;
+  ssl?: {
+    rejectUnauthorized: boolean;
+    ca?: string[];
+    cert?: string;
+    key?: string;
+  };
 }
 
 /**
@@ -58,6 +65,7 @@ async function createDefaultMySqlClient(config: MySqlClientConfig): Promise<MySq
     password: config.password,
     database: config.database,
     connectTimeout: config.connectTimeout,
+    ssl: config.ssl,
   });
 
   return {
@@ -108,6 +116,26 @@ async function checkMySqlWithFactory(
       };
     }
 
+    const caBundle = target.tls?.caBundleSecretRef ? getCaBundleFromEnv() : undefined;
+    if (target.tls?.enabled && target.tls.caBundleSecretRef && !caBundle) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "TLS_ERROR",
+        message: "CA bundle not found in environment",
+      };
+    }
+
+    const clientCert = target.tls?.clientCertSecretRef ? getClientCertFromEnv() : undefined;
+    if (target.tls?.enabled && target.tls.clientCertSecretRef && !clientCert) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "TLS_ERROR",
+        message: "Client certificate not found in environment",
+      };
+    }
+
     const client = await clientFactory({
       host: target.host,
       port: target.port ?? 3306,
@@ -115,6 +143,13 @@ async function checkMySqlWithFactory(
       password: credentials.password,
       database: target.database,
       connectTimeout: timeout * 1000,
+      ...(target.tls?.enabled && {
+        ssl: {
+          rejectUnauthorized: target.tls.verify ?? true,
+          ...(caBundle && { ca: withSystemRoots(caBundle) }),
+          ...clientCert,
+        },
+      }),
     });
 
     try {
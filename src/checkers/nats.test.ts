@@ -0,0 +1,236 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { type AddressInfo, createServer } from "node:net";
+import { createNatsMonitor } from "../test-utils/fixtures/monitors";
+import { createMockNatsClientFactory } from "../test-utils/mocks/brokers";
+import { checkNats, createCheckNats, type NatsClientConfig } from "./nats";
+
+describe("checkNats", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test("returns up after the probe round trip", async () => {
+    const published: string[] = [];
+    const checker = createCheckNats(
+      createMockNatsClientFactory({ onPublish: (_subject, payload) => published.push(payload) }),
+    );
+    const result = await checker(createNatsMonitor(), 10);
+
+    expect(result.state).toBe("up");
+    expect(result.reason).toBe("NATS_OK");
+    expect(result.message).toMatch(/^NATS 2\.10\.18 round trip on yuptime\.probe in \d+ms$/);
+    expect(published[0]).toMatch(/^yuptime-probe-[0-9a-f-]{36}$/);
+  });
+
+  test("publishes a unique probe each check", async () => {
+    const published: string[] = [];
+    const checker = createCheckNats(
+      createMockNatsClientFactory({ onPublish: (_, payload) => published.push(payload) }),
+    );
+    await checker(createNatsMonitor(), 10);
+    await checker(createNatsMonitor(), 10);
+
+    expect(published[0]).not.toBe(published[1]);
+  });
+
+  test("returns down when no NATS target configured", async () => {
+    const monitor = createNatsMonitor();
+    monitor.spec.target = {} as typeof monitor.spec.target;
+    const result = await createCheckNats(createMockNatsClientFactory())(monitor, 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("INVALID_CONFIG");
+    expect(result.message).toBe("No NATS target configured");
+  });
+
+  test("returns LATENCY_EXCEEDED when the round trip is too slow", async () => {
+    const checker = createCheckNats(createMockNatsClientFactory({ roundTripDelayMs: 30 }));
+    const result = await checker(createNatsMonitor({}, { latencyMsUnder: 5 }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("LATENCY_EXCEEDED");
+    expect(result.message).toMatch(/^NATS round trip \d+ms exceeds threshold 5ms$/);
+  });
+
+  test("returns TIMEOUT when the probe never comes back", async () => {
+    const checker = createCheckNats(createMockNatsClientFactory({ dropMessages: true }));
+    const result = await checker(createNatsMonitor(), 1);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("TIMEOUT");
+    expect(result.message).toBe("NATS check timeout after 1s");
+  });
+
+  test("passes user credentials and token from the environment", async () => {
+    process.env.YUPTIME_CRED_NATS_USERNAME = "probe";
+    process.env.YUPTIME_CRED_NATS_PASSWORD = "secret";
+    process.env.YUPTIME_CRED_NATS_TOKEN = "token";
+    let config: NatsClientConfig | undefined;
+    const checker = createCheckNats(
+      createMockNatsClientFactory({
+        onConfig: (received) => {
+          config = received;
+        },
+      }),
+    );
+    await checker(
+      createNatsMonitor({
+        credentialsSecretRef: { name: "nats", usernameKey: "username", passwordKey: "password" },
+        tokenSecretRef: { name: "nats", key: "token" },
+      }),
+      10,
+    );
+
+    expect(config).toMatchObject({ user: "probe", pass: "secret", token: "token" });
+  });
+
+  test("returns CREDENTIALS_ERROR when the token is missing", async () => {
+    delete process.env.YUPTIME_CRED_NATS_TOKEN;
+    const checker = createCheckNats(createMockNatsClientFactory());
+    const result = await checker(
+      createNatsMonitor({ tokenSecretRef: { name: "nats", key: "token" } }),
+      10,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("CREDENTIALS_ERROR");
+  });
+
+  const errorCases = [
+    {
+      error: { message: "CONNECTION_REFUSED", code: "CONNECTION_REFUSED" },
+      reason: "CONNECTION_REFUSED",
+    },
+    {
+      error: { message: "'Authorization Violation'", code: "AUTHORIZATION_VIOLATION" },
+      reason: "AUTH_FAILED",
+    },
+    { error: { message: "TIMEOUT", code: "TIMEOUT" }, reason: "TIMEOUT" },
+    {
+      error: { message: "connection draining", code: "CONNECTION_DRAINING" },
+      reason: "CONNECTION_ERROR",
+    },
+  ];
+
+  for (const { error, reason } of errorCases) {
+    test(`returns ${reason} for ${error.code}`, async () => {
+      const checker = createCheckNats(
+        createMockNatsClientFactory({
+          connectError: Object.assign(new Error(error.message), { code: error.code }),
+        }),
+      );
+      const result = await checker(createNatsMonitor(), 10);
+
+      expect(result.state).toBe("down");
+      expect(result.reason).toBe(reason);
+    });
+  }
+});
+
+describe("checkNats against a NATS server", () => {
+  /**
+   * Minimal NATS server: echoes PUB to matching subscriptions and enforces an optional token
+   */
+  async function startServer(token?: string): Promise<{ port: number; close: () => void }> {
+    const server = createServer((socket) => {
+      const subscriptions = new Map<string, string>();
+      let buffered = "";
+
+      socket.write(
+        `INFO ${JSON.stringify({ server_id: "test", server_name: "test-nats", version: "2.10.0", proto: 1, max_payload: 1048576, auth_required: Boolean(token) })}\r\n`,
+      );
+
+      socket.on("data", (data) => {
+        buffered += data.toString("utf8");
+        let end = buffered.indexOf("\r\n");
+        while (end >= 0) {
+          const line = buffered.slice(0, end);
+          const [op, ...args] = line.split(" ");
+
+          if (op === "PUB") {
+            const size = Number(args[args.length - 1]);
+            if (buffered.length < end + 2 + size + 2) return;
+            const payload = buffered.slice(end + 2, end + 2 + size);
+            buffered = buffered.slice(end + 2 + size + 2);
+            for (const [sid, subject] of subscriptions) {
+              if (subject === args[0]) {
+                socket.write(`MSG ${subject} ${sid} ${size}\r\n${payload}\r\n`);
+              }
+            }
+          } else {
+            buffered = buffered.slice(end + 2);
+            if (op === "CONNECT") {
+              const options = JSON.parse(args.join(" "));
+              if (token && options.auth_token !== token) {
+                socket.end("-ERR 'Authorization Violation'\r\n");
+                return;
+              }
+            } else if (op === "PING") {
+              socket.write("PONG\r\n");
+            } else if (op === "SUB" && args[0] && args[1]) {
+              subscriptions.set(args[args.length - 1] ?? "", args[0]);
+            } else if (op === "UNSUB" && args[0]) {
+              subscriptions.delete(args[0]);
+            }
+          }
+
+          end = buffered.indexOf("\r\n");
+        }
+      });
+      socket.on("error", () => {
+        // Clients disconnect without draining
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    return { port, close: () => server.close() };
+  }
+
+  test("measures the publish/subscribe round trip", async () => {
+    const server = await startServer();
+    try {
+      const result = await checkNats(
+        createNatsMonitor({ servers: [`127.0.0.1:${server.port}`] }),
+        5,
+      );
+
+      expect(result.state).toBe("up");
+      expect(result.message).toMatch(/^test-nats 2\.10\.0 round trip on yuptime\.probe in \d+ms$/);
+    } finally {
+      server.close();
+    }
+  });
+
+  test("returns AUTH_FAILED for a rejected token", async () => {
+    process.env.YUPTIME_CRED_NATS_TOKEN = "wrong";
+    const server = await startServer("right");
+    try {
+      const result = await checkNats(
+        createNatsMonitor({
+          servers: [`127.0.0.1:${server.port}`],
+          tokenSecretRef: { name: "nats", key: "token" },
+        }),
+        5,
+      );
+
+      expect(result.state).toBe("down");
+      expect(result.reason).toBe("AUTH_FAILED");
+    } finally {
+      server.close();
+      delete process.env.YUPTIME_CRED_NATS_TOKEN;
+    }
+  });
+
+  test("returns CONNECTION_REFUSED when nothing listens", async () => {
+    const server = await startServer();
+    server.close();
+
+    const result = await checkNats(createNatsMonitor({ servers: [`127.0.0.1:${server.port}`] }), 5);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("CONNECTION_REFUSED");
+  });
+});
@@ -0,0 +1,334 @@
+import { randomUUID } from "node:crypto";
+import type { ConnectionOptions as TlsConnectionOptions } from "node:tls";
+import type { TlsOptions as NatsTlsOptions } from "nats";
+import {
+  type ClientCertificate,
+  getCaBundleFromEnv,
+  getClientCertFromEnv,
+  isTlsError,
+  withSystemRoots,
+} from "../lib/certificates";
+import { logger } from "../lib/logger";
+import type { Monitor } from "../types/crd";
+import type { CheckResult } from "./index";
+
+/**
+ * Get NATS credentials from environment variables.
+ * These are injected by the Job builder from Kubernetes secrets.
+ */
+function getCredentialsFromEnv(): { user?: string; pass?: string; token?: string } {
+  const user = process.env.YUPTIME_CRED_NATS_USERNAME;
+  const pass = process.env.YUPTIME_CRED_NATS_PASSWORD;
+  const token = process.env.YUPTIME_CRED_NATS_TOKEN;
+
+  return {
+    ...(user && pass && { user, pass }),
+    ...(token && { token }),
+  };
+}
+
+/**
+ * NATS client interface for dependency injection
+ */
+export interface NatsClient {
+  /** Connect and authenticate; resolves with the server name and version, e.g. "NATS 2.10.18" */
+  connect(): Promise<{ server: string }>;
+  /** Subscribe to the subject, publish the payload and resolve once it is delivered back */
+  roundTrip(subject: string, payload: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * NATS client factory configuration
+ */
+export interface NatsClientConfig {
+  servers: string[];
+  user?: string;
+  pass?: string;
+  token?: string;
+  tls?: {
+    verify: boolean;
+    caBundle?: string;
+    clientCert?: ClientCertificate;
+  };
+  timeoutMs: number;
+}
+
+/**
+ * NATS client factory type for dependency injection
+ */
+export type NatsClientFactory = (config: NatsClientConfig) => Promise<NatsClient>;
+
+/**
+ * Default NATS client factory using nats.js
+ * Note: This requires the nats package to be installed
+ */
+async function createDefaultNatsClient(config: NatsClientConfig): Promise<NatsClient> {
+  // Use dynamic import to avoid bundling nats if not used
+  const nats = await import("nats");
+
+  // nats.js passes these options through to tls.connect
+  const tls: TlsConnectionOptions | undefined = config.tls && {
+    rejectUnauthorized: config.tls.verify,
+    ...(config.tls.caBundle && { ca: withSystemRoots(config.tls.caBundle) }),
+    ...(config.tls.clientCert && {
+      cert: config.tls.clientCert.cert,
+      key: config.tls.clientCert.key,
+    }),
+  };
+
+  let connection: Awaited<ReturnType<typeof nats.connect>> | undefined;
+
+  return {
+    connect: async () => {
+      connection = await nats.connect({
+        servers: config.servers,
+        name: "yuptime",
+        timeout: config.timeoutMs,
+        // Fail the check instead of reconnecting
+        reconnect: false,
+        ...(config.user && { user: config.user, pass: config.pass }),
+        ...(config.token && { token: config.token }),
+        ...(tls && { tls: tls as NatsTlsOptions }),
+      });
+
+      const info = connection.info;
+      return { server: info ? `${info.server_name || "NATS"} ${info.version}` : "NATS server" };
+    },
+    roundTrip: (subject, payload) =>
+      new Promise((resolve, reject) => {
+        const opened = connection;
+        if (!opened) {
+          reject(new Error("NATS connection is not open"));
+          return;
+        }
+
+        const subscription = opened.subscribe(subject, {
+          callback: (error, message) => {
+            if (error) {
+              reject(error);
+              return;
+            }
+            // Other probes may share the subject
+            if (Buffer.from(message.data).toString("utf8") === payload) {
+              subscription.unsubscribe();
+              resolve();
+            }
+          },
+        });
+
+        // Publish once the server has registered the subscription
+        opened.flush().then(() => opened.publish(subject, Buffer.from(payload)), reject);
+      }),
+    close: async () => {
+      await connection?.close();
+    },
+  };
+}
+
+/**
+ * Internal NATS checker implementation with injectable client factory
+ */
+async function checkNatsWithFactory(
+  monitor: Monitor,
+  timeout: number,
+  clientFactory: NatsClientFactory,
+): Promise<CheckResult> {
+  const target = monitor.spec.target.nats;
+
+  if (!target) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "INVALID_CONFIG",
+      message: "No NATS target configured",
+    };
+  }
+
+  const startTime = Date.now();
+
+  const credentials =
+    target.credentialsSecretRef || target.tokenSecretRef ? getCredentialsFromEnv() : {};
+  if (
+    (target.credentialsSecretRef && !credentials.user) ||
+    (target.tokenSecretRef && !credentials.token)
+  ) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "CREDENTIALS_ERROR",
+      message: "NATS credentials not found in environment",
+    };
+  }
+
+  const caBundle = target.tls?.caBundleSecretRef ? getCaBundleFromEnv() : undefined;
+  if (target.tls?.enabled && target.tls.caBundleSecretRef && !caBundle) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "TLS_ERROR",
+      message: "CA bundle not found in environment",
+    };
+  }
+
+  const clientCert = target.tls?.clientCertSecretRef ? getClientCertFromEnv() : undefined;
+  if (target.tls?.enabled && target.tls.clientCertSecretRef && !clientCert) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "TLS_ERROR",
+      message: "Client certificate not found in environment",
+    };
+  }
+
+  const subject = target.subject ?? "yuptime.probe";
+  let client: NatsClient | undefined;
+  let finished = false;
+  let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+
+  const session = async () => {
+    const opened = await clientFactory({
+      servers: target.servers,
+      ...credentials,
+      ...(target.tls?.enabled && {
+        tls: {
+          verify: target.tls.verify ?? true,
+          ...(caBundle && { caBundle }),
+          ...(clientCert && { clientCert }),
+        },
+      }),
+      timeoutMs: timeout * 1000,
+    });
+    client = opened;
+    if (finished) {
+      // The check already timed out and cleaned up before the client existed
+      await opened.close();
+      return timedOut;
+    }
+
+    const { server } = await opened.connect();
+
+    const published = Date.now();
+    await opened.roundTrip(subject, `yuptime-probe-${randomUUID()}`);
+
+    return { server, roundTripMs: Date.now() - published };
+  };
+
+  const timedOut = new Promise<never>((_, reject) => {
+    timeoutHandle = setTimeout(
+      () => reject(new Error(`NATS check timeout after ${timeout}s`)),
+      timeout * 1000,
+    );
+  });
+
+  try {
+    const { server, roundTripMs } = await Promise.race([session(), timedOut]);
+    const latencyMs = Date.now() - startTime;
+
+    const threshold = monitor.spec.successCriteria?.nats?.latencyMsUnder;
+    if (threshold && roundTripMs > threshold) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "LATENCY_EXCEEDED",
+        message: `NATS round trip ${roundTripMs}ms exceeds threshold ${threshold}ms`,
+      };
+    }
+
+    return {
+      state: "up",
+      latencyMs,
+      reason: "NATS_OK",
+      message: `${server} round trip on ${subject} in ${roundTripMs}ms`,
+    };
+  } catch (error) {
+    const latencyMs = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    // nats.js reports the failure kind in the error code
+    const errorCode = (error as { code?: string }).code ?? "";
+
+    logger.warn(
+      { monitor: monitor.metadata.name, error: errorMessage || errorCode },
+      "NATS check failed",
+    );
+
+    if (errorCode === "CONNECTION_REFUSED" || errorMessage.includes("ECONNREFUSED")) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "CONNECTION_REFUSED",
+        message: "NATS connection refused",
+      };
+    }
+
+    if (errorMessage.includes("ENOTFOUND")) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "DNS_NXDOMAIN",
+        message: "NATS server not found",
+      };
+    }
+
+    if (
+      errorCode === "AUTHORIZATION_VIOLATION" ||
+      errorCode === "AUTHENTICATION_EXPIRED" ||
+      /authorization violation/i.test(errorMessage)
+    ) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "AUTH_FAILED",
+        message: "NATS authentication failed",
+      };
+    }
+
+    if (isTlsError(error)) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "TLS_ERROR",
+        message: errorMessage,
+      };
+    }
+
+    if (errorCode === "TIMEOUT" || /time(d)? ?out/i.test(errorMessage)) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "TIMEOUT",
+        message: `NATS check timeout after ${timeout}s`,
+      };
+    }
+
+    return {
+      state: "down",
+      latencyMs,
+      reason: "CONNECTION_ERROR",
+      message: errorMessage || errorCode || "Unknown connection error",
+    };
+  } finally {
+    finished = true;
+    clearTimeout(timeoutHandle);
+    await client?.close().catch(() => {
+      // Ignore close errors
+    });
+  }
+}
+
+/**
+ * NATS publish/subscribe round-trip checker
+ */
+export async function checkNats(monitor: Monitor, timeout: number): Promise<CheckResult> {
+  return checkNatsWithFactory(monitor, timeout, createDefaultNatsClient);
+}
+
+/**
+ * Create a NATS checker with a custom client factory (for testing)
+ */
+export function createCheckNats(
+  clientFactory: NatsClientFactory,
+): (monitor: Monitor, timeout: number) => Promise<CheckResult> {
+  return (monitor: Monitor, timeout: number) =>
+    checkNatsWithFactory(monitor, timeout, clientFactory);
+}
@@ -4,7 +4,7 @@ import {
   createPostgreSqlMonitorNoTarget,
 } from "../test-utils/fixtures/monitors";
 import { createMockPostgreSqlClientFactory } from "../test-utils/mocks/database";
-import { createCheckPostgreSql } from "./postgresql";
+import { createCheckPostgreSql, type PostgreSqlClientConfig } from "./postgresql";
 
 describe("checkPostgreSql", () => {
   // Store original env vars
@@ -175,4 +175,92 @@ describe("checkPostgreSql", () => {
     expect(result.state).toBe("up");
     expect(result.reason).toBe("POSTGRESQL_OK");
   });
+
+  describe("client certificates", () => {
+    const captureConfig = () => {
+      const configs: PostgreSqlClientConfig[] = [];
+      const factory = createMockPostgreSqlClientFactory();
+      return {
+        configs,
+        factory: (config: PostgreSqlClientConfig) => {
+          configs.push(config);
+          return factory(config);
+        },
+      };
+    };
+
+    beforeEach(() => {
+      process.env.YUPTIME_TLS_CLIENT_CERT = "client-cert";
+      process.env.YUPTIME_TLS_CLIENT_KEY = "client-key";
+    });
+
+    test("presents the client certificate over SSL", async () => {
+      const { configs, factory } = captureConfig();
+      const checker = createCheckPostgreSql(factory);
+      const result = await checker(
+        createPostgreSqlMonitor({ sslMode: "verify-full", clientCertSecretName: "pg-client" }),
+        10,
+      );
+
+      expect(result.state).toBe("up");
+      expect(configs[0]?.ssl).toEqual({
+        rejectUnauthorized: true,
+        cert: "client-cert",
+        key: "client-key",
+      });
+    });
+
+    test("enables SSL for the client certificate when sslMode is prefer", async () => {
+      const { configs, factory } = captureConfig();
+      const checker = createCheckPostgreSql(factory);
+      await checker(createPostgreSqlMonitor({ clientCertSecretName: "pg-client" }), 10);
+
+      expect(configs[0]?.ssl).toEqual({
+        rejectUnauthorized: false,
+        cert: "client-cert",
+        key: "client-key",
+      });
+    });
+
+    test("trusts the CA bundle over SSL", async () => {
+      process.env.YUPTIME_TLS_CA_BUNDLE = "ca-pem";
+
+      const { configs, factory } = captureConfig();
+      const checker = createCheckPostgreSql(factory);
+      const monitor = createPostgreSqlMonitor({ sslMode: "verify-ca" });
+      const result = await checker(
+        {
+          ...monitor,
+          spec: {
+            ...monitor.spec,
+            target: {
+              postgresql: {
+                ...monitor.spec.target.postgresql,
+                caBundleSecretRef: { name: "pg-ca", key: "ca.crt" },
+              },
+            },
+          },
+        },
+        10,
+      );
+
+      expect(result.state).toBe("up");
+      const ssl = configs[0]?.ssl;
+      expect(typeof ssl === "object" && ssl.ca).toContain("ca-pem");
+    });
+
+    test("returns TLS_ERROR when the client certificate is not in environment", async () => {
+      delete process.env.YUPTIME_TLS_CLIENT_KEY;
+
+      const checker = createCheckPostgreSql(createMockPostgreSqlClientFactory());
+      const result = await checker(
+        createPostgreSqlMonitor({ clientCertSecretName: "pg-client" }),
+        10,
+      );
+
+      expect(result.state).toBe("down");
+      expect(result.reason).toBe("TLS_ERROR");
+      expect(result.message).toBe("Client certificate not found in environment");
+    });
+  });
 });
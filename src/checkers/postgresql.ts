@@ -1,3 +1,9 @@
+import {
+  type ClientCertificate,
+  getCaBundleFromEnv,
+  getClientCertFromEnv,
+  withSystemRoots,
+} from "../lib/certificates";
 import { logger } from "../lib/logger";
 import type { Monitor } from "../types/crd";
 import type { CheckResult } from "./index";
@@ -39,6 +45,9 @@ export interface PostgreSqlClientConfig {
   ssl?:
     | {
         rejectUnauthorized: boolean;
+        ca?: string[];
+        cert?: string;
+        key?: string;
       }
     | boolean;
 }
@@ -101,6 +110,31 @@ function mapSslMode(
   }
 }
 
+/**
+ * Build the pg ssl configuration, adding the CA bundle and the client certificate for mutual TLS
+ * pg only presents a certificate over SSL, so one forces SSL unless sslMode is disable.
+ */
+function buildSslConfig(
+  sslMode: string | undefined,
+  clientCert: ClientCertificate | undefined,
+  caBundle?: string,
+): PostgreSqlClientConfig["ssl"] {
+  const ssl = mapSslMode(sslMode);
+
+  if (ssl === false) {
+    return ssl;
+  }
+  if (!clientCert) {
+    return caBundle && typeof ssl === "object" ? { ...ssl, ca: withSystemRoots(caBundle) } : ssl;
+  }
+
+  return {
+    ...(typeof ssl === "object" ? ssl : { rejectUnauthorized: false }),
+    ...(caBundle && { ca: withSystemRoots(caBundle) }),
+    ...clientCert,
+  };
+}
+
 /**
  * Internal PostgreSQL checker implementation with injectable client factory
  */
@@ -135,6 +169,26 @@ async function checkPostgreSqlWithFactory(
       };
     }
 
+    const caBundle = target.caBundleSecretRef ? getCaBundleFromEnv() : undefined;
+    if (target.sslMode !== "disable" && target.caBundleSecretRef && !caBundle) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "TLS_ERROR",
+        message: "CA bundle not found in environment",
+      };
+    }
+
+    const clientCert = target.clientCertSecretRef ? getClientCertFromEnv() : undefined;
+    if (target.clientCertSecretRef && !clientCert) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "TLS_ERROR",
+        message: "Client certificate not found in environment",
+      };
+    }
+
     const client = await clientFactory({
       host: target.host,
       port: target.port ?? 5432,
@@ -142,7 +196,7 @@ async function checkPostgreSqlWithFactory(
       password: credentials.password,
       database: target.database ?? "postgres",
       connectionTimeoutMillis: timeout * 1000,
-      ssl: mapSslMode(target.sslMode),
+      ssl: buildSslConfig(target.sslMode, clientCert, caBundle),
     });
 
     try {
@@ -0,0 +1,134 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { createPrometheusMonitor } from "../test-utils/fixtures/monitors";
+import { checkPrometheus } from "./prometheus";
+
+/**
+ * Responses of the fake query API, by query
+ */
+const RESULTS: Record<string, unknown> = {
+  error_ratio: { resultType: "scalar", result: [1767323045, "0.004"] },
+  up: {
+    resultType: "vector",
+    result: [
+      { metric: { job: "api", instance: "a" }, value: [1767323045, "1"] },
+      { metric: { job: "api", instance: "b" }, value: [1767323045, "0"] },
+    ],
+  },
+  absent_metric: { resultType: "vector", result: [] },
+  "up[5m]": { resultType: "matrix", result: [] },
+};
+
+describe("checkPrometheus", () => {
+  const originalEnv = { ...process.env };
+  let server: ReturnType<typeof Bun.serve>;
+  let url: string;
+  let lastAuthorization: string | null = null;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      hostname: "127.0.0.1",
+      fetch(req) {
+        const requestUrl = new URL(req.url);
+        lastAuthorization = req.headers.get("authorization");
+
+        if (requestUrl.pathname !== "/prometheus/api/v1/query") {
+          return new Response("not found", { status: 404 });
+        }
+
+        const data = RESULTS[requestUrl.searchParams.get("query") ?? ""];
+        if (!data) {
+          return Response.json(
+            { status: "error", errorType: "bad_data", error: "parse error at char 1" },
+            { status: 400 },
+          );
+        }
+        return Response.json({ status: "success", data });
+      },
+    });
+    url = `http://127.0.0.1:${server.port}/prometheus`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    lastAuthorization = null;
+  });
+
+  test("compares a scalar result with the thresholds", async () => {
+    const monitor = (lessThan: number) =>
+      createPrometheusMonitor(
+        { url, query: "error_ratio" },
+        { lessThan, match: "all", onEmpty: "down" },
+      );
+
+    const passing = await checkPrometheus(monitor(0.01), 5);
+    expect(passing.state).toBe("up");
+    expect(passing.reason).toBe("PROMETHEUS_OK");
+    expect(passing.message).toBe("Query returned 0.004");
+
+    const failing = await checkPrometheus(monitor(0.001), 5);
+    expect(failing.state).toBe("down");
+    expect(failing.reason).toBe("PROMETHEUS_VALIDATION_FAILED");
+    expect(failing.message).toBe("scalar: value 0.004 is not less than 0.001");
+  });
+
+  test("requires every series to pass unless match is any", async () => {
+    const all = await checkPrometheus(
+      createPrometheusMonitor({ url, query: "up" }, { equals: 1, match: "all", onEmpty: "down" }),
+      5,
+    );
+    expect(all.state).toBe("down");
+    expect(all.message).toBe('{job="api", instance="b"}: value 0 does not equal 1');
+
+    const any = await checkPrometheus(
+      createPrometheusMonitor({ url, query: "up" }, { equals: 1, match: "any", onEmpty: "down" }),
+      5,
+    );
+    expect(any.state).toBe("up");
+    expect(any.message).toBe("Query returned 2 series");
+  });
+
+  test("reports empty results according to onEmpty", async () => {
+    const down = await checkPrometheus(createPrometheusMonitor({ url, query: "absent_metric" }), 5);
+    expect(down.state).toBe("down");
+    expect(down.reason).toBe("PROMETHEUS_NO_DATA");
+
+    const up = await checkPrometheus(
+      createPrometheusMonitor({ url, query: "absent_metric" }, { match: "all", onEmpty: "up" }),
+      5,
+    );
+    expect(up.state).toBe("up");
+  });
+
+  test("reports query errors and range vectors", async () => {
+    const invalid = await checkPrometheus(createPrometheusMonitor({ url, query: "sum(" }), 5);
+    expect(invalid.state).toBe("down");
+    expect(invalid.reason).toBe("PROMETHEUS_ERROR");
+    expect(invalid.message).toBe("Query failed: parse error at char 1");
+
+    const matrix = await checkPrometheus(createPrometheusMonitor({ url, query: "up[5m]" }), 5);
+    expect(matrix.reason).toBe("PROMETHEUS_ERROR");
+    expect(matrix.message).toBe("Unsupported result type matrix, expected scalar or vector");
+  });
+
+  test("sends basic auth credentials from the environment", async () => {
+    process.env.YUPTIME_AUTH_BASIC_USERNAME = "reader";
+    process.env.YUPTIME_AUTH_BASIC_PASSWORD = "s3cret";
+
+    const result = await checkPrometheus(
+      createPrometheusMonitor({
+        url,
+        query: "error_ratio",
+        auth: { basic: { secretRef: { name: "prom", usernameKey: "user", passwordKey: "pass" } } },
+      }),
+      5,
+    );
+
+    expect(result.state).toBe("up");
+    expect(lastAuthorization).toBe(`Basic ${Buffer.from("reader:s3cret").toString("base64")}`);
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Prometheus query checker
+ * Runs a PromQL instant query against a Prometheus-compatible API and compares
+ * the scalar or vector result with thresholds from successCriteria.prometheus.
+ */
+
+import { isTlsError } from "../lib/certificates";
+import { logger } from "../lib/logger";
+import { resolveSecretCached } from "../lib/secrets";
+import type { Monitor } from "../types/crd";
+import type { SuccessCriteria } from "../types/crd/monitor";
+import { buildAuthHeaders, type CheckResult } from "./http";
+
+type PrometheusCriteria = NonNullable<SuccessCriteria["prometheus"]>;
+
+// Sample value as returned by the API: [unix timestamp, "value"]
+type Sample = [number, string];
+
+interface QueryResponse {
+  status: "success" | "error";
+  data?: {
+    resultType: "scalar" | "vector" | "matrix" | "string";
+    result: unknown;
+  };
+  error?: string;
+  errorType?: string;
+}
+
+/**
+ * One value of the query result, with the labels identifying it
+ */
+interface Series {
+  labels: string;
+  value: number;
+}
+
+/**
+ * Format series labels as a PromQL selector, e.g. {job="api"}
+ */
+function formatLabels(metric: Record<string, string> | undefined): string {
+  const labels = Object.entries(metric ?? {}).map(([name, value]) => `${name}="${value}"`);
+  return `{${labels.join(", ")}}`;
+}
+
+/**
+ * Flatten a scalar or vector result into series
+ * @returns Series, or an error message for result types an instant query can't be checked with
+ */
+function toSeries(data: NonNullable<QueryResponse["data"]>): Series[] | string {
+  switch (data.resultType) {
+    case "scalar": {
+      const [, value] = data.result as Sample;
+      return [{ labels: "scalar", value: Number(value) }];
+    }
+    case "vector":
+      return (data.result as { metric?: Record<string, string>; value: Sample }[]).map(
+        (sample) => ({ labels: formatLabels(sample.metric), value: Number(sample.value[1]) }),
+      );
+    default:
+      return `Unsupported result type ${data.resultType}, expected scalar or vector`;
+  }
+}
+
+/**
+ * Compare a value with the thresholds
+ * @returns Failure message, or undefined when the value passes
+ */
+function compareValue(value: number, criteria: PrometheusCriteria | undefined): string | undefined {
+  if (Number.isNaN(value)) {
+    return "value is NaN";
+  }
+
+  if (criteria?.equals !== undefined && value !== criteria.equals) {
+    return `value ${value} does not equal ${criteria.equals}`;
+  }
+
+  if (criteria?.greaterThan !== undefined && value <= criteria.greaterThan) {
+    return `value ${value} is not greater than ${criteria.greaterThan}`;
+  }
+
+  if (criteria?.lessThan !== undefined && value >= criteria.lessThan) {
+    return `value ${value} is not less than ${criteria.lessThan}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Execute Prometheus query check
+ */
+export async function checkPrometheus(monitor: Monitor, timeout: number): Promise<CheckResult> {
+  const target = monitor.spec.target.prometheus;
+
+  if (!target) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "INVALID_CONFIG",
+      message: "No Prometheus target configured",
+    };
+  }
+
+  const startTime = Date.now();
+  const criteria = monitor.spec.successCriteria?.prometheus;
+
+  const headers = new Headers();
+  headers.set("User-Agent", "Yuptime/1.0");
+  headers.set("Accept", "application/json");
+
+  // Add authentication headers (Basic, Bearer, OAuth2)
+  const authResult = await buildAuthHeaders(target.auth, timeout);
+  if (authResult.error) {
+    return {
+      state: "down",
+      latencyMs: Date.now() - startTime,
+      reason: "AUTH_ERROR",
+      message: authResult.error,
+    };
+  }
+  authResult.headers.forEach((value, key) => {
+    headers.set(key, value);
+  });
+
+  // Headers such as X-Scope-OrgID for multi-tenant servers
+  try {
+    for (const header of target.headers ?? []) {
+      headers.set(
+        header.name,
+        header.valueFromSecretRef
+          ? await resolveSecretCached(
+              monitor.metadata.namespace,
+              header.valueFromSecretRef.name,
+              header.valueFromSecretRef.key,
+            )
+          : (header.value ?? ""),
+      );
+    }
+  } catch (error) {
+    return {
+      state: "down",
+      latencyMs: Date.now() - startTime,
+      reason: "SECRET_ERROR",
+      message: `Failed to resolve secret: ${error instanceof Error ? error.message : "Unknown error"}`,
+    };
+  }
+
+  const queryUrl = new URL(
+    "api/v1/query",
+    target.url.endsWith("/") ? target.url : `${target.url}/`,
+  );
+  queryUrl.searchParams.set("query", target.query);
+  queryUrl.searchParams.set("timeout", `${timeout}s`);
+
+  const controller = new AbortController();
+  const timeoutHandle = setTimeout(() => controller.abort(), timeout * 1000);
+
+  try {
+    const response = await fetch(queryUrl, {
+      headers,
+      signal: controller.signal,
+      tls: { rejectUnauthorized: target.tls?.verify ?? true },
+    });
+    const body = await response.text();
+    const latencyMs = Date.now() - startTime;
+
+    let result: QueryResponse;
+    try {
+      result = JSON.parse(body);
+    } catch (_error) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: response.ok ? "JSON_ERROR" : `HTTP_${response.status}`,
+        message: response.ok
+          ? "Response body is not valid JSON"
+          : `HTTP ${response.status} received`,
+      };
+    }
+
+    // Query errors come back as 400/422 with an error message in the body
+    if (result.status !== "success" || !result.data) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "PROMETHEUS_ERROR",
+        message: `Query failed: ${result.error ?? `HTTP ${response.status}`}`,
+      };
+    }
+
+    const series = toSeries(result.data);
+    if (typeof series === "string") {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "PROMETHEUS_ERROR",
+        message: series,
+      };
+    }
+
+    if (series.length === 0) {
+      const onEmpty = criteria?.onEmpty ?? "down";
+      return {
+        state: onEmpty,
+        latencyMs,
+        reason: onEmpty === "up" ? "PROMETHEUS_OK" : "PROMETHEUS_NO_DATA",
+        message: "Query returned no series",
+      };
+    }
+
+    const failures = series.flatMap((sample) => {
+      const failure = compareValue(sample.value, criteria);
+      return failure ? [`${sample.labels}: ${failure}`] : [];
+    });
+    const passed =
+      (criteria?.match ?? "all") === "any"
+        ? failures.length < series.length
+        : failures.length === 0;
+
+    if (!passed) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "PROMETHEUS_VALIDATION_FAILED",
+        message: failures.join("; "),
+      };
+    }
+
+    return {
+      state: "up",
+      latencyMs,
+      reason: "PROMETHEUS_OK",
+      message:
+        result.data.resultType === "scalar"
+          ? `Query returned ${series[0]?.value}`
+          : `Query returned ${series.length} series`,
+    };
+  } catch (error) {
+    const latencyMs = Date.now() - startTime;
+
+    if (error instanceof Error) {
+      if (error.name === "AbortError") {
+        return {
+          state: "down",
+          latencyMs: timeout * 1000,
+          reason: "TIMEOUT",
+          message: `Query timeout after ${timeout}s`,
+        };
+      }
+
+      if (error.message.includes("ECONNREFUSED")) {
+        return {
+          state: "down",
+          latencyMs,
+          reason: "CONNECTION_REFUSED",
+          message: "Connection refused",
+        };
+      }
+
+      if (isTlsError(error)) {
+        return {
+          state: "down",
+          latencyMs,
+          reason: "TLS_ERROR",
+          message: error.message,
+        };
+      }
+    }
+
+    logger.warn({ monitor: monitor.metadata.name, error }, "Prometheus check failed with error");
+
+    return {
+      state: "down",
+      latencyMs,
+      reason: "ERROR",
+      message: error instanceof Error ? error.message : "Unknown error",
+    };
+  } finally {
+    clearTimeout(timeoutHandle);
+  }
+}
@@ -0,0 +1,206 @@
+import { describe, expect, test } from "bun:test";
+import type { Monitor, MonitorStatus } from "../types/crd";
+import { buildPushStatus, checkPush, isReplayedPush, tokensMatch, validatePushToken } from "./push";
+
+function createPushMonitor(status?: MonitorStatus, gracePeriodSeconds?: number): Monitor {
+  return {
+    apiVersion: "monitoring.yuptime.io/v1",
+    kind: "Monitor",
+    metadata: { name: "backup-job", namespace: "default" },
+    spec: {
+      enabled: true,
+      type: "push",
+      schedule: { intervalSeconds: 60, timeoutSeconds: 10 },
+      target: {
+        push: {
+          tokenSecretRef: { name: "push-token", key: "token" },
+          expireSeconds: 300,
+          gracePeriodSeconds,
+        },
+      },
+    },
+    status,
+  };
+}
+
+const secondsAgo = (seconds: number) => new Date(Date.now() - seconds * 1000).toISOString();
+
+describe("checkPush", () => {
+  test("returns down until the first push", async () => {
+    const result = await checkPush(createPushMonitor(), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("NO_PUSH_RECEIVED");
+  });
+
+  test("reports the pushed state within expireSeconds", async () => {
+    const monitor = createPushMonitor({
+      lastPush: { state: "up", receivedAt: secondsAgo(60), latencyMs: 42, message: "done" },
+    });
+    const result = await checkPush(monitor, 10);
+
+    expect(result.state).toBe("up");
+    expect(result.reason).toBe("PUSH_OK");
+    expect(result.latencyMs).toBe(42);
+    expect(result.message).toBe("Push received 60s ago: done");
+  });
+
+  test("reports a pushed down state", async () => {
+    const monitor = createPushMonitor({
+      lastPush: { state: "down", receivedAt: secondsAgo(10) },
+    });
+    const result = await checkPush(monitor, 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("PUSH_DOWN");
+  });
+
+  test("times out after expireSeconds", async () => {
+    const monitor = createPushMonitor({
+      lastPush: { state: "up", receivedAt: secondsAgo(301) },
+    });
+    const result = await checkPush(monitor, 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("PUSH_TIMEOUT");
+    expect(result.message).toBe("No push received in 301s (expires after 300s)");
+  });
+
+  test("extends expiry by the grace period", async () => {
+    const monitor = createPushMonitor(
+      { lastPush: { state: "up", receivedAt: secondsAgo(330) } },
+      60,
+    );
+    const result = await checkPush(monitor, 10);
+
+    expect(result.state).toBe("up");
+  });
+});
+
+describe("tokensMatch", () => {
+  test("matches equal tokens only", () => {
+    expect(tokensMatch("secret-token", "secret-token")).toBe(true);
+    expect(tokensMatch("secret-token", "secret-tokem")).toBe(false);
+    expect(tokensMatch("short", "a-much-longer-token")).toBe(false);
+  });
+
+  test("never matches an empty expected token", () => {
+    expect(tokensMatch("", "")).toBe(false);
+  });
+});
+
+describe("validatePushToken", () => {
+  test("accepts the token stored in the secret", async () => {
+    const lookups: string[] = [];
+    const result = await validatePushToken(
+      createPushMonitor(),
+      "secret-token",
+      async (namespace, name, key) => {
+        lookups.push(`${namespace}/${name}:${key}`);
+        return "secret-token";
+      },
+    );
+
+    expect(result).toEqual({ valid: true });
+    expect(lookups).toEqual(["default/push-token:token"]);
+  });
+
+  test("rejects a wrong token", async () => {
+    const result = await validatePushToken(createPushMonitor(), "guess", async () => "secret");
+
+    expect(result).toEqual({ valid: false, reason: "Invalid token" });
+  });
+
+  test("rejects when the secret cannot be resolved", async () => {
+    const result = await validatePushToken(createPushMonitor(), "secret", async () => {
+      throw new Error("Failed to resolve secret: push-token/token");
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe("Failed to resolve secret: push-token/token");
+  });
+
+  test("rejects a token secret in another namespace", async () => {
+    const monitor = createPushMonitor();
+    const push = monitor.spec.target.push;
+    if (!push) throw new Error("missing push target");
+    push.tokenSecretRef = { ...push.tokenSecretRef, namespace: "kube-system" };
+
+    let resolved = false;
+    const result = await validatePushToken(monitor, "secret", async () => {
+      resolved = true;
+      return "secret";
+    });
+
+    expect(result).toEqual({
+      valid: false,
+      reason: "tokenSecretRef must be in the monitor's namespace",
+    });
+    expect(resolved).toBe(false);
+  });
+
+  test("rejects monitors that are not push monitors", async () => {
+    const monitor = createPushMonitor();
+    const result = await validatePushToken(
+      { ...monitor, spec: { ...monitor.spec, type: "http" } },
+      "secret",
+      async () => "secret",
+    );
+
+    expect(result.valid).toBe(false);
+  });
+});
+
+describe("buildPushStatus", () => {
+  const now = new Date("2025-06-10T12:00:00Z");
+
+  test("records the push and the resulting state", () => {
+    const status = buildPushStatus(
+      createPushMonitor(),
+      { state: "up", latencyMs: 120, message: "backup ok" },
+      now,
+    );
+
+    expect(status.lastPush).toEqual({
+      state: "up",
+      receivedAt: now.toISOString(),
+      latencyMs: 120,
+      message: "backup ok",
+    });
+    expect(status.lastResult).toEqual({
+      state: "up",
+      checkedAt: now.toISOString(),
+      attempts: 1,
+      reason: "PUSH_OK",
+      latencyMs: 120,
+      message: "backup ok",
+    });
+  });
+
+  test("applies retries to pushed failures", () => {
+    const monitor = createPushMonitor();
+    monitor.spec.schedule.retries = { maxRetries: 1, retryIntervalSeconds: 30 };
+
+    const status = buildPushStatus(monitor, { state: "down" }, now);
+
+    expect(status.lastResult.state).toBe("pending");
+    expect(status.lastResult.reason).toBe("PUSH_DOWN");
+    expect(status.lastResult.failingSince).toBe(now.toISOString());
+  });
+});
+
+describe("isReplayedPush", () => {
+  test("matches results reporting the last received push", async () => {
+    const replayed = await checkPush(
+      createPushMonitor({ lastPush: { state: "down", receivedAt: secondsAgo(30) } }),
+      10,
+    );
+    const expired = await checkPush(
+      createPushMonitor({ lastPush: { state: "down", receivedAt: secondsAgo(600) } }),
+      10,
+    );
+
+    expect(isReplayedPush(replayed)).toBe(true);
+    expect(isReplayedPush(expired)).toBe(false);
+  });
+});
@@ -6,8 +6,11 @@
  * Database-free version - uses Monitor CRD status
  */
 
+import { createHash, timingSafeEqual } from "node:crypto";
+import { evaluateCheckState } from "../lib/check-state";
 import { logger } from "../lib/logger";
-import type { Monitor } from "../types/crd";
+import { resolveSecretCached } from "../lib/secrets";
+import type { LastResult, Monitor, PushRecord } from "../types/crd";
 import type { CheckResult } from "./index";
 
 export async function checkPush(monitor: Monitor, _timeout: number): Promise<CheckResult> {
@@ -24,10 +27,10 @@ export async function checkPush(monitor: Monitor, _timeout: number): Promise<Che
   }
 
   try {
-    // Check Monitor CRD status for last result
-    const lastResult = monitor.status?.lastResult;
+    // Check Monitor CRD status for the last push
+    const lastPush = monitor.status?.lastPush;
 
-    if (!lastResult) {
+    if (!lastPush) {
       // No push ever received - report as down until first push
       return {
         state: "down",
@@ -37,30 +40,29 @@ export async function checkPush(monitor: Monitor, _timeout: number): Promise<Che
       };
     }
 
-    // Parse the last check time
-    const lastPush = new Date(lastResult.checkedAt || Date.now());
+    const receivedAt = new Date(lastPush.receivedAt);
     const now = new Date();
-    const timeSinceLastPush = (now.getTime() - lastPush.getTime()) / 1000; // seconds
+    const secondsSincePush = Math.floor((now.getTime() - receivedAt.getTime()) / 1000);
 
-    // Check if push is within the grace period (default 5 minutes)
-    const gracePeriodSeconds = target.gracePeriodSeconds || 300;
+    // A push is valid for expireSeconds, plus the optional grace period
+    const expiresAfterSeconds = target.expireSeconds + (target.gracePeriodSeconds ?? 0);
 
-    if (timeSinceLastPush <= gracePeriodSeconds) {
-      // Recent push received
+    if (secondsSincePush <= expiresAfterSeconds) {
+      const detail = lastPush.message ? `: ${lastPush.message}` : "";
       return {
-        state: lastResult.state as "up" | "down",
-        latencyMs: 0,
-        reason: lastResult.reason || "PUSH_OK",
-        message: `Push received ${timeSinceLastPush}s ago: ${lastResult.message}`,
+        state: lastPush.state,
+        latencyMs: lastPush.latencyMs ?? 0,
+        reason: lastPush.state === "up" ? "PUSH_OK" : "PUSH_DOWN",
+        message: `Push received ${secondsSincePush}s ago${detail}`,
       };
     }
+
     // No recent push
-    const minutesSincePush = Math.floor(timeSinceLastPush / 60);
     return {
       state: "down",
       latencyMs: 0,
       reason: "PUSH_TIMEOUT",
-      message: `No push received in ${minutesSincePush} minutes (grace period: ${gracePeriodSeconds}s)`,
+      message: `No push received in ${secondsSincePush}s (expires after ${expiresAfterSeconds}s)`,
     };
   } catch (error) {
     logger.warn({ monitor: monitor.metadata.name, error }, "Push check failed");
@@ -75,24 +77,58 @@ export async function checkPush(monitor: Monitor, _timeout: number): Promise<Che
 }
 
 /**
- * Validate push token and extract monitor reference
+ * Check whether a push check result replays the last received push
+ * The push was already evaluated when it was received, so it must not count as another attempt.
+ */
+export function isReplayedPush(result: CheckResult): boolean {
+  return result.reason === "PUSH_OK" || result.reason === "PUSH_DOWN";
+}
+
+/**
+ * Compare two tokens in constant time
+ * Both sides are hashed first so differing lengths don't leak through timing.
+ */
+export function tokensMatch(provided: string, expected: string): boolean {
+  const providedDigest = createHash("sha256").update(provided).digest();
+  const expectedDigest = createHash("sha256").update(expected).digest();
+  return timingSafeEqual(providedDigest, expectedDigest) && expected.length > 0;
+}
+
+/**
+ * Validate a push token against the monitor's push.tokenSecretRef
  * Called by the push endpoint before recording a push
- * Database-free version - would need to read Monitor CRD directly
  */
 export async function validatePushToken(
+  monitor: Monitor,
   token: string,
-  _monitorNamespace: string,
-  _monitorName: string,
+  resolveToken: (
+    namespace: string,
+    name: string,
+    key: string,
+  ) => Promise<string> = resolveSecretCached,
 ): Promise<{ valid: boolean; reason?: string }> {
+  const target = monitor.spec.target.push;
+
+  if (monitor.spec.type !== "push" || !target) {
+    return { valid: false, reason: "Monitor is not a push monitor" };
+  }
+
+  const ref = target.tokenSecretRef;
+  if (ref.namespace && ref.namespace !== monitor.metadata.namespace) {
+    return { valid: false, reason: "tokenSecretRef must be in the monitor's namespace" };
+  }
+
   try {
-    // TODO: Implement token validation by reading Monitor CRD
-    // For now, accept any push if monitor exists
-    // In production, would validate token against push.token field
-    // and check expiry if pushTokenExpiry is set
+    const expected = await resolveToken(monitor.metadata.namespace, ref.name, ref.key);
 
-    return { valid: true };
+    return tokensMatch(token, expected)
+      ? { valid: true }
+      : { valid: false, reason: "Invalid token" };
   } catch (error) {
-    logger.error({ token: `${token.substring(0, 10)}...`, error }, "Push token validation failed");
+    logger.error(
+      { monitor: `${monitor.metadata.namespace}/${monitor.metadata.name}`, error },
+      "Push token validation failed",
+    );
 
     return {
       valid: false,
@@ -102,27 +138,38 @@ export async function validatePushToken(
 }
 
 /**
- * Record a push event
- * Called by the push endpoint when a valid push is received
- * Database-free version - would update Monitor CRD status directly
- * Note: This is now handled by the checker executor which updates Monitor CRD status
+ * Build the status fields recorded for a received push
+ * lastPush keeps the pushed values for later expiry checks; lastResult reflects
+ * the push immediately, with retries and grace period applied.
  */
-export async function recordPush(
-  _monitorNamespace: string,
-  _monitorName: string,
-  _state: "up" | "down" | "pending",
-  _reason: string,
-  _message: string,
-  _latencyMs?: number,
-): Promise<{ recorded: boolean; error?: string }> {
-  // Push recording is now handled by:
-  // 1. Push endpoint receives request
-  // 2. Checker executor runs push check
-  // 3. Checker executor updates Monitor CRD status
-  //
-  // This function is kept for compatibility but no longer used
-
-  logger.debug("Push event recording delegated to checker executor");
-
-  return { recorded: true };
+export function buildPushStatus(
+  monitor: Monitor,
+  push: { state: "up" | "down"; latencyMs?: number | undefined; message?: string | undefined },
+  now: Date = new Date(),
+): { lastPush: PushRecord; lastResult: LastResult } {
+  const receivedAt = now.toISOString();
+  const transition = evaluateCheckState(
+    monitor.status?.lastResult,
+    push.state,
+    monitor.spec.schedule,
+    now,
+  );
+
+  return {
+    lastPush: {
+      state: push.state,
+      receivedAt,
+      ...(push.latencyMs !== undefined && { latencyMs: push.latencyMs }),
+      ...(push.message && { message: push.message }),
+    },
+    lastResult: {
+      state: transition.state,
+      checkedAt: receivedAt,
+      attempts: transition.attempts,
+      reason: push.state === "up" ? "PUSH_OK" : "PUSH_DOWN",
+      ...(push.latencyMs !== undefined && { latencyMs: push.latencyMs }),
+      ...(push.message && { message: push.message }),
+      ...(transition.failingSince && { failingSince: transition.failingSince }),
+    },
+  };
 }
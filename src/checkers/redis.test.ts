@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
 import { createRedisMonitor, createRedisMonitorNoTarget } from "../test-utils/fixtures/monitors";
 import { createMockRedisClientFactory } from "../test-utils/mocks/database";
-import { createCheckRedis } from "./redis";
+import { createCheckRedis, type RedisClientConfig } from "./redis";
 
 describe("checkRedis", () => {
   // Store original env vars
@@ -184,4 +184,63 @@ describe("checkRedis", () => {
     expect(result.reason).toBe("CREDENTIALS_ERROR");
     expect(result.message).toBe("Redis password not found in environment");
   });
+
+  test("presents the client certificate when TLS is enabled", async () => {
+    process.env.YUPTIME_TLS_CLIENT_CERT = "client-cert";
+    process.env.YUPTIME_TLS_CLIENT_KEY = "client-key";
+
+    let config: RedisClientConfig | undefined;
+    const checker = createCheckRedis(async (clientConfig) => {
+      config = clientConfig;
+      return createMockRedisClientFactory()(clientConfig);
+    });
+    const result = await checker(
+      createRedisMonitor({ tlsEnabled: true, clientCertSecretName: "redis-client" }),
+      10,
+    );
+
+    expect(result.state).toBe("up");
+    expect(config?.clientCert).toEqual({ cert: "client-cert", key: "client-key" });
+  });
+
+  test("returns TLS_ERROR when the client certificate is not in environment", async () => {
+    const checker = createCheckRedis(createMockRedisClientFactory());
+    const result = await checker(
+      createRedisMonitor({ tlsEnabled: true, clientCertSecretName: "redis-client" }),
+      10,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("TLS_ERROR");
+  });
+
+  test("passes verify and the CA bundle when TLS is enabled", async () => {
+    process.env.YUPTIME_TLS_CA_BUNDLE = "ca-pem";
+
+    let config: RedisClientConfig | undefined;
+    const checker = createCheckRedis(async (clientConfig) => {
+      config = clientConfig;
+      return createMockRedisClientFactory()(clientConfig);
+    });
+    const result = await checker(
+      createRedisMonitor({ tlsEnabled: true, tlsVerify: false, caBundleSecretName: "redis-ca" }),
+      10,
+    );
+
+    expect(result.state).toBe("up");
+    expect(config?.verify).toBe(false);
+    expect(config?.caBundle).toBe("ca-pem");
+  });
+
+  test("returns TLS_ERROR when the CA bundle is not in environment", async () => {
+    const checker = createCheckRedis(createMockRedisClientFactory());
+    const result = await checker(
+      createRedisMonitor({ tlsEnabled: true, caBundleSecretName: "redis-ca" }),
+      10,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("TLS_ERROR");
+    expect(result.message).toBe("CA bundle not found in environment");
+  });
 });
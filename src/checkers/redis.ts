@@ -1,3 +1,9 @@
+import {
+  type ClientCertificate,
+  getCaBundleFromEnv,
+  getClientCertFromEnv,
+  withSystemRoots,
+} from "../lib/certificates";
 import { logger } from "../lib/logger";
 import type { Monitor } from "../types/crd";
 import type { CheckResult } from "./index";
@@ -29,6 +35,12 @@ export interface RedisClientConfig {
   database: number;
   connectTimeout: number;
   tls?: boolean;
+  /** Verify the server certificate (defaults to true) */
+  verify?: boolean;
+  /** PEM CA bundle trusted in addition to the system roots */
+  caBundle?: string;
+  /** Client certificate presented for mutual TLS */
+  clientCert?: ClientCertificate;
 }
 
 /**
@@ -60,6 +72,16 @@ async function createDefaultRedisClient(config: RedisClientConfig): Promise<Redi
   // Only add TLS if enabled
   if (config.tls) {
     clientOptions.socket.tls = true;
+    clientOptions.socket.rejectUnauthorized = config.verify ?? true;
+
+    if (config.caBundle) {
+      clientOptions.socket.ca = withSystemRoots(config.caBundle);
+    }
+
+    if (config.clientCert) {
+      clientOptions.socket.cert = config.clientCert.cert;
+      clientOptions.socket.key = config.clientCert.key;
+    }
   }
 
   const client = redis.createClient(clientOptions);
@@ -113,6 +135,26 @@ async function checkRedisWithFactory(
       };
     }
 
+    const caBundle = target.tls?.caBundleSecretRef ? getCaBundleFromEnv() : undefined;
+    if (target.tls?.enabled && target.tls.caBundleSecretRef && !caBundle) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "TLS_ERROR",
+        message: "CA bundle not found in environment",
+      };
+    }
+
+    const clientCert = target.tls?.clientCertSecretRef ? getClientCertFromEnv() : undefined;
+    if (target.tls?.enabled && target.tls.clientCertSecretRef && !clientCert) {
+      return {
+        state: "down",
+        latencyMs: Date.now() - startTime,
+        reason: "TLS_ERROR",
+        message: "Client certificate not found in environment",
+      };
+    }
+
     const client = await clientFactory({
       host: target.host,
       port: target.port ?? 6379,
@@ -120,6 +162,11 @@ async function checkRedisWithFactory(
       database: target.database ?? 0,
       connectTimeout: timeout * 1000,
       tls: target.tls?.enabled,
+      ...(target.tls?.enabled && {
+        verify: target.tls.verify ?? true,
+        ...(caBundle && { caBundle }),
+        ...(clientCert && { clientCert }),
+      }),
     });
 
     try {
@@ -0,0 +1,259 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { generateKeyPairSync } from "node:crypto";
+import type { AddressInfo } from "node:net";
+import { Server, utils } from "ssh2";
+import { createSshMonitor } from "../test-utils/fixtures/monitors";
+import { createMockSshClientFactory } from "../test-utils/mocks/ssh";
+import { checkSsh, createCheckSsh, hostKeyFingerprint, type SshClientConfig } from "./ssh";
+
+const MOCK_FINGERPRINT = hostKeyFingerprint(Buffer.from("mock-host-key"));
+
+const auth = {
+  username: "probe",
+  privateKeySecretRef: { name: "probe-key", key: "ssh-privatekey" },
+};
+
+describe("checkSsh", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test("returns up with the identification and host key fingerprint", async () => {
+    const checker = createCheckSsh(createMockSshClientFactory());
+    const result = await checker(createSshMonitor(), 10);
+
+    expect(result.state).toBe("up");
+    expect(result.reason).toBe("SSH_OK");
+    expect(result.message).toBe(`SSH-2.0-OpenSSH_9.6 (host key ${MOCK_FINGERPRINT})`);
+  });
+
+  test("returns down when no SSH target configured", async () => {
+    const monitor = createSshMonitor();
+    monitor.spec.target = {} as typeof monitor.spec.target;
+    const result = await createCheckSsh(createMockSshClientFactory())(monitor, 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("INVALID_CONFIG");
+    expect(result.message).toBe("No SSH target configured");
+  });
+
+  test("accepts a pinned fingerprint with or without prefix and padding", async () => {
+    const checker = createCheckSsh(createMockSshClientFactory());
+    const digest = MOCK_FINGERPRINT.slice("SHA256:".length);
+
+    const prefixed = await checker(
+      createSshMonitor({ hostKeyFingerprints: [MOCK_FINGERPRINT] }),
+      10,
+    );
+    const bare = await checker(createSshMonitor({ hostKeyFingerprints: [`${digest}=`] }), 10);
+
+    expect(prefixed.state).toBe("up");
+    expect(bare.state).toBe("up");
+  });
+
+  test("returns HOST_KEY_MISMATCH when the host key changes", async () => {
+    let config: SshClientConfig | undefined;
+    const checker = createCheckSsh(
+      createMockSshClientFactory({
+        onConfig: (received) => {
+          config = received;
+        },
+      }),
+    );
+    process.env.YUPTIME_CRED_SSH_PRIVATE_KEY = "key";
+    const result = await checker(
+      createSshMonitor({ hostKeyFingerprints: ["SHA256:pinned"], auth, command: "true" }),
+      10,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("HOST_KEY_MISMATCH");
+    expect(result.message).toBe(
+      `SSH host key ${MOCK_FINGERPRINT} does not match the pinned fingerprints`,
+    );
+    expect(config?.verifyHostKey(Buffer.from("mock-host-key"))).toBe(false);
+  });
+
+  test("authenticates with the private key and runs the command", async () => {
+    process.env.YUPTIME_CRED_SSH_PRIVATE_KEY = "private-key";
+    process.env.YUPTIME_CRED_SSH_PASSPHRASE = "passphrase";
+    let config: SshClientConfig | undefined;
+    const commands: string[] = [];
+    const checker = createCheckSsh(
+      createMockSshClientFactory({
+        output: "ok\n",
+        onConfig: (received) => {
+          config = received;
+        },
+        onExec: (command) => commands.push(command),
+      }),
+    );
+    const result = await checker(createSshMonitor({ auth, command: "uptime", expect: "ok" }), 10);
+
+    expect(result.state).toBe("up");
+    expect(result.message).toContain("ran command");
+    expect(commands).toEqual(["uptime"]);
+    expect(config).toMatchObject({
+      username: "probe",
+      privateKey: "private-key",
+      passphrase: "passphrase",
+    });
+  });
+
+  test("returns COMMAND_FAILED for a non-zero exit code", async () => {
+    process.env.YUPTIME_CRED_SSH_PRIVATE_KEY = "private-key";
+    const checker = createCheckSsh(createMockSshClientFactory({ exitCode: 2 }));
+    const result = await checker(createSshMonitor({ auth, command: "false" }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("COMMAND_FAILED");
+    expect(result.message).toBe("SSH command exited with code 2");
+  });
+
+  test("returns COMMAND_FAILED when the output misses expect", async () => {
+    process.env.YUPTIME_CRED_SSH_PRIVATE_KEY = "private-key";
+    const checker = createCheckSsh(createMockSshClientFactory({ output: "degraded" }));
+    const result = await checker(createSshMonitor({ auth, command: "status", expect: "ok" }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("COMMAND_FAILED");
+  });
+
+  test("returns INVALID_CONFIG for a command without auth", async () => {
+    const checker = createCheckSsh(createMockSshClientFactory());
+    const result = await checker(createSshMonitor({ command: "uptime" }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("INVALID_CONFIG");
+  });
+
+  test("returns CREDENTIALS_ERROR when the private key is missing from the environment", async () => {
+    delete process.env.YUPTIME_CRED_SSH_PRIVATE_KEY;
+    const checker = createCheckSsh(createMockSshClientFactory());
+    const result = await checker(createSshMonitor({ auth }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("CREDENTIALS_ERROR");
+  });
+
+  const errorCases = [
+    { error: "All configured authentication methods failed", reason: "AUTH_FAILED" },
+    { error: "connect ECONNREFUSED 10.0.0.1:22", reason: "CONNECTION_REFUSED" },
+    { error: "Timed out while waiting for handshake", reason: "TIMEOUT" },
+    { error: "Connection lost before handshake", reason: "CONNECTION_ERROR" },
+  ];
+
+  for (const { error, reason } of errorCases) {
+    test(`returns ${reason} for "${error}"`, async () => {
+      process.env.YUPTIME_CRED_SSH_PRIVATE_KEY = "private-key";
+      const checker = createCheckSsh(
+        createMockSshClientFactory({ connectError: new Error(error) }),
+      );
+      const result = await checker(createSshMonitor({ auth }), 10);
+
+      expect(result.state).toBe("down");
+      expect(result.reason).toBe(reason);
+    });
+  }
+});
+
+describe("checkSsh against an SSH server", () => {
+  const { privateKey: hostKey } = generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: "pkcs1", format: "pem" },
+    publicKeyEncoding: { type: "pkcs1", format: "pem" },
+  });
+  const { privateKey: clientKey } = generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: "pkcs1", format: "pem" },
+    publicKeyEncoding: { type: "pkcs1", format: "pem" },
+  });
+
+  const parsed = utils.parseKey(hostKey);
+  if (parsed instanceof Error) throw parsed;
+  const fingerprint = hostKeyFingerprint(parsed.getPublicSSH());
+
+  async function startServer(): Promise<{ port: number; close: () => void }> {
+    const server = new Server({ hostKeys: [hostKey], ident: "Yuptime_Test" }, (client) => {
+      client.on("authentication", (ctx) => ctx.accept());
+      client.on("session", (accept) => {
+        accept().on("exec", (acceptExec) => {
+          const stream = acceptExec();
+          stream.write("healthy\n");
+          stream.exit(0);
+          stream.end();
+        });
+      });
+      client.on("error", () => {
+        // Clients that stop after key exchange disconnect abruptly
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    return { port, close: () => server.close() };
+  }
+
+  test("reads the identification and matches the pinned host key", async () => {
+    const server = await startServer();
+    try {
+      const result = await checkSsh(
+        createSshMonitor({
+          host: "127.0.0.1",
+          port: server.port,
+          hostKeyFingerprints: [fingerprint],
+        }),
+        5,
+      );
+
+      expect(result.state).toBe("up");
+      expect(result.message).toBe(`SSH-2.0-Yuptime_Test (host key ${fingerprint})`);
+    } finally {
+      server.close();
+    }
+  });
+
+  test("aborts on a different host key", async () => {
+    const server = await startServer();
+    try {
+      const result = await checkSsh(
+        createSshMonitor({
+          host: "127.0.0.1",
+          port: server.port,
+          hostKeyFingerprints: ["SHA256:AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA"],
+        }),
+        5,
+      );
+
+      expect(result.state).toBe("down");
+      expect(result.reason).toBe("HOST_KEY_MISMATCH");
+    } finally {
+      server.close();
+    }
+  });
+
+  test("authenticates and runs the command", async () => {
+    process.env.YUPTIME_CRED_SSH_PRIVATE_KEY = clientKey;
+    const server = await startServer();
+    try {
+      const result = await checkSsh(
+        createSshMonitor({
+          host: "127.0.0.1",
+          port: server.port,
+          auth,
+          command: "health",
+          expect: "healthy",
+        }),
+        5,
+      );
+
+      expect(result.state).toBe("up");
+      expect(result.message).toContain("ran command");
+    } finally {
+      server.close();
+      delete process.env.YUPTIME_CRED_SSH_PRIVATE_KEY;
+    }
+  });
+});
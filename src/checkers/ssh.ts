@@ -0,0 +1,357 @@
+/**
+ * SSH checker
+ * Reads the server identification string and completes key exchange to capture the
+ * host key fingerprint, which can be pinned. With credentials it also authenticates
+ * and runs a command.
+ */
+
+import { createHash } from "node:crypto";
+import { getDnsConfigFromEnv, resolveHostname } from "../lib/dns";
+import { logger } from "../lib/logger";
+import { connectTimed } from "../lib/timings";
+import type { Monitor } from "../types/crd";
+import type { CheckResult } from "./index";
+
+// Command output kept for the expect check
+const MAX_OUTPUT_BYTES = 64 * 1024;
+
+/**
+ * Get the SSH private key from environment variables.
+ * These are injected by the Job builder from Kubernetes secrets.
+ */
+function getPrivateKeyFromEnv(): { privateKey: string; passphrase?: string } | null {
+  const privateKey = process.env.YUPTIME_CRED_SSH_PRIVATE_KEY;
+  const passphrase = process.env.YUPTIME_CRED_SSH_PASSPHRASE;
+
+  if (!privateKey) {
+    return null;
+  }
+
+  return { privateKey, ...(passphrase && { passphrase }) };
+}
+
+/**
+ * SSH client interface for dependency injection
+ */
+export interface SshClient {
+  /** Connect and complete key exchange, then authenticate when a username is configured */
+  connect(): Promise<{ identification: string }>;
+  exec(command: string): Promise<{ exitCode: number | null; output: string }>;
+  end(): void;
+}
+
+/**
+ * SSH client factory configuration
+ */
+export interface SshClientConfig {
+  host: string;
+  port: number;
+  username?: string;
+  privateKey?: string;
+  passphrase?: string;
+  /** Called with the host key blob during key exchange; returning false aborts the connection */
+  verifyHostKey: (key: Buffer) => boolean;
+  timeoutMs: number;
+}
+
+/**
+ * SSH client factory type for dependency injection
+ */
+export type SshClientFactory = (config: SshClientConfig) => Promise<SshClient>;
+
+/**
+ * OpenSSH-style SHA256 fingerprint of a host key blob (as printed by ssh-keygen -l)
+ */
+export function hostKeyFingerprint(key: Buffer): string {
+  const digest = createHash("sha256").update(key).digest("base64").replace(/=+$/, "");
+  return `SHA256:${digest}`;
+}
+
+/**
+ * Normalize a pinned fingerprint; the SHA256: prefix and base64 padding are optional
+ */
+function normalizeFingerprint(fingerprint: string): string {
+  const digest = fingerprint
+    .trim()
+    .replace(/^SHA256:/i, "")
+    .replace(/=+$/, "");
+  return `SHA256:${digest}`;
+}
+
+/**
+ * Default SSH client factory using ssh2
+ * The identification string is read from the socket before ssh2 consumes it.
+ */
+async function createDefaultSshClient(config: SshClientConfig): Promise<SshClient> {
+  // Use dynamic import to avoid bundling ssh2 if not used
+  const { Client } = await import("ssh2");
+  const client = new Client();
+
+  return {
+    connect: async () => {
+      const { socket } = await connectTimed(config.host, config.port, undefined, config.timeoutMs);
+
+      let identification = "";
+      let received = "";
+      const onData = (data: Buffer) => {
+        received += data.toString("latin1");
+        const line = received.split("\n").find((entry) => entry.startsWith("SSH-"));
+        if (line || received.length > 8192) {
+          identification = line?.replace(/\r$/, "") ?? "";
+          socket.off("data", onData);
+        }
+      };
+      socket.on("data", onData);
+
+      return new Promise((resolve, reject) => {
+        client.once("error", reject);
+
+        if (config.username) {
+          client.once("ready", () => resolve({ identification }));
+        } else {
+          // Nothing to authenticate with: the host key is known once key exchange completes
+          client.once("handshake", () => resolve({ identification }));
+        }
+
+        client.connect({
+          sock: socket,
+          // ssh2 requires a username even when the check never authenticates
+          username: config.username ?? "yuptime",
+          ...(config.privateKey && { privateKey: config.privateKey }),
+          ...(config.passphrase && { passphrase: config.passphrase }),
+          hostVerifier: (key: Buffer) => config.verifyHostKey(key),
+          readyTimeout: config.timeoutMs,
+        });
+      });
+    },
+    exec: (command: string) =>
+      new Promise((resolve, reject) => {
+        client.exec(command, (error, stream) => {
+          if (error) {
+            reject(error);
+            return;
+          }
+
+          let output = "";
+          const collect = (data: Buffer) => {
+            if (output.length < MAX_OUTPUT_BYTES) {
+              output += data.toString("utf8");
+            }
+          };
+
+          stream.on("data", collect);
+          stream.stderr.on("data", collect);
+          stream.on("close", (exitCode: number | null) => resolve({ exitCode, output }));
+        });
+      }),
+    end: () => {
+      client.end();
+    },
+  };
+}
+
+/**
+ * Internal SSH checker implementation with injectable client factory
+ */
+async function checkSshWithFactory(
+  monitor: Monitor,
+  timeout: number,
+  clientFactory: SshClientFactory,
+): Promise<CheckResult> {
+  const target = monitor.spec.target.ssh;
+
+  if (!target) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "INVALID_CONFIG",
+      message: "No SSH target configured",
+    };
+  }
+
+  if (target.command && !target.auth) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "INVALID_CONFIG",
+      message: "SSH command requires auth",
+    };
+  }
+
+  const startTime = Date.now();
+
+  const key = target.auth ? getPrivateKeyFromEnv() : undefined;
+  if (target.auth && !key) {
+    return {
+      state: "down",
+      latencyMs: 0,
+      reason: "CREDENTIALS_ERROR",
+      message: "SSH private key not found in environment",
+    };
+  }
+
+  const pinned = (target.hostKeyFingerprints ?? []).map(normalizeFingerprint);
+  let fingerprint: string | undefined;
+  let client: SshClient | undefined;
+  let finished = false;
+  let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+
+  const session = async () => {
+    const dnsConfig = target.dns ?? getDnsConfigFromEnv();
+    const resolvedHost = await resolveHostname(target.host, {
+      config: dnsConfig,
+      defaultToExternal: false,
+      timeoutMs: timeout * 1000,
+    });
+
+    const opened = await clientFactory({
+      host: resolvedHost,
+      port: target.port,
+      ...(target.auth && { username: target.auth.username }),
+      ...key,
+      // Rejecting the key aborts before any authentication is attempted
+      verifyHostKey: (hostKey) => {
+        fingerprint = hostKeyFingerprint(hostKey);
+        return pinned.length === 0 || pinned.includes(fingerprint);
+      },
+      timeoutMs: timeout * 1000,
+    });
+    client = opened;
+    if (finished) {
+      opened.end();
+    }
+
+    const { identification } = await opened.connect();
+    const result = target.command ? await opened.exec(target.command) : undefined;
+
+    return { identification, result };
+  };
+
+  const timedOut = new Promise<never>((_, reject) => {
+    timeoutHandle = setTimeout(
+      () => reject(new Error(`SSH check timeout after ${timeout}s`)),
+      timeout * 1000,
+    );
+  });
+
+  try {
+    const { identification, result } = await Promise.race([session(), timedOut]);
+    const latencyMs = Date.now() - startTime;
+
+    if (result && result.exitCode !== 0) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "COMMAND_FAILED",
+        message: `SSH command exited with code ${result.exitCode ?? "unknown"}`,
+      };
+    }
+
+    if (result && target.expect && !result.output.includes(target.expect)) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "COMMAND_FAILED",
+        message: `SSH command output does not contain "${target.expect}"`,
+      };
+    }
+
+    const server = identification || "SSH server";
+    return {
+      state: "up",
+      latencyMs,
+      reason: "SSH_OK",
+      message: result
+        ? `${server} ran command (host key ${fingerprint})`
+        : `${server} (host key ${fingerprint})`,
+    };
+  } catch (error) {
+    const latencyMs = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+    logger.warn({ monitor: monitor.metadata.name, error: errorMessage }, "SSH check failed");
+
+    // A pinned key mismatch can indicate a hijacked host, so it takes precedence
+    if (fingerprint && pinned.length > 0 && !pinned.includes(fingerprint)) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "HOST_KEY_MISMATCH",
+        message: `SSH host key ${fingerprint} does not match the pinned fingerprints`,
+      };
+    }
+
+    if (errorMessage.includes("ECONNREFUSED")) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "CONNECTION_REFUSED",
+        message: "SSH connection refused",
+      };
+    }
+
+    if (errorMessage.includes("ENOTFOUND")) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "DNS_NXDOMAIN",
+        message: "SSH host not found",
+      };
+    }
+
+    if (errorMessage.includes("ETIMEDOUT") || /time(d)? ?out/i.test(errorMessage)) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "TIMEOUT",
+        message: `SSH check timeout after ${timeout}s`,
+      };
+    }
+
+    if (errorMessage.includes("authentication methods failed")) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "AUTH_FAILED",
+        message: "SSH authentication failed",
+      };
+    }
+
+    if (errorMessage.includes("privateKey")) {
+      return {
+        state: "down",
+        latencyMs,
+        reason: "CREDENTIALS_ERROR",
+        message: errorMessage,
+      };
+    }
+
+    return {
+      state: "down",
+      latencyMs,
+      reason: "CONNECTION_ERROR",
+      message: errorMessage,
+    };
+  } finally {
+    finished = true;
+    clearTimeout(timeoutHandle);
+    client?.end();
+  }
+}
+
+/**
+ * SSH server checker
+ */
+export async function checkSsh(monitor: Monitor, timeout: number): Promise<CheckResult> {
+  return checkSshWithFactory(monitor, timeout, createDefaultSshClient);
+}
+
+/**
+ * Create an SSH checker with a custom client factory (for testing)
+ */
+export function createCheckSsh(
+  clientFactory: SshClientFactory,
+): (monitor: Monitor, timeout: number) => Promise<CheckResult> {
+  return (monitor: Monitor, timeout: number) =>
+    checkSshWithFactory(monitor, timeout, clientFactory);
+}
@@ -1,6 +1,12 @@
-import { describe, expect, test } from "bun:test";
+import { afterEach, describe, expect, test } from "bun:test";
+import { type AddressInfo, createServer } from "node:net";
 import { createTcpMonitor, createTcpMonitorNoTarget } from "../test-utils/fixtures/monitors";
-import { createMockSocketFactory, type TcpSocket } from "../test-utils/mocks/network";
+import {
+  createMockSocketFactory,
+  createMockTlsConnector,
+  type TcpSocket,
+} from "../test-utils/mocks/network";
+import { startSocksProxy } from "../test-utils/mocks/proxy";
 import { createCheckTcp } from "./tcp";
 
 describe("checkTcp", () => {
@@ -175,4 +181,197 @@ describe("checkTcp", () => {
     expect(result.reason).toBe("TIMEOUT");
     expect(result.message).toBe("TCP connection timeout after 1s");
   });
+
+  test("captures the certificate for TLS targets", async () => {
+    const inspector = createMockTlsConnector({ daysRemaining: 12 });
+    const checker = createCheckTcp(createMockSocketFactory(), inspector);
+    const result = await checker(
+      createTcpMonitor({ tlsEnabled: true, sni: "mail.example.com" }),
+      10,
+    );
+
+    expect(result.state).toBe("up");
+    expect(result.reason).toBe("TCP_OK");
+    expect(result.cert?.daysRemaining).toBe(12);
+    expect(inspector.calls[0]).toMatchObject({ port: 443, servername: "mail.example.com" });
+  });
+
+  test("runs send/expect over the TLS session", async () => {
+    let factoryUsed = false;
+    const connector = createMockTlsConnector(
+      { daysRemaining: 30 },
+      {
+        on(event: string, listener: (...args: unknown[]) => void): TcpSocket {
+          if (event === "data") {
+            setTimeout(() => listener("+OK ready\r\n"), 10);
+          }
+          return this as unknown as TcpSocket;
+        },
+      },
+    );
+    const checker = createCheckTcp(() => {
+      factoryUsed = true;
+      return createMockSocketFactory()();
+    }, connector);
+    const result = await checker(
+      createTcpMonitor({ tlsEnabled: true, send: "PING\r\n", expect: "+OK" }),
+      10,
+    );
+
+    expect(result.state).toBe("up");
+    expect(result.message).toBe("TCP connection successful with expected response");
+    expect(result.cert?.daysRemaining).toBe(30);
+    expect(connector.calls).toHaveLength(1);
+    expect(connector.written).toEqual(["PING\r\n"]);
+    expect(factoryUsed).toBe(false);
+  });
+
+  test("reports refused connections for TLS targets", async () => {
+    const checker = createCheckTcp(
+      createMockSocketFactory(),
+      createMockTlsConnector(new Error("connect ECONNREFUSED 127.0.0.1:443")),
+    );
+    const result = await checker(createTcpMonitor({ tlsEnabled: true }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("CONNECTION_REFUSED");
+  });
+
+  test("returns TLS_ERROR when the TLS handshake fails", async () => {
+    const checker = createCheckTcp(
+      createMockSocketFactory(),
+      createMockTlsConnector(new Error("wrong version number")),
+    );
+    const result = await checker(createTcpMonitor({ tlsEnabled: true }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("TLS_ERROR");
+    expect(result.message).toBe("TLS handshake failed: wrong version number");
+  });
+
+  test("does not inspect certificates without TLS", async () => {
+    const inspector = createMockTlsConnector();
+    const checker = createCheckTcp(createMockSocketFactory(), inspector);
+    const result = await checker(createTcpMonitor(), 10);
+
+    expect(result.cert).toBeUndefined();
+    expect(inspector.calls).toHaveLength(0);
+  });
+
+  test("returns TLS_ERROR when the certificate fails verification", async () => {
+    const checker = createCheckTcp(
+      createMockSocketFactory(),
+      createMockTlsConnector({ valid: false, validationError: "CERT_HAS_EXPIRED" }),
+    );
+    const result = await checker(createTcpMonitor({ tlsEnabled: true }), 10);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("TLS_ERROR");
+    expect(result.message).toBe("Certificate validation failed: CERT_HAS_EXPIRED");
+    expect(result.cert?.valid).toBe(false);
+  });
+
+  test("accepts an invalid certificate when tls.verify is false", async () => {
+    const checker = createCheckTcp(
+      createMockSocketFactory(),
+      createMockTlsConnector({ valid: false, validationError: "CERT_HAS_EXPIRED" }),
+    );
+    const result = await checker(createTcpMonitor({ tlsEnabled: true, tlsVerify: false }), 10);
+
+    expect(result.state).toBe("up");
+    expect(result.reason).toBe("TCP_OK");
+  });
+
+  test("passes the CA bundle from the environment to the handshake", async () => {
+    const originalBundle = process.env.YUPTIME_TLS_CA_BUNDLE;
+    process.env.YUPTIME_TLS_CA_BUNDLE = "ca-pem";
+
+    try {
+      const inspector = createMockTlsConnector();
+      const checker = createCheckTcp(createMockSocketFactory(), inspector);
+      const result = await checker(
+        createTcpMonitor({ tlsEnabled: true, caBundleSecretRef: { name: "ca", key: "ca.crt" } }),
+        10,
+      );
+
+      expect(result.state).toBe("up");
+      expect(inspector.calls[0]?.ca).toBe("ca-pem");
+    } finally {
+      if (originalBundle === undefined) {
+        delete process.env.YUPTIME_TLS_CA_BUNDLE;
+      } else {
+        process.env.YUPTIME_TLS_CA_BUNDLE = originalBundle;
+      }
+    }
+  });
+
+  test("returns TLS_ERROR when the client certificate is not in environment", async () => {
+    const inspector = createMockTlsConnector();
+    const checker = createCheckTcp(createMockSocketFactory(), inspector);
+    const result = await checker(
+      createTcpMonitor({
+        tlsEnabled: true,
+        clientCertSecretRef: { name: "client", certKey: "tls.crt", keyKey: "tls.key" },
+      }),
+      10,
+    );
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("TLS_ERROR");
+    expect(result.message).toBe("Client certificate not found in environment");
+    expect(inspector.calls).toHaveLength(0);
+  });
+});
+
+describe("checkTcp proxy", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test("sends and expects through a SOCKS5 proxy", async () => {
+    const server = createServer((socket) => {
+      socket.on("data", () => socket.write("PONG\r\n"));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    const proxy = await startSocksProxy({ username: "user", password: "secret" });
+    process.env.YUPTIME_PROXY_MODE = "socks";
+    process.env.YUPTIME_PROXY_URL = proxy.url;
+    process.env.YUPTIME_PROXY_USERNAME = "user";
+    process.env.YUPTIME_PROXY_PASSWORD = "secret";
+
+    try {
+      const checker = createCheckTcp(createMockSocketFactory());
+      const result = await checker(
+        createTcpMonitor({
+          host: "localhost",
+          port,
+          send: "PING\r\n",
+          expect: "PONG",
+          proxy: { mode: "socks" },
+        }),
+        5,
+      );
+
+      expect(result.state).toBe("up");
+      expect(result.message).toBe("TCP connection successful with expected response");
+      expect(proxy.requests).toEqual([`localhost:${port}`]);
+    } finally {
+      await proxy.close();
+      server.close();
+    }
+  });
+
+  test("returns PROXY_ERROR when the proxy is unreachable", async () => {
+    process.env.YUPTIME_PROXY_MODE = "http";
+    process.env.YUPTIME_PROXY_URL = "http://127.0.0.1:1";
+
+    const checker = createCheckTcp(createMockSocketFactory());
+    const result = await checker(createTcpMonitor({ proxy: { mode: "http" } }), 5);
+
+    expect(result.state).toBe("down");
+    expect(result.reason).toBe("PROXY_ERROR");
+  });
 });
@@ -1,7 +1,22 @@
+import { EventEmitter } from "node:events";
 import * as net from "node:net";
+import {
+  type CertificateInspectOptions,
+  connectTls,
+  getCaBundleFromEnv,
+  getClientCertFromEnv,
+} from "../lib/certificates";
 import { getDnsConfigFromEnv, resolveHostname } from "../lib/dns";
 import { logger } from "../lib/logger";
+import {
+  connectThroughProxy,
+  isProxyError,
+  type ProxyServer,
+  type ProxyTunnel,
+  resolveProxy,
+} from "../lib/proxy";
 import type { Monitor } from "../types/crd";
+import type { CertificateInfo, TcpTarget } from "../types/crd/monitor";
 import type { CheckResult } from "./index";
 
 /**
@@ -26,6 +41,189 @@ function createDefaultSocket(): TcpSocket {
   return new net.Socket() as unknown as TcpSocket;
 }
 
+/**
+ * Socket that connects through a proxy tunnel
+ * Emits "connect" once the tunnel is established, so the checker treats it like a direct socket.
+ */
+function createProxiedSocket(
+  proxy: ProxyServer,
+  timeoutMs: number,
+  tunnel: ProxyTunnel = connectThroughProxy,
+): TcpSocket {
+  const events = new EventEmitter();
+  let socket: net.Socket | undefined;
+  let destroyed = false;
+
+  const proxied: TcpSocket = {
+    on(event, listener) {
+      events.on(event, listener);
+      return proxied;
+    },
+    connect(port, host) {
+      tunnel(proxy, host ?? "localhost", port, timeoutMs).then(
+        (connected) => {
+          if (destroyed) {
+            connected.destroy();
+            return;
+          }
+          socket = connected;
+          connected.on("data", (data) => events.emit("data", data));
+          connected.on("error", (error) => events.emit("error", error));
+          events.emit("connect");
+        },
+        (error) => events.emit("error", error),
+      );
+      return proxied;
+    },
+    write(buffer, cb) {
+      if (!socket) {
+        cb?.(new Error("Socket is not connected"));
+        return false;
+      }
+      return socket.write(buffer, (error) => cb?.(error ?? undefined));
+    },
+    destroy() {
+      destroyed = true;
+      socket?.destroy();
+    },
+  };
+
+  return proxied;
+}
+
+/**
+ * Where a TCP-based check connects: the resolved host, or the target host and the proxy tunnelling to it
+ */
+export interface TcpRoute {
+  host: string;
+  proxy?: ProxyServer;
+}
+
+/**
+ * Resolve the route to a TCP-based target
+ * Proxies resolve the target themselves; direct connections use the target's DNS override
+ * from the monitor or environment (injected by job-builder), defaulting to system DNS.
+ */
+export async function resolveTcpRoute(
+  target: Pick<TcpTarget, "host" | "proxy" | "dns">,
+  timeoutMs: number,
+): Promise<{ route?: TcpRoute; error?: string }> {
+  const { proxy, error } = resolveProxy(target.proxy, target.host);
+  if (error) {
+    return { error };
+  }
+
+  if (proxy) {
+    return { route: { host: target.host, proxy } };
+  }
+
+  const host = await resolveHostname(target.host, {
+    config: target.dns ?? getDnsConfigFromEnv(),
+    defaultToExternal: false, // TCP checkers default to system DNS
+    timeoutMs,
+  });
+
+  return { route: { host } };
+}
+
+/**
+ * Open a socket along a route for protocol clients layered on TCP
+ * Rejects with ETIMEDOUT when the connection is not established within timeoutMs.
+ */
+export function openTcpSocket(
+  route: TcpRoute,
+  port: number,
+  timeoutMs: number,
+): Promise<net.Socket> {
+  if (route.proxy) {
+    return connectThroughProxy(route.proxy, route.host, port, timeoutMs);
+  }
+
+  return new Promise((resolve, reject) => {
+    const socket = net.connect({ host: route.host, port });
+
+    const timeoutHandle = setTimeout(() => {
+      socket.destroy();
+      reject(new Error(`connect ETIMEDOUT ${route.host}:${port}`));
+    }, timeoutMs);
+
+    socket.once("connect", () => {
+      clearTimeout(timeoutHandle);
+      socket.removeAllListeners("error");
+      resolve(socket);
+    });
+    socket.once("error", (error) => {
+      clearTimeout(timeoutHandle);
+      socket.destroy();
+      reject(error);
+    });
+  });
+}
+
+/**
+ * Categorize a failed TCP connection
+ */
+export function tcpConnectionFailure(error: Error, latencyMs: number): CheckResult {
+  if (isProxyError(error)) {
+    return {
+      state: "down",
+      latencyMs,
+      reason: "PROXY_ERROR",
+      message: error.message,
+    };
+  }
+
+  if (error.message.includes("ECONNREFUSED")) {
+    return {
+      state: "down",
+      latencyMs,
+      reason: "CONNECTION_REFUSED",
+      message: "Connection refused",
+    };
+  }
+
+  if (error.message.includes("ENOTFOUND")) {
+    return {
+      state: "down",
+      latencyMs,
+      reason: "DNS_NXDOMAIN",
+      message: "Host not found",
+    };
+  }
+
+  if (error.message.includes("ETIMEDOUT")) {
+    return {
+      state: "down",
+      latencyMs,
+      reason: "TIMEOUT",
+      message: "Connection timeout",
+    };
+  }
+
+  return {
+    state: "down",
+    latencyMs,
+    reason: "CONNECTION_ERROR",
+    message: error.message,
+  };
+}
+
+/**
+ * TLS connector type for dependency injection
+ * Completes the handshake and returns the open socket with the certificate it presented.
+ */
+export type TlsConnector = (
+  options: CertificateInspectOptions,
+) => Promise<{ socket: TcpSocket; cert: CertificateInfo }>;
+
+/**
+ * Default TLS connector; send/expect run over the returned session
+ */
+const connectTlsSocket: TlsConnector = async (options) => {
+  const { socket, cert } = await connectTls(options);
+  return { socket: socket as unknown as TcpSocket, cert };
+};
+
 /**
  * Internal TCP checker implementation with injectable socket factory
  */
@@ -33,6 +231,7 @@ async function checkTcpWithSocketFactory(
   monitor: Monitor,
   timeout: number,
   socketFactory: SocketFactory,
+  tlsConnector: TlsConnector,
 ): Promise<CheckResult> {
   const spec = monitor.spec;
   const target = spec.target.tcp;
@@ -49,15 +248,17 @@ async function checkTcpWithSocketFactory(
   const startTime = Date.now();
 
   try {
-    // Get DNS config from monitor target or environment (injected by job-builder)
-    const dnsConfig = target.dns ?? getDnsConfigFromEnv();
-
-    // Resolve hostname (TCP uses system DNS by default, but allows override)
-    const resolvedHost = await resolveHostname(target.host, {
-      config: dnsConfig,
-      defaultToExternal: false, // TCP checker defaults to system DNS
-      timeoutMs: timeout * 1000,
-    });
+    const { route, error: proxyError } = await resolveTcpRoute(target, timeout * 1000);
+    if (!route) {
+      return {
+        state: "down",
+        latencyMs: 0,
+        reason: "PROXY_ERROR",
+        message: proxyError ?? "Proxy unavailable",
+      };
+    }
+
+    const { host: resolvedHost, proxy } = route;
 
     if (resolvedHost !== target.host) {
       logger.debug(
@@ -66,137 +267,167 @@ async function checkTcpWithSocketFactory(
       );
     }
 
-    return new Promise((resolve) => {
-      // Create a TCP connection using injected socket factory
-      const socket = socketFactory();
+    const tls = target.tls?.enabled ? target.tls : undefined;
+
+    const caBundle = tls?.caBundleSecretRef ? getCaBundleFromEnv() : undefined;
+    if (tls?.caBundleSecretRef && !caBundle) {
+      return {
+        state: "down",
+        latencyMs: 0,
+        reason: "TLS_ERROR",
+        message: "CA bundle not found in environment",
+      };
+    }
 
+    const clientCert = tls?.clientCertSecretRef ? getClientCertFromEnv() : undefined;
+    if (tls?.clientCertSecretRef && !clientCert) {
+      return {
+        state: "down",
+        latencyMs: 0,
+        reason: "TLS_ERROR",
+        message: "Client certificate not found in environment",
+      };
+    }
+
+    return await new Promise<CheckResult>((resolve) => {
+      let socket: TcpSocket | undefined;
       let completed = false;
 
+      const finish = (result: CheckResult) => {
+        if (completed) return;
+        completed = true;
+        clearTimeout(timeoutHandle);
+        socket?.destroy();
+        resolve(result);
+      };
+
       // Set timeout
       const timeoutHandle = setTimeout(() => {
-        if (!completed) {
-          socket.destroy();
-          completed = true;
-          resolve({
-            state: "down",
-            latencyMs: timeout * 1000,
-            reason: "TIMEOUT",
-            message: `TCP connection timeout after ${timeout}s`,
-          });
-        }
+        finish({
+          state: "down",
+          latencyMs: timeout * 1000,
+          reason: "TIMEOUT",
+          message: `TCP connection timeout after ${timeout}s`,
+        });
       }, timeout * 1000);
 
-      const self: TcpSocket = socket;
+      // Run send/expect once connected; for TLS targets over the encrypted session
+      const exchange = (connected: TcpSocket, cert?: CertificateInfo) => {
+        const latencyMs = Date.now() - startTime;
+        const up = (message: string): CheckResult => ({
+          state: "up",
+          latencyMs,
+          reason: "TCP_OK",
+          message,
+          ...(cert && { cert }),
+        });
 
-      self.on("connect", () => {
-        if (completed) return;
+        connected.on("error", (...args: unknown[]) => {
+          finish(tcpConnectionFailure(args[0] as Error, Date.now() - startTime));
+        });
 
-        const latencyMs = Date.now() - startTime;
+        if (!target.send) {
+          finish(up("TCP connection successful"));
+          return;
+        }
 
-        // If there's a send/expect configured, try it
-        if (target.send) {
-          socket.write(target.send, (error) => {
-            if (error) {
-              socket.destroy();
-              completed = true;
-              clearTimeout(timeoutHandle);
-              resolve({
-                state: "down",
-                latencyMs,
-                reason: "SEND_ERROR",
-                message: `Failed to send data: ${error.message}`,
-              });
+        connected.write(target.send, (error) => {
+          if (error) {
+            finish({
+              state: "down",
+              latencyMs,
+              reason: "SEND_ERROR",
+              message: `Failed to send data: ${error.message}`,
+            });
+            return;
+          }
+
+          // Wait for response if expect is configured
+          if (!target.expect) {
+            finish(up("TCP connection successful"));
+            return;
+          }
+
+          let received = "";
+          const expectedStr = target.expect;
+
+          connected.on("data", (data: unknown) => {
+            received += (data as Buffer).toString();
+
+            if (received.includes(expectedStr)) {
+              finish(up("TCP connection successful with expected response"));
+            }
+          });
+        });
+      };
+
+      if (tls) {
+        // The certificate is captured from the same handshake the exchange runs over
+        tlsConnector({
+          host: resolvedHost,
+          port: target.port,
+          servername: tls.sni ?? target.host,
+          ...(caBundle && { ca: caBundle }),
+          ...(clientCert && { clientCert }),
+          ...(proxy && { proxy }),
+          timeoutMs: timeout * 1000,
+        }).then(
+          ({ socket: connected, cert }) => {
+            socket = connected;
+            if (completed) {
+              connected.destroy();
               return;
             }
 
-            // Wait for response if expect is configured
-            if (target.expect) {
-              let received = "";
-              const expectedStr = target.expect;
-
-              self.on("data", (data: unknown) => {
-                received += (data as Buffer).toString();
-
-                if (received.includes(expectedStr)) {
-                  socket.destroy();
-                  completed = true;
-                  clearTimeout(timeoutHandle);
-                  resolve({
-                    state: "up",
-                    latencyMs,
-                    reason: "TCP_OK",
-                    message: "TCP connection successful with expected response",
-                  });
-                }
-              });
-            } else {
-              socket.destroy();
-              completed = true;
-              clearTimeout(timeoutHandle);
-              resolve({
-                state: "up",
-                latencyMs,
-                reason: "TCP_OK",
-                message: "TCP connection successful",
+            // Untrusted, mismatched or expired certificates fail unless tls.verify is false
+            if (tls.verify !== false && !cert.valid) {
+              finish({
+                state: "down",
+                latencyMs: Date.now() - startTime,
+                reason: "TLS_ERROR",
+                message: `Certificate validation failed: ${cert.validationError ?? "certificate is not valid"}`,
+                cert,
               });
+              return;
             }
-          });
-        } else {
-          // Just check connection
-          socket.destroy();
-          completed = true;
-          clearTimeout(timeoutHandle);
-          resolve({
-            state: "up",
-            latencyMs,
-            reason: "TCP_OK",
-            message: "TCP connection successful",
-          });
-        }
-      });
 
-      self.on("error", (...args: unknown[]) => {
-        if (completed) return;
+            exchange(connected, cert);
+          },
+          (error: Error) => {
+            const failure = tcpConnectionFailure(error, Date.now() - startTime);
+            // Anything but a refused, unresolvable or unreachable connection failed the handshake
+            finish(
+              failure.reason === "CONNECTION_ERROR"
+                ? {
+                    state: "down",
+                    latencyMs: failure.latencyMs,
+                    reason: "TLS_ERROR",
+                    message: `TLS handshake failed: ${error.message}`,
+                  }
+                : failure,
+            );
+          },
+        );
+        return;
+      }
 
-        clearTimeout(timeoutHandle);
-        completed = true;
-        socket.destroy();
+      // Create a TCP connection using injected socket factory, or tunnel through the proxy
+      const connecting = proxy ? createProxiedSocket(proxy, timeout * 1000) : socketFactory();
+      socket = connecting;
 
-        const latencyMs = Date.now() - startTime;
-        const error = args[0] as Error;
-
-        if (error.message.includes("ECONNREFUSED")) {
-          resolve({
-            state: "down",
-            latencyMs,
-            reason: "CONNECTION_REFUSED",
-            message: "Connection refused",
-          });
-        } else if (error.message.includes("ENOTFOUND")) {
-          resolve({
-            state: "down",
-            latencyMs,
-            reason: "DNS_NXDOMAIN",
-            message: "Host not found",
-          });
-        } else if (error.message.includes("ETIMEDOUT")) {
-          resolve({
-            state: "down",
-            latencyMs,
-            reason: "TIMEOUT",
-            message: "Connection timeout",
-          });
-        } else {
-          resolve({
-            state: "down",
-            latencyMs,
-            reason: "CONNECTION_ERROR",
-            message: error.message,
-          });
-        }
+      let connected = false;
+      connecting.on("connect", () => {
+        if (completed) return;
+        connected = true;
+        exchange(connecting);
+      });
+
+      connecting.on("error", (...args: unknown[]) => {
+        if (connected) return;
+        finish(tcpConnectionFailure(args[0] as Error, Date.now() - startTime));
       });
 
-      socket.connect(target.port, resolvedHost);
+      connecting.connect(target.port, resolvedHost);
     });
   } catch (error) {
     const latencyMs = Date.now() - startTime;
@@ -215,15 +446,16 @@ async function checkTcpWithSocketFactory(
  * TCP connection checker
  */
 export async function checkTcp(monitor: Monitor, timeout: number): Promise<CheckResult> {
-  return checkTcpWithSocketFactory(monitor, timeout, createDefaultSocket);
+  return checkTcpWithSocketFactory(monitor, timeout, createDefaultSocket, connectTlsSocket);
 }
 
 /**
- * Create a TCP checker with a custom socket factory (for testing)
+ * Create a TCP checker with a custom socket factory and TLS connector (for testing)
  */
 export function createCheckTcp(
   socketFactory: SocketFactory,
+  tlsConnector: TlsConnector = connectTlsSocket,
 ): (monitor: Monitor, timeout: number) => Promise<CheckResult> {
   return (monitor: Monitor, timeout: number) =>
-    checkTcpWithSocketFactory(monitor, timeout, socketFactory);
+    checkTcpWithSocketFactory(monitor, timeout, socketFactory, tlsConnector);
 }
@@ -3,6 +3,7 @@
  */
 
 import { logger } from "../lib/logger";
+import { openProxyEndpoint, resolveProxy } from "../lib/proxy";
 import type { Monitor } from "../types/crd";
 import type { CheckResult } from "./index";
 
@@ -21,6 +22,7 @@ function connectWebSocket(
   timeout: number,
   sendMessage?: string,
   expectedResponse?: string,
+  proxyUrl?: string,
 ): Promise<WebSocketResult> {
   return new Promise((resolve) => {
     const startTime = Date.now();
@@ -57,7 +59,10 @@ function connectWebSocket(
     }, timeout * 1000);
 
     try {
-      ws = new WebSocket(url);
+      // Bun's WebSocket accepts an HTTP proxy, though its options type doesn't declare it
+      ws = proxyUrl
+        ? new WebSocket(url, { proxy: proxyUrl } as unknown as Bun.WebSocketOptions)
+        : new WebSocket(url);
 
       ws.onopen = () => {
         const connectLatency = Date.now() - startTime;
@@ -173,7 +178,24 @@ export async function checkWebSocket(monitor: Monitor, timeout: number): Promise
       };
     }
 
-    const result = await connectWebSocket(url, timeout, target.send, target.expect);
+    const { proxy, error: proxyError } = resolveProxy(target.proxy, new URL(url).hostname);
+    if (proxyError) {
+      return {
+        state: "down",
+        latencyMs: 0,
+        reason: "PROXY_ERROR",
+        message: proxyError,
+      };
+    }
+
+    const proxyEndpoint = proxy ? await openProxyEndpoint(proxy, timeout * 1000) : undefined;
+    const result = await connectWebSocket(
+      url,
+      timeout,
+      target.send,
+      target.expect,
+      proxyEndpoint?.url,
+    ).finally(() => proxyEndpoint?.close());
 
     const latencyMs = result.latencyMs;
 
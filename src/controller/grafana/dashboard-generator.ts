@@ -6,6 +6,7 @@
  */
 
 import type { V1ConfigMap } from "@kubernetes/client-node";
+import { getMonitorUrl } from "../../lib/monitor-url";
 import type { Monitor } from "../../types/crd/monitor";
 
 /**
@@ -550,31 +551,3 @@ function generateMonitorDashboard(monitor: Monitor): GrafanaDashboard {
     ],
   };
 }
-
-/**
- * Extract monitor URL for display
- */
-function getMonitorUrl(monitor: Monitor): string {
-  const target = monitor.spec.target;
-
-  if (target?.http) {
-    return target.http.url;
-  }
-  if (target?.tcp) {
-    return `${target.tcp.host}:${target.tcp.port}`;
-  }
-  if (target?.dns) {
-    return target.dns.name;
-  }
-  if (target?.ping) {
-    return target.ping.host;
-  }
-  if (target?.websocket) {
-    return target.websocket.url;
-  }
-  if (target?.k8s) {
-    return `${target.k8s.resource.kind}/${target.k8s.resource.name}`;
-  }
-
-  return "unknown";
-}
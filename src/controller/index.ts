@@ -12,8 +12,12 @@ import {
   createMonitorSetReconciler,
   createSettingsReconciler,
   createSilenceReconciler,
+  stopMonitorScheduler,
 } from "./reconcilers";
-import { createTypeSafeReconciliationHandler } from "./reconcilers/handler";
+import {
+  createTypeSafeDeleteHandler,
+  createTypeSafeReconciliationHandler,
+} from "./reconcilers/handler";
 import type { TypeSafeReconciler } from "./reconcilers/types";
 
 // Global instances
@@ -69,6 +73,9 @@ export async function stopController() {
   try {
     logger.info("Stopping Kubernetes controller...");
 
+    // Stop recurring monitor checks before tearing down the job manager
+    stopMonitorScheduler();
+
     // Stop Job Completion Watcher
     if (jobCompletionWatcher) {
       await jobCompletionWatcher.stop();
@@ -121,6 +128,11 @@ function registerAllReconcilers(kubeConfig: KubeConfig) {
 
     // Register with the informer registry
     registry.registerReconciler(informerRegistry, config.kind, handler);
+    registry.registerDeleteHandler(
+      informerRegistry,
+      config.kind,
+      createTypeSafeDeleteHandler(config as unknown as TypeSafeReconciler<object>),
+    );
 
     logger.debug({ kind: config.kind }, `Registered reconciler for ${config.kind}`);
   }
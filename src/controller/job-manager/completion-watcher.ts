@@ -9,10 +9,41 @@
 
 import { CustomObjectsApi, type KubeConfig, type V1Job } from "@kubernetes/client-node";
 import { Watch } from "@kubernetes/client-node/dist/watch";
-import { sendAlertToAlertmanager } from "../../alerting";
+import {
+  type AlertSuppression,
+  sendAlertToAlertmanager,
+  sendCertExpiringAlert,
+  sendFlappingAlert,
+} from "../../alerting";
+import { isConfirmedState } from "../../lib/check-state";
 import { logger } from "../../lib/logger";
-import { recordCheckResult } from "../../lib/prometheus";
-import type { Monitor } from "../../types/crd/monitor";
+import { getMonitorUrl } from "../../lib/monitor-url";
+import {
+  recordCertExpiry,
+  recordCheckResult,
+  recordPhaseTimings,
+  recordStateChange,
+} from "../../lib/prometheus";
+import { calculateUptimeStats, updateDowntimeIntervals } from "../../lib/uptime";
+import type {
+  LastResult,
+  Monitor,
+  MonitorStatus,
+  SuppressedTransition,
+} from "../../types/crd/monitor";
+import { getGlobalSettings } from "../reconcilers/auth-and-config-reconcilers";
+import {
+  createFlappingDetector,
+  DEFAULT_FLAPPING_CONFIG,
+  type FlappingConfig,
+  type FlappingStatus,
+} from "./flapping";
+
+// Number of suppressed transitions kept on Monitor status
+const MAX_SUPPRESSED_TRANSITIONS = 10;
+
+// Cert-expiring alerts fire this many days before expiry unless tls.warnBeforeDays is set
+const DEFAULT_CERT_WARN_BEFORE_DAYS = 14;
 
 export interface JobCompletionWatcherConfig {
   kubeConfig: KubeConfig;
@@ -28,6 +59,7 @@ export function createJobCompletionWatcher(config: JobCompletionWatcherConfig) {
   let watching = false;
   let watch: Watch | null = null;
   const processedJobs = new Set<string>();
+  const flappingDetector = createFlappingDetector();
 
   /**
    * Handle Job completion
@@ -61,13 +93,22 @@ export function createJobCompletionWatcher(config: JobCompletionWatcherConfig) {
         return;
       }
 
+      // Count toggles between confirmed states to detect flapping
+      const flapping = isConfirmedState(checkResult.state)
+        ? flappingDetector.record(monitorId, checkResult.state, getFlappingConfig())
+        : undefined;
+
+      if (flapping?.flapping) {
+        await markFlapping(monitor);
+      }
+
       // Export check result to Prometheus metrics
       const metricsData: {
         state: "down" | "up" | "flapping" | "pending" | "paused";
         latencyMs?: number;
         durationMs?: number;
       } = {
-        state: checkResult.state,
+        state: flapping?.flapping ? "flapping" : checkResult.state,
       };
       if (checkResult.latencyMs !== undefined) {
         metricsData.latencyMs = checkResult.latencyMs;
@@ -82,19 +123,63 @@ export function createJobCompletionWatcher(config: JobCompletionWatcherConfig) {
         getMonitorUrl(monitor),
         metricsData,
       );
+      if (checkResult.timings) {
+        recordPhaseTimings(
+          name ?? "unknown",
+          namespace ?? "default",
+          monitor.spec.type,
+          checkResult.timings,
+        );
+      }
 
       logger.info(
         { monitorId, state: checkResult.state, latency: checkResult.latencyMs },
         "Exported Prometheus metrics after Job completion",
       );
 
-      // Detect state changes for alerting
+      await recordUptime(monitor, checkResult.state, new Date(checkResult.checkedAt));
+      await handleCertificate(monitor);
+
+      if (flapping?.started || flapping?.ended) {
+        await handleFlappingChanged(monitor, flapping);
+      }
+
+      // Detect state changes against the last state the controller alerted on
+      // Pending results are unconfirmed failures and never count as a transition
       const currentState = checkResult.state;
-      const previousState = monitor.status?.lastResult?.state;
+      const previousState = monitor.status?.lastState;
+
+      if (currentState === "pending" || currentState === previousState) {
+        return;
+      }
+
+      // Keep lastState on the last alerted state while notifications are suppressed,
+      // so the state the monitor settles in is alerted once suppression ends
+      if (flapping?.suppressNotifications) {
+        logger.info(
+          {
+            monitorId,
+            fromState: previousState,
+            toState: currentState,
+            until: flapping.suppressNotificationsUntil,
+          },
+          "State change notification suppressed while flapping",
+        );
+        return;
+      }
+
+      await recordTransition(monitor, currentState);
+
+      if (previousState) {
+        recordStateChange(name ?? "unknown", namespace ?? "default", previousState, currentState);
+      }
 
-      if (previousState && previousState !== currentState) {
-        await handleStateChange(monitor, previousState, currentState);
+      // A new monitor coming up is not worth an alert
+      if (!previousState && currentState === "up") {
+        return;
       }
+
+      await handleStateChange(monitor, previousState ?? "unknown", currentState);
     } catch (error) {
       logger.error({ monitorId, error }, "Failed to process Job completion");
     }
@@ -109,16 +194,228 @@ export function createJobCompletionWatcher(config: JobCompletionWatcherConfig) {
       monitor.status?.lastResult?.reason || `State changed from ${fromState} to ${toState}`;
 
     // Send alert to Alertmanager if configured
-    await sendAlertToAlertmanager(
+    const suppression = await sendAlertToAlertmanager(
       monitor,
       toState as "up" | "down" | "pending" | "flapping" | "paused",
       fromState,
       `Monitor ${monitorName} is ${toState}`,
     );
 
+    if (suppression) {
+      await recordSuppressedTransition(monitor, fromState, toState, suppression);
+    }
+
     logger.info({ monitorName, fromState, toState, reason }, "Monitor state changed");
   }
 
+  /**
+   * Export certificate expiry and alert once when it crosses warnBeforeDays
+   * The alert resolves when a renewed certificate is outside the warning window again.
+   */
+  async function handleCertificate(monitor: Monitor) {
+    const namespace = monitor.metadata.namespace;
+    const name = monitor.metadata.name;
+    const cert = monitor.status?.cert;
+
+    if (cert?.daysRemaining === undefined || !cert.expiresAt) {
+      return;
+    }
+
+    recordCertExpiry(name, namespace, monitor.spec.type, cert.daysRemaining);
+
+    if (monitor.spec.alerting?.notifyOn?.certExpiring === false) {
+      return;
+    }
+
+    const alerted = monitor.status?.certExpiringAlert;
+    const expiring = cert.daysRemaining <= getCertWarnBeforeDays(monitor);
+
+    // Already alerted for this certificate, or nothing to resolve
+    if (expiring ? alerted?.expiresAt === cert.expiresAt : !alerted) {
+      return;
+    }
+
+    logger.info(
+      { monitorId: `${namespace}/${name}`, daysRemaining: cert.daysRemaining, expiring },
+      expiring ? "Certificate is expiring" : "Certificate was renewed",
+    );
+
+    const suppression = await sendCertExpiringAlert(monitor, cert, expiring);
+    if (suppression) {
+      await recordSuppressedTransition(
+        monitor,
+        expiring ? "certValid" : "certExpiring",
+        expiring ? "certExpiring" : "certValid",
+        suppression,
+      );
+    }
+
+    try {
+      await customObjectsApi.patchNamespacedCustomObjectStatus({
+        group: "monitoring.yuptime.io",
+        version: "v1",
+        namespace,
+        plural: "monitors",
+        name,
+        body: expiring
+          ? [
+              {
+                op: "add",
+                path: "/status/certExpiringAlert",
+                value: { expiresAt: cert.expiresAt, notifiedAt: new Date().toISOString() },
+              },
+            ]
+          : [{ op: "remove", path: "/status/certExpiringAlert" }],
+      });
+    } catch (error) {
+      logger.warn({ namespace, name, error }, "Failed to record cert-expiring alert");
+    }
+  }
+
+  /**
+   * Send a single flapping alert instead of individual up/down alerts,
+   * and resolve it once the monitor stops flapping
+   */
+  async function handleFlappingChanged(monitor: Monitor, flapping: FlappingStatus) {
+    const monitorName = monitor.metadata.name;
+
+    logger.warn(
+      { monitorName, namespace: monitor.metadata.namespace, toggles: flapping.toggles },
+      flapping.flapping ? "Monitor is flapping" : "Monitor stopped flapping",
+    );
+
+    if (monitor.spec.alerting?.notifyOn?.flapping === false) {
+      return;
+    }
+
+    const suppression = await sendFlappingAlert(monitor, flapping.flapping, flapping.toggles);
+
+    if (suppression) {
+      await recordSuppressedTransition(
+        monitor,
+        flapping.flapping ? "stable" : "flapping",
+        flapping.flapping ? "flapping" : "stable",
+        suppression,
+      );
+    }
+  }
+
+  /**
+   * Persist the state the controller last acted on so transitions survive restarts
+   */
+  async function recordTransition(monitor: Monitor, state: MonitorStatus["lastState"]) {
+    const namespace = monitor.metadata.namespace;
+    const name = monitor.metadata.name;
+
+    try {
+      await customObjectsApi.patchNamespacedCustomObjectStatus({
+        group: "monitoring.yuptime.io",
+        version: "v1",
+        namespace,
+        plural: "monitors",
+        name,
+        body: [
+          { op: "add", path: "/status/lastState", value: state },
+          { op: "add", path: "/status/lastTransitionAt", value: new Date().toISOString() },
+        ],
+      });
+    } catch (error) {
+      logger.warn({ namespace, name, error }, "Failed to record state transition");
+    }
+  }
+
+  /**
+   * Fold the check into the downtime history and recompute the uptime windows
+   */
+  async function recordUptime(monitor: Monitor, state: LastResult["state"], checkedAt: Date) {
+    const namespace = monitor.metadata.namespace;
+    const name = monitor.metadata.name;
+
+    const since = monitor.status?.uptime?.since ?? checkedAt.toISOString();
+    const downtime = updateDowntimeIntervals(monitor.status?.downtime || [], state, checkedAt);
+    const uptime = { ...calculateUptimeStats(downtime, new Date(since), checkedAt), since };
+
+    try {
+      await customObjectsApi.patchNamespacedCustomObjectStatus({
+        group: "monitoring.yuptime.io",
+        version: "v1",
+        namespace,
+        plural: "monitors",
+        name,
+        body: [
+          { op: "add", path: "/status/uptime", value: uptime },
+          { op: "add", path: "/status/downtime", value: downtime },
+        ],
+      });
+    } catch (error) {
+      logger.warn({ namespace, name, error }, "Failed to record uptime");
+    }
+  }
+
+  /**
+   * Flag the checker's result while the monitor is flapping
+   *
+   * The result state is left alone so the next check continues the retry count.
+   */
+  async function markFlapping(monitor: Monitor) {
+    const namespace = monitor.metadata.namespace;
+    const name = monitor.metadata.name;
+
+    try {
+      await customObjectsApi.patchNamespacedCustomObjectStatus({
+        group: "monitoring.yuptime.io",
+        version: "v1",
+        namespace,
+        plural: "monitors",
+        name,
+        body: [{ op: "add", path: "/status/lastResult/flapping", value: true }],
+      });
+    } catch (error) {
+      logger.warn({ namespace, name, error }, "Failed to mark monitor as flapping");
+    }
+  }
+
+  /**
+   * Record a suppressed alert on the Monitor status for auditing
+   */
+  async function recordSuppressedTransition(
+    monitor: Monitor,
+    fromState: string,
+    toState: string,
+    suppression: AlertSuppression,
+  ) {
+    const namespace = monitor.metadata.namespace;
+    const name = monitor.metadata.name;
+
+    const entry: SuppressedTransition = {
+      fromState,
+      toState,
+      suppressedAt: new Date().toISOString(),
+      sourceKind: suppression.kind,
+      sourceNamespace: suppression.namespace,
+      sourceName: suppression.name,
+      reason: suppression.reason,
+    };
+
+    // Keep the most recent entries only
+    const suppressedTransitions = [...(monitor.status?.suppressedTransitions || []), entry].slice(
+      -MAX_SUPPRESSED_TRANSITIONS,
+    );
+
+    try {
+      await customObjectsApi.patchNamespacedCustomObjectStatus({
+        group: "monitoring.yuptime.io",
+        version: "v1",
+        namespace,
+        plural: "monitors",
+        name,
+        body: [{ op: "add", path: "/status/suppressedTransitions", value: suppressedTransitions }],
+      });
+    } catch (error) {
+      logger.warn({ namespace, name, error }, "Failed to record suppressed transition");
+    }
+  }
+
   /**
    * Start watching Jobs
    */
@@ -212,29 +509,32 @@ export function createJobCompletionWatcher(config: JobCompletionWatcherConfig) {
 export type JobCompletionWatcher = ReturnType<typeof createJobCompletionWatcher>;
 
 /**
- * Extract monitor URL for metrics labels
+ * Resolve flapping settings from YuptimeSettings, falling back to defaults
  */
-function getMonitorUrl(monitor: Monitor): string {
-  const target = monitor.spec?.target;
-
-  if (target?.http) {
-    return target.http.url;
-  }
-  if (target?.tcp) {
-    return `${target.tcp.host}:${target.tcp.port}`;
-  }
-  if (target?.dns) {
-    return target.dns.name;
-  }
-  if (target?.ping) {
-    return target.ping.host;
-  }
-  if (target?.websocket) {
-    return target.websocket.url;
-  }
-  if (target?.k8s) {
-    return `${target.k8s.resource.kind}/${target.k8s.resource.name}`;
-  }
+function getFlappingConfig(): FlappingConfig {
+  const flapping = getGlobalSettings().scheduler?.flapping;
+  return {
+    enabled: flapping?.enabled ?? DEFAULT_FLAPPING_CONFIG.enabled,
+    toggleThreshold: flapping?.toggleThreshold ?? DEFAULT_FLAPPING_CONFIG.toggleThreshold,
+    windowMinutes: flapping?.windowMinutes ?? DEFAULT_FLAPPING_CONFIG.windowMinutes,
+    suppressNotificationsMinutes:
+      flapping?.suppressNotificationsMinutes ??
+      DEFAULT_FLAPPING_CONFIG.suppressNotificationsMinutes,
+  };
+}
 
-  return "unknown";
+/**
+ * Days before certificate expiry at which to alert, from the target's TLS settings
+ */
+function getCertWarnBeforeDays(monitor: Monitor): number {
+  const target = monitor.spec.target;
+  return (
+    target.http?.tls?.warnBeforeDays ??
+    target.tcp?.tls?.warnBeforeDays ??
+    target.grpc?.tls?.warnBeforeDays ??
+    target.smtp?.tls?.warnBeforeDays ??
+    target.imap?.tls?.warnBeforeDays ??
+    target.pop3?.tls?.warnBeforeDays ??
+    DEFAULT_CERT_WARN_BEFORE_DAYS
+  );
 }
@@ -0,0 +1,107 @@
+import { describe, expect, test } from "bun:test";
+import { createFlappingDetector, DEFAULT_FLAPPING_CONFIG, type FlappingConfig } from "./flapping";
+
+const config: FlappingConfig = {
+  enabled: true,
+  toggleThreshold: 3,
+  windowMinutes: 10,
+  suppressNotificationsMinutes: 30,
+};
+
+const start = new Date("2025-06-10T12:00:00Z").getTime();
+const at = (minutes: number) => new Date(start + minutes * 60 * 1000);
+
+describe("createFlappingDetector", () => {
+  test("does not flap on a stable monitor", () => {
+    const detector = createFlappingDetector();
+
+    for (let i = 0; i < 10; i++) {
+      const status = detector.record("default/test", "up", config, at(i));
+      expect(status.flapping).toBe(false);
+      expect(status.toggles).toBe(0);
+      expect(status.suppressNotifications).toBe(false);
+    }
+  });
+
+  test("starts flapping once toggles reach the threshold", () => {
+    const detector = createFlappingDetector();
+
+    detector.record("default/test", "up", config, at(0));
+    expect(detector.record("default/test", "down", config, at(1)).flapping).toBe(false);
+    expect(detector.record("default/test", "up", config, at(2)).flapping).toBe(false);
+
+    const status = detector.record("default/test", "down", config, at(3));
+    expect(status.flapping).toBe(true);
+    expect(status.started).toBe(true);
+    expect(status.toggles).toBe(3);
+    expect(status.suppressNotifications).toBe(true);
+    expect(status.suppressNotificationsUntil).toEqual(at(33));
+
+    // Only the first observation reports the start
+    expect(detector.record("default/test", "down", config, at(4)).started).toBe(false);
+  });
+
+  test("only counts toggles inside the sliding window", () => {
+    const detector = createFlappingDetector();
+
+    detector.record("default/test", "up", config, at(0));
+    detector.record("default/test", "down", config, at(1));
+    detector.record("default/test", "up", config, at(2));
+
+    // First toggle has left the 10 minute window
+    const status = detector.record("default/test", "down", config, at(11));
+    expect(status.toggles).toBe(2);
+    expect(status.flapping).toBe(false);
+  });
+
+  test("keeps notifications suppressed after flapping ends", () => {
+    const detector = createFlappingDetector();
+
+    detector.record("default/test", "up", config, at(0));
+    detector.record("default/test", "down", config, at(1));
+    detector.record("default/test", "up", config, at(2));
+    detector.record("default/test", "down", config, at(3));
+
+    const ended = detector.record("default/test", "down", config, at(14));
+    expect(ended.flapping).toBe(false);
+    expect(ended.ended).toBe(true);
+    expect(ended.suppressNotifications).toBe(true);
+
+    const resumed = detector.record("default/test", "down", config, at(33));
+    expect(resumed.suppressNotifications).toBe(false);
+  });
+
+  test("never flaps when disabled", () => {
+    const detector = createFlappingDetector();
+    const disabled = { ...config, enabled: false };
+
+    for (let i = 0; i < 10; i++) {
+      const status = detector.record("default/test", i % 2 === 0 ? "up" : "down", disabled, at(i));
+      expect(status.flapping).toBe(false);
+      expect(status.suppressNotifications).toBe(false);
+    }
+  });
+
+  test("tracks monitors independently and forgets them", () => {
+    const detector = createFlappingDetector();
+
+    detector.record("default/a", "up", config, at(0));
+    detector.record("default/a", "down", config, at(1));
+    detector.record("default/b", "up", config, at(1));
+
+    expect(detector.record("default/a", "up", config, at(2)).toggles).toBe(2);
+    expect(detector.record("default/b", "up", config, at(2)).toggles).toBe(0);
+
+    detector.forget("default/a");
+    expect(detector.record("default/a", "down", config, at(3)).toggles).toBe(0);
+  });
+
+  test("defaults match the YuptimeSettings schema defaults", () => {
+    expect(DEFAULT_FLAPPING_CONFIG).toEqual({
+      enabled: true,
+      toggleThreshold: 6,
+      windowMinutes: 10,
+      suppressNotificationsMinutes: 30,
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Flapping Detector
+ * Counts state toggles per monitor in a sliding window
+ *
+ * A monitor that toggles between up and down at least toggleThreshold times
+ * within windowMinutes is flapping. Individual up/down notifications stay
+ * suppressed until suppressNotificationsMinutes after the last toggle.
+ */
+
+import type { ConfirmedState } from "../../lib/check-state";
+
+/**
+ * Flapping settings (YuptimeSettings.spec.scheduler.flapping)
+ */
+export interface FlappingConfig {
+  enabled: boolean;
+  toggleThreshold: number;
+  windowMinutes: number;
+  suppressNotificationsMinutes: number;
+}
+
+export const DEFAULT_FLAPPING_CONFIG: FlappingConfig = {
+  enabled: true,
+  toggleThreshold: 6,
+  windowMinutes: 10,
+  suppressNotificationsMinutes: 30,
+};
+
+/**
+ * Flapping evaluation after recording a state
+ */
+export interface FlappingStatus {
+  flapping: boolean;
+  /** The monitor just started flapping with this observation */
+  started: boolean;
+  /** The monitor just stopped flapping with this observation */
+  ended: boolean;
+  toggles: number;
+  /** Individual up/down notifications should not be sent */
+  suppressNotifications: boolean;
+  suppressNotificationsUntil?: Date;
+}
+
+/**
+ * Per-monitor toggle history
+ */
+interface FlappingEntry {
+  lastState: ConfirmedState;
+  toggles: number[];
+  flappingSince?: number;
+  suppressUntil?: number;
+}
+
+/**
+ * Create a new flapping detector
+ */
+export function createFlappingDetector() {
+  const entries = new Map<string, FlappingEntry>();
+
+  /**
+   * Record a confirmed state for a monitor and evaluate flapping
+   */
+  function record(
+    monitorId: string,
+    state: ConfirmedState,
+    config: FlappingConfig,
+    now: Date = new Date(),
+  ): FlappingStatus {
+    const nowMs = now.getTime();
+    const entry = entries.get(monitorId) ?? { lastState: state, toggles: [] };
+    entries.set(monitorId, entry);
+
+    if (entry.lastState !== state) {
+      entry.toggles.push(nowMs);
+      entry.lastState = state;
+    }
+
+    // Drop toggles that fell out of the sliding window
+    const windowStart = nowMs - config.windowMinutes * 60 * 1000;
+    entry.toggles = entry.toggles.filter((at) => at > windowStart);
+
+    const wasFlapping = entry.flappingSince !== undefined;
+    const flapping = config.enabled && entry.toggles.length >= config.toggleThreshold;
+
+    if (flapping) {
+      entry.flappingSince = entry.flappingSince ?? nowMs;
+      const lastToggle = entry.toggles[entry.toggles.length - 1] ?? nowMs;
+      entry.suppressUntil = lastToggle + config.suppressNotificationsMinutes * 60 * 1000;
+    } else {
+      entry.flappingSince = undefined;
+    }
+
+    const suppressNotifications =
+      flapping || (entry.suppressUntil !== undefined && nowMs < entry.suppressUntil);
+
+    return {
+      flapping,
+      started: flapping && !wasFlapping,
+      ended: !flapping && wasFlapping,
+      toggles: entry.toggles.length,
+      suppressNotifications,
+      ...(suppressNotifications &&
+        entry.suppressUntil !== undefined && {
+          suppressNotificationsUntil: new Date(entry.suppressUntil),
+        }),
+    };
+  }
+
+  /**
+   * Forget a monitor's history (e.g. after deletion)
+   */
+  function forget(monitorId: string) {
+    entries.delete(monitorId);
+  }
+
+  return {
+    record,
+    forget,
+  };
+}
+
+export type FlappingDetector = ReturnType<typeof createFlappingDetector>;
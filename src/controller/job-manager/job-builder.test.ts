@@ -1,5 +1,5 @@
 import { describe, expect, test } from "bun:test";
-import { buildJobForMonitor, extractSecretEnvVars } from "./job-builder";
+import { buildJobForMonitor, extractProxyEnvVars, extractSecretEnvVars } from "./job-builder";
 import type { Monitor } from "./types";
 
 /**
@@ -131,6 +131,24 @@ describe("extractSecretEnvVars", () => {
     });
   });
 
+  test("extracts the Redis CA bundle", () => {
+    const monitor = createTestMonitor({
+      redis: {
+        host: "redis.example.com",
+        tls: { enabled: true, caBundleSecretRef: { name: "redis-ca", key: "ca.crt" } },
+      },
+    });
+
+    const envVars = extractSecretEnvVars(monitor);
+
+    expect(envVars).toEqual([
+      {
+        name: "YUPTIME_TLS_CA_BUNDLE",
+        valueFrom: { secretKeyRef: { name: "redis-ca", key: "ca.crt" } },
+      },
+    ]);
+  });
+
   test("does not extract Redis password when no secret ref", () => {
     const monitor = createTestMonitor({
       redis: {
@@ -143,6 +161,233 @@ describe("extractSecretEnvVars", () => {
     expect(envVars).toHaveLength(0);
   });
 
+  test("extracts MongoDB credentials and CA bundle", () => {
+    const monitor = createTestMonitor({
+      mongodb: {
+        hosts: ["mongo-0.example.com"],
+        credentialsSecretRef: { name: "mongo-probe" },
+        tls: { enabled: true, caBundleSecretRef: { name: "mongo-ca", key: "ca.crt" } },
+      },
+    });
+
+    const envVars = extractSecretEnvVars(monitor);
+
+    expect(envVars).toEqual([
+      {
+        name: "YUPTIME_CRED_MONGODB_USERNAME",
+        valueFrom: { secretKeyRef: { name: "mongo-probe", key: "username" } },
+      },
+      {
+        name: "YUPTIME_CRED_MONGODB_PASSWORD",
+        valueFrom: { secretKeyRef: { name: "mongo-probe", key: "password" } },
+      },
+      {
+        name: "YUPTIME_TLS_CA_BUNDLE",
+        valueFrom: { secretKeyRef: { name: "mongo-ca", key: "ca.crt" } },
+      },
+    ]);
+  });
+
+  test("extracts Kafka SASL credentials and client certificate", () => {
+    const monitor = createTestMonitor({
+      kafka: {
+        brokers: ["kafka-0.example.com:9093"],
+        sasl: { mechanism: "scram-sha-512", credentialsSecretRef: { name: "kafka-probe" } },
+        tls: { enabled: true, clientCertSecretRef: { name: "kafka-client" } },
+      },
+    });
+
+    const envVars = extractSecretEnvVars(monitor);
+
+    expect(envVars).toEqual([
+      {
+        name: "YUPTIME_CRED_KAFKA_USERNAME",
+        valueFrom: { secretKeyRef: { name: "kafka-probe", key: "username" } },
+      },
+      {
+        name: "YUPTIME_CRED_KAFKA_PASSWORD",
+        valueFrom: { secretKeyRef: { name: "kafka-probe", key: "password" } },
+      },
+      {
+        name: "YUPTIME_TLS_CLIENT_CERT",
+        valueFrom: { secretKeyRef: { name: "kafka-client", key: "tls.crt" } },
+      },
+      {
+        name: "YUPTIME_TLS_CLIENT_KEY",
+        valueFrom: { secretKeyRef: { name: "kafka-client", key: "tls.key" } },
+      },
+    ]);
+  });
+
+  test("extracts NATS user credentials and token", () => {
+    const monitor = createTestMonitor({
+      nats: {
+        servers: ["nats.example.com:4222"],
+        credentialsSecretRef: { name: "nats-probe", usernameKey: "user" },
+        tokenSecretRef: { name: "nats-token", key: "token" },
+      },
+    });
+
+    const envVars = extractSecretEnvVars(monitor);
+
+    expect(envVars).toEqual([
+      {
+        name: "YUPTIME_CRED_NATS_USERNAME",
+        valueFrom: { secretKeyRef: { name: "nats-probe", key: "user" } },
+      },
+      {
+        name: "YUPTIME_CRED_NATS_PASSWORD",
+        valueFrom: { secretKeyRef: { name: "nats-probe", key: "password" } },
+      },
+      {
+        name: "YUPTIME_CRED_NATS_TOKEN",
+        valueFrom: { secretKeyRef: { name: "nats-token", key: "token" } },
+      },
+    ]);
+  });
+
+  test("extracts MQTT credentials and CA bundle", () => {
+    const monitor = createTestMonitor({
+      mqtt: {
+        host: "mqtt.example.com",
+        credentialsSecretRef: { name: "mqtt-probe" },
+        tls: { enabled: true, caBundleSecretRef: { name: "mqtt-ca", key: "ca.crt" } },
+      },
+    });
+
+    const envVars = extractSecretEnvVars(monitor);
+
+    expect(envVars).toEqual([
+      {
+        name: "YUPTIME_CRED_MQTT_USERNAME",
+        valueFrom: { secretKeyRef: { name: "mqtt-probe", key: "username" } },
+      },
+      {
+        name: "YUPTIME_CRED_MQTT_PASSWORD",
+        valueFrom: { secretKeyRef: { name: "mqtt-probe", key: "password" } },
+      },
+      {
+        name: "YUPTIME_TLS_CA_BUNDLE",
+        valueFrom: { secretKeyRef: { name: "mqtt-ca", key: "ca.crt" } },
+      },
+    ]);
+  });
+
+  test("extracts mail server credentials", () => {
+    const monitor = createTestMonitor({
+      imap: {
+        host: "imap.example.com",
+        credentialsSecretRef: { name: "mail-probe", passwordKey: "app-password" },
+      },
+    });
+
+    const envVars = extractSecretEnvVars(monitor);
+
+    expect(envVars).toEqual([
+      {
+        name: "YUPTIME_CRED_MAIL_USERNAME",
+        valueFrom: { secretKeyRef: { name: "mail-probe", key: "username" } },
+      },
+      {
+        name: "YUPTIME_CRED_MAIL_PASSWORD",
+        valueFrom: { secretKeyRef: { name: "mail-probe", key: "app-password" } },
+      },
+    ]);
+  });
+
+  test("extracts the SSH private key and passphrase", () => {
+    const monitor = createTestMonitor({
+      ssh: {
+        host: "bastion.example.com",
+        auth: {
+          username: "probe",
+          privateKeySecretRef: { name: "probe-key", passphraseKey: "passphrase" },
+        },
+      },
+    });
+
+    const envVars = extractSecretEnvVars(monitor);
+
+    expect(envVars).toEqual([
+      {
+        name: "YUPTIME_CRED_SSH_PRIVATE_KEY",
+        valueFrom: { secretKeyRef: { name: "probe-key", key: "ssh-privatekey" } },
+      },
+      {
+        name: "YUPTIME_CRED_SSH_PASSPHRASE",
+        valueFrom: { secretKeyRef: { name: "probe-key", key: "passphrase" } },
+      },
+    ]);
+  });
+
+  test("extracts Docker TLS client certificates", () => {
+    const monitor = createTestMonitor({
+      docker: {
+        endpoint: "tcp://docker.example.com:2376",
+        container: "web",
+        tls: {
+          enabled: true,
+          secretRef: { name: "docker-certs" },
+        },
+      },
+    });
+
+    const envVars = extractSecretEnvVars(monitor);
+
+    expect(envVars).toHaveLength(3);
+    expect(envVars).toContainEqual({
+      name: "YUPTIME_CRED_DOCKER_TLS_CA",
+      valueFrom: { secretKeyRef: { name: "docker-certs", key: "ca.pem", optional: true } },
+    });
+    expect(envVars).toContainEqual({
+      name: "YUPTIME_CRED_DOCKER_TLS_CERT",
+      valueFrom: { secretKeyRef: { name: "docker-certs", key: "cert.pem" } },
+    });
+    expect(envVars).toContainEqual({
+      name: "YUPTIME_CRED_DOCKER_TLS_KEY",
+      valueFrom: { secretKeyRef: { name: "docker-certs", key: "key.pem" } },
+    });
+  });
+
+  test("extracts the mutual TLS client certificate", () => {
+    const monitor = createTestMonitor({
+      postgresql: {
+        host: "db.example.com",
+        credentialsSecretRef: { name: "pg-credentials" },
+        clientCertSecretRef: { name: "pg-client" },
+      },
+    });
+
+    const envVars = extractSecretEnvVars(monitor);
+
+    expect(envVars).toContainEqual({
+      name: "YUPTIME_TLS_CLIENT_CERT",
+      valueFrom: { secretKeyRef: { name: "pg-client", key: "tls.crt" } },
+    });
+    expect(envVars).toContainEqual({
+      name: "YUPTIME_TLS_CLIENT_KEY",
+      valueFrom: { secretKeyRef: { name: "pg-client", key: "tls.key" } },
+    });
+  });
+
+  test("extracts the TLS CA bundle", () => {
+    const monitor = createTestMonitor({
+      http: {
+        url: "https://internal.example.com",
+        tls: { caBundleSecretRef: { name: "internal-ca", key: "ca.crt" } },
+      },
+    });
+
+    const envVars = extractSecretEnvVars(monitor);
+
+    expect(envVars).toEqual([
+      {
+        name: "YUPTIME_TLS_CA_BUNDLE",
+        valueFrom: { secretKeyRef: { name: "internal-ca", key: "ca.crt" } },
+      },
+    ]);
+  });
+
   test("extracts HTTP basic auth credentials", () => {
     const monitor = createTestMonitor({
       http: {
@@ -196,6 +441,32 @@ describe("extractSecretEnvVars", () => {
     });
   });
 
+  test("extracts auth credentials of GraphQL targets", () => {
+    const monitor = createTestMonitor({
+      graphql: {
+        url: "https://api.example.com/graphql",
+        query: "{ viewer { id } }",
+        auth: {
+          bearer: {
+            tokenSecretRef: {
+              name: "graphql-token",
+              key: "token",
+            },
+          },
+        },
+      },
+    });
+
+    const envVars = extractSecretEnvVars(monitor);
+
+    expect(envVars).toEqual([
+      {
+        name: "YUPTIME_AUTH_BEARER_TOKEN",
+        valueFrom: { secretKeyRef: { name: "graphql-token", key: "token" } },
+      },
+    ]);
+  });
+
   test("extracts HTTP OAuth2 client credentials", () => {
     const monitor = createTestMonitor({
       http: {
@@ -254,6 +525,74 @@ describe("extractSecretEnvVars", () => {
   });
 });
 
+describe("extractProxyEnvVars", () => {
+  const clusterProxy = {
+    mode: "http" as const,
+    url: "http://proxy.corp:3128",
+    noProxy: ["localhost", ".svc"],
+  };
+
+  test("injects the monitor proxy URL and credentials from secrets", () => {
+    const monitor = createTestMonitor({
+      http: {
+        url: "https://example.com",
+        proxy: {
+          mode: "socks",
+          urlFromSecretRef: { name: "proxy-secret", key: "url" },
+          credentialsSecretRef: { name: "proxy-creds" },
+        },
+      },
+    });
+
+    const envVars = extractProxyEnvVars(monitor, clusterProxy);
+
+    expect(envVars).toEqual([
+      { name: "YUPTIME_PROXY_MODE", value: "socks" },
+      {
+        name: "YUPTIME_PROXY_URL",
+        valueFrom: { secretKeyRef: { name: "proxy-secret", key: "url" } },
+      },
+      {
+        name: "YUPTIME_PROXY_USERNAME",
+        valueFrom: { secretKeyRef: { name: "proxy-creds", key: "username" } },
+      },
+      {
+        name: "YUPTIME_PROXY_PASSWORD",
+        valueFrom: { secretKeyRef: { name: "proxy-creds", key: "password" } },
+      },
+    ]);
+  });
+
+  test("lets a monitor opt out of the cluster proxy", () => {
+    const monitor = createTestMonitor({
+      http: { url: "https://example.com", proxy: { mode: "none" } },
+    });
+
+    expect(extractProxyEnvVars(monitor, clusterProxy)).toEqual([]);
+  });
+
+  test("falls back to the cluster proxy with its exclusions", () => {
+    const monitor = createTestMonitor({
+      http: { url: "https://example.com" },
+    });
+
+    expect(extractProxyEnvVars(monitor, clusterProxy)).toEqual([
+      { name: "YUPTIME_PROXY_MODE", value: "http" },
+      { name: "YUPTIME_PROXY_URL", value: "http://proxy.corp:3128" },
+      { name: "YUPTIME_NO_PROXY", value: "localhost,.svc" },
+    ]);
+  });
+
+  test("skips monitor types that cannot be proxied", () => {
+    const monitor = createTestMonitor({
+      mysql: { host: "localhost", port: 3306 },
+    });
+    monitor.spec.type = "mysql";
+
+    expect(extractProxyEnvVars(monitor, clusterProxy)).toEqual([]);
+  });
+});
+
 describe("buildJobForMonitor", () => {
   test("includes secret env vars in job container", () => {
     const monitor = createTestMonitor({
@@ -310,6 +649,49 @@ describe("buildJobForMonitor", () => {
     });
   });
 
+  test("does not disable TLS verification in the checker pod", () => {
+    const monitor = createTestMonitor({
+      http: { url: "https://example.com" },
+    });
+
+    const job = buildJobForMonitor(monitor, 0);
+
+    const env = job.spec?.template?.spec?.containers?.[0]?.env ?? [];
+    expect(env.map((envVar) => envVar.name)).not.toContain("NODE_TLS_REJECT_UNAUTHORIZED");
+  });
+
+  test("mounts the host Docker socket for unix endpoints", () => {
+    const monitor = createTestMonitor({
+      docker: { endpoint: "unix:///run/docker.sock", container: "web" },
+    });
+    monitor.spec.type = "docker";
+
+    const job = buildJobForMonitor(monitor, 0);
+
+    const podSpec = job.spec?.template?.spec;
+    expect(podSpec?.volumes).toContainEqual({
+      name: "docker-socket",
+      hostPath: { path: "/run/docker.sock", type: "Socket" },
+    });
+    expect(podSpec?.containers?.[0]?.volumeMounts).toContainEqual({
+      name: "docker-socket",
+      mountPath: "/run/docker.sock",
+    });
+  });
+
+  test("does not mount the Docker socket for tcp endpoints", () => {
+    const monitor = createTestMonitor({
+      docker: { endpoint: "tcp://docker.example.com:2376", container: "web" },
+    });
+    monitor.spec.type = "docker";
+
+    const job = buildJobForMonitor(monitor, 0);
+
+    const podSpec = job.spec?.template?.spec;
+    expect(podSpec?.volumes?.map((volume) => volume.name)).toEqual(["tmp"]);
+    expect(podSpec?.containers?.[0]?.volumeMounts?.map((mount) => mount.name)).toEqual(["tmp"]);
+  });
+
   test("uses yuptime-checker service account", () => {
     const monitor = createTestMonitor({
       http: { url: "https://example.com" },
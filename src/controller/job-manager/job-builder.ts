@@ -3,12 +3,30 @@
  * Builds Kubernetes Job manifests from Monitor CRDs
  */
 
-import type { V1EnvVar, V1Job } from "@kubernetes/client-node";
+import type { V1EnvVar, V1Job, V1Volume, V1VolumeMount } from "@kubernetes/client-node";
+import { getGlobalSettings } from "../reconcilers/auth-and-config-reconcilers";
 import type { Monitor } from "./types";
 
 // Default checker image from environment or fallback
 const DEFAULT_CHECKER_IMAGE = process.env.CHECKER_IMAGE || "yuptime-checker:latest";
 
+// Monitor types whose checkers can connect through a proxy
+const PROXIED_MONITOR_TYPES = new Set([
+  "http",
+  "keyword",
+  "jsonQuery",
+  "xmlQuery",
+  "htmlQuery",
+  "httpSteps",
+  "graphql",
+  "websocket",
+  "tcp",
+]);
+
+type ClusterProxySettings = NonNullable<
+  NonNullable<ReturnType<typeof getGlobalSettings>["networking"]>["proxy"]
+>;
+
 /**
  * Extract secret-backed environment variables from monitor spec.
  * These are injected into the Job pod using Kubernetes valueFrom.secretKeyRef,
@@ -78,10 +96,221 @@ export function extractSecretEnvVars(monitor: Monitor): V1EnvVar[] {
     });
   }
 
-  // HTTP authentication secrets
-  if (target.http?.auth) {
-    const auth = target.http.auth;
+  // MongoDB credentials (optional - only if credentialsSecretRef is defined)
+  if (target.mongodb?.credentialsSecretRef) {
+    const ref = target.mongodb.credentialsSecretRef;
+    envVars.push({
+      name: "YUPTIME_CRED_MONGODB_USERNAME",
+      valueFrom: {
+        secretKeyRef: {
+          name: ref.name,
+          key: ref.usernameKey ?? "username",
+        },
+      },
+    });
+    envVars.push({
+      name: "YUPTIME_CRED_MONGODB_PASSWORD",
+      valueFrom: {
+        secretKeyRef: {
+          name: ref.name,
+          key: ref.passwordKey ?? "password",
+        },
+      },
+    });
+  }
+
+  // Message broker credentials (kafka SASL, amqp, nats and mqtt users)
+  const brokerCredentials = [
+    { prefix: "KAFKA", ref: target.kafka?.sasl?.credentialsSecretRef },
+    { prefix: "AMQP", ref: target.amqp?.credentialsSecretRef },
+    { prefix: "NATS", ref: target.nats?.credentialsSecretRef },
+    { prefix: "MQTT", ref: target.mqtt?.credentialsSecretRef },
+  ];
+  for (const { prefix, ref } of brokerCredentials) {
+    if (!ref) continue;
+    envVars.push({
+      name: `YUPTIME_CRED_${prefix}_USERNAME`,
+      valueFrom: {
+        secretKeyRef: {
+          name: ref.name,
+          key: ref.usernameKey ?? "username",
+        },
+      },
+    });
+    envVars.push({
+      name: `YUPTIME_CRED_${prefix}_PASSWORD`,
+      valueFrom: {
+        secretKeyRef: {
+          name: ref.name,
+          key: ref.passwordKey ?? "password",
+        },
+      },
+    });
+  }
+
+  // NATS token
+  if (target.nats?.tokenSecretRef) {
+    const ref = target.nats.tokenSecretRef;
+    envVars.push({
+      name: "YUPTIME_CRED_NATS_TOKEN",
+      valueFrom: {
+        secretKeyRef: {
+          name: ref.name,
+          key: ref.key,
+        },
+      },
+    });
+  }
+
+  // Mail server credentials (smtp, imap and pop3)
+  const mailCredentialsRef =
+    target.smtp?.credentialsSecretRef ??
+    target.imap?.credentialsSecretRef ??
+    target.pop3?.credentialsSecretRef;
+  if (mailCredentialsRef) {
+    envVars.push({
+      name: "YUPTIME_CRED_MAIL_USERNAME",
+      valueFrom: {
+        secretKeyRef: {
+          name: mailCredentialsRef.name,
+          key: mailCredentialsRef.usernameKey ?? "username",
+        },
+      },
+    });
+    envVars.push({
+      name: "YUPTIME_CRED_MAIL_PASSWORD",
+      valueFrom: {
+        secretKeyRef: {
+          name: mailCredentialsRef.name,
+          key: mailCredentialsRef.passwordKey ?? "password",
+        },
+      },
+    });
+  }
+
+  // SSH private key (and its passphrase, if encrypted)
+  if (target.ssh?.auth?.privateKeySecretRef) {
+    const ref = target.ssh.auth.privateKeySecretRef;
+    envVars.push({
+      name: "YUPTIME_CRED_SSH_PRIVATE_KEY",
+      valueFrom: {
+        secretKeyRef: {
+          name: ref.name,
+          key: ref.key ?? "ssh-privatekey",
+        },
+      },
+    });
+    if (ref.passphraseKey) {
+      envVars.push({
+        name: "YUPTIME_CRED_SSH_PASSPHRASE",
+        valueFrom: {
+          secretKeyRef: {
+            name: ref.name,
+            key: ref.passphraseKey,
+          },
+        },
+      });
+    }
+  }
+
+  // Docker Engine TLS client certificates
+  if (target.docker?.tls?.secretRef) {
+    const ref = target.docker.tls.secretRef;
+    envVars.push({
+      name: "YUPTIME_CRED_DOCKER_TLS_CA",
+      valueFrom: {
+        secretKeyRef: {
+          name: ref.name,
+          key: ref.caKey ?? "ca.pem",
+          optional: true,
+        },
+      },
+    });
+    envVars.push({
+      name: "YUPTIME_CRED_DOCKER_TLS_CERT",
+      valueFrom: {
+        secretKeyRef: {
+          name: ref.name,
+          key: ref.certKey ?? "cert.pem",
+        },
+      },
+    });
+    envVars.push({
+      name: "YUPTIME_CRED_DOCKER_TLS_KEY",
+      valueFrom: {
+        secretKeyRef: {
+          name: ref.name,
+          key: ref.keyKey ?? "key.pem",
+        },
+      },
+    });
+  }
+
+  // Custom CA bundle for TLS verification (http, tcp, grpc, databases, brokers and mail)
+  const caBundleRef =
+    target.http?.tls?.caBundleSecretRef ??
+    target.tcp?.tls?.caBundleSecretRef ??
+    target.grpc?.tls?.caBundleSecretRef ??
+    target.mysql?.tls?.caBundleSecretRef ??
+    target.postgresql?.caBundleSecretRef ??
+    target.redis?.tls?.caBundleSecretRef ??
+    target.mongodb?.tls?.caBundleSecretRef ??
+    target.kafka?.tls?.caBundleSecretRef ??
+    target.amqp?.tls?.caBundleSecretRef ??
+    target.nats?.tls?.caBundleSecretRef ??
+    target.mqtt?.tls?.caBundleSecretRef ??
+    target.smtp?.tls?.caBundleSecretRef ??
+    target.imap?.tls?.caBundleSecretRef ??
+    target.pop3?.tls?.caBundleSecretRef;
+  if (caBundleRef) {
+    envVars.push({
+      name: "YUPTIME_TLS_CA_BUNDLE",
+      valueFrom: {
+        secretKeyRef: {
+          name: caBundleRef.name,
+          key: caBundleRef.key,
+        },
+      },
+    });
+  }
+
+  // Client certificate for mutual TLS
+  const clientCertRef =
+    target.http?.tls?.clientCertSecretRef ??
+    target.tcp?.tls?.clientCertSecretRef ??
+    target.grpc?.tls?.clientCertSecretRef ??
+    target.mysql?.tls?.clientCertSecretRef ??
+    target.postgresql?.clientCertSecretRef ??
+    target.redis?.tls?.clientCertSecretRef ??
+    target.mongodb?.tls?.clientCertSecretRef ??
+    target.kafka?.tls?.clientCertSecretRef ??
+    target.amqp?.tls?.clientCertSecretRef ??
+    target.nats?.tls?.clientCertSecretRef ??
+    target.mqtt?.tls?.clientCertSecretRef;
+  if (clientCertRef) {
+    envVars.push({
+      name: "YUPTIME_TLS_CLIENT_CERT",
+      valueFrom: {
+        secretKeyRef: {
+          name: clientCertRef.name,
+          key: clientCertRef.certKey ?? "tls.crt",
+        },
+      },
+    });
+    envVars.push({
+      name: "YUPTIME_TLS_CLIENT_KEY",
+      valueFrom: {
+        secretKeyRef: {
+          name: clientCertRef.name,
+          key: clientCertRef.keyKey ?? "tls.key",
+        },
+      },
+    });
+  }
 
+  // HTTP authentication secrets (http, graphql and prometheus)
+  const auth = target.http?.auth ?? target.graphql?.auth ?? target.prometheus?.auth;
+  if (auth) {
     // Basic auth
     if (auth.basic?.secretRef) {
       const ref = auth.basic.secretRef;
@@ -146,6 +375,101 @@ export function extractSecretEnvVars(monitor: Monitor): V1EnvVar[] {
   return envVars;
 }
 
+/**
+ * Extract proxy environment variables for the checker pod.
+ * A proxy block on the monitor target wins (mode none disables proxying);
+ * otherwise the cluster-wide YuptimeSettings.networking.proxy applies.
+ */
+export function extractProxyEnvVars(
+  monitor: Monitor,
+  clusterProxy: ClusterProxySettings | undefined = getGlobalSettings().networking?.proxy,
+): V1EnvVar[] {
+  if (!PROXIED_MONITOR_TYPES.has(monitor.spec.type)) {
+    return [];
+  }
+
+  const target = monitor.spec.target;
+  const proxy =
+    target.http?.proxy ?? target.graphql?.proxy ?? target.websocket?.proxy ?? target.tcp?.proxy;
+
+  if (proxy) {
+    const mode = proxy.mode ?? "none";
+    if (mode === "none") {
+      return [];
+    }
+
+    const envVars: V1EnvVar[] = [{ name: "YUPTIME_PROXY_MODE", value: mode }];
+
+    if (proxy.urlFromSecretRef) {
+      envVars.push({
+        name: "YUPTIME_PROXY_URL",
+        valueFrom: {
+          secretKeyRef: {
+            name: proxy.urlFromSecretRef.name,
+            key: proxy.urlFromSecretRef.key,
+          },
+        },
+      });
+    } else if (proxy.url) {
+      envVars.push({ name: "YUPTIME_PROXY_URL", value: proxy.url });
+    }
+
+    if (proxy.credentialsSecretRef) {
+      const ref = proxy.credentialsSecretRef;
+      envVars.push({
+        name: "YUPTIME_PROXY_USERNAME",
+        valueFrom: {
+          secretKeyRef: {
+            name: ref.name,
+            key: ref.usernameKey ?? "username",
+          },
+        },
+      });
+      envVars.push({
+        name: "YUPTIME_PROXY_PASSWORD",
+        valueFrom: {
+          secretKeyRef: {
+            name: ref.name,
+            key: ref.passwordKey ?? "password",
+          },
+        },
+      });
+    }
+
+    return envVars;
+  }
+
+  if (!clusterProxy?.mode || clusterProxy.mode === "none" || !clusterProxy.url) {
+    return [];
+  }
+
+  return [
+    { name: "YUPTIME_PROXY_MODE", value: clusterProxy.mode },
+    { name: "YUPTIME_PROXY_URL", value: clusterProxy.url },
+    { name: "YUPTIME_NO_PROXY", value: (clusterProxy.noProxy ?? []).join(",") },
+  ];
+}
+
+/**
+ * Mount the host's Docker socket for docker monitors with a unix:// endpoint
+ * The checker reaches the socket of the node its pod is scheduled on.
+ */
+export function extractDockerSocketMount(monitor: Monitor): {
+  volumes: V1Volume[];
+  volumeMounts: V1VolumeMount[];
+} {
+  const endpoint = monitor.spec.target?.docker?.endpoint ?? "unix:///var/run/docker.sock";
+  if (monitor.spec.type !== "docker" || !endpoint.startsWith("unix://")) {
+    return { volumes: [], volumeMounts: [] };
+  }
+
+  const socketPath = endpoint.slice("unix://".length);
+  return {
+    volumes: [{ name: "docker-socket", hostPath: { path: socketPath, type: "Socket" } }],
+    volumeMounts: [{ name: "docker-socket", mountPath: socketPath }],
+  };
+}
+
 /**
  * Build a Kubernetes Job manifest for a monitor check
  */
@@ -159,6 +483,7 @@ export function buildJobForMonitor(
   // Sanitize monitor ID for Kubernetes labels (replace '/' with '-')
   const monitorLabelId = monitorId.replace(/\//g, "-");
   const timestamp = Date.now();
+  const dockerSocket = extractDockerSocketMount(monitor);
 
   return {
     apiVersion: "batch/v1",
@@ -224,18 +549,17 @@ export function buildJobForMonitor(
                   name: "NODE_ENV",
                   value: process.env.NODE_ENV || "production",
                 },
-                {
-                  name: "NODE_TLS_REJECT_UNAUTHORIZED",
-                  value: "0",
-                },
                 // Inject secret-backed credentials from Monitor spec
                 ...extractSecretEnvVars(monitor),
+                // Egress proxy from the Monitor or YuptimeSettings
+                ...extractProxyEnvVars(monitor),
               ],
               volumeMounts: [
                 {
                   name: "tmp",
                   mountPath: "/tmp",
                 },
+                ...dockerSocket.volumeMounts,
               ],
               resources: {
                 requests: {
@@ -262,6 +586,7 @@ export function buildJobForMonitor(
               name: "tmp",
               emptyDir: {},
             },
+            ...dockerSocket.volumes,
           ],
         },
       },
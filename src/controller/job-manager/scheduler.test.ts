@@ -0,0 +1,275 @@
+import { describe, expect, test } from "bun:test";
+import type { Monitor } from "../../types/crd";
+import { calculateJitter } from "./jitter";
+import { createCheckScheduler, type SchedulerTimers } from "./scheduler";
+
+/**
+ * Manually advanced clock for driving the scheduler in tests
+ */
+function createFakeTimers() {
+  let now = 0;
+  let nextId = 1;
+  const pending = new Map<number, { at: number; callback: () => void }>();
+
+  const timers: SchedulerTimers = {
+    setTimeout: (callback, ms) => {
+      const id = nextId++;
+      pending.set(id, { at: now + ms, callback });
+      return id as unknown as ReturnType<typeof setTimeout>;
+    },
+    clearTimeout: (handle) => {
+      pending.delete(handle as unknown as number);
+    },
+    now: () => now,
+  };
+
+  const advance = async (ms: number) => {
+    const target = now + ms;
+    for (;;) {
+      let dueId: number | undefined;
+      let dueAt = Number.POSITIVE_INFINITY;
+      for (const [id, timer] of pending) {
+        if (timer.at <= target && timer.at < dueAt) {
+          dueId = id;
+          dueAt = timer.at;
+        }
+      }
+      if (dueId === undefined) break;
+
+      const timer = pending.get(dueId);
+      pending.delete(dueId);
+      now = dueAt;
+      timer?.callback();
+
+      // Let the in-flight run settle before the next timer fires
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    now = target;
+  };
+
+  return { timers, advance, pendingCount: () => pending.size };
+}
+
+function createMonitor(overrides?: {
+  name?: string;
+  generation?: number;
+  intervalSeconds?: number;
+  jitterPercent?: number;
+  initialDelaySeconds?: number;
+}): Monitor {
+  return {
+    apiVersion: "monitoring.yuptime.io/v1",
+    kind: "Monitor",
+    metadata: {
+      name: overrides?.name ?? "test",
+      namespace: "default",
+      generation: overrides?.generation ?? 1,
+    },
+    spec: {
+      enabled: true,
+      type: "tcp",
+      schedule: {
+        intervalSeconds: overrides?.intervalSeconds ?? 60,
+        timeoutSeconds: 10,
+        jitterPercent: overrides?.jitterPercent ?? 0,
+        initialDelaySeconds: overrides?.initialDelaySeconds,
+      },
+      target: { tcp: { host: "example.com", port: 443 } },
+    },
+  } as Monitor;
+}
+
+const noop = async () => undefined;
+
+describe("createCheckScheduler", () => {
+  test("runs checks every intervalSeconds", async () => {
+    const { timers, advance } = createFakeTimers();
+    const scheduler = createCheckScheduler({ timers });
+    let runs = 0;
+
+    scheduler.schedule(createMonitor(), async () => {
+      runs++;
+    });
+
+    await advance(0);
+    expect(runs).toBe(1);
+
+    await advance(60_000);
+    expect(runs).toBe(2);
+
+    await advance(120_000);
+    expect(runs).toBe(4);
+  });
+
+  test("delays the first run by initialDelaySeconds plus jitter", async () => {
+    const { timers, advance } = createFakeTimers();
+    const scheduler = createCheckScheduler({ timers });
+    const monitor = createMonitor({ jitterPercent: 10, initialDelaySeconds: 5 });
+    const jitterMs = calculateJitter("default", "test", 10, 60);
+    let runs = 0;
+
+    scheduler.schedule(monitor, async () => {
+      runs++;
+    });
+
+    expect(scheduler.getNextRunAt("default", "test")?.getTime()).toBe(5000 + jitterMs);
+
+    await advance(5000 + jitterMs - 1);
+    expect(runs).toBe(0);
+
+    await advance(1);
+    expect(runs).toBe(1);
+    expect(scheduler.getNextRunAt("default", "test")?.getTime()).toBe(
+      5000 + jitterMs + 60_000 + jitterMs,
+    );
+  });
+
+  test("respects an explicit jitterPercent of 0", () => {
+    const { timers } = createFakeTimers();
+    const scheduler = createCheckScheduler({ timers });
+
+    scheduler.schedule(createMonitor({ jitterPercent: 0 }), noop);
+
+    expect(scheduler.getNextRunAt("default", "test")?.getTime()).toBe(0);
+  });
+
+  test("keeps the existing timer when generation is unchanged", async () => {
+    const { timers, advance, pendingCount } = createFakeTimers();
+    const scheduler = createCheckScheduler({ timers });
+    let runs = 0;
+    const run = async () => {
+      runs++;
+    };
+
+    expect(scheduler.schedule(createMonitor(), run)).toBe(true);
+    await advance(30_000);
+    expect(scheduler.schedule(createMonitor(), run)).toBe(false);
+
+    expect(pendingCount()).toBe(1);
+    expect(scheduler.getNextRunAt("default", "test")?.getTime()).toBe(60_000);
+
+    await advance(30_000);
+    expect(runs).toBe(2);
+  });
+
+  test("reschedules when the generation changes", async () => {
+    const { timers, advance, pendingCount } = createFakeTimers();
+    const scheduler = createCheckScheduler({ timers });
+    const intervals: number[] = [];
+    const run = async (monitor: Monitor) => {
+      intervals.push(monitor.spec.schedule.intervalSeconds);
+    };
+
+    scheduler.schedule(createMonitor({ intervalSeconds: 60 }), run);
+    await advance(0);
+
+    expect(
+      scheduler.schedule(
+        createMonitor({ generation: 2, intervalSeconds: 30, initialDelaySeconds: 1 }),
+        run,
+      ),
+    ).toBe(true);
+    expect(pendingCount()).toBe(1);
+
+    await advance(1000);
+    await advance(30_000);
+    expect(intervals).toEqual([60, 30, 30]);
+  });
+
+  test("stops running after unschedule", async () => {
+    const { timers, advance, pendingCount } = createFakeTimers();
+    const scheduler = createCheckScheduler({ timers });
+    let runs = 0;
+
+    scheduler.schedule(createMonitor(), async () => {
+      runs++;
+    });
+    await advance(0);
+
+    expect(scheduler.unschedule("default", "test")).toBe(true);
+    expect(scheduler.isScheduled("default", "test")).toBe(false);
+    expect(pendingCount()).toBe(0);
+
+    await advance(300_000);
+    expect(runs).toBe(1);
+    expect(scheduler.unschedule("default", "test")).toBe(false);
+  });
+
+  test("stopAll clears every monitor", () => {
+    const { timers, pendingCount } = createFakeTimers();
+    const scheduler = createCheckScheduler({ timers });
+
+    scheduler.schedule(createMonitor({ name: "a" }), noop);
+    scheduler.schedule(createMonitor({ name: "b" }), noop);
+    expect(scheduler.size()).toBe(2);
+
+    scheduler.stopAll();
+    expect(scheduler.size()).toBe(0);
+    expect(pendingCount()).toBe(0);
+  });
+
+  test("reports each armed run through onNextRun", async () => {
+    const { timers, advance } = createFakeTimers();
+    const nextRuns: number[] = [];
+    const scheduler = createCheckScheduler({
+      timers,
+      onNextRun: (_monitor, nextRunAt) => {
+        nextRuns.push(nextRunAt.getTime());
+      },
+    });
+
+    scheduler.schedule(createMonitor(), noop);
+    await advance(60_000);
+
+    expect(nextRuns).toEqual([0, 60_000, 120_000]);
+  });
+
+  test("retries a pending monitor after retryIntervalSeconds", async () => {
+    const { timers, advance } = createFakeTimers();
+    const scheduler = createCheckScheduler({ timers });
+    let runs = 0;
+    const run = async () => {
+      runs++;
+    };
+    const monitor = createMonitor();
+    monitor.spec.schedule.retries = { maxRetries: 3, retryIntervalSeconds: 10 };
+
+    scheduler.schedule(monitor, run);
+    await advance(0);
+    expect(runs).toBe(1);
+
+    // Status update reports an unconfirmed failure from the first run
+    await advance(5000);
+    const pending = {
+      ...monitor,
+      status: {
+        lastResult: { state: "pending" as const, checkedAt: "1970-01-01T00:00:05Z", attempts: 1 },
+      },
+    };
+    scheduler.schedule(pending, run);
+    expect(scheduler.getNextRunAt("default", "test")?.getTime()).toBe(15_000);
+
+    // Repeated events for the same result don't re-arm
+    scheduler.schedule(pending, run);
+    await advance(10_000);
+    expect(runs).toBe(2);
+    expect(scheduler.getNextRunAt("default", "test")?.getTime()).toBe(75_000);
+  });
+
+  test("keeps scheduling after a failed run", async () => {
+    const { timers, advance } = createFakeTimers();
+    const scheduler = createCheckScheduler({ timers });
+    let runs = 0;
+
+    scheduler.schedule(createMonitor(), async () => {
+      runs++;
+      throw new Error("job creation failed");
+    });
+
+    await advance(0);
+    await advance(60_000);
+
+    expect(runs).toBe(2);
+    expect(scheduler.isScheduled("default", "test")).toBe(true);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Check Scheduler
+ * Re-arms a timer per monitor so checks run every schedule.intervalSeconds
+ *
+ * Each monitor gets a deterministic jitter offset (see jitter.ts) and is
+ * rescheduled only when its spec generation changes.
+ */
+
+import { logger } from "../../lib/logger";
+import type { Monitor } from "../../types/crd";
+import { calculateJitter, rescheduleJob } from "./jitter";
+
+/**
+ * Timer functions used by the scheduler (injectable for testing)
+ */
+export interface SchedulerTimers {
+  setTimeout: (callback: () => void, ms: number) => ReturnType<typeof setTimeout>;
+  clearTimeout: (handle: ReturnType<typeof setTimeout>) => void;
+  now: () => number;
+}
+
+/**
+ * Function executed each time a monitor is due
+ */
+export type ScheduledRun = (monitor: Monitor) => Promise<void>;
+
+/**
+ * Check scheduler configuration
+ */
+export interface CheckSchedulerConfig {
+  /** Called whenever the next run of a monitor has been armed */
+  onNextRun?: (monitor: Monitor, nextRunAt: Date) => void | Promise<void>;
+  timers?: SchedulerTimers;
+}
+
+/**
+ * Scheduled monitor entry
+ */
+interface ScheduledEntry {
+  monitor: Monitor;
+  generation: number;
+  intervalSeconds: number;
+  jitterMs: number;
+  nextRunAt: Date;
+  handle: ReturnType<typeof setTimeout>;
+  run: ScheduledRun;
+  running: boolean;
+  /** checkedAt of the pending result a retry was already armed for */
+  retriedResultAt?: string;
+}
+
+const defaultTimers: SchedulerTimers = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle),
+  now: () => Date.now(),
+};
+
+/**
+ * Create a new check scheduler
+ */
+export function createCheckScheduler(config: CheckSchedulerConfig = {}) {
+  const timers = config.timers ?? defaultTimers;
+  const entries = new Map<string, ScheduledEntry>();
+
+  /**
+   * Arm the timer for an entry and notify listeners
+   */
+  function arm(monitorId: string, entry: ScheduledEntry, delayMs: number) {
+    entry.nextRunAt = new Date(timers.now() + delayMs);
+    entry.handle = timers.setTimeout(() => {
+      fire(monitorId, entry);
+    }, delayMs);
+
+    if (config.onNextRun) {
+      Promise.resolve(config.onNextRun(entry.monitor, entry.nextRunAt)).catch((error) => {
+        logger.warn({ monitorId, error }, "Failed to record next run time");
+      });
+    }
+  }
+
+  /**
+   * Execute a due check and re-arm for the next interval
+   */
+  function fire(monitorId: string, entry: ScheduledEntry) {
+    // Entry was replaced or removed while the timer was pending
+    if (entries.get(monitorId) !== entry) {
+      return;
+    }
+
+    if (entry.running) {
+      logger.warn({ monitorId }, "Previous check still being scheduled, skipping this run");
+    } else {
+      entry.running = true;
+      entry
+        .run(entry.monitor)
+        .catch((error) => {
+          logger.error({ monitorId, error }, "Scheduled check failed");
+        })
+        .finally(() => {
+          entry.running = false;
+        });
+    }
+
+    const nextRunAt = rescheduleJob(new Date(timers.now()), entry.intervalSeconds, entry.jitterMs);
+    arm(monitorId, entry, nextRunAt.getTime() - timers.now());
+  }
+
+  /**
+   * Bring the next run forward to retryIntervalSeconds while a failure is pending
+   */
+  function expediteRetry(monitorId: string, entry: ScheduledEntry) {
+    const lastResult = entry.monitor.status?.lastResult;
+    const retryIntervalSeconds = entry.monitor.spec.schedule.retries?.retryIntervalSeconds;
+
+    if (lastResult?.state !== "pending" || !retryIntervalSeconds) {
+      return;
+    }
+
+    // Only once per result, so status updates don't keep re-triggering runs
+    if (entry.retriedResultAt === lastResult.checkedAt) {
+      return;
+    }
+
+    const retryAt = new Date(lastResult.checkedAt).getTime() + retryIntervalSeconds * 1000;
+    if (Number.isNaN(retryAt) || retryAt >= entry.nextRunAt.getTime()) {
+      return;
+    }
+
+    entry.retriedResultAt = lastResult.checkedAt;
+    timers.clearTimeout(entry.handle);
+    arm(monitorId, entry, Math.max(retryAt - timers.now(), 0));
+
+    logger.debug({ monitorId, retryAt: new Date(retryAt) }, "Retrying pending monitor early");
+  }
+
+  /**
+   * Schedule (or reschedule) recurring checks for a monitor
+   * Returns false if the monitor was already scheduled for the same generation.
+   */
+  function schedule(monitor: Monitor, run: ScheduledRun): boolean {
+    const namespace = monitor.metadata.namespace;
+    const name = monitor.metadata.name;
+    const monitorId = `${namespace}/${name}`;
+    const generation = monitor.metadata.generation ?? 0;
+
+    const existing = entries.get(monitorId);
+    if (existing && existing.generation === generation) {
+      // Keep the latest object for the next run without resetting the timer
+      existing.monitor = monitor;
+      existing.run = run;
+      expediteRetry(monitorId, existing);
+      return false;
+    }
+
+    if (existing) {
+      timers.clearTimeout(existing.handle);
+      entries.delete(monitorId);
+    }
+
+    const intervalSeconds = monitor.spec.schedule.intervalSeconds;
+    const jitterPercent = monitor.spec.schedule.jitterPercent ?? 5;
+    const jitterMs = calculateJitter(namespace, name, jitterPercent, intervalSeconds);
+    const initialDelayMs = (monitor.spec.schedule.initialDelaySeconds ?? 0) * 1000;
+
+    const entry: ScheduledEntry = {
+      monitor,
+      generation,
+      intervalSeconds,
+      jitterMs,
+      nextRunAt: new Date(timers.now()),
+      handle: undefined as unknown as ReturnType<typeof setTimeout>,
+      run,
+      running: false,
+    };
+
+    entries.set(monitorId, entry);
+    arm(monitorId, entry, initialDelayMs + jitterMs);
+
+    logger.debug(
+      { monitorId, generation, intervalSeconds, jitterMs, nextRunAt: entry.nextRunAt },
+      existing ? "Monitor rescheduled after spec change" : "Monitor scheduled",
+    );
+
+    return true;
+  }
+
+  /**
+   * Stop recurring checks for a monitor
+   */
+  function unschedule(namespace: string, name: string): boolean {
+    const monitorId = `${namespace}/${name}`;
+    const entry = entries.get(monitorId);
+    if (!entry) {
+      return false;
+    }
+
+    timers.clearTimeout(entry.handle);
+    entries.delete(monitorId);
+    logger.debug({ monitorId }, "Monitor unscheduled");
+    return true;
+  }
+
+  /**
+   * Check whether a monitor has recurring checks armed
+   */
+  function isScheduled(namespace: string, name: string): boolean {
+    return entries.has(`${namespace}/${name}`);
+  }
+
+  /**
+   * Get the next run time for a monitor
+   */
+  function getNextRunAt(namespace: string, name: string): Date | undefined {
+    return entries.get(`${namespace}/${name}`)?.nextRunAt;
+  }
+
+  /**
+   * Stop all scheduled monitors
+   */
+  function stopAll() {
+    for (const entry of entries.values()) {
+      timers.clearTimeout(entry.handle);
+    }
+    entries.clear();
+  }
+
+  return {
+    schedule,
+    unschedule,
+    isScheduled,
+    getNextRunAt,
+    stopAll,
+    size: () => entries.size,
+  };
+}
+
+export type CheckScheduler = ReturnType<typeof createCheckScheduler>;
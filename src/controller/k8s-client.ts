@@ -1,3 +1,4 @@
+import type { RequestOptions } from "node:https";
 import {
   AppsV1Api,
   BatchV1Api,
@@ -37,11 +38,6 @@ export function initializeK8sClient(): KubeConfig {
     }
   }
 
-  // Accept self-signed certificates (for local development clusters like OrbStack, minikube)
-  // Note: skipTLSVerify is read-only in newer versions, must be set via environment
-  process.env.NODE_TLS_REJECT_UNAUTHORIZED = "0";
-  logger.info("Kubernetes client: accepting self-signed certificates");
-
   return kubeConfig;
 }
 
@@ -75,8 +71,8 @@ export function createCRDWatcher(
           ? `/apis/${group}/${version}/namespaces/${namespace}/${plural}`
           : `/apis/${group}/${version}/${plural}`;
 
-        // Make a direct request using the KubeConfig
-        const opts: Record<string, unknown> = {};
+        // Make a direct request using the KubeConfig (auth headers, cluster CA, client cert)
+        const opts: RequestOptions = {};
         await kc.applyToHTTPSOptions(opts);
 
         const cluster = kc.getCurrentCluster();
@@ -90,10 +86,14 @@ export function createCRDWatcher(
           method: "GET",
           headers: {
             Accept: "application/json",
-            ...(opts.headers || {}),
+            ...(opts.headers as Record<string, string> | undefined),
           },
           tls: {
-            rejectUnauthorized: false, // For self-signed certs in dev
+            ...(opts.ca && { ca: opts.ca as string | Buffer }),
+            ...(opts.cert && { cert: opts.cert as string | Buffer }),
+            ...(opts.key && { key: opts.key as string | Buffer }),
+            // Only skipped when the kubeconfig explicitly asks for it
+            rejectUnauthorized: !cluster.skipTLSVerify,
           },
         });
 
@@ -1,5 +1,6 @@
 import { logger } from "../../lib/logger";
-import type { Silence, YuptimeSettings } from "../../types/crd";
+import { matchesSelector, type SelectorTarget } from "../../lib/selectors";
+import type { Selector, Silence, SilenceSpec, YuptimeSettings } from "../../types/crd";
 import { SilenceSchema, YuptimeSettingsSchema } from "../../types/crd";
 import type { ReconcileContext } from "./types";
 import { createTypeSafeReconciler } from "./types";
@@ -24,18 +25,16 @@ const validateSilence = typedComposeValidators(
   validateSilenceExpiry,
 );
 
+// Largest delay setTimeout accepts without firing immediately
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
 const silenceCache = new Map<
   string,
   {
     namespace: string;
     name: string;
     expiresAt: Date;
-    match: {
-      names?: Array<{ namespace: string; name: string }> | undefined;
-      namespaces?: string[] | undefined;
-      labels?: Record<string, string> | undefined;
-      tags?: string[] | undefined;
-    };
+    match: SilenceSpec["match"];
     reason?: string | undefined;
   }
 >();
@@ -67,10 +66,16 @@ const reconcileSilence = async (resource: Silence, _ctx: ReconcileContext) => {
 
     if (expiresInMs > 0) {
       // Setup expiry timer to remove from cache when silence expires
-      setTimeout(() => {
-        silenceCache.delete(silenceKey);
-        logger.info({ namespace, name }, "Silence expired and removed from cache");
-      }, expiresInMs);
+      // Longer delays overflow setTimeout; getActiveSilences checks expiry anyway
+      if (expiresInMs <= MAX_TIMER_DELAY_MS) {
+        setTimeout(() => {
+          // Only evict if the silence wasn't updated with a new expiry since
+          if (silenceCache.get(silenceKey) === silenceData) {
+            silenceCache.delete(silenceKey);
+            logger.info({ namespace, name }, "Silence expired and removed from cache");
+          }
+        }, expiresInMs);
+      }
 
       logger.debug(
         { namespace, name, expiresIn: Math.floor(expiresInMs / 1000) },
@@ -90,74 +95,61 @@ const reconcileSilence = async (resource: Silence, _ctx: ReconcileContext) => {
 };
 
 /**
- * Get all active silences that match given labels
+ * Active silence matching a monitor
  */
-export const getActiveSilences = (
-  labels: Record<string, string> = {},
-): Array<{
+export interface ActiveSilence {
   namespace: string;
   name: string;
   expiresAt: Date;
-  match: {
-    names?: Array<{ namespace: string; name: string }>;
-    namespaces?: string[];
-    labels?: Record<string, string>;
-    tags?: string[];
-  };
-  reason?: string;
-}> => {
-  const now = new Date();
-  const matchingSilences: Array<{
-    namespace: string;
-    name: string;
-    expiresAt: Date;
-    match: {
-      names?: Array<{ namespace: string; name: string }>;
-      namespaces?: string[];
-      labels?: Record<string, string>;
-      tags?: string[];
-    };
-    reason?: string;
-  }> = [];
+  reason?: string | undefined;
+}
 
-  for (const silence of silenceCache.values()) {
-    // Check if silence is currently active (before expiry time)
-    if (now <= silence.expiresAt) {
-      // Check if match matches the labels
-      const match = silence.match;
-      let matches = true;
-
-      if (match?.names && match.names.length > 0) {
-        // Check name-based matching
-        // This would require namespace/name context
-        // For now, continue if names are specified
-        continue;
-      }
+/**
+ * Convert a Silence match block to a monitor selector
+ */
+const silenceMatchToSelector = (match: SilenceSpec["match"]): Selector => ({
+  matchNames: match.names,
+  matchNamespaces: match.namespaces,
+  matchLabels: match.labels ? { matchLabels: match.labels } : undefined,
+  matchTags: match.tags,
+});
 
-      if (match?.namespaces && match.namespaces.length > 0) {
-        // Would need namespace context
-        continue;
-      }
+/**
+ * Get all active silences that match a monitor
+ */
+export const getActiveSilences = (
+  target: SelectorTarget,
+  now: Date = new Date(),
+): ActiveSilence[] => {
+  const matchingSilences: ActiveSilence[] = [];
 
-      if (match?.labels) {
-        // Check label matching
-        for (const [key, expectedValue] of Object.entries(match.labels)) {
-          if (labels[key] !== expectedValue) {
-            matches = false;
-            break;
-          }
-        }
-      }
+  for (const silence of silenceCache.values()) {
+    // Check if silence is currently active (before expiry time)
+    if (now > silence.expiresAt) {
+      continue;
+    }
 
-      if (matches) {
-        matchingSilences.push(silence);
-      }
+    if (matchesSelector(silenceMatchToSelector(silence.match), target)) {
+      matchingSilences.push({
+        namespace: silence.namespace,
+        name: silence.name,
+        expiresAt: silence.expiresAt,
+        reason: silence.reason,
+      });
     }
   }
 
   return matchingSilences;
 };
 
+/**
+ * Handle silence deletion
+ */
+const handleSilenceDeletion = async (namespace: string, name: string) => {
+  silenceCache.delete(`${namespace}/${name}`);
+  logger.debug({ namespace, name }, "Silence removed from cache");
+};
+
 /**
  * Settings validators
  */
@@ -183,10 +175,21 @@ const validateSettingsScheduler = (resource: YuptimeSettings): string[] => {
   return errors;
 };
 
+const validateSettingsNetworking = (resource: YuptimeSettings): string[] => {
+  const proxy = resource.spec.networking?.proxy;
+
+  if (proxy?.mode && proxy.mode !== "none" && !proxy.url) {
+    return ["networking.proxy.url is required when networking.proxy.mode is http or socks"];
+  }
+
+  return [];
+};
+
 const validateSettings = typedComposeValidators(
   typedCommonValidations.validateSpec,
   validateSettingsName,
   validateSettingsScheduler,
+  validateSettingsNetworking,
 );
 
 type GlobalSettings = {
@@ -201,16 +204,32 @@ type GlobalSettings = {
         minIntervalSeconds?: number | undefined;
         maxConcurrentNetChecks?: number | undefined;
         maxConcurrentPrivChecks?: number | undefined;
+        flapping?:
+          | {
+              enabled?: boolean | undefined;
+              toggleThreshold?: number | undefined;
+              windowMinutes?: number | undefined;
+              suppressNotificationsMinutes?: number | undefined;
+            }
+          | undefined;
       }
     | undefined;
   networking?:
     | {
         userAgent?: string | undefined;
+        proxy?:
+          | {
+              mode?: "none" | "http" | "socks" | undefined;
+              url?: string | undefined;
+              noProxy?: string[] | undefined;
+            }
+          | undefined;
       }
     | undefined;
 };
 
 let globalSettings: GlobalSettings | null = null;
+let warnedDefaultSettings = false;
 
 const reconcileSettings = async (resource: YuptimeSettings, _ctx: ReconcileContext) => {
   const name = resource.metadata.name;
@@ -232,15 +251,25 @@ const reconcileSettings = async (resource: YuptimeSettings, _ctx: ReconcileConte
 /**
  * Get current global settings
  */
-export const getGlobalSettings = () => {
+export const getGlobalSettings = (): GlobalSettings => {
   if (!globalSettings) {
-    logger.warn("YuptimeSettings not yet loaded, using defaults");
+    // Called on every check completion, so only warn once
+    if (!warnedDefaultSettings) {
+      logger.warn("YuptimeSettings not yet loaded, using defaults");
+      warnedDefaultSettings = true;
+    }
     return {
       mode: { gitOpsReadOnly: false, singleInstanceRequired: true },
       scheduler: {
         minIntervalSeconds: 20,
         maxConcurrentNetChecks: 200,
         maxConcurrentPrivChecks: 20,
+        flapping: {
+          enabled: true,
+          toggleThreshold: 6,
+          windowMinutes: 10,
+          suppressNotificationsMinutes: 30,
+        },
       },
       networking: { userAgent: "Yuptime/1.0" },
     };
@@ -256,6 +285,7 @@ export const createSilenceReconciler = () =>
     {
       validator: typedValidate(validateSilence),
       reconciler: reconcileSilence,
+      deleteHandler: handleSilenceDeletion,
     },
   );
 
@@ -7,7 +7,7 @@ export {
 } from "./auth-and-config-reconcilers";
 export { createMaintenanceWindowReconciler } from "./maintenance-window-reconciler";
 // Reconciler factories
-export { createMonitorReconciler } from "./monitor-reconciler";
+export { createMonitorReconciler, stopMonitorScheduler } from "./monitor-reconciler";
 export { createMonitorSetReconciler } from "./monitor-set-reconciler";
 
 // Status utilities
@@ -15,6 +15,7 @@ export {
   createCondition,
   markInvalid,
   markValid,
+  patchStatusFields,
   updateConditions,
   updateStatus,
 } from "./status-utils";
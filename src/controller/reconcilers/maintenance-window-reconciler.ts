@@ -5,8 +5,9 @@
  */
 
 import { logger } from "../../lib/logger";
-import { getNextOccurrence, parseRRule } from "../../lib/rrule";
-import type { MaintenanceWindow } from "../../types/crd";
+import { getNextOccurrence, getPeriodAnchor, parseRRule } from "../../lib/rrule";
+import { matchesSelector, type SelectorTarget } from "../../lib/selectors";
+import type { MaintenanceWindow, Selector } from "../../types/crd";
 import { MaintenanceWindowSchema } from "../../types/crd";
 import type { ReconcileContext } from "./types";
 import { createTypeSafeReconciler } from "./types";
@@ -68,23 +69,7 @@ type MaintenanceWindowData = {
         suppressNotifications?: boolean | undefined;
       }
     | undefined;
-  match?: {
-    matchNamespaces?: string[] | undefined;
-    matchLabels?:
-      | {
-          matchLabels?: Record<string, string> | undefined;
-          matchExpressions?:
-            | Array<{
-                key: string;
-                operator: "In" | "NotIn" | "Exists" | "DoesNotExist";
-                values?: string[] | undefined;
-              }>
-            | undefined;
-        }
-      | undefined;
-    matchTags?: string[];
-    matchNames?: Array<{ namespace: string; name: string }>;
-  };
+  match?: Selector | undefined;
   rrule: ReturnType<typeof parseRRule>;
   durationMinutes: number;
   nextOccurrenceAt: Date;
@@ -164,146 +149,98 @@ const reconcileMaintenanceWindow = async (resource: MaintenanceWindow, _ctx: Rec
 };
 
 /**
- * Check if a monitor is currently in a maintenance window
+ * Active maintenance window matching a monitor
  */
-export const isInMaintenanceWindow = (labels: Record<string, string> = {}): boolean => {
-  const now = new Date();
-
-  for (const window of maintenanceWindowCache.values()) {
-    // Check if enabled
-    if (window.enabled === false) {
-      continue;
-    }
-
-    // Check if current time is within window
-    const windowStart = window.nextOccurrenceAt;
-    const windowEnd = new Date(windowStart);
-    windowEnd.setMinutes(windowEnd.getMinutes() + window.durationMinutes);
-
-    // Simple check: is now within [windowStart, windowEnd]?
-    // For more accuracy, would need to recalculate each check
-    if (windowStart <= now && now < windowEnd) {
-      // Check if match matches the labels
-      const match = window.match;
-      let matches = true;
-
-      if (match?.matchNames && match.matchNames.length > 0) {
-        // Would need name context to check
-        continue;
-      }
-
-      if (match?.matchNamespaces && match.matchNamespaces.length > 0) {
-        // Would need namespace context to check
-        continue;
-      }
+export interface ActiveMaintenanceWindow {
+  namespace: string;
+  name: string;
+  suppressNotifications: boolean;
+  startedAt: Date;
+  endsAt: Date;
+  durationMinutes: number;
+}
 
-      if (match?.matchLabels?.matchLabels) {
-        for (const [key, expectedValue] of Object.entries(match.matchLabels.matchLabels)) {
-          if (labels[key] !== expectedValue) {
-            matches = false;
-            break;
-          }
-        }
-      }
+/**
+ * Get the start of the occurrence covering `now`, if any
+ * Occurrences are anchored at schedule.start and stepped forward by the RRULE, starting
+ * from the last period boundary before `now` so old windows don't exhaust the walk.
+ */
+const getCurrentOccurrence = (window: MaintenanceWindowData, now: Date): Date | null => {
+  const start = new Date(window.schedule.start);
+  if (Number.isNaN(start.getTime()) || start > now) {
+    return null;
+  }
 
-      if (matches) {
-        return true;
-      }
+  let occurrence = start;
+  if (window.rrule) {
+    occurrence = getPeriodAnchor(window.rrule, start, now);
+    // A skipped-to boundary is not an occurrence itself unless the rule steps past it
+    let stepped = occurrence.getTime() === start.getTime();
+    for (let i = 0; i < 10000; i++) {
+      const next = getNextOccurrence(window.rrule, occurrence);
+      if (!next || next > now) break;
+      occurrence = next;
+      stepped = true;
+    }
+    if (!stepped) {
+      return null;
     }
   }
 
-  return false;
+  const windowEnd = new Date(occurrence.getTime() + window.durationMinutes * 60 * 1000);
+  return now < windowEnd ? occurrence : null;
 };
 
 /**
- * Get all active maintenance windows
+ * Get all maintenance windows currently active for a monitor
  */
 export const getActiveMaintenanceWindows = (
-  labels: Record<string, string> = {},
-): Array<{
-  name: string;
-  schedule: {
-    start: string;
-    end: string;
-    recurrence?:
-      | {
-          rrule?: string | undefined;
-        }
-      | undefined;
-  };
-  behavior?:
-    | {
-        suppressNotifications?: boolean | undefined;
-      }
-    | undefined;
-  endsAt: Date;
-  durationMinutes: number;
-}> => {
-  const activeWindows: Array<{
-    name: string;
-    schedule: {
-      start: string;
-      end: string;
-      recurrence?: {
-        rrule?: string;
-      };
-    };
-    behavior?: {
-      suppressNotifications?: boolean;
-    };
-    endsAt: Date;
-    durationMinutes: number;
-  }> = [];
-  const now = new Date();
+  target: SelectorTarget,
+  now: Date = new Date(),
+): ActiveMaintenanceWindow[] => {
+  const activeWindows: ActiveMaintenanceWindow[] = [];
 
   for (const window of maintenanceWindowCache.values()) {
-    // Check if enabled
     if (window.enabled === false) {
       continue;
     }
 
-    // Check if current time is within window
-    const windowStart = window.nextOccurrenceAt;
-    const windowEnd = new Date(windowStart);
-    windowEnd.setMinutes(windowEnd.getMinutes() + window.durationMinutes);
-
-    if (windowStart <= now && now < windowEnd) {
-      // Check if match matches the labels
-      const match = window.match;
-      let matches = true;
-
-      if (match?.matchNames && match.matchNames.length > 0) {
-        continue;
-      }
-
-      if (match?.matchNamespaces && match.matchNamespaces.length > 0) {
-        continue;
-      }
-
-      if (match?.matchLabels?.matchLabels) {
-        for (const [key, expectedValue] of Object.entries(match.matchLabels.matchLabels)) {
-          if (labels[key] !== expectedValue) {
-            matches = false;
-            break;
-          }
-        }
-      }
+    if (!matchesSelector(window.match, target)) {
+      continue;
+    }
 
-      if (matches) {
-        activeWindows.push({
-          name: window.name,
-          schedule: window.schedule,
-          behavior: window.behavior,
-          endsAt: windowEnd,
-          durationMinutes: window.durationMinutes,
-        });
-      }
+    const startedAt = getCurrentOccurrence(window, now);
+    if (!startedAt) {
+      continue;
     }
+
+    activeWindows.push({
+      namespace: window.namespace,
+      name: window.name,
+      suppressNotifications: window.behavior?.suppressNotifications !== false,
+      startedAt,
+      endsAt: new Date(startedAt.getTime() + window.durationMinutes * 60 * 1000),
+      durationMinutes: window.durationMinutes,
+    });
   }
 
   return activeWindows;
 };
 
+/**
+ * Check if a monitor is currently in a maintenance window
+ */
+export const isInMaintenanceWindow = (target: SelectorTarget, now: Date = new Date()): boolean =>
+  getActiveMaintenanceWindows(target, now).length > 0;
+
+/**
+ * Handle maintenance window deletion
+ */
+const handleMaintenanceWindowDeletion = async (namespace: string, name: string) => {
+  maintenanceWindowCache.delete(`${namespace}/${name}`);
+  logger.debug({ namespace, name }, "MaintenanceWindow removed from cache");
+};
+
 export const createMaintenanceWindowReconciler = () =>
   createTypeSafeReconciler<MaintenanceWindow>(
     "MaintenanceWindow",
@@ -312,5 +249,6 @@ export const createMaintenanceWindowReconciler = () =>
     {
       validator: typedValidate(validateMaintenanceWindow),
       reconciler: reconcileMaintenanceWindow,
+      deleteHandler: handleMaintenanceWindowDeletion,
     },
   );
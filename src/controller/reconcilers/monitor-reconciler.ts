@@ -1,13 +1,19 @@
 import { logger } from "../../lib/logger";
 import type { Monitor } from "../../types/crd";
 import { MonitorSchema } from "../../types/crd";
-import { calculateJitter } from "../job-manager/jitter";
+import { createCheckScheduler } from "../job-manager/scheduler";
+import { patchStatusFields } from "./status-utils";
 import type { ReconcileContext } from "./types";
 import { createTypeSafeReconciler } from "./types";
 import { typedCommonValidations, typedComposeValidators, typedValidate } from "./validation";
 
-// Track which monitors have been scheduled to prevent duplicates
-const scheduledMonitors = new Set<string>();
+// Recurring check timers, keyed by namespace/name
+const scheduler = createCheckScheduler({
+  onNextRun: (monitor, nextRunAt) =>
+    patchStatusFields("Monitor", "monitors", monitor.metadata.namespace, monitor.metadata.name, {
+      nextRunAt: nextRunAt.toISOString(),
+    }),
+});
 
 /**
  * Monitor-specific validators
@@ -36,6 +42,10 @@ const validateMonitorTarget = (resource: Monitor): string[] => {
   const hasTarget =
     spec.target?.http ||
     spec.target?.tcp ||
+    spec.target?.smtp ||
+    spec.target?.imap ||
+    spec.target?.pop3 ||
+    spec.target?.ssh ||
     spec.target?.dns ||
     spec.target?.ping ||
     spec.target?.websocket ||
@@ -46,7 +56,16 @@ const validateMonitorTarget = (resource: Monitor): string[] => {
     spec.target?.mysql ||
     spec.target?.postgresql ||
     spec.target?.redis ||
-    spec.target?.grpc;
+    spec.target?.mongodb ||
+    spec.target?.kafka ||
+    spec.target?.amqp ||
+    spec.target?.nats ||
+    spec.target?.mqtt ||
+    spec.target?.grpc ||
+    spec.target?.docker ||
+    spec.target?.httpSteps ||
+    spec.target?.graphql ||
+    spec.target?.prometheus;
 
   if (!hasTarget) {
     errors.push("At least one target must be configured");
@@ -57,6 +76,8 @@ const validateMonitorTarget = (resource: Monitor): string[] => {
     case "http":
     case "keyword":
     case "jsonQuery":
+    case "xmlQuery":
+    case "htmlQuery":
       if (!spec.target?.http) {
         errors.push(`Monitor type ${spec.type} requires http target`);
       }
@@ -66,6 +87,28 @@ const validateMonitorTarget = (resource: Monitor): string[] => {
         errors.push("Monitor type tcp requires tcp target");
       }
       break;
+    case "smtp":
+    case "imap":
+    case "pop3": {
+      const mail = spec.target?.[spec.type];
+      if (!mail) {
+        errors.push(`Monitor type ${spec.type} requires ${spec.type} target`);
+      } else if (
+        mail.credentialsSecretRef &&
+        (mail.tls?.mode ?? "none") === "none" &&
+        !mail.allowInsecureAuth
+      ) {
+        errors.push(
+          `${spec.type} credentials require tls.mode starttls or implicit, or allowInsecureAuth: true`,
+        );
+      }
+      break;
+    }
+    case "ssh":
+      if (!spec.target?.ssh) {
+        errors.push("Monitor type ssh requires ssh target");
+      }
+      break;
     case "dns":
       if (!spec.target?.dns) {
         errors.push("Monitor type dns requires dns target");
@@ -84,6 +127,11 @@ const validateMonitorTarget = (resource: Monitor): string[] => {
     case "push":
       if (!spec.target?.push) {
         errors.push("Monitor type push requires push target");
+      } else if (
+        spec.target.push.tokenSecretRef.namespace &&
+        spec.target.push.tokenSecretRef.namespace !== resource.metadata.namespace
+      ) {
+        errors.push("push tokenSecretRef must be in the monitor's namespace");
       }
       break;
     case "steam":
@@ -111,11 +159,44 @@ const validateMonitorTarget = (resource: Monitor): string[] => {
         errors.push("Monitor type redis requires redis target");
       }
       break;
+    case "mongodb":
+      if (!spec.target?.mongodb) {
+        errors.push("Monitor type mongodb requires mongodb target");
+      }
+      break;
+    case "kafka":
+    case "amqp":
+    case "nats":
+    case "mqtt":
+      if (!spec.target?.[spec.type]) {
+        errors.push(`Monitor type ${spec.type} requires ${spec.type} target`);
+      }
+      break;
     case "grpc":
       if (!spec.target?.grpc) {
         errors.push("Monitor type grpc requires grpc target");
       }
       break;
+    case "docker":
+      if (!spec.target?.docker) {
+        errors.push("Monitor type docker requires docker target");
+      }
+      break;
+    case "httpSteps":
+      if (!spec.target?.httpSteps) {
+        errors.push("Monitor type httpSteps requires httpSteps target");
+      }
+      break;
+    case "graphql":
+      if (!spec.target?.graphql) {
+        errors.push("Monitor type graphql requires graphql target");
+      }
+      break;
+    case "prometheus":
+      if (!spec.target?.prometheus) {
+        errors.push("Monitor type prometheus requires prometheus target");
+      }
+      break;
   }
 
   return errors;
@@ -124,7 +205,7 @@ const validateMonitorTarget = (resource: Monitor): string[] => {
 /**
  * Monitor validator - composed from multiple validators
  */
-const validateMonitor = typedComposeValidators(
+export const validateMonitor = typedComposeValidators(
   typedCommonValidations.validateName,
   typedCommonValidations.validateSpec,
   validateMonitorSchedule,
@@ -148,47 +229,32 @@ const reconcileMonitor = async (resource: Monitor, ctx: ReconcileContext) => {
     return;
   }
 
-  // Schedule check with Job Manager if enabled
+  // Schedule recurring checks with Job Manager if enabled
   if (spec.enabled !== false) {
-    const monitorId = `${namespace}/${name}`;
+    const rescheduled = scheduler.schedule(resource, async (monitor) => {
+      await jobManager.scheduleCheck(monitor);
+      logger.debug({ namespace, name, type: monitor.spec.type }, "Monitor check scheduled");
+    });
 
-    // Only schedule if this monitor hasn't been scheduled yet
-    if (scheduledMonitors.has(monitorId)) {
-      logger.debug({ namespace, name }, "Monitor already scheduled, skipping");
+    if (rescheduled) {
+      logger.info(
+        {
+          namespace,
+          name,
+          interval: spec.schedule.intervalSeconds,
+          nextRunAt: scheduler.getNextRunAt(namespace, name),
+        },
+        "Monitor scheduled for recurring checks",
+      );
     } else {
-      const intervalSeconds = spec.schedule?.intervalSeconds || 60;
-      const jitterPercent = spec.schedule?.jitterPercent || 5;
-
-      // Calculate deterministic jitter
-      const jitterMs = calculateJitter(namespace, name, jitterPercent, intervalSeconds);
-
-      // Schedule first check with jitter
-      setTimeout(async () => {
-        try {
-          await jobManager.scheduleCheck(resource); // Fully typed, no casting needed
-          logger.info(
-            { namespace, name, type: spec.type, interval: intervalSeconds },
-            "Monitor check scheduled",
-          );
-        } catch (error) {
-          logger.error({ namespace, name, error }, "Failed to schedule monitor check");
-        }
-      }, jitterMs);
-
-      // Mark as scheduled
-      scheduledMonitors.add(monitorId);
-
-      logger.debug({ namespace, name, jitterMs }, "Monitor scheduled with jitter");
+      logger.debug({ namespace, name }, "Monitor generation unchanged, keeping schedule");
     }
   } else {
-    // Cancel pending jobs for disabled monitors
+    // Stop the recurring timer and cancel pending jobs for disabled monitors
+    scheduler.unschedule(namespace, name);
+
     try {
       await jobManager.cancelJob(namespace, name);
-
-      // Remove from scheduled set so it can be rescheduled if re-enabled
-      const monitorId = `${namespace}/${name}`;
-      scheduledMonitors.delete(monitorId);
-
       logger.info({ namespace, name }, "Monitor jobs cancelled (disabled)");
     } catch (error) {
       logger.error({ namespace, name, error }, "Failed to cancel monitor jobs");
@@ -202,12 +268,16 @@ const reconcileMonitor = async (resource: Monitor, ctx: ReconcileContext) => {
  * Handle monitor deletion
  */
 export const handleMonitorDeletion = async (namespace: string, name: string) => {
-  const monitorId = `${namespace}/${name}`;
+  scheduler.unschedule(namespace, name);
 
-  // Remove from scheduled set
-  scheduledMonitors.delete(monitorId);
+  logger.debug({ namespace, name }, "Monitor deleted, recurring checks stopped");
+};
 
-  logger.debug({ namespace, name }, "Monitor deleted, removed from scheduled set");
+/**
+ * Stop all recurring monitor checks (controller shutdown)
+ */
+export const stopMonitorScheduler = () => {
+  scheduler.stopAll();
 };
 
 /**
@@ -0,0 +1,181 @@
+import { describe, expect, test } from "bun:test";
+import {
+  MonitorSchema,
+  type MonitorSet,
+  MonitorSetSchema,
+  MonitorSpecSchema,
+} from "../../types/crd";
+import {
+  buildChildMonitor,
+  childLabelPatch,
+  childMonitorName,
+  childSpecMatches,
+  MONITOR_SET_LABEL,
+  mergeMonitorSetItem,
+} from "./monitor-set-reconciler";
+
+const monitorSet: MonitorSet = MonitorSetSchema.parse({
+  apiVersion: "monitoring.yuptime.io/v1",
+  kind: "MonitorSet",
+  metadata: {
+    name: "api-endpoints",
+    namespace: "default",
+    uid: "set-uid",
+    labels: { team: "platform" },
+  },
+  spec: {
+    defaults: {
+      schedule: {
+        intervalSeconds: 60,
+        timeoutSeconds: 10,
+        retries: { maxRetries: 2, retryIntervalSeconds: 10 },
+      },
+      alerting: { notifyOn: { down: true, up: false } },
+      tags: ["api", "production"],
+    },
+    items: [
+      {
+        name: "users",
+        spec: {
+          type: "http",
+          target: { http: { url: "https://api.example.com/users" } },
+        },
+      },
+      {
+        name: "orders",
+        spec: {
+          type: "http",
+          target: { http: { url: "https://api.example.com/orders" } },
+          schedule: { intervalSeconds: 30, timeoutSeconds: 5 },
+          alerting: { notifyOn: { up: true } },
+          tags: ["orders", "api"],
+        },
+      },
+    ],
+  },
+});
+
+const [users, orders] = monitorSet.spec.items;
+
+describe("mergeMonitorSetItem", () => {
+  test("applies defaults to items without overrides", () => {
+    if (!users) throw new Error("missing item");
+    const spec = mergeMonitorSetItem(monitorSet.spec.defaults, users);
+
+    expect(spec.type).toBe("http");
+    expect(spec.schedule).toEqual({
+      intervalSeconds: 60,
+      timeoutSeconds: 10,
+      retries: { maxRetries: 2, retryIntervalSeconds: 10 },
+    });
+    expect(spec.tags).toEqual(["api", "production"]);
+  });
+
+  test("deep merges schedule and alerting and combines tags", () => {
+    if (!orders) throw new Error("missing item");
+    const spec = mergeMonitorSetItem(monitorSet.spec.defaults, orders);
+
+    expect(spec.schedule).toEqual({
+      intervalSeconds: 30,
+      timeoutSeconds: 5,
+      retries: { maxRetries: 2, retryIntervalSeconds: 10 },
+    });
+    expect(spec.alerting).toMatchObject({ notifyOn: { down: true, up: true } });
+    expect(spec.tags).toEqual(["api", "production", "orders"]);
+  });
+
+  test("works without defaults", () => {
+    if (!orders) throw new Error("missing item");
+    const spec = mergeMonitorSetItem(undefined, orders);
+
+    expect(spec.schedule).toEqual({ intervalSeconds: 30, timeoutSeconds: 5 });
+    expect(spec.tags).toEqual(["orders", "api"]);
+  });
+});
+
+describe("buildChildMonitor", () => {
+  test("builds a valid Monitor owned by the set", () => {
+    if (!users) throw new Error("missing item");
+    const child = buildChildMonitor(monitorSet, users);
+
+    expect(child.metadata.name).toBe(childMonitorName("api-endpoints", "users"));
+    expect(child.metadata.name).toBe("api-endpoints-users");
+    expect(child.metadata.namespace).toBe("default");
+    expect(child.metadata.labels).toEqual({ [MONITOR_SET_LABEL]: "api-endpoints" });
+    expect(child.metadata.ownerReferences).toEqual([
+      {
+        apiVersion: "monitoring.yuptime.io/v1",
+        kind: "MonitorSet",
+        name: "api-endpoints",
+        uid: "set-uid",
+        controller: true,
+        blockOwnerDeletion: true,
+      },
+    ]);
+    expect(MonitorSchema.safeParse(child).success).toBe(true);
+  });
+
+  test("omits the owner reference when the set has no uid", () => {
+    if (!users) throw new Error("missing item");
+    const { uid: _uid, ...metadata } = monitorSet.metadata;
+    const child = buildChildMonitor({ ...monitorSet, metadata }, users);
+
+    expect(child.metadata.ownerReferences).toBeUndefined();
+  });
+
+  test("produces an invalid Monitor when no schedule is available", () => {
+    if (!users) throw new Error("missing item");
+    const child = buildChildMonitor({ ...monitorSet, spec: { items: [users] } }, users);
+
+    expect(MonitorSchema.safeParse(child).success).toBe(false);
+  });
+});
+
+describe("childSpecMatches", () => {
+  test("ignores defaults filled in by the API server", () => {
+    if (!users) throw new Error("missing item");
+    const child = buildChildMonitor(monitorSet, users);
+    const stored = MonitorSpecSchema.parse(child.spec);
+
+    expect(stored).not.toEqual(child.spec);
+    expect(childSpecMatches(stored, child.spec)).toBe(true);
+  });
+
+  test("detects changed fields", () => {
+    if (!users || !orders) throw new Error("missing item");
+    const stored = MonitorSpecSchema.parse(buildChildMonitor(monitorSet, users).spec);
+
+    expect(childSpecMatches(stored, buildChildMonitor(monitorSet, orders).spec)).toBe(false);
+  });
+
+  test("treats an unparseable existing spec as drift", () => {
+    if (!users) throw new Error("missing item");
+    expect(childSpecMatches(undefined, buildChildMonitor(monitorSet, users).spec)).toBe(false);
+  });
+});
+
+describe("childLabelPatch", () => {
+  test("leaves labels added to the child alone", () => {
+    const current = { team: "payments", [MONITOR_SET_LABEL]: "api-endpoints" };
+
+    expect(childLabelPatch(current, { [MONITOR_SET_LABEL]: "api-endpoints" })).toEqual([]);
+  });
+
+  test("patches only the owner label when it differs", () => {
+    const current = { team: "payments", [MONITOR_SET_LABEL]: "other-set" };
+
+    expect(childLabelPatch(current, { [MONITOR_SET_LABEL]: "api-endpoints" })).toEqual([
+      {
+        op: "add",
+        path: "/metadata/labels/monitoring.yuptime.io~1monitor-set",
+        value: "api-endpoints",
+      },
+    ]);
+  });
+
+  test("adds the labels map when the child has none", () => {
+    expect(childLabelPatch(undefined, { [MONITOR_SET_LABEL]: "api-endpoints" })).toEqual([
+      { op: "add", path: "/metadata/labels", value: { [MONITOR_SET_LABEL]: "api-endpoints" } },
+    ]);
+  });
+});
@@ -1,6 +1,10 @@
+import { isDeepStrictEqual } from "node:util";
 import { logger } from "../../lib/logger";
-import type { MonitorSet } from "../../types/crd";
-import { MonitorSetSchema } from "../../types/crd";
+import type { MonitorSet, MonitorSetItem, MonitorSetStatus } from "../../types/crd";
+import { MonitorSchema, MonitorSetSchema, MonitorSpecSchema } from "../../types/crd";
+import { createCRDWatcher } from "../k8s-client";
+import { validateMonitor } from "./monitor-reconciler";
+import { patchStatusFields } from "./status-utils";
 import type { ReconcileContext } from "./types";
 import { createTypeSafeReconciler } from "./types";
 import {
@@ -11,6 +15,23 @@ import {
   validateUniqueField,
 } from "./validation";
 
+// Label identifying the MonitorSet that owns a child Monitor
+export const MONITOR_SET_LABEL = "monitoring.yuptime.io/monitor-set";
+
+type ItemStatus = NonNullable<MonitorSetStatus["itemStatuses"]>[number];
+
+/**
+ * Child Monitor as returned by the Kubernetes API
+ */
+interface ExistingMonitor {
+  metadata: {
+    name: string;
+    labels?: Record<string, string>;
+    ownerReferences?: Array<{ uid?: string }>;
+  };
+  spec?: unknown;
+}
+
 /**
  * MonitorSet-specific validators
  */
@@ -44,19 +65,246 @@ const validateMonitorSet = typedComposeValidators(
   validateMonitorSetItems,
 );
 
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Recursively merge plain objects; arrays and scalars from override win
+ */
+const deepMerge = (base: unknown, override: unknown): unknown => {
+  if (override === undefined) return base;
+  if (!isPlainObject(base) || !isPlainObject(override)) return override;
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = deepMerge(base[key], value);
+  }
+  return merged;
+};
+
+/**
+ * Merge a MonitorSet item with the set defaults
+ * schedule and alerting are deep merged, tags are combined, and any other
+ * field set on the item replaces the default.
+ */
+export function mergeMonitorSetItem(
+  defaults: MonitorSet["spec"]["defaults"],
+  item: MonitorSetItem,
+): Record<string, unknown> {
+  const { schedule, alerting, tags, ...rest } = defaults ?? {};
+  const spec: Record<string, unknown> = { ...rest, ...item.spec };
+
+  const mergedSchedule = deepMerge(schedule, item.spec.schedule);
+  const mergedAlerting = deepMerge(alerting, item.spec.alerting);
+  const mergedTags = [...new Set([...(tags ?? []), ...(item.spec.tags ?? [])])];
+
+  if (mergedSchedule !== undefined) spec.schedule = mergedSchedule;
+  if (mergedAlerting !== undefined) spec.alerting = mergedAlerting;
+  if (mergedTags.length > 0) spec.tags = mergedTags;
+
+  // Drop keys left undefined by the item so they don't hide defaults
+  return Object.fromEntries(Object.entries(spec).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Name of the Monitor created for a MonitorSet item
+ */
+export const childMonitorName = (setName: string, itemName: string) => `${setName}-${itemName}`;
+
+/**
+ * Build the child Monitor resource for a MonitorSet item
+ * Only the owner label is set; other labels on the child belong to whoever added them.
+ */
+export function buildChildMonitor(set: MonitorSet, item: MonitorSetItem) {
+  const { name, namespace, uid } = set.metadata;
+  const labels: Record<string, string> = { [MONITOR_SET_LABEL]: name };
+
+  return {
+    apiVersion: "monitoring.yuptime.io/v1",
+    kind: "Monitor",
+    metadata: {
+      name: childMonitorName(name, item.name),
+      namespace,
+      labels,
+      ...(uid && {
+        ownerReferences: [
+          {
+            apiVersion: set.apiVersion,
+            kind: set.kind,
+            name,
+            uid,
+            controller: true,
+            blockOwnerDeletion: true,
+          },
+        ],
+      }),
+    },
+    spec: mergeMonitorSetItem(set.spec.defaults, item),
+  };
+}
+
+/**
+ * Check whether an existing Monitor belongs to a MonitorSet
+ */
+const isOwnedBy = (monitor: ExistingMonitor, set: MonitorSet): boolean => {
+  if (monitor.metadata.labels?.[MONITOR_SET_LABEL] !== set.metadata.name) return false;
+
+  const uid = set.metadata.uid;
+  return !uid || (monitor.metadata.ownerReferences ?? []).some((ref) => ref.uid === uid);
+};
+
+/**
+ * Check whether an existing Monitor spec already matches the desired spec
+ * Both sides are parsed so defaults filled in by the API server don't count as drift.
+ */
+export const childSpecMatches = (current: unknown, desired: unknown): boolean => {
+  const parsedCurrent = MonitorSpecSchema.safeParse(current);
+  const parsedDesired = MonitorSpecSchema.safeParse(desired);
+  return (
+    parsedCurrent.success &&
+    parsedDesired.success &&
+    isDeepStrictEqual(parsedCurrent.data, parsedDesired.data)
+  );
+};
+
+/**
+ * JSON patch operations setting the desired labels on an existing Monitor
+ * Only the desired keys are compared and patched, so labels added by others are kept.
+ */
+export const childLabelPatch = (
+  current: Record<string, string> | undefined,
+  desired: Record<string, string>,
+): Array<{ op: string; path: string; value: unknown }> => {
+  if (!current) return [{ op: "add", path: "/metadata/labels", value: desired }];
+
+  return Object.entries(desired)
+    .filter(([key, value]) => current[key] !== value)
+    .map(([key, value]) => ({
+      op: "add",
+      path: `/metadata/labels/${key.replace(/~/g, "~0").replace(/\//g, "~1")}`,
+      value,
+    }));
+};
+
+/**
+ * Validate an item's child Monitor, returning the errors (empty when valid)
+ */
+const validateChildMonitor = (child: ReturnType<typeof buildChildMonitor>): string[] => {
+  const parsed = MonitorSchema.safeParse(child);
+  if (!parsed.success) {
+    return parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+  }
+  return validateMonitor(parsed.data);
+};
+
 /**
  * MonitorSet reconciliation
+ * Creates or updates one owned Monitor per item and prunes removed items.
  */
 const reconcileMonitorSet = async (resource: MonitorSet, _ctx: ReconcileContext) => {
   const namespace = resource.metadata.namespace || "";
   const name = resource.metadata.name;
-  const itemCount = resource.spec.items?.length;
+  const items = resource.spec.items ?? [];
+
+  logger.debug({ namespace, name, itemCount: items.length }, "Reconciling MonitorSet");
+
+  const watcher = createCRDWatcher("monitoring.yuptime.io", "v1", "monitors", { namespace });
+  const existing = new Map(
+    ((await watcher.list()) as ExistingMonitor[]).map((monitor) => [
+      monitor.metadata.name,
+      monitor,
+    ]),
+  );
 
-  logger.debug({ namespace, name, itemCount }, "Reconciling MonitorSet");
+  const itemStatuses: ItemStatus[] = [];
+  const desired = new Set<string>();
 
-  // TODO: Register each monitor item with scheduler (inline mode)
+  for (const item of items) {
+    const child = buildChildMonitor(resource, item);
+    const childName = child.metadata.name;
+    desired.add(childName);
+
+    const errors = validateChildMonitor(child);
+    if (errors.length > 0) {
+      itemStatuses.push({ name: item.name, ready: false, message: errors.join("; ") });
+      continue;
+    }
+
+    const current = existing.get(childName);
+    if (current && !isOwnedBy(current, resource)) {
+      itemStatuses.push({
+        name: item.name,
+        ready: false,
+        message: `Monitor ${childName} already exists and is not owned by this MonitorSet`,
+      });
+      continue;
+    }
+
+    try {
+      if (current) {
+        const labelPatch = childLabelPatch(current.metadata.labels, child.metadata.labels);
+        if (!childSpecMatches(current.spec, child.spec) || labelPatch.length > 0) {
+          const patch = [
+            { op: "replace", path: "/spec", value: child.spec },
+            ...labelPatch,
+            ...(child.metadata.ownerReferences
+              ? [
+                  {
+                    op: "add",
+                    path: "/metadata/ownerReferences",
+                    value: child.metadata.ownerReferences,
+                  },
+                ]
+              : []),
+          ];
+          await watcher.patch(childName, patch as unknown as Record<string, unknown>, namespace);
+          logger.info(
+            { namespace, name, monitor: childName },
+            "Updated Monitor for MonitorSet item",
+          );
+        }
+      } else {
+        await watcher.create(child, namespace);
+        logger.info({ namespace, name, monitor: childName }, "Created Monitor for MonitorSet item");
+      }
+
+      itemStatuses.push({ name: item.name, ready: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      itemStatuses.push({ name: item.name, ready: false, message });
+    }
+  }
+
+  // Prune Monitors whose items were removed from the set
+  for (const monitor of existing.values()) {
+    const monitorName = monitor.metadata.name;
+    if (desired.has(monitorName) || !isOwnedBy(monitor, resource)) continue;
+
+    try {
+      await watcher.delete(monitorName, namespace);
+      logger.info({ namespace, name, monitor: monitorName }, "Pruned Monitor removed from set");
+    } catch (error) {
+      logger.warn({ namespace, name, monitor: monitorName, error }, "Failed to prune Monitor");
+    }
+  }
+
+  const validCount = itemStatuses.filter((status) => status.ready).length;
+  const invalidCount = itemStatuses.length - validCount;
+
+  const status = resource.status;
+  if (
+    status?.validCount !== validCount ||
+    status?.invalidCount !== invalidCount ||
+    !isDeepStrictEqual(status?.itemStatuses, itemStatuses)
+  ) {
+    await patchStatusFields("MonitorSet", "monitorsets", namespace, name, {
+      validCount,
+      invalidCount,
+      itemStatuses,
+    });
+  }
 
-  logger.debug({ namespace, name, itemCount }, "MonitorSet reconciliation complete");
+  logger.debug({ namespace, name, validCount, invalidCount }, "MonitorSet reconciliation complete");
 };
 
 export const createMonitorSetReconciler = () =>
@@ -169,3 +169,36 @@ export async function markInvalid(
     throw error;
   }
 }
+
+/**
+ * Set individual status fields without replacing the rest of the status
+ */
+export async function patchStatusFields(
+  kind: string,
+  plural: string,
+  namespace: string,
+  name: string,
+  fields: Record<string, unknown>,
+) {
+  const watcher = createCRDWatcher("monitoring.yuptime.io", "v1", plural);
+
+  try {
+    const resource = await watcher.get(name, namespace);
+
+    // "add" replaces existing members, but /status itself must exist first
+    const patch = resource.status
+      ? Object.entries(fields).map(([key, value]) => ({
+          op: "add",
+          path: `/status/${key.replace(/~/g, "~0").replace(/\//g, "~1")}`,
+          value,
+        }))
+      : [{ op: "add", path: "/status", value: fields }];
+
+    await watcher.patchStatus(name, patch as unknown as Record<string, unknown>, namespace);
+
+    logger.debug({ kind, namespace, name, fields: Object.keys(fields) }, `Patched ${kind} status`);
+  } catch (error) {
+    logger.error({ kind, namespace, name, error }, `Failed to patch ${kind} status`);
+    throw error;
+  }
+}
@@ -0,0 +1,169 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import type { AddressInfo } from "node:net";
+import { createServer, type DetailedPeerCertificate, type Server } from "node:tls";
+import { TEST_TLS_CERT, TEST_TLS_KEY } from "../test-utils/fixtures/certificates";
+import {
+  inspectCertificate,
+  isTlsError,
+  parseSubjectAltNames,
+  summarizeCertificate,
+} from "./certificates";
+
+describe("parseSubjectAltNames", () => {
+  test("strips the type prefixes", () => {
+    expect(parseSubjectAltNames("DNS:example.com, DNS:*.example.com, IP Address:10.0.0.1")).toEqual(
+      ["example.com", "*.example.com", "10.0.0.1"],
+    );
+  });
+
+  test("returns an empty list when there are no SANs", () => {
+    expect(parseSubjectAltNames(undefined)).toEqual([]);
+  });
+});
+
+describe("isTlsError", () => {
+  const withCode = (message: string, code: string) => Object.assign(new Error(message), { code });
+
+  test("recognizes certificate verification failures", () => {
+    expect(isTlsError(withCode("self signed certificate", "DEPTH_ZERO_SELF_SIGNED_CERT"))).toBe(
+      true,
+    );
+    expect(isTlsError(withCode("Hostname mismatch", "ERR_TLS_CERT_ALTNAME_INVALID"))).toBe(true);
+    expect(isTlsError(withCode("expired", "CERT_HAS_EXPIRED"))).toBe(true);
+    expect(isTlsError(new Error("unable to verify the first certificate"))).toBe(true);
+  });
+
+  test("ignores other connection errors", () => {
+    expect(isTlsError(withCode("connect ECONNREFUSED", "ECONNREFUSED"))).toBe(false);
+    expect(isTlsError("certificate")).toBe(false);
+  });
+});
+
+describe("summarizeCertificate", () => {
+  const root = {
+    subject: { CN: "Example Root" },
+    issuer: { CN: "Example Root" },
+    valid_from: "Jan  1 00:00:00 2020 GMT",
+    valid_to: "Jan  1 00:00:00 2040 GMT",
+    fingerprint256: "AA:AA",
+  } as unknown as DetailedPeerCertificate;
+  root.issuerCertificate = root;
+
+  const leaf = {
+    subject: { CN: "example.com" },
+    issuer: { CN: "Example Root" },
+    subjectaltname: "DNS:example.com, DNS:www.example.com",
+    valid_from: "Jan  1 00:00:00 2026 GMT",
+    valid_to: "Nov  1 00:00:00 2026 GMT",
+    fingerprint256: "BB:BB",
+    issuerCertificate: root,
+  } as unknown as DetailedPeerCertificate;
+
+  const now = new Date("2026-10-18T00:00:00Z");
+
+  test("captures expiry, issuer, SANs and the chain", () => {
+    const info = summarizeCertificate(leaf, { servername: "example.com", authorized: true }, now);
+
+    expect(info.expiresAt).toBe("2026-11-01T00:00:00.000Z");
+    expect(info.daysRemaining).toBe(14);
+    expect(info.subject).toBe("example.com");
+    expect(info.issuer).toBe("Example Root");
+    expect(info.subjectAltNames).toEqual(["example.com", "www.example.com"]);
+    expect(info.hostnameValid).toBe(true);
+    expect(info.valid).toBe(true);
+    expect(info.validationError).toBeUndefined();
+    expect(info.chain).toEqual([
+      { subject: "example.com", issuer: "Example Root", expiresAt: "2026-11-01T00:00:00.000Z" },
+      { subject: "Example Root", issuer: "Example Root", expiresAt: "2040-01-01T00:00:00.000Z" },
+    ]);
+  });
+
+  test("flags a hostname mismatch", () => {
+    const info = summarizeCertificate(leaf, { servername: "other.com", authorized: true }, now);
+
+    expect(info.hostnameValid).toBe(false);
+    expect(info.valid).toBe(false);
+    expect(info.validationError).toContain("other.com");
+  });
+
+  test("flags an expired certificate", () => {
+    const info = summarizeCertificate(
+      leaf,
+      { servername: "example.com", authorized: true },
+      new Date("2026-11-05T00:00:00Z"),
+    );
+
+    expect(info.daysRemaining).toBe(-4);
+    expect(info.valid).toBe(false);
+  });
+});
+
+describe("inspectCertificate", () => {
+  let server: Server;
+  let port: number;
+
+  beforeAll(async () => {
+    server = createServer({ cert: TEST_TLS_CERT, key: TEST_TLS_KEY }, (socket) => socket.end());
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  test("reports an untrusted self-signed certificate", async () => {
+    const info = await inspectCertificate({
+      host: "127.0.0.1",
+      port,
+      servername: "localhost",
+      timeoutMs: 5000,
+    });
+
+    expect(info.subject).toBe("localhost");
+    expect(info.issuer).toBe("localhost");
+    expect(info.subjectAltNames).toEqual(["localhost", "127.0.0.1"]);
+    expect(info.hostnameValid).toBe(true);
+    expect(info.chainTrusted).toBe(false);
+    expect(info.valid).toBe(false);
+    expect(info.validationError).toBeDefined();
+    expect(info.chain).toHaveLength(1);
+  });
+
+  test("trusts the certificate when its CA is supplied", async () => {
+    const info = await inspectCertificate({
+      host: "127.0.0.1",
+      port,
+      servername: "localhost",
+      ca: TEST_TLS_CERT,
+      timeoutMs: 5000,
+    });
+
+    expect(info.chainTrusted).toBe(true);
+    expect(info.valid).toBe(true);
+  });
+
+  test("checks the hostname against the servername", async () => {
+    const info = await inspectCertificate({
+      host: "127.0.0.1",
+      port,
+      servername: "example.com",
+      ca: TEST_TLS_CERT,
+      timeoutMs: 5000,
+    });
+
+    expect(info.hostnameValid).toBe(false);
+    expect(info.valid).toBe(false);
+  });
+
+  test("rejects when the connection fails", async () => {
+    const closed = createServer({ cert: TEST_TLS_CERT, key: TEST_TLS_KEY });
+    await new Promise<void>((resolve) => closed.listen(0, "127.0.0.1", resolve));
+    const closedPort = (closed.address() as AddressInfo).port;
+    await new Promise<void>((resolve) => closed.close(() => resolve()));
+
+    await expect(
+      inspectCertificate({ host: "127.0.0.1", port: closedPort, timeoutMs: 5000 }),
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * TLS certificate inspection
+ * Performs a TLS handshake to capture the peer certificate chain, expiry,
+ * issuer, SANs and hostname validity for monitor status and cert-expiry alerts.
+ */
+
+import { isIP } from "node:net";
+import {
+  checkServerIdentity,
+  connect,
+  type DetailedPeerCertificate,
+  type PeerCertificate,
+  rootCertificates,
+  type TLSSocket,
+} from "node:tls";
+import type { CertificateChainEntry, CertificateInfo } from "../types/crd/monitor";
+import type { ProxyServer } from "./proxy";
+import { connectTimed } from "./timings";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Guards against malformed chains that never reach a self-signed root
+const MAX_CHAIN_LENGTH = 10;
+
+// OpenSSL verification failures that don't carry an ERR_TLS_ prefix
+const CERT_ERROR_CODE = /CERT|SELF_SIGNED|UNABLE_TO_(GET|VERIFY)/;
+
+/**
+ * Where to connect and how to validate the presented certificate
+ */
+export interface CertificateInspectOptions {
+  host: string;
+  port: number;
+  /** Hostname the certificate must match (SNI), defaults to host */
+  servername?: string;
+  /** PEM bundle of additional trusted CAs */
+  ca?: string;
+  /** Client certificate presented for mutual TLS */
+  clientCert?: ClientCertificate;
+  /** Proxy to tunnel the handshake through */
+  proxy?: ProxyServer;
+  timeoutMs: number;
+}
+
+/**
+ * PEM client certificate and private key for mutual TLS
+ */
+export interface ClientCertificate {
+  cert: string;
+  key: string;
+}
+
+/**
+ * Certificate inspector type for dependency injection
+ */
+export type CertificateInspector = (options: CertificateInspectOptions) => Promise<CertificateInfo>;
+
+/**
+ * Custom CA bundle from tls.caBundleSecretRef
+ * Injected by the Job builder from the referenced Kubernetes secret.
+ */
+export function getCaBundleFromEnv(): string | undefined {
+  return process.env.YUPTIME_TLS_CA_BUNDLE || undefined;
+}
+
+/**
+ * Client certificate from tls.clientCertSecretRef
+ * Injected by the Job builder; both the certificate and key must be present.
+ */
+export function getClientCertFromEnv(): ClientCertificate | undefined {
+  const cert = process.env.YUPTIME_TLS_CLIENT_CERT;
+  const key = process.env.YUPTIME_TLS_CLIENT_KEY;
+
+  if (!cert || !key) {
+    return undefined;
+  }
+
+  return { cert, key };
+}
+
+/**
+ * Trusted CAs for a connection with a custom bundle
+ * Setting `ca` replaces the default roots, so the bundle is added to the system roots.
+ */
+export function withSystemRoots(caBundle: string): string[] {
+  return [...rootCertificates, caBundle];
+}
+
+/**
+ * Check whether a connection error was caused by certificate validation or the TLS handshake
+ */
+export function isTlsError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+
+  const code = (error as { code?: unknown }).code;
+  if (typeof code === "string" && (/^ERR_(TLS|SSL)_/.test(code) || CERT_ERROR_CODE.test(code))) {
+    return true;
+  }
+
+  return error.message.toLowerCase().includes("certificate");
+}
+
+/**
+ * Format a certificate subject or issuer, preferring the common name
+ */
+function formatName(name: PeerCertificate["subject"] | undefined): string {
+  if (!name) return "";
+
+  const value = name.CN || name.O;
+  if (value) return Array.isArray(value) ? value.join(", ") : value;
+
+  return Object.entries(name)
+    .map(([key, entry]) => `${key}=${Array.isArray(entry) ? entry.join("+") : entry}`)
+    .join(", ");
+}
+
+/**
+ * Parse "DNS:example.com, IP Address:10.0.0.1" into plain names
+ */
+export function parseSubjectAltNames(subjectaltname: string | undefined): string[] {
+  if (!subjectaltname) return [];
+
+  return subjectaltname
+    .split(",")
+    .map((entry) => entry.trim())
+    .map((entry) => entry.slice(entry.indexOf(":") + 1))
+    .filter(Boolean);
+}
+
+/**
+ * Walk the issuer links of a detailed peer certificate, leaf first
+ */
+function collectChain(peer: DetailedPeerCertificate): CertificateChainEntry[] {
+  const chain: CertificateChainEntry[] = [];
+  const seen = new Set<string>();
+  let current: DetailedPeerCertificate | undefined = peer;
+
+  while (current && chain.length < MAX_CHAIN_LENGTH) {
+    // Self-signed roots point at themselves
+    if (current.fingerprint256 && seen.has(current.fingerprint256)) break;
+    if (current.fingerprint256) seen.add(current.fingerprint256);
+
+    chain.push({
+      subject: formatName(current.subject),
+      issuer: formatName(current.issuer),
+      expiresAt: new Date(current.valid_to).toISOString(),
+    });
+    current = current.issuerCertificate;
+  }
+
+  return chain;
+}
+
+/**
+ * Summarize a peer certificate into CertificateInfo
+ */
+export function summarizeCertificate(
+  peer: DetailedPeerCertificate,
+  handshake: { servername: string; authorized: boolean; authorizationError?: string | undefined },
+  now: Date = new Date(),
+): CertificateInfo {
+  const expiresAt = new Date(peer.valid_to);
+  const notBefore = new Date(peer.valid_from);
+  const daysRemaining = Math.floor((expiresAt.getTime() - now.getTime()) / MS_PER_DAY);
+
+  const identityError = checkServerIdentity(handshake.servername, peer);
+  const hostnameValid = identityError === undefined;
+  const withinValidity = now >= notBefore && now <= expiresAt;
+
+  const validationError = handshake.authorized
+    ? identityError?.message
+    : handshake.authorizationError || "Certificate chain is not trusted";
+
+  return {
+    expiresAt: expiresAt.toISOString(),
+    notBefore: notBefore.toISOString(),
+    daysRemaining,
+    valid: handshake.authorized && hostnameValid && withinValidity,
+    subject: formatName(peer.subject),
+    issuer: formatName(peer.issuer),
+    subjectAltNames: parseSubjectAltNames(peer.subjectaltname),
+    fingerprint256: peer.fingerprint256,
+    hostnameValid,
+    chainTrusted: handshake.authorized,
+    ...(validationError && { validationError }),
+    chain: collectChain(peer),
+    checkedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Connect to host:port over TLS and capture the presented certificate
+ * The handshake never rejects untrusted certificates so they can still be reported;
+ * trust and hostname problems are recorded on the result instead.
+ */
+export async function inspectCertificate(
+  options: CertificateInspectOptions,
+): Promise<CertificateInfo> {
+  const { socket, cert } = await connectTls(options);
+  socket.end();
+  return cert;
+}
+
+/**
+ * Open a TLS connection to host:port and capture the certificate it presented
+ * The socket is left open so a protocol exchange can run over the same session.
+ */
+export async function connectTls(
+  options: CertificateInspectOptions,
+): Promise<{ socket: TLSSocket; cert: CertificateInfo }> {
+  const servername = options.servername ?? options.host;
+  const { socket: tcpSocket } = await connectTimed(
+    options.host,
+    options.port,
+    options.proxy,
+    options.timeoutMs,
+  );
+
+  return new Promise((resolve, reject) => {
+    const socket = connect({
+      socket: tcpSocket,
+      // SNI must not be an IP address
+      ...(!isIP(servername) && { servername }),
+      ...(options.ca && { ca: withSystemRoots(options.ca) }),
+      ...options.clientCert,
+      rejectUnauthorized: false,
+    });
+
+    const fail = (error: Error) => {
+      clearTimeout(timeoutHandle);
+      socket.destroy();
+      tcpSocket.destroy();
+      reject(error);
+    };
+
+    const timeoutHandle = setTimeout(
+      () => fail(new Error(`TLS handshake timeout after ${options.timeoutMs}ms`)),
+      options.timeoutMs,
+    );
+
+    socket.once("secureConnect", () => {
+      clearTimeout(timeoutHandle);
+      const peer = socket.getPeerCertificate(true);
+      const authorizationError = socket.authorizationError
+        ? String(socket.authorizationError)
+        : undefined;
+
+      if (!peer || Object.keys(peer).length === 0) {
+        fail(new Error("No peer certificate presented"));
+        return;
+      }
+
+      resolve({
+        socket,
+        cert: summarizeCertificate(peer, {
+          servername,
+          authorized: socket.authorized,
+          authorizationError,
+        }),
+      });
+    });
+
+    socket.once("error", fail);
+  });
+}
@@ -0,0 +1,166 @@
+import { describe, expect, test } from "bun:test";
+import type { LastResult } from "../types/crd/monitor";
+import { evaluateCheckState, isConfirmedState } from "./check-state";
+
+const now = new Date("2025-06-10T12:00:00Z");
+
+function lastResult(
+  state: LastResult["state"],
+  attempts: number,
+  failingSince?: string,
+): LastResult {
+  return {
+    state,
+    attempts,
+    checkedAt: "2025-06-10T11:59:00Z",
+    ...(failingSince && { failingSince }),
+  };
+}
+
+describe("evaluateCheckState", () => {
+  test("goes down immediately without retries or grace period", () => {
+    expect(evaluateCheckState(lastResult("up", 1), "down", {}, now)).toEqual({
+      state: "down",
+      attempts: 1,
+      failingSince: now.toISOString(),
+    });
+  });
+
+  test("stays pending until retries are used up", () => {
+    const schedule = { retries: { maxRetries: 2, retryIntervalSeconds: 10 } };
+
+    const first = evaluateCheckState(lastResult("up", 1), "down", schedule, now);
+    expect(first.state).toBe("pending");
+    expect(first.attempts).toBe(1);
+
+    const second = evaluateCheckState(
+      lastResult("pending", 1, first.failingSince),
+      "down",
+      schedule,
+      now,
+    );
+    expect(second.state).toBe("pending");
+    expect(second.attempts).toBe(2);
+
+    const third = evaluateCheckState(
+      lastResult("pending", 2, first.failingSince),
+      "down",
+      schedule,
+      now,
+    );
+    expect(third.state).toBe("down");
+    expect(third.attempts).toBe(3);
+    expect(third.failingSince).toBe(first.failingSince);
+  });
+
+  test("stays pending until the grace period has passed", () => {
+    const schedule = { graceDownSeconds: 120 };
+
+    const first = evaluateCheckState(lastResult("up", 1), "down", schedule, now);
+    expect(first.state).toBe("pending");
+
+    const early = evaluateCheckState(
+      lastResult("pending", 1, first.failingSince),
+      "down",
+      schedule,
+      new Date(now.getTime() + 60_000),
+    );
+    expect(early.state).toBe("pending");
+
+    const late = evaluateCheckState(
+      lastResult("pending", 2, first.failingSince),
+      "down",
+      schedule,
+      new Date(now.getTime() + 120_000),
+    );
+    expect(late.state).toBe("down");
+    expect(late.attempts).toBe(3);
+  });
+
+  test("requires both retries and grace period when both are set", () => {
+    const schedule = {
+      retries: { maxRetries: 1, retryIntervalSeconds: 10 },
+      graceDownSeconds: 300,
+    };
+    const failingSince = now.toISOString();
+
+    const result = evaluateCheckState(
+      lastResult("pending", 3, failingSince),
+      "down",
+      schedule,
+      new Date(now.getTime() + 60_000),
+    );
+    expect(result.state).toBe("pending");
+    expect(result.attempts).toBe(4);
+  });
+
+  test("recovers from pending without confirming the failure", () => {
+    const schedule = { retries: { maxRetries: 3, retryIntervalSeconds: 10 } };
+    expect(
+      evaluateCheckState(lastResult("pending", 2, now.toISOString()), "up", schedule, now),
+    ).toEqual({ state: "up", attempts: 1 });
+  });
+
+  test("stays down once confirmed", () => {
+    const schedule = { retries: { maxRetries: 5, retryIntervalSeconds: 10 } };
+    const result = evaluateCheckState(
+      lastResult("down", 6, "2025-06-10T11:00:00Z"),
+      "down",
+      schedule,
+      now,
+    );
+    expect(result).toEqual({
+      state: "down",
+      attempts: 7,
+      failingSince: "2025-06-10T11:00:00Z",
+    });
+  });
+
+  test("continues the failure streak while the monitor is flapping", () => {
+    const schedule = { retries: { maxRetries: 3, retryIntervalSeconds: 10 } };
+    const result = evaluateCheckState(
+      { ...lastResult("pending", 2, "2025-06-10T11:58:00Z"), flapping: true },
+      "down",
+      schedule,
+      now,
+    );
+    expect(result).toEqual({
+      state: "pending",
+      attempts: 3,
+      failingSince: "2025-06-10T11:58:00Z",
+    });
+  });
+
+  test("does not count a repeated outcome as another attempt", () => {
+    const schedule = { retries: { maxRetries: 2, retryIntervalSeconds: 10 } };
+    const result = evaluateCheckState(
+      lastResult("pending", 1, "2025-06-10T11:59:00Z"),
+      "down",
+      schedule,
+      now,
+      true,
+    );
+    expect(result).toEqual({
+      state: "pending",
+      attempts: 1,
+      failingSince: "2025-06-10T11:59:00Z",
+    });
+  });
+
+  test("starts a new failure streak after a non-failing state", () => {
+    const schedule = { retries: { maxRetries: 1, retryIntervalSeconds: 10 } };
+    const result = evaluateCheckState(lastResult("paused", 4), "down", schedule, now);
+    expect(result.state).toBe("pending");
+    expect(result.attempts).toBe(1);
+  });
+});
+
+describe("isConfirmedState", () => {
+  test("only up and down are confirmed", () => {
+    expect(isConfirmedState("up")).toBe(true);
+    expect(isConfirmedState("down")).toBe(true);
+    expect(isConfirmedState("pending")).toBe(false);
+    expect(isConfirmedState("flapping")).toBe(false);
+    expect(isConfirmedState(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Check state machine
+ *
+ * Turns raw check outcomes into confirmed monitor states using
+ * schedule.retries and schedule.graceDownSeconds. A failing check stays
+ * `pending` until the retries are used up and the grace period has passed.
+ */
+
+import type { LastResult, MonitorSchedule } from "../types/crd/monitor";
+
+/**
+ * States that represent a confirmed outcome (alertable)
+ */
+export type ConfirmedState = "up" | "down";
+
+/**
+ * Result of evaluating a check against the previous state
+ */
+export interface CheckStateTransition {
+  state: "up" | "down" | "pending";
+  attempts: number;
+  failingSince?: string;
+}
+
+/**
+ * Check whether a state is a confirmed outcome rather than an in-between state
+ */
+export function isConfirmedState(state: string | undefined): state is ConfirmedState {
+  return state === "up" || state === "down";
+}
+
+/**
+ * Evaluate a raw check outcome against the previous result
+ *
+ * @param previous - The previous lastResult from Monitor status
+ * @param outcome - Raw outcome of the check that just ran
+ * @param schedule - Monitor schedule (retries and grace period)
+ * @param now - Time of the check
+ * @param repeated - The outcome was already counted (e.g. a push replayed by the push check)
+ */
+export function evaluateCheckState(
+  previous: LastResult | undefined,
+  outcome: "up" | "down",
+  schedule: Pick<MonitorSchedule, "retries" | "graceDownSeconds">,
+  now: Date = new Date(),
+  repeated = false,
+): CheckStateTransition {
+  if (outcome === "up") {
+    return { state: "up", attempts: 1 };
+  }
+
+  // Continue the current failure streak, if any
+  const failing = previous?.state === "pending" || previous?.state === "down";
+  const attempts = failing ? (previous?.attempts ?? 0) + (repeated ? 0 : 1) : 1;
+  const failingSince = (failing && previous?.failingSince) || now.toISOString();
+
+  // Once confirmed, stay down until a successful check
+  if (previous?.state === "down") {
+    return { state: "down", attempts, failingSince };
+  }
+
+  const maxRetries = schedule.retries?.maxRetries ?? 0;
+  const retriesExhausted = attempts > maxRetries;
+
+  const graceMs = (schedule.graceDownSeconds ?? 0) * 1000;
+  const graceElapsed = now.getTime() - new Date(failingSince).getTime() >= graceMs;
+
+  return {
+    state: retriesExhausted && graceElapsed ? "down" : "pending",
+    attempts,
+    failingSince,
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Monitor URL
+ *
+ * Human-readable address of a monitor's target, used for metric labels,
+ * alert annotations and dashboards.
+ */
+
+import type { Monitor } from "../types/crd/monitor";
+
+/**
+ * Drop user info from a URL-like connection string so credentials never reach labels
+ */
+function withoutCredentials(connectionString: string): string {
+  return connectionString.replace(/\/\/[^/@]*@/, "//");
+}
+
+/**
+ * Extract the address a monitor checks, or "unknown" when the target has none
+ */
+export function getMonitorUrl(monitor: Monitor): string {
+  const target = monitor.spec?.target;
+
+  if (target?.http) {
+    return target.http.url;
+  }
+  if (target?.keyword) {
+    return target.keyword.target.url;
+  }
+  if (target?.jsonQuery) {
+    return target.jsonQuery.target.url;
+  }
+  if (target?.tcp) {
+    return `${target.tcp.host}:${target.tcp.port}`;
+  }
+  if (target?.grpc) {
+    return `${target.grpc.host}:${target.grpc.port}`;
+  }
+  const mail = target?.smtp ?? target?.imap ?? target?.pop3;
+  if (mail) {
+    return `${mail.host}:${mail.port}`;
+  }
+  if (target?.ssh) {
+    return `${target.ssh.host}:${target.ssh.port}`;
+  }
+  if (target?.dns) {
+    return target.dns.name;
+  }
+  if (target?.ping) {
+    return target.ping.host;
+  }
+  if (target?.websocket) {
+    return target.websocket.url;
+  }
+  if (target?.steam) {
+    return `${target.steam.host}:${target.steam.port}`;
+  }
+  if (target?.mysql) {
+    return `${target.mysql.host}:${target.mysql.port}`;
+  }
+  if (target?.postgresql) {
+    return `${target.postgresql.host}:${target.postgresql.port}`;
+  }
+  if (target?.redis) {
+    return `${target.redis.host}:${target.redis.port}`;
+  }
+  if (target?.mongodb) {
+    return target.mongodb.connectionString
+      ? withoutCredentials(target.mongodb.connectionString)
+      : (target.mongodb.hosts ?? []).join(",");
+  }
+  if (target?.kafka) {
+    return target.kafka.brokers.join(",");
+  }
+  if (target?.amqp) {
+    return `${target.amqp.host}:${target.amqp.port}`;
+  }
+  if (target?.nats) {
+    return target.nats.servers.join(",");
+  }
+  if (target?.mqtt) {
+    return target.mqtt.port ? `${target.mqtt.host}:${target.mqtt.port}` : target.mqtt.host;
+  }
+  if (target?.docker) {
+    return `${target.docker.endpoint}/${target.docker.container}`;
+  }
+  if (target?.graphql) {
+    return target.graphql.url;
+  }
+  if (target?.prometheus) {
+    return target.prometheus.url;
+  }
+  if (target?.httpSteps?.steps[0]) {
+    return target.httpSteps.steps[0].url;
+  }
+  if (target?.k8s) {
+    return `${target.k8s.resource.kind}/${target.k8s.resource.name}`;
+  }
+  if (target?.kubernetes) {
+    return `${target.kubernetes.kind}/${target.kubernetes.namespace}/${target.kubernetes.name}`;
+  }
+
+  return "unknown";
+}
@@ -8,6 +8,7 @@
  */
 
 import { Counter, collectDefaultMetrics, Gauge, Registry } from "prom-client";
+import type { HttpTimings } from "../types/crd/monitor";
 
 // Create registry for yuptime metrics
 const registry = new Registry();
@@ -37,6 +38,26 @@ export const monitorLatency = new Gauge({
   registers: [registry],
 });
 
+/**
+ * HTTP phase latency in milliseconds
+ * Gauge showing DNS, connect, TLS, first byte and transfer time for the last check
+ */
+export const monitorPhaseLatency = new Gauge({
+  name: "yuptime_monitor_phase_latency_ms",
+  help: "HTTP check phase latency in milliseconds",
+  labelNames: ["monitor", "namespace", "type", "phase"] as const,
+  registers: [registry],
+});
+
+// Phase label for each reported timing
+const PHASE_LABELS: Record<keyof HttpTimings, string> = {
+  dnsMs: "dns",
+  connectMs: "connect",
+  tlsMs: "tls",
+  firstByteMs: "first_byte",
+  transferMs: "transfer",
+};
+
 /**
  * Total number of monitor checks
  * Counter tracking total check count
@@ -52,13 +73,35 @@ export const monitorChecksTotal = new Counter({
  * Monitor state changes
  * Counter tracking when monitors go up/down
  */
-export const monitorStateChanges = new Gauge({
+export const monitorStateChanges = new Counter({
   name: "yuptime_monitor_state_changes_total",
   help: "Number of monitor state changes (up to down, down to up)",
   labelNames: ["monitor", "namespace", "from_state", "to_state"] as const,
   registers: [registry],
 });
 
+/**
+ * Suppressed alerts
+ * Counter tracking state change alerts muted by maintenance windows or silences
+ */
+export const alertsSuppressed = new Counter({
+  name: "yuptime_alerts_suppressed_total",
+  help: "Number of monitor alerts suppressed by maintenance windows or silences",
+  labelNames: ["monitor", "namespace", "to_state", "source_kind", "source_name"] as const,
+  registers: [registry],
+});
+
+/**
+ * Certificate expiry in days
+ * Gauge showing days until the certificate presented by a TLS target expires
+ */
+export const certExpiryDays = new Gauge({
+  name: "yuptime_cert_expiry_days",
+  help: "Days until the monitored TLS certificate expires (negative once expired)",
+  labelNames: ["monitor", "namespace", "type"] as const,
+  registers: [registry],
+});
+
 /**
  * Active incidents
  * Gauge showing number of currently active incidents
@@ -133,6 +176,35 @@ export function recordCheckResult(
   monitorChecksTotal.inc({ monitor: monitorName, namespace, type, result: result.state }, 1);
 }
 
+/**
+ * Record the phase timings of an HTTP check
+ */
+export function recordPhaseTimings(
+  monitorName: string,
+  namespace: string,
+  type: string,
+  timings: HttpTimings,
+): void {
+  for (const [key, phase] of Object.entries(PHASE_LABELS)) {
+    const value = timings[key as keyof HttpTimings];
+    if (value !== undefined) {
+      monitorPhaseLatency.set({ monitor: monitorName, namespace, type, phase }, value);
+    }
+  }
+}
+
+/**
+ * Record the days remaining on a monitor's TLS certificate
+ */
+export function recordCertExpiry(
+  monitorName: string,
+  namespace: string,
+  type: string,
+  daysRemaining: number,
+): void {
+  certExpiryDays.set({ monitor: monitorName, namespace, type }, daysRemaining);
+}
+
 /**
  * Record a state change (up → down or down → up)
  */
@@ -153,6 +225,28 @@ export function recordStateChange(
   );
 }
 
+/**
+ * Record an alert suppressed by a maintenance window or silence
+ */
+export function recordAlertSuppressed(
+  monitorName: string,
+  namespace: string,
+  toState: string,
+  sourceKind: string,
+  sourceName: string,
+): void {
+  alertsSuppressed.inc(
+    {
+      monitor: monitorName,
+      namespace,
+      to_state: toState,
+      source_kind: sourceKind,
+      source_name: sourceName,
+    },
+    1,
+  );
+}
+
 /**
  * Increment active incidents counter
  */
@@ -183,6 +277,8 @@ export function resetMonitorMetrics(monitorName: string, namespace: string): voi
   // Remove all metrics for this monitor
   monitorState.remove({ monitor: monitorName, namespace });
   monitorLatency.remove({ monitor: monitorName, namespace });
+  monitorPhaseLatency.remove({ monitor: monitorName, namespace });
   checkDuration.remove({ monitor: monitorName, namespace });
+  certExpiryDays.remove({ monitor: monitorName, namespace });
   // Note: We don't reset counters as they are cumulative
 }
@@ -0,0 +1,494 @@
+/**
+ * Outbound proxy support for checkers
+ *
+ * Tunnels connections through an HTTP CONNECT or SOCKS5 proxy. fetch() and WebSocket
+ * only speak HTTP proxies, so SOCKS proxies are exposed to them through a local
+ * CONNECT bridge that forwards each tunnel over SOCKS.
+ */
+
+import { type AddressInfo, connect, createServer, isIP, type Socket } from "node:net";
+
+// Marks errors raised while establishing a tunnel
+const PROXY_ERROR_CODE = "ERR_PROXY_TUNNEL";
+
+const SOCKS_VERSION = 0x05;
+const SOCKS_AUTH_NONE = 0x00;
+const SOCKS_AUTH_PASSWORD = 0x02;
+const SOCKS_CMD_CONNECT = 0x01;
+const SOCKS_ATYP_IPV4 = 0x01;
+const SOCKS_ATYP_DOMAIN = 0x03;
+const SOCKS_ATYP_IPV6 = 0x04;
+
+const SOCKS_REPLIES: Record<number, string> = {
+  1: "general failure",
+  2: "connection not allowed by ruleset",
+  3: "network unreachable",
+  4: "host unreachable",
+  5: "connection refused",
+  6: "TTL expired",
+  7: "command not supported",
+  8: "address type not supported",
+};
+
+/**
+ * Proxy a checker connects through
+ * Injected by the Job builder from the monitor's proxy or YuptimeSettings.networking.proxy.
+ */
+export interface ProxyServer {
+  mode: "http" | "socks";
+  url: string;
+  username?: string;
+  password?: string;
+  /** Hosts reached directly instead of through the proxy */
+  noProxy: string[];
+}
+
+/**
+ * Local URL that fetch() and WebSocket can use as an HTTP proxy
+ */
+export interface ProxyEndpoint {
+  url: string;
+  close(): void;
+}
+
+/**
+ * Tunnel factory type for dependency injection
+ */
+export type ProxyTunnel = (
+  proxy: ProxyServer,
+  host: string,
+  port: number,
+  timeoutMs: number,
+) => Promise<Socket>;
+
+function proxyError(message: string): Error {
+  return Object.assign(new Error(message), { code: PROXY_ERROR_CODE });
+}
+
+/**
+ * Check whether an error was raised while connecting through the proxy
+ */
+export function isProxyError(error: unknown): boolean {
+  return error instanceof Error && (error as { code?: unknown }).code === PROXY_ERROR_CODE;
+}
+
+/**
+ * Get proxy configuration from environment variables
+ */
+export function getProxyFromEnv(): ProxyServer | undefined {
+  const mode = process.env.YUPTIME_PROXY_MODE;
+  const url = process.env.YUPTIME_PROXY_URL;
+
+  if ((mode !== "http" && mode !== "socks") || !url) {
+    return undefined;
+  }
+
+  const username = process.env.YUPTIME_PROXY_USERNAME;
+  const password = process.env.YUPTIME_PROXY_PASSWORD;
+
+  return {
+    mode,
+    url,
+    ...(username && { username }),
+    ...(password && { password }),
+    noProxy: (process.env.YUPTIME_NO_PROXY ?? "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean),
+  };
+}
+
+/**
+ * Check whether a host is excluded from proxying
+ * Entries match exact names or IPs, ".example.com" / "*.example.com" match the domain
+ * and its subdomains, and "*" matches everything.
+ */
+export function bypassesProxy(hostname: string, noProxy: string[]): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "");
+
+  return noProxy.some((entry) => {
+    const pattern = entry.trim().toLowerCase();
+    if (pattern === "*") return true;
+
+    const suffix = pattern.replace(/^\*/, "");
+    if (suffix.startsWith(".")) {
+      return host.endsWith(suffix) || host === suffix.slice(1);
+    }
+
+    return host === pattern;
+  });
+}
+
+/**
+ * Resolve the proxy for a target host
+ * A monitor-level proxy block takes precedence: mode none connects directly, other modes
+ * require the proxy URL to have been injected. Without one the cluster-wide proxy applies.
+ */
+export function resolveProxy(
+  config: { mode?: string | undefined } | undefined,
+  hostname: string,
+): { proxy?: ProxyServer; error?: string } {
+  if (config && (config.mode ?? "none") === "none") {
+    return {};
+  }
+
+  const proxy = getProxyFromEnv();
+
+  if (config && !proxy) {
+    return { error: "Proxy URL not found in environment" };
+  }
+
+  if (!proxy || bypassesProxy(hostname, proxy.noProxy)) {
+    return {};
+  }
+
+  return { proxy };
+}
+
+/**
+ * Parse the proxy URL, accepting bare host:port values
+ */
+function parseProxyUrl(proxy: ProxyServer): URL {
+  const scheme = proxy.mode === "socks" ? "socks5" : "http";
+  const url = new URL(proxy.url.includes("://") ? proxy.url : `${scheme}://${proxy.url}`);
+
+  if (proxy.username) url.username = encodeURIComponent(proxy.username);
+  if (proxy.password) url.password = encodeURIComponent(proxy.password);
+
+  return url;
+}
+
+function proxyAddress(url: URL, mode: ProxyServer["mode"]): { host: string; port: number } {
+  const defaultPort = mode === "socks" ? 1080 : url.protocol === "https:" ? 443 : 80;
+  return {
+    host: url.hostname.replace(/^\[|\]$/g, ""),
+    port: Number(url.port) || defaultPort,
+  };
+}
+
+function proxyCredentials(url: URL): { username: string; password: string } | undefined {
+  if (!url.username) return undefined;
+  return {
+    username: decodeURIComponent(url.username),
+    password: decodeURIComponent(url.password),
+  };
+}
+
+/**
+ * Buffered reads from a socket during a proxy handshake
+ */
+function createReader(socket: Socket) {
+  let buffered = Buffer.alloc(0);
+  let pending: (() => void) | undefined;
+
+  const onData = (chunk: Buffer) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    pending?.();
+  };
+  socket.on("data", onData);
+
+  const waitFor = <T>(take: (buffer: Buffer) => [T, number] | undefined): Promise<T> =>
+    new Promise((resolve) => {
+      const attempt = () => {
+        const taken = take(buffered);
+        if (!taken) return;
+
+        pending = undefined;
+        buffered = buffered.subarray(taken[1]);
+        resolve(taken[0]);
+      };
+      pending = attempt;
+      attempt();
+    });
+
+  return {
+    read: (length: number) =>
+      waitFor((buffer) =>
+        buffer.length >= length ? [buffer.subarray(0, length), length] : undefined,
+      ),
+    readHead: () =>
+      waitFor((buffer) => {
+        const end = buffer.indexOf("\r\n\r\n");
+        return end === -1 ? undefined : [buffer.subarray(0, end).toString(), end + 4];
+      }),
+    /** Stop reading and return any bytes received past the handshake */
+    release: () => {
+      socket.off("data", onData);
+      return buffered;
+    },
+  };
+}
+
+type Reader = ReturnType<typeof createReader>;
+
+function formatAuthority(host: string, port: number): string {
+  return `${isIP(host) === 6 ? `[${host}]` : host}:${port}`;
+}
+
+async function httpConnectHandshake(
+  socket: Socket,
+  reader: Reader,
+  proxyUrl: URL,
+  host: string,
+  port: number,
+): Promise<void> {
+  const authority = formatAuthority(host, port);
+  const lines = [`CONNECT ${authority} HTTP/1.1`, `Host: ${authority}`];
+
+  const credentials = proxyCredentials(proxyUrl);
+  if (credentials) {
+    const encoded = Buffer.from(`${credentials.username}:${credentials.password}`).toString(
+      "base64",
+    );
+    lines.push(`Proxy-Authorization: Basic ${encoded}`);
+  }
+
+  socket.write(`${lines.join("\r\n")}\r\n\r\n`);
+
+  const head = await reader.readHead();
+  const statusLine = head.split("\r\n")[0] ?? "";
+  const status = /^HTTP\/1\.[01] (\d{3})/.exec(statusLine)?.[1];
+
+  if (!status?.startsWith("2")) {
+    throw proxyError(`Proxy CONNECT failed: ${statusLine || "empty response"}`);
+  }
+}
+
+/**
+ * Encode the destination address; names and IPv6 literals are resolved by the proxy
+ */
+function encodeSocksAddress(host: string): Buffer {
+  if (isIP(host) === 4) {
+    return Buffer.from([SOCKS_ATYP_IPV4, ...host.split(".").map(Number)]);
+  }
+
+  const name = Buffer.from(host);
+  return Buffer.concat([Buffer.from([SOCKS_ATYP_DOMAIN, name.length]), name]);
+}
+
+async function socksHandshake(
+  socket: Socket,
+  reader: Reader,
+  proxyUrl: URL,
+  host: string,
+  port: number,
+): Promise<void> {
+  const credentials = proxyCredentials(proxyUrl);
+  const methods = credentials ? [SOCKS_AUTH_NONE, SOCKS_AUTH_PASSWORD] : [SOCKS_AUTH_NONE];
+  socket.write(Buffer.from([SOCKS_VERSION, methods.length, ...methods]));
+
+  const greeting = await reader.read(2);
+  if (greeting.readUInt8(0) !== SOCKS_VERSION) {
+    throw proxyError("Proxy is not a SOCKS5 server");
+  }
+
+  const method = greeting.readUInt8(1);
+  if (method === SOCKS_AUTH_PASSWORD && credentials) {
+    const username = Buffer.from(credentials.username);
+    const password = Buffer.from(credentials.password);
+    socket.write(
+      Buffer.concat([
+        Buffer.from([0x01, username.length]),
+        username,
+        Buffer.from([password.length]),
+        password,
+      ]),
+    );
+
+    const auth = await reader.read(2);
+    if (auth.readUInt8(1) !== 0x00) {
+      throw proxyError("SOCKS5 proxy authentication failed");
+    }
+  } else if (method !== SOCKS_AUTH_NONE) {
+    throw proxyError("SOCKS5 proxy requires authentication");
+  }
+
+  const portBytes = Buffer.alloc(2);
+  portBytes.writeUInt16BE(port);
+  socket.write(
+    Buffer.concat([
+      Buffer.from([SOCKS_VERSION, SOCKS_CMD_CONNECT, 0x00]),
+      encodeSocksAddress(host),
+      portBytes,
+    ]),
+  );
+
+  const reply = await reader.read(4);
+  const code = reply.readUInt8(1);
+  if (code !== 0x00) {
+    throw proxyError(`SOCKS5 connect failed: ${SOCKS_REPLIES[code] ?? `code ${code}`}`);
+  }
+
+  // Skip the bound address and port
+  const addressType = reply.readUInt8(3);
+  const addressLength =
+    addressType === SOCKS_ATYP_IPV4
+      ? 4
+      : addressType === SOCKS_ATYP_IPV6
+        ? 16
+        : (await reader.read(1)).readUInt8(0);
+  await reader.read(addressLength + 2);
+}
+
+/**
+ * Open a TCP tunnel to host:port through the proxy
+ * The returned socket is connected end to end; TLS can be layered on top of it.
+ */
+export function connectThroughProxy(
+  proxy: ProxyServer,
+  host: string,
+  port: number,
+  timeoutMs: number,
+): Promise<Socket> {
+  const proxyUrl = parseProxyUrl(proxy);
+  const address = proxyAddress(proxyUrl, proxy.mode);
+
+  return new Promise((resolve, reject) => {
+    const socket = connect(address.port, address.host);
+    let settled = false;
+
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeoutHandle);
+      socket.destroy();
+      reject(error);
+    };
+
+    const onError = (error: Error) => fail(proxyError(`Proxy connection failed: ${error.message}`));
+    const onClose = () => fail(proxyError("Proxy closed the connection"));
+
+    const timeoutHandle = setTimeout(
+      () => fail(proxyError(`Proxy connection timeout after ${timeoutMs}ms`)),
+      timeoutMs,
+    );
+
+    socket.on("error", onError);
+    socket.on("close", onClose);
+
+    socket.once("connect", () => {
+      const reader = createReader(socket);
+      const handshake =
+        proxy.mode === "socks"
+          ? socksHandshake(socket, reader, proxyUrl, host, port)
+          : httpConnectHandshake(socket, reader, proxyUrl, host, port);
+
+      handshake.then(() => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeoutHandle);
+        socket.off("error", onError);
+        socket.off("close", onClose);
+
+        const remaining = reader.release();
+        if (remaining.length > 0) socket.unshift(remaining);
+
+        resolve(socket);
+      }, fail);
+    });
+  });
+}
+
+/**
+ * Splice a client connection onto an upstream tunnel
+ */
+function splice(client: Socket, upstream: Socket, pending: Buffer) {
+  if (pending.length > 0) upstream.write(pending);
+
+  client.pipe(upstream);
+  upstream.pipe(client);
+  client.on("error", () => upstream.destroy());
+  upstream.on("error", () => client.destroy());
+}
+
+/**
+ * Serve one connection of the local bridge
+ * CONNECT requests become tunnels; plain http:// requests are forwarded in origin form
+ * with Connection: close so each request gets its own tunnel.
+ */
+async function bridgeConnection(
+  client: Socket,
+  proxy: ProxyServer,
+  timeoutMs: number,
+  tunnel: ProxyTunnel,
+): Promise<void> {
+  const reader = createReader(client);
+  const head = await reader.readHead();
+  const [requestLine = "", ...headerLines] = head.split("\r\n");
+  const [method = "", target = "", version = "HTTP/1.1"] = requestLine.split(" ");
+
+  try {
+    if (method === "CONNECT") {
+      const { hostname, port } = new URL(`http://${target}`);
+      const upstream = await tunnel(
+        proxy,
+        hostname.replace(/^\[|\]$/g, ""),
+        Number(port) || 443,
+        timeoutMs,
+      );
+      client.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+      splice(client, upstream, reader.release());
+      return;
+    }
+
+    const url = new URL(target);
+    const upstream = await tunnel(
+      proxy,
+      url.hostname.replace(/^\[|\]$/g, ""),
+      Number(url.port) || 80,
+      timeoutMs,
+    );
+    const headers = headerLines.filter((line) => !/^(proxy-)?connection:/i.test(line));
+    upstream.write(
+      `${method} ${url.pathname}${url.search} ${version}\r\n` +
+        `${[...headers, "Connection: close"].join("\r\n")}\r\n\r\n`,
+    );
+    splice(client, upstream, reader.release());
+  } catch {
+    client.end("HTTP/1.1 502 Bad Gateway\r\nConnection: close\r\n\r\n");
+  }
+}
+
+/**
+ * Expose the proxy as an HTTP proxy URL for fetch() and WebSocket
+ * HTTP proxies are used as-is; SOCKS proxies get a loopback bridge that must be closed.
+ */
+export async function openProxyEndpoint(
+  proxy: ProxyServer,
+  timeoutMs: number,
+  tunnel: ProxyTunnel = connectThroughProxy,
+): Promise<ProxyEndpoint> {
+  if (proxy.mode === "http") {
+    return {
+      url: parseProxyUrl(proxy).toString(),
+      close: () => {
+        // Nothing to release; fetch talks to the proxy directly
+      },
+    };
+  }
+
+  const connections = new Set<Socket>();
+  const server = createServer((client) => {
+    connections.add(client);
+    client.on("close", () => connections.delete(client));
+    client.on("error", () => client.destroy());
+    bridgeConnection(client, proxy, timeoutMs, tunnel).catch(() => client.destroy());
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", resolve);
+  });
+
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => {
+      server.close();
+      for (const connection of connections) {
+        connection.destroy();
+      }
+    },
+  };
+}
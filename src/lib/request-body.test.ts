@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test";
+import { buildRequestBody, type SecretResolver } from "./request-body";
+
+const secrets: Record<string, string> = {
+  "login/password": "hunter2",
+  "login/payload": '{"user":"monitor","password":"hunter2"}',
+  "blob/data": Buffer.from([0xde, 0xad, 0xbe, 0xef]).toString("base64"),
+};
+
+const resolveSecret: SecretResolver = async (ref) => {
+  const value = secrets[`${ref.name}/${ref.key}`];
+  if (value === undefined) {
+    throw new Error(`secret ${ref.name}/${ref.key} not found`);
+  }
+  return value;
+};
+
+describe("buildRequestBody", () => {
+  test("returns no body for none or a missing config", async () => {
+    expect(await buildRequestBody(undefined, resolveSecret)).toEqual({});
+    expect(await buildRequestBody({ type: "none" }, resolveSecret)).toEqual({});
+  });
+
+  test("renders timestamps and IDs in inline JSON", async () => {
+    const result = await buildRequestBody(
+      { type: "json", json: { id: `\${uuid}`, sentAt: `\${timestamp}`, keep: `\${other}` } },
+      resolveSecret,
+    );
+    const body = JSON.parse(result.body as string);
+
+    expect(result.contentType).toBe("application/json");
+    expect(body.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(Number(body.sentAt)).toBeGreaterThan(1_600_000_000);
+    expect(body.keep).toBe(`\${other}`);
+  });
+
+  test("reads the whole body from a secret", async () => {
+    const result = await buildRequestBody(
+      { type: "json", valueFromSecretRef: { name: "login", key: "payload" } },
+      resolveSecret,
+    );
+
+    expect(result.body).toBe('{"user":"monitor","password":"hunter2"}');
+  });
+
+  test("form-encodes fields with secret values", async () => {
+    const result = await buildRequestBody(
+      {
+        type: "form",
+        fields: [
+          { name: "username", value: "monitor" },
+          { name: "password", valueFromSecretRef: { name: "login", key: "password" } },
+        ],
+      },
+      resolveSecret,
+    );
+
+    expect(result.body).toBe("username=monitor&password=hunter2");
+    expect(result.contentType).toBe("application/x-www-form-urlencoded");
+  });
+
+  test("builds multipart bodies with file fields", async () => {
+    const result = await buildRequestBody(
+      {
+        type: "multipart",
+        fields: [
+          { name: "note", value: "probe" },
+          { name: "upload", value: "a,b", filename: "data.csv", contentType: "text/csv" },
+        ],
+      },
+      resolveSecret,
+    );
+    const form = result.body as FormData;
+    const file = form.get("upload") as File;
+
+    expect(result.contentType).toBeUndefined();
+    expect(form.get("note")).toBe("probe");
+    expect(file.name).toBe("data.csv");
+    expect(file.type).toStartWith("text/csv");
+    expect(await file.text()).toBe("a,b");
+  });
+
+  test("decodes base64 binary bodies, inline or from a secret", async () => {
+    const inline = await buildRequestBody({ type: "binary", base64: "AQID" }, resolveSecret);
+    const fromSecret = await buildRequestBody(
+      { type: "binary", valueFromSecretRef: { name: "blob", key: "data" } },
+      resolveSecret,
+    );
+
+    expect([...(inline.body as Uint8Array)]).toEqual([1, 2, 3]);
+    expect(inline.contentType).toBe("application/octet-stream");
+    expect([...(fromSecret.body as Uint8Array)]).toEqual([0xde, 0xad, 0xbe, 0xef]);
+  });
+
+  test("reports secrets that cannot be resolved", async () => {
+    const result = await buildRequestBody(
+      { type: "text", valueFromSecretRef: { name: "missing", key: "body" } },
+      resolveSecret,
+    );
+
+    expect(result.error).toBe("Failed to resolve body secret: secret missing/body not found");
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * HTTP request body builder
+ * Turns a monitor's body configuration into a fetch() body, reading secret-backed
+ * content and filling in ${timestamp}-style variables.
+ */
+
+import type { HttpBody } from "../types/crd/monitor";
+import { builtinVariables, renderJsonTemplate, renderTemplate } from "./template";
+
+/**
+ * Read one key of a secret
+ */
+export type SecretResolver = (ref: { name: string; key: string }) => Promise<string>;
+
+export interface RequestBody {
+  body?: string | Uint8Array | FormData;
+  /** Content-Type to send, unless the monitor sets one; multipart leaves it to fetch() */
+  contentType?: string;
+  error?: string;
+}
+
+/**
+ * Build the request body for an HTTP target
+ */
+export async function buildRequestBody(
+  config: HttpBody | undefined,
+  resolveSecret: SecretResolver,
+): Promise<RequestBody> {
+  if (!config?.type || config.type === "none") {
+    return {};
+  }
+
+  const variables = builtinVariables();
+  const render = (template: string) => renderTemplate(template, variables).value;
+
+  try {
+    const secretValue = config.valueFromSecretRef
+      ? await resolveSecret(config.valueFromSecretRef)
+      : undefined;
+
+    switch (config.type) {
+      case "json":
+        return {
+          body:
+            secretValue ?? JSON.stringify(renderJsonTemplate(config.json ?? {}, variables).value),
+          contentType: config.contentType ?? "application/json",
+        };
+
+      case "text":
+        return {
+          body: secretValue ?? render(config.text ?? ""),
+          ...(config.contentType && { contentType: config.contentType }),
+        };
+
+      case "binary":
+        return {
+          body: new Uint8Array(Buffer.from(secretValue ?? config.base64 ?? "", "base64")),
+          contentType: config.contentType ?? "application/octet-stream",
+        };
+
+      case "form": {
+        const form = new URLSearchParams();
+        for (const field of config.fields ?? []) {
+          form.append(
+            field.name,
+            field.valueFromSecretRef
+              ? await resolveSecret(field.valueFromSecretRef)
+              : render(field.value ?? ""),
+          );
+        }
+        return {
+          body: form.toString(),
+          contentType: config.contentType ?? "application/x-www-form-urlencoded",
+        };
+      }
+
+      case "multipart": {
+        const form = new FormData();
+        for (const field of config.fields ?? []) {
+          const value = field.valueFromSecretRef
+            ? await resolveSecret(field.valueFromSecretRef)
+            : render(field.value ?? "");
+
+          if (field.filename) {
+            form.append(
+              field.name,
+              new Blob([value], { type: field.contentType ?? "application/octet-stream" }),
+              field.filename,
+            );
+          } else {
+            form.append(field.name, value);
+          }
+        }
+        // fetch() sets the multipart Content-Type with its boundary
+        return { body: form };
+      }
+    }
+  } catch (error) {
+    return {
+      error: `Failed to resolve body secret: ${error instanceof Error ? error.message : "Unknown error"}`,
+    };
+  }
+}
@@ -1,5 +1,5 @@
 import { describe, expect, test } from "bun:test";
-import { getNextOccurrence, isInMaintenanceWindow, parseRRule } from "./rrule";
+import { getNextOccurrence, getPeriodAnchor, isInMaintenanceWindow, parseRRule } from "./rrule";
 
 describe("parseRRule", () => {
   test("parses basic DAILY rule", () => {
@@ -110,6 +110,36 @@ describe("getNextOccurrence", () => {
   });
 });
 
+describe("getPeriodAnchor", () => {
+  test("skips whole periods to just before the given date", () => {
+    const config = parseRRule("RRULE:FREQ=WEEKLY;INTERVAL=2");
+    if (!config) {
+      throw new Error("Config should not be null");
+    }
+
+    const start = new Date("2000-01-03T09:00:00Z");
+    const before = new Date("2025-06-10T12:00:00Z");
+    const anchor = getPeriodAnchor(config, start, before);
+
+    expect(anchor < before).toBe(true);
+    expect(before.getTime() - anchor.getTime()).toBeLessThan(6 * 7 * 24 * 60 * 60 * 1000);
+    // Whole weeks from the start, at the same local time of day
+    expect(anchor.getDay()).toBe(start.getDay());
+    expect(anchor.getHours()).toBe(start.getHours());
+    expect(Math.round((anchor.getTime() - start.getTime()) / (24 * 60 * 60 * 1000)) % 14).toBe(0);
+  });
+
+  test("keeps the start when it is less than a period away", () => {
+    const config = parseRRule("RRULE:FREQ=DAILY");
+    if (!config) {
+      throw new Error("Config should not be null");
+    }
+
+    const start = new Date("2025-06-10T09:00:00Z");
+    expect(getPeriodAnchor(config, start, new Date("2025-06-10T12:00:00Z"))).toEqual(start);
+  });
+});
+
 describe("isInMaintenanceWindow", () => {
   test("returns false for window not started yet", () => {
     // Create a rule that starts daily at 3 AM
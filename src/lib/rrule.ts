@@ -79,6 +79,60 @@ const dayAbbr = {
   SU: 0,
 };
 
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Longest span of one FREQ step (DST shifts, 31-day months, leap years)
+const maxPeriodMs = {
+  DAILY: DAY_MS + HOUR_MS,
+  WEEKLY: 7 * DAY_MS + HOUR_MS,
+  MONTHLY: 31 * DAY_MS + HOUR_MS,
+  YEARLY: 366 * DAY_MS + HOUR_MS,
+};
+
+/**
+ * Step a date forward by whole RRULE periods, keeping its local time of day
+ */
+function addPeriods(rruleConfig: RRuleConfig, date: Date, periods: number): Date {
+  const result = new Date(date);
+  const steps = periods * (rruleConfig.interval || 1);
+
+  switch (rruleConfig.freq) {
+    case "DAILY":
+      result.setDate(result.getDate() + steps);
+      break;
+    case "WEEKLY":
+      result.setDate(result.getDate() + 7 * steps);
+      break;
+    case "MONTHLY":
+      result.setMonth(result.getMonth() + steps);
+      break;
+    case "YEARLY":
+      result.setFullYear(result.getFullYear() + steps);
+      break;
+  }
+
+  return result;
+}
+
+/**
+ * Latest point on the RRULE's period grid from `start` that lies at least one period before `before`
+ * Walking occurrences from here reaches `before` in a few steps, however long ago `start` was.
+ */
+export function getPeriodAnchor(rruleConfig: RRuleConfig, start: Date, before: Date): Date {
+  const periodMs = maxPeriodMs[rruleConfig.freq] * (rruleConfig.interval || 1);
+  let anchor = new Date(start);
+
+  // Each jump undershoots by the slack in maxPeriodMs, so repeat until it stops moving
+  for (;;) {
+    const periods = Math.floor((before.getTime() - anchor.getTime()) / periodMs) - 1;
+    if (periods <= 0) {
+      return anchor;
+    }
+    anchor = addPeriods(rruleConfig, anchor, periods);
+  }
+}
+
 /**
  * Calculate next occurrence of an RRULE after a given date
  */
@@ -1,9 +1,10 @@
 import fs from "node:fs";
-import { KubeConfig } from "@kubernetes/client-node";
+import { type Cluster, KubeConfig } from "@kubernetes/client-node";
 import { logger } from "./logger";
 
 // In-cluster paths
 const SA_TOKEN_PATH = "/var/run/secrets/kubernetes.io/serviceaccount/token";
+const SA_CA_PATH = "/var/run/secrets/kubernetes.io/serviceaccount/ca.crt";
 
 let kubeClient: KubeConfig | null = null;
 let inClusterToken: string | null = null;
@@ -46,10 +47,27 @@ function getToken(): string | undefined {
   return user?.token;
 }
 
+/**
+ * Get the CA that signs the API server certificate
+ * In-cluster this is the service account CA; otherwise the kubeconfig cluster CA.
+ */
+function getClusterCa(cluster: Cluster): string | undefined {
+  if (inClusterToken && fs.existsSync(SA_CA_PATH)) {
+    return fs.readFileSync(SA_CA_PATH, "utf-8");
+  }
+  if (cluster.caData) {
+    return Buffer.from(cluster.caData, "base64").toString("utf-8");
+  }
+  if (cluster.caFile) {
+    return fs.readFileSync(cluster.caFile, "utf-8");
+  }
+  return undefined;
+}
+
 /**
  * Resolve a secret reference from Kubernetes
  * Returns the value of the specified key from the secret
- * Uses direct fetch with TLS workaround for self-signed certs
+ * Uses direct fetch, verifying the API server against the cluster CA
  */
 export async function resolveSecret(
   namespace: string,
@@ -79,7 +97,7 @@ export async function resolveSecret(
 
     logger.debug({ namespace, secretName, key, url }, "Resolving secret from K8s");
 
-    // Use fetch with TLS workaround for self-signed certs (like controller does)
+    const ca = getClusterCa(cluster);
     const response = await fetch(url, {
       method: "GET",
       headers: {
@@ -87,7 +105,9 @@ export async function resolveSecret(
         ...(token ? { Authorization: `Bearer ${token}` } : {}),
       },
       tls: {
-        rejectUnauthorized: false,
+        ...(ca && { ca }),
+        // Only skipped when the kubeconfig explicitly asks for it
+        rejectUnauthorized: !cluster.skipTLSVerify,
       },
     });
 
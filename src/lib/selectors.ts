@@ -1,17 +1,19 @@
 import type { Selector } from "../types/crd";
 
+/**
+ * Identity of a monitor as seen by selectors
+ */
+export interface SelectorTarget {
+  namespace: string;
+  name: string;
+  labels?: Record<string, string>;
+  tags?: string[];
+}
+
 /**
  * Check if a monitor matches a selector
  */
-export function matchesSelector(
-  selector: Selector | undefined,
-  monitor: {
-    namespace: string;
-    name: string;
-    labels?: Record<string, string>;
-    tags?: string[];
-  },
-): boolean {
+export function matchesSelector(selector: Selector | undefined, monitor: SelectorTarget): boolean {
   if (!selector) return true;
 
   // Check namespace match
@@ -80,12 +82,7 @@ export function matchesSelector(
  */
 export function matchesAnySelectorIn(
   selectors: (Selector | undefined)[],
-  monitor: {
-    namespace: string;
-    name: string;
-    labels?: Record<string, string>;
-    tags?: string[];
-  },
+  monitor: SelectorTarget,
 ): boolean {
   if (selectors.length === 0) return true;
   return selectors.some((selector) => matchesSelector(selector, monitor));
@@ -96,12 +93,7 @@ export function matchesAnySelectorIn(
  */
 export function matchesAllSelectors(
   selectors: (Selector | undefined)[],
-  monitor: {
-    namespace: string;
-    name: string;
-    labels?: Record<string, string>;
-    tags?: string[];
-  },
+  monitor: SelectorTarget,
 ): boolean {
   return selectors.every((selector) => matchesSelector(selector, monitor));
 }
@@ -109,14 +101,6 @@ export function matchesAllSelectors(
 /**
  * Filter monitors by selector
  */
-export function filterBySelector(
-  monitors: Array<{
-    namespace: string;
-    name: string;
-    labels?: Record<string, string>;
-    tags?: string[];
-  }>,
-  selector: Selector | undefined,
-) {
+export function filterBySelector(monitors: SelectorTarget[], selector: Selector | undefined) {
   return monitors.filter((monitor) => matchesSelector(selector, monitor));
 }
@@ -0,0 +1,45 @@
+import { describe, expect, test } from "bun:test";
+import { builtinVariables, renderJsonTemplate, renderTemplate } from "./template";
+
+describe("renderTemplate", () => {
+  test("replaces variable references", () => {
+    expect(renderTemplate(`Bearer \${token}`, { token: "abc" })).toEqual({ value: "Bearer abc" });
+  });
+
+  test("reports the first missing variable", () => {
+    expect(renderTemplate(`\${a}/\${b}/\${c}`, { a: "1" })).toEqual({
+      value: `1/\${b}/\${c}`,
+      missing: "b",
+    });
+  });
+
+  test("leaves text without references untouched", () => {
+    expect(renderTemplate("$token {token}", {})).toEqual({ value: "$token {token}" });
+  });
+});
+
+describe("renderJsonTemplate", () => {
+  test("replaces references in nested strings only", () => {
+    const result = renderJsonTemplate(
+      { id: `\${id}`, tags: [`\${tag}`, 2], nested: { enabled: true } },
+      { id: "42", tag: "x" },
+    );
+
+    expect(result).toEqual({ value: { id: "42", tags: ["x", 2], nested: { enabled: true } } });
+  });
+
+  test("reports missing variables", () => {
+    expect(renderJsonTemplate({ user: `\${user}` }, {}).missing).toBe("user");
+  });
+});
+
+describe("builtinVariables", () => {
+  test("provides the current time and a random ID", () => {
+    const variables = builtinVariables(new Date("2026-01-02T03:04:05.678Z"));
+
+    expect(variables.timestamp).toBe("1767323045");
+    expect(variables.timestampMs).toBe("1767323045678");
+    expect(variables.isoTimestamp).toBe("2026-01-02T03:04:05.678Z");
+    expect(variables.uuid).not.toBe(builtinVariables().uuid);
+  });
+});
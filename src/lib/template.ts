@@ -0,0 +1,74 @@
+/**
+ * ${variable} substitution for request templates
+ * Used to pass values captured from one HTTP step into the requests of later steps,
+ * and to add timestamps and random IDs to request bodies.
+ */
+
+const VARIABLE_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_.-]*)\}/g;
+
+export interface RenderResult<T> {
+  value: T;
+  /** First referenced variable that has no value */
+  missing?: string;
+}
+
+/**
+ * Replace ${name} references in a string
+ */
+export function renderTemplate(
+  template: string,
+  variables: Record<string, string>,
+): RenderResult<string> {
+  let missing: string | undefined;
+
+  const value = template.replace(VARIABLE_PATTERN, (match, name: string) => {
+    const replacement = variables[name];
+    if (replacement === undefined) {
+      missing ??= name;
+      return match;
+    }
+    return replacement;
+  });
+
+  return { value, ...(missing && { missing }) };
+}
+
+/**
+ * Replace ${name} references in every string of a JSON value
+ */
+export function renderJsonTemplate(
+  template: unknown,
+  variables: Record<string, string>,
+): RenderResult<unknown> {
+  let missing: string | undefined;
+
+  const render = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      const result = renderTemplate(value, variables);
+      missing ??= result.missing;
+      return result.value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(render);
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, render(entry)]));
+    }
+    return value;
+  };
+
+  const value = render(template);
+  return { value, ...(missing && { missing }) };
+}
+
+/**
+ * Variables available to every request body: the current time and a random ID
+ */
+export function builtinVariables(now = new Date()): Record<string, string> {
+  return {
+    timestamp: String(Math.floor(now.getTime() / 1000)),
+    timestampMs: String(now.getTime()),
+    isoTimestamp: now.toISOString(),
+    uuid: crypto.randomUUID(),
+  };
+}
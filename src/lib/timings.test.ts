@@ -0,0 +1,121 @@
+import { describe, expect, test } from "bun:test";
+import { createServer as createHttpServer } from "node:http";
+import { type AddressInfo, createServer } from "node:net";
+import { gzipSync } from "node:zlib";
+import { connectTimed, findSlowPhase, requestTimed, sumTimings } from "./timings";
+
+describe("findSlowPhase", () => {
+  const timings = { dnsMs: 5, connectMs: 20, tlsMs: 120, firstByteMs: 300, transferMs: 10 };
+
+  test("returns undefined without thresholds", () => {
+    expect(findSlowPhase(timings, undefined)).toBeUndefined();
+  });
+
+  test("returns undefined when every phase is within its threshold", () => {
+    expect(findSlowPhase(timings, { tlsMs: 200, firstByteMs: 500 })).toBeUndefined();
+  });
+
+  test("reports the first phase over its threshold", () => {
+    expect(findSlowPhase(timings, { tlsMs: 100, firstByteMs: 200 })).toBe(
+      "TLS handshake took 120ms, exceeds threshold 100ms",
+    );
+  });
+
+  test("ignores thresholds for phases that were not measured", () => {
+    expect(findSlowPhase({ firstByteMs: 50 }, { tlsMs: 1 })).toBeUndefined();
+  });
+});
+
+describe("connectTimed", () => {
+  test("connects and reports the connect time", async () => {
+    const server = createServer((socket) => socket.end());
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const { socket, connectMs } = await connectTimed("127.0.0.1", port, undefined, 5000);
+      socket.destroy();
+
+      expect(connectMs).toBeGreaterThanOrEqual(0);
+    } finally {
+      server.close();
+    }
+  });
+
+  test("rejects when the connection is refused", async () => {
+    await expect(connectTimed("127.0.0.1", 1, undefined, 5000)).rejects.toThrow();
+  });
+});
+
+describe("sumTimings", () => {
+  test("adds up each phase across requests", () => {
+    expect(
+      sumTimings([
+        { connectMs: 2, tlsMs: 10, firstByteMs: 30 },
+        { connectMs: 3, firstByteMs: 20 },
+      ]),
+    ).toEqual({ connectMs: 5, tlsMs: 10, firstByteMs: 50 });
+  });
+});
+
+describe("requestTimed", () => {
+  test("times connect and first byte separately, without TLS for http", async () => {
+    const server = createHttpServer((_req, res) => {
+      setTimeout(() => res.end("ok"), 50);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const { response, timings } = await requestTimed(
+        `http://127.0.0.1:${port}/`,
+        {},
+        undefined,
+        5000,
+      );
+
+      expect(await response.text()).toBe("ok");
+      expect(timings.connectMs).toBeLessThan(50);
+      expect(timings.tlsMs).toBeUndefined();
+      expect(timings.firstByteMs).toBeGreaterThanOrEqual(40);
+    } finally {
+      server.close();
+    }
+  });
+
+  test("sends the body and decodes compressed responses", async () => {
+    const server = createHttpServer((req, res) => {
+      let received = "";
+      req.on("data", (chunk) => {
+        received += chunk;
+      });
+      req.on("end", () => {
+        res.setHeader("Content-Encoding", "gzip");
+        res.end(gzipSync(`${req.method} ${req.headers["content-type"]} ${received}`));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const { response } = await requestTimed(
+        `http://127.0.0.1:${port}/`,
+        { method: "POST", body: new URLSearchParams({ a: "1" }) },
+        undefined,
+        5000,
+      );
+
+      expect(await response.text()).toBe(
+        "POST application/x-www-form-urlencoded;charset=UTF-8 a=1",
+      );
+    } finally {
+      server.close();
+    }
+  });
+
+  test("rejects when the connection is refused", async () => {
+    await expect(requestTimed("http://127.0.0.1:1/", {}, undefined, 5000)).rejects.toThrow(
+      "ECONNREFUSED",
+    );
+  });
+});
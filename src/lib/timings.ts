@@ -0,0 +1,240 @@
+/**
+ * Connection and HTTP phase timings
+ *
+ * fetch() only reports when the response arrives, so HTTP checks send their requests
+ * with node:http(s) and time connect, TLS and first byte from the request socket's events.
+ */
+
+import { request as httpRequest, type IncomingMessage, type RequestOptions } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { connect, type Socket } from "node:net";
+import { Readable } from "node:stream";
+import { type ConnectionOptions, connect as tlsConnect } from "node:tls";
+import { createBrotliDecompress, createGunzip, createInflate } from "node:zlib";
+import type { HttpTimings } from "../types/crd/monitor";
+import { connectThroughProxy, type ProxyServer } from "./proxy";
+
+// Human readable phase names for failure messages
+const PHASE_NAMES: Record<keyof HttpTimings, string> = {
+  dnsMs: "DNS lookup",
+  connectMs: "TCP connect",
+  tlsMs: "TLS handshake",
+  firstByteMs: "Time to first byte",
+  transferMs: "Content transfer",
+};
+
+/**
+ * Milliseconds since a performance.now() timestamp
+ */
+export function elapsedMs(start: number): number {
+  return Math.round(performance.now() - start);
+}
+
+/**
+ * Open a TCP connection, through the proxy if any, and time how long it takes
+ */
+export async function connectTimed(
+  host: string,
+  port: number,
+  proxy: ProxyServer | undefined,
+  timeoutMs: number,
+): Promise<{ socket: Socket; connectMs: number }> {
+  const start = performance.now();
+
+  if (proxy) {
+    const socket = await connectThroughProxy(proxy, host, port, timeoutMs);
+    return { socket, connectMs: elapsedMs(start) };
+  }
+
+  return new Promise((resolve, reject) => {
+    const socket = connect({ host, port });
+
+    const timeoutHandle = setTimeout(() => {
+      socket.destroy();
+      reject(new Error(`Connection timeout after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    socket.once("connect", () => {
+      clearTimeout(timeoutHandle);
+      resolve({ socket, connectMs: elapsedMs(start) });
+    });
+
+    socket.once("error", (error) => {
+      clearTimeout(timeoutHandle);
+      socket.destroy();
+      reject(error);
+    });
+  });
+}
+
+// Decoders for the content encodings fetch() accepts
+const DECODERS: Record<string, () => NodeJS.ReadWriteStream> = {
+  gzip: createGunzip,
+  "x-gzip": createGunzip,
+  deflate: createInflate,
+  br: createBrotliDecompress,
+};
+
+/**
+ * Wrap a node:http response in a fetch() Response, decoding the body like fetch() does
+ */
+function toResponse(message: IncomingMessage, method: string): Response {
+  const headers = new Headers();
+  for (let i = 0; i < message.rawHeaders.length; i += 2) {
+    headers.append(message.rawHeaders[i] ?? "", message.rawHeaders[i + 1] ?? "");
+  }
+
+  const status = message.statusCode ?? 0;
+  const init = { status, statusText: message.statusMessage ?? "", headers };
+  if (method === "HEAD" || status === 204 || status === 304) {
+    message.resume();
+    return new Response(null, init);
+  }
+
+  const decoder = DECODERS[headers.get("content-encoding")?.trim().toLowerCase() ?? ""];
+  const body = decoder ? message.pipe(decoder()) : message;
+  if (decoder) {
+    message.once("error", (error) => (body as Readable).destroy(error));
+  }
+
+  return new Response(Readable.toWeb(body as Readable) as ReadableStream, init);
+}
+
+/**
+ * Send one HTTP request like fetch(), timing its phases on the request's own socket
+ * connectMs runs from the socket opening (or the end of its DNS lookup) until it connects,
+ * or covers the tunnel setup when a proxy is used. Redirects are not followed.
+ */
+export async function requestTimed(
+  url: string,
+  init: BunFetchRequestInit,
+  proxy: ProxyServer | undefined,
+  timeoutMs: number,
+): Promise<{ response: Response; timings: HttpTimings }> {
+  const target = new URL(url);
+  const secure = target.protocol === "https:";
+  const host = target.hostname.replace(/^\[|\]$/g, "");
+  const port = Number(target.port) || (secure ? 443 : 80);
+  const method = init.method ?? "GET";
+
+  const headers = new Headers(init.headers);
+  if (!headers.has("accept")) headers.set("Accept", "*/*");
+  if (!headers.has("accept-encoding")) headers.set("Accept-Encoding", "gzip, deflate, br");
+
+  // Let Response encode the body, which also picks the multipart boundary
+  let body: Buffer | undefined;
+  if (init.body != null) {
+    const encoded = new Response(init.body);
+    const contentType = encoded.headers.get("content-type");
+    body = Buffer.from(await encoded.arrayBuffer());
+    if (contentType && !headers.has("content-type")) headers.set("Content-Type", contentType);
+    headers.set("Content-Length", String(body.length));
+  }
+
+  const tls: ConnectionOptions = {
+    rejectUnauthorized: init.tls?.rejectUnauthorized ?? true,
+    ...(init.tls?.serverName && { servername: init.tls.serverName }),
+    ...(init.tls?.ca && { ca: init.tls.ca as ConnectionOptions["ca"] }),
+    ...(init.tls?.cert && { cert: init.tls.cert as ConnectionOptions["cert"] }),
+    ...(init.tls?.key && { key: init.tls.key as ConnectionOptions["key"] }),
+  };
+
+  let connectStart = performance.now();
+  let connectedAt: number | undefined;
+  let secureAt: number | undefined;
+
+  const track = (socket: Socket) => {
+    socket.once("lookup", () => {
+      if (connectedAt === undefined) connectStart = performance.now();
+    });
+    socket.once("connect", () => {
+      connectedAt ??= performance.now();
+    });
+    socket.once("secureConnect", () => {
+      secureAt = performance.now();
+    });
+  };
+
+  // Proxied requests run over the tunnel, so its setup is the connect phase
+  let tunnel: Socket | undefined;
+  if (proxy) {
+    tunnel = await connectThroughProxy(proxy, host, port, timeoutMs);
+    connectedAt = performance.now();
+  }
+
+  const options: RequestOptions = {
+    host,
+    port,
+    method,
+    path: `${target.pathname}${target.search}`,
+    headers: Object.fromEntries(headers),
+    agent: false,
+    ...(init.signal && { signal: init.signal }),
+    ...(secure && tls),
+    ...(tunnel && {
+      createConnection: () => (secure ? tlsConnect({ ...tls, socket: tunnel }) : tunnel),
+    }),
+  };
+
+  return new Promise((resolve, reject) => {
+    const req = (secure ? httpsRequest : httpRequest)(options, (message) => {
+      const responseAt = performance.now();
+      const connected = connectedAt ?? connectStart;
+
+      resolve({
+        response: toResponse(message, method),
+        timings: {
+          connectMs: Math.round(connected - connectStart),
+          ...(secure && { tlsMs: Math.round((secureAt ?? connected) - connected) }),
+          firstByteMs: Math.round(responseAt - (secureAt ?? connected)),
+        },
+      });
+    });
+
+    req.once("socket", track);
+    req.once("error", (error) => {
+      tunnel?.destroy();
+      reject(error);
+    });
+    req.end(body);
+  });
+}
+
+/**
+ * Add up the phase timings of several requests, such as the hops of a redirect chain
+ */
+export function sumTimings(timings: HttpTimings[]): HttpTimings {
+  const total: HttpTimings = {};
+
+  for (const phases of timings) {
+    for (const [phase, value] of Object.entries(phases) as [keyof HttpTimings, number][]) {
+      total[phase] = (total[phase] ?? 0) + value;
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Find the first phase that exceeded its threshold
+ * @returns Failure message, or undefined when every measured phase is within its threshold
+ */
+export function findSlowPhase(
+  timings: HttpTimings,
+  thresholds: HttpTimings | undefined,
+): string | undefined {
+  if (!thresholds) {
+    return undefined;
+  }
+
+  for (const phase of Object.keys(PHASE_NAMES) as (keyof HttpTimings)[]) {
+    const measured = timings[phase];
+    const threshold = thresholds[phase];
+
+    if (measured !== undefined && threshold !== undefined && measured > threshold) {
+      return `${PHASE_NAMES[phase]} took ${measured}ms, exceeds threshold ${threshold}ms`;
+    }
+  }
+
+  return undefined;
+}
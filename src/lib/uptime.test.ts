@@ -4,9 +4,11 @@ import {
   calculateDuration,
   calculateSLA,
   calculateUptime,
+  calculateUptimeStats,
   classifyUptime,
   formatSLA,
   formatUptime,
+  updateDowntimeIntervals,
 } from "./uptime";
 
 describe("calculateUptime", () => {
@@ -151,3 +153,90 @@ describe("formatSLA", () => {
     expect(formatted).toMatch(/\d+\.\d+N/);
   });
 });
+
+describe("updateDowntimeIntervals", () => {
+  const base = new Date("2025-06-10T12:00:00Z").getTime();
+  const at = (minutes: number) => new Date(base + minutes * 60 * 1000);
+
+  test("opens an interval on down and closes it on up", () => {
+    let intervals = updateDowntimeIntervals([], "up", at(0));
+    expect(intervals).toEqual([]);
+
+    intervals = updateDowntimeIntervals(intervals, "down", at(1));
+    intervals = updateDowntimeIntervals(intervals, "down", at(2));
+    expect(intervals).toEqual([{ startedAt: at(1).toISOString() }]);
+
+    intervals = updateDowntimeIntervals(intervals, "up", at(5));
+    expect(intervals).toEqual([{ startedAt: at(1).toISOString(), endedAt: at(5).toISOString() }]);
+  });
+
+  test("ignores pending and flapping results", () => {
+    const open = [{ startedAt: at(0).toISOString() }];
+    expect(updateDowntimeIntervals(open, "pending", at(1))).toEqual(open);
+    expect(updateDowntimeIntervals([], "flapping", at(1))).toEqual([]);
+  });
+
+  test("drops intervals older than 30 days", () => {
+    const recent = { startedAt: at(-60).toISOString(), endedAt: at(-30).toISOString() };
+    const intervals = [
+      { startedAt: at(-60 * 24 * 40).toISOString(), endedAt: at(-60 * 24 * 39).toISOString() },
+      recent,
+    ];
+    expect(updateDowntimeIntervals(intervals, "up", at(0))).toEqual([recent]);
+  });
+
+  test("merges the oldest intervals beyond the limit", () => {
+    const intervals = [
+      { startedAt: at(0).toISOString(), endedAt: at(1).toISOString() },
+      { startedAt: at(2).toISOString(), endedAt: at(3).toISOString() },
+      { startedAt: at(4).toISOString(), endedAt: at(5).toISOString() },
+    ];
+    expect(updateDowntimeIntervals(intervals, "down", at(6), 3)).toEqual([
+      { startedAt: at(0).toISOString(), endedAt: at(3).toISOString() },
+      { startedAt: at(4).toISOString(), endedAt: at(5).toISOString() },
+      { startedAt: at(6).toISOString() },
+    ]);
+  });
+});
+
+describe("calculateUptimeStats", () => {
+  const now = new Date("2025-06-30T12:00:00Z");
+  const ago = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000).toISOString();
+
+  test("reports 100% everywhere without downtime", () => {
+    expect(calculateUptimeStats([], new Date(ago(60 * 24 * 60)), now)).toEqual({
+      last1h: 100,
+      last24h: 100,
+      last7d: 100,
+      last30d: 100,
+    });
+  });
+
+  test("computes each window from the downtime history", () => {
+    const stats = calculateUptimeStats(
+      [{ startedAt: ago(30), endedAt: ago(24) }],
+      new Date(ago(60 * 24 * 60)),
+      now,
+    );
+    expect(stats.last1h).toBe(90);
+    expect(stats.last24h).toBe(99.583);
+    expect(stats.last7d).toBe(99.94);
+    expect(stats.last30d).toBe(99.986);
+  });
+
+  test("counts an open interval up to now", () => {
+    const stats = calculateUptimeStats([{ startedAt: ago(15) }], new Date(ago(60 * 24 * 60)), now);
+    expect(stats.last1h).toBe(75);
+  });
+
+  test("limits windows to the tracked period", () => {
+    const stats = calculateUptimeStats(
+      [{ startedAt: ago(30), endedAt: ago(20) }],
+      new Date(ago(100)),
+      now,
+    );
+    expect(stats.last1h).toBe(83.333);
+    expect(stats.last24h).toBe(90);
+    expect(stats.last30d).toBe(90);
+  });
+});
@@ -1,3 +1,5 @@
+import type { DowntimeInterval } from "../types/crd/monitor";
+
 /**
  * Calculate uptime percentage from heartbeats
  */
@@ -48,8 +50,8 @@ export function calculateSLA(
     endedAt?: Date;
   }>,
   windowMs: number,
+  now: Date = new Date(),
 ): number {
-  const now = new Date();
   const windowStart = new Date(now.getTime() - windowMs);
 
   let downtimeMs = 0;
@@ -71,6 +73,83 @@ export function calculateSLA(
   return Math.max(0, Math.min(100, uptimePercentage));
 }
 
+/**
+ * Rolling uptime windows
+ */
+const UPTIME_WINDOWS = {
+  last1h: 60 * 60 * 1000,
+  last24h: 24 * 60 * 60 * 1000,
+  last7d: 7 * 24 * 60 * 60 * 1000,
+  last30d: 30 * 24 * 60 * 60 * 1000,
+} as const;
+
+// Downtime history is kept for the longest window only
+const DOWNTIME_RETENTION_MS = UPTIME_WINDOWS.last30d;
+
+// Upper bound on stored intervals so the status object stays small
+export const MAX_DOWNTIME_INTERVALS = 100;
+
+/**
+ * Fold a check outcome into the downtime history
+ * Down opens an interval, up closes it; other states leave it unchanged.
+ * Intervals older than 30 days are dropped and, past MAX_DOWNTIME_INTERVALS,
+ * the oldest ones are merged so downtime is never under-reported.
+ */
+export function updateDowntimeIntervals(
+  intervals: DowntimeInterval[],
+  state: "up" | "down" | "pending" | "flapping" | "paused",
+  checkedAt: Date,
+  maxIntervals: number = MAX_DOWNTIME_INTERVALS,
+): DowntimeInterval[] {
+  const updated = intervals.map((interval) => ({ ...interval }));
+  const open = updated.find((interval) => !interval.endedAt);
+  const at = checkedAt.toISOString();
+
+  if (state === "down" && !open) {
+    updated.push({ startedAt: at });
+  } else if (state === "up" && open) {
+    open.endedAt = at;
+  }
+
+  const cutoff = checkedAt.getTime() - DOWNTIME_RETENTION_MS;
+  const retained = updated.filter(
+    (interval) => !interval.endedAt || new Date(interval.endedAt).getTime() > cutoff,
+  );
+
+  while (retained.length > maxIntervals) {
+    const [first, second] = retained;
+    if (!first || !second) break;
+    retained.splice(0, 2, { startedAt: first.startedAt, endedAt: second.endedAt });
+  }
+
+  return retained;
+}
+
+/**
+ * Calculate the 1h/24h/7d/30d uptime percentages from downtime history
+ * Windows longer than the tracked period only cover the tracked period.
+ */
+export function calculateUptimeStats(
+  intervals: DowntimeInterval[],
+  trackedSince: Date,
+  now: Date = new Date(),
+): Record<keyof typeof UPTIME_WINDOWS, number> {
+  const incidents = intervals.map((interval) => ({
+    startedAt: new Date(interval.startedAt),
+    ...(interval.endedAt && { endedAt: new Date(interval.endedAt) }),
+  }));
+  const trackedMs = Math.max(now.getTime() - trackedSince.getTime(), 0);
+
+  const stats = {} as Record<keyof typeof UPTIME_WINDOWS, number>;
+  for (const [window, windowMs] of Object.entries(UPTIME_WINDOWS)) {
+    const effectiveMs = Math.min(windowMs, trackedMs);
+    const sla = effectiveMs > 0 ? calculateSLA(incidents, effectiveMs, now) : 100;
+    stats[window as keyof typeof UPTIME_WINDOWS] = Math.round(sla * 1000) / 1000;
+  }
+
+  return stats;
+}
+
 /**
  * Format SLA value for display
  */
@@ -2,22 +2,26 @@
  * Minimal HTTP server for Prometheus metrics scraping
  *
  * Replaces the full Fastify server with a simple HTTP server
- * that only exposes the /metrics endpoint.
+ * that exposes the /metrics endpoint and the push monitor receiver.
  */
 
 import { createServer } from "node:http";
 import { logger } from "../lib/logger";
 import { getMetrics } from "../lib/prometheus";
+import { createPushReceiver, PUSH_PATH_PREFIX, type PushReceiver } from "./push-receiver";
 
 export interface MetricsServerConfig {
   port: number;
   host: string;
+  pushReceiver?: PushReceiver;
 }
 
 /**
- * Create a minimal HTTP server that only serves Prometheus metrics
+ * Create a minimal HTTP server that serves Prometheus metrics and push monitor updates
  */
 export function createMetricsServer(config: MetricsServerConfig) {
+  const handlePush = config.pushReceiver ?? createPushReceiver();
+
   const server = createServer(async (req, res) => {
     // Only respond to GET /metrics
     if (req.method === "GET" && req.url === "/metrics") {
@@ -32,6 +36,9 @@ export function createMetricsServer(config: MetricsServerConfig) {
         res.writeHead(500);
         res.end("Internal Server Error\n");
       }
+    } else if (req.url?.startsWith(PUSH_PATH_PREFIX)) {
+      // Push monitor endpoint
+      await handlePush(req, res);
     } else if (req.url === "/health" || req.url === "/healthz") {
       // Health check endpoint
       res.writeHead(200, { "Content-Type": "text/plain" });
@@ -0,0 +1,134 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Monitor } from "../types/crd";
+import { createPushReceiver } from "./push-receiver";
+
+const pushMonitor: Monitor = {
+  apiVersion: "monitoring.yuptime.io/v1",
+  kind: "Monitor",
+  metadata: { name: "backup-job", namespace: "default" },
+  spec: {
+    enabled: true,
+    type: "push",
+    schedule: { intervalSeconds: 60, timeoutSeconds: 10 },
+    target: {
+      push: { tokenSecretRef: { name: "push-token", key: "token" }, expireSeconds: 300 },
+    },
+  },
+};
+
+const now = new Date("2025-06-10T12:00:00Z");
+const patches: Array<{ namespace: string; name: string; fields: Record<string, unknown> }> = [];
+
+const receiver = createPushReceiver({
+  getMonitor: (namespace, name) =>
+    namespace === "default" && name === "backup-job" ? pushMonitor : null,
+  validateToken: async (_monitor, token) =>
+    token === "secret-token" ? { valid: true } : { valid: false, reason: "Invalid token" },
+  patchStatus: async (namespace, name, fields) => {
+    patches.push({ namespace, name, fields });
+  },
+  now: () => now,
+});
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => receiver(req, res));
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+describe("createPushReceiver", () => {
+  test("records a POSTed push", async () => {
+    patches.length = 0;
+    const response = await fetch(`${baseUrl}/api/push/default/backup-job`, {
+      method: "POST",
+      headers: { Authorization: "Bearer secret-token", "Content-Type": "application/json" },
+      body: JSON.stringify({ state: "down", latencyMs: 15, message: "backup failed" }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      success: true,
+      data: { state: "down", receivedAt: now.toISOString() },
+    });
+    expect(patches).toHaveLength(1);
+    expect(patches[0]?.namespace).toBe("default");
+    expect(patches[0]?.fields.lastPush).toEqual({
+      state: "down",
+      receivedAt: now.toISOString(),
+      latencyMs: 15,
+      message: "backup failed",
+    });
+  });
+
+  test("records a GET heartbeat with the token in the query", async () => {
+    patches.length = 0;
+    const response = await fetch(
+      `${baseUrl}/api/push/default/backup-job?token=secret-token&message=ok`,
+    );
+
+    expect(response.status).toBe(200);
+    expect(patches[0]?.fields.lastPush).toEqual({
+      state: "up",
+      receivedAt: now.toISOString(),
+      message: "ok",
+    });
+  });
+
+  test("rejects a missing token", async () => {
+    const response = await fetch(`${baseUrl}/api/push/default/backup-job`);
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ success: false, error: "Missing push token" });
+  });
+
+  test("rejects an invalid token without recording", async () => {
+    patches.length = 0;
+    const response = await fetch(`${baseUrl}/api/push/default/backup-job`, {
+      method: "POST",
+      headers: { Authorization: "Bearer wrong" },
+    });
+
+    expect(response.status).toBe(401);
+    expect(patches).toHaveLength(0);
+  });
+
+  test("returns 404 for unknown monitors", async () => {
+    const response = await fetch(`${baseUrl}/api/push/default/unknown?token=secret-token`);
+
+    expect(response.status).toBe(404);
+  });
+
+  test("rejects an invalid state", async () => {
+    const response = await fetch(
+      `${baseUrl}/api/push/default/backup-job?token=secret-token&state=sideways`,
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  test("rejects malformed JSON", async () => {
+    const response = await fetch(`${baseUrl}/api/push/default/backup-job`, {
+      method: "POST",
+      headers: { Authorization: "Bearer secret-token" },
+      body: "{not json",
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  test("rejects other methods", async () => {
+    const response = await fetch(`${baseUrl}/api/push/default/backup-job`, { method: "DELETE" });
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get("allow")).toBe("GET, POST");
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Push receiver
+ *
+ * Serves GET/POST /api/push/:namespace/:name for push monitors. The token is
+ * checked against push.tokenSecretRef and the pushed result is written to the
+ * Monitor status.
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { buildPushStatus, validatePushToken } from "../checkers";
+import { patchStatusFields } from "../controller/reconcilers";
+import { getCachedResource } from "../lib/crd-cache";
+import { logger } from "../lib/logger";
+import { error, type PushRequest, PushRequestSchema, success } from "../types/api";
+import type { Monitor } from "../types/crd";
+import { MonitorSchema } from "../types/crd";
+
+export const PUSH_PATH_PREFIX = "/api/push/";
+
+// Pushes are small status reports
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * Dependencies of the push receiver (injectable for testing)
+ */
+export interface PushReceiverDeps {
+  getMonitor(namespace: string, name: string): Monitor | null;
+  validateToken(monitor: Monitor, token: string): Promise<{ valid: boolean; reason?: string }>;
+  patchStatus(namespace: string, name: string, fields: Record<string, unknown>): Promise<void>;
+  now?: () => Date;
+}
+
+/**
+ * Look up a Monitor in the informer cache
+ */
+function getCachedMonitor(namespace: string, name: string): Monitor | null {
+  const cached = getCachedResource("Monitor", namespace, name);
+  if (!cached) return null;
+
+  const parsed = MonitorSchema.safeParse({
+    apiVersion: cached.apiVersion,
+    kind: cached.kind,
+    metadata: {
+      name: cached.name,
+      namespace: cached.namespace,
+      generation: cached.generation,
+      resourceVersion: cached.resourceVersion,
+      labels: cached.labels,
+      annotations: cached.annotations,
+    },
+    spec: cached.spec,
+    status: cached.status ?? undefined,
+  });
+
+  return parsed.success ? parsed.data : null;
+}
+
+const defaultDeps: PushReceiverDeps = {
+  getMonitor: getCachedMonitor,
+  validateToken: (monitor, token) => validatePushToken(monitor, token),
+  patchStatus: (namespace, name, fields) =>
+    patchStatusFields("Monitor", "monitors", namespace, name, fields),
+};
+
+/**
+ * Rejected push with the HTTP status to answer with
+ */
+interface PushRejection {
+  statusCode: number;
+  message: string;
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown) {
+  res.writeHead(statusCode, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Read the token from the Authorization header or the token query parameter
+ */
+function getToken(req: IncomingMessage, url: URL): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+  return url.searchParams.get("token") ?? undefined;
+}
+
+/**
+ * Read the request body, or null when it exceeds MAX_BODY_BYTES
+ */
+async function readBody(req: IncomingMessage): Promise<string | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) {
+      return null;
+    }
+    chunks.push(buffer);
+  }
+
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+const stripUndefined = (input: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+
+/**
+ * Parse the pushed result from the JSON body (POST) or query parameters (GET)
+ * A push without a state is a heartbeat and counts as up.
+ */
+async function parsePush(
+  req: IncomingMessage,
+  url: URL,
+): Promise<{ push: PushRequest } | { rejection: PushRejection }> {
+  let input: Record<string, unknown> = {};
+
+  if (req.method === "POST") {
+    const body = await readBody(req);
+    if (body === null) {
+      return { rejection: { statusCode: 413, message: "Request body too large" } };
+    }
+    if (body.trim()) {
+      try {
+        input = JSON.parse(body) as Record<string, unknown>;
+      } catch {
+        return { rejection: { statusCode: 400, message: "Request body must be valid JSON" } };
+      }
+    }
+  } else {
+    const latencyMs = url.searchParams.get("latencyMs");
+    input = {
+      state: url.searchParams.get("state") ?? undefined,
+      latencyMs: latencyMs !== null ? Number(latencyMs) : undefined,
+      message: url.searchParams.get("message") ?? undefined,
+    };
+  }
+
+  const parsed = PushRequestSchema.safeParse({ state: "up", ...stripUndefined(input) });
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+    return { rejection: { statusCode: 400, message: `Invalid push: ${issues.join("; ")}` } };
+  }
+
+  return { push: parsed.data };
+}
+
+/**
+ * Split /api/push/:namespace/:name into its parts
+ */
+function parsePushPath(pathname: string): { namespace: string; name: string } | null {
+  try {
+    const [namespace, name, ...rest] = pathname
+      .slice(PUSH_PATH_PREFIX.length)
+      .split("/")
+      .map(decodeURIComponent);
+    return namespace && name && rest.length === 0 ? { namespace, name } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create the push request handler
+ */
+export function createPushReceiver(deps: PushReceiverDeps = defaultDeps) {
+  const now = deps.now ?? (() => new Date());
+
+  return async function handlePush(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const reject = ({ statusCode, message }: PushRejection) =>
+      sendJson(res, statusCode, error(message));
+
+    if (req.method !== "GET" && req.method !== "POST") {
+      res.setHeader("Allow", "GET, POST");
+      return reject({ statusCode: 405, message: "Method not allowed" });
+    }
+
+    const target = parsePushPath(url.pathname);
+    if (!target) {
+      return reject({ statusCode: 404, message: "Not found" });
+    }
+
+    const { namespace, name } = target;
+
+    try {
+      const monitor = deps.getMonitor(namespace, name);
+      if (!monitor || monitor.spec.type !== "push") {
+        return reject({ statusCode: 404, message: `Push monitor ${namespace}/${name} not found` });
+      }
+
+      const token = getToken(req, url);
+      if (!token) {
+        return reject({ statusCode: 401, message: "Missing push token" });
+      }
+
+      const validation = await deps.validateToken(monitor, token);
+      if (!validation.valid) {
+        logger.warn({ namespace, name, reason: validation.reason }, "Rejected push");
+        return reject({ statusCode: 401, message: "Invalid push token" });
+      }
+
+      const parsed = await parsePush(req, url);
+      if ("rejection" in parsed) {
+        return reject(parsed.rejection);
+      }
+
+      const status = buildPushStatus(monitor, parsed.push, now());
+      await deps.patchStatus(namespace, name, status);
+
+      logger.debug({ namespace, name, state: parsed.push.state }, "Push recorded");
+      sendJson(
+        res,
+        200,
+        success({ state: status.lastResult.state, receivedAt: status.lastPush.receivedAt }),
+      );
+    } catch (err) {
+      logger.error({ namespace, name, error: err }, "Failed to record push");
+      reject({ statusCode: 500, message: "Failed to record push" });
+    }
+  };
+}
+
+export type PushReceiver = ReturnType<typeof createPushReceiver>;
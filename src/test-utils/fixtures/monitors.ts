@@ -3,6 +3,21 @@
  * These create properly typed monitors matching the current schema
  */
 
+import type {
+  AmqpTarget,
+  GraphqlTarget,
+  HttpStep,
+  KafkaTarget,
+  MongoDbTarget,
+  MonitorTarget,
+  MqttTarget,
+  NatsTarget,
+  PrometheusTarget,
+  SmtpTarget,
+  SshTarget,
+  SuccessCriteria,
+} from "../../types/crd/monitor";
+
 /**
  * Creates a TCP monitor for testing
  */
@@ -11,6 +26,12 @@ export function createTcpMonitor(overrides?: {
   port?: number;
   send?: string;
   expect?: string;
+  tlsEnabled?: boolean;
+  tlsVerify?: boolean;
+  sni?: string;
+  caBundleSecretRef?: { name: string; key: string };
+  clientCertSecretRef?: { name: string; certKey: string; keyKey: string };
+  proxy?: { mode: "none" | "http" | "socks"; url?: string };
   timeoutSeconds?: number;
 }) {
   return {
@@ -30,6 +51,16 @@ export function createTcpMonitor(overrides?: {
           port: overrides?.port ?? 443,
           ...(overrides?.send && { send: overrides.send }),
           ...(overrides?.expect && { expect: overrides.expect }),
+          ...(overrides?.tlsEnabled !== undefined && {
+            tls: {
+              enabled: overrides.tlsEnabled,
+              verify: overrides.tlsVerify ?? true,
+              sni: overrides.sni,
+              caBundleSecretRef: overrides.caBundleSecretRef,
+              clientCertSecretRef: overrides.clientCertSecretRef,
+            },
+          }),
+          ...(overrides?.proxy && { proxy: overrides.proxy }),
         },
       },
     },
@@ -196,6 +227,7 @@ export function createPostgreSqlMonitor(overrides?: {
   passwordKey?: string;
   healthQuery?: string;
   sslMode?: "disable" | "require" | "verify-ca" | "verify-full" | "prefer";
+  clientCertSecretName?: string;
   timeoutSeconds?: number;
   namespace?: string;
 }) {
@@ -222,6 +254,13 @@ export function createPostgreSqlMonitor(overrides?: {
           },
           healthQuery: overrides?.healthQuery ?? "SELECT 1",
           sslMode: overrides?.sslMode ?? "prefer",
+          ...(overrides?.clientCertSecretName && {
+            clientCertSecretRef: {
+              name: overrides.clientCertSecretName,
+              certKey: "tls.crt",
+              keyKey: "tls.key",
+            },
+          }),
         },
       },
     },
@@ -258,6 +297,9 @@ export function createRedisMonitor(overrides?: {
   secretName?: string;
   passwordKey?: string;
   tlsEnabled?: boolean;
+  tlsVerify?: boolean;
+  caBundleSecretName?: string;
+  clientCertSecretName?: string;
   timeoutSeconds?: number;
   namespace?: string;
 }) {
@@ -283,7 +325,23 @@ export function createRedisMonitor(overrides?: {
                 passwordKey: overrides?.passwordKey ?? "password",
               }
             : undefined,
-          tls: overrides?.tlsEnabled !== undefined ? { enabled: overrides.tlsEnabled } : undefined,
+          tls:
+            overrides?.tlsEnabled !== undefined
+              ? {
+                  enabled: overrides.tlsEnabled,
+                  verify: overrides.tlsVerify ?? true,
+                  ...(overrides.caBundleSecretName && {
+                    caBundleSecretRef: { name: overrides.caBundleSecretName, key: "ca.crt" },
+                  }),
+                  ...(overrides.clientCertSecretName && {
+                    clientCertSecretRef: {
+                      name: overrides.clientCertSecretName,
+                      certKey: "tls.crt",
+                      keyKey: "tls.key",
+                    },
+                  }),
+                }
+              : undefined,
         },
       },
     },
@@ -370,3 +428,382 @@ export function createGrpcMonitorNoTarget(overrides?: { timeoutSeconds?: number
     },
   };
 }
+
+/**
+ * Creates a Docker monitor for testing
+ */
+export function createDockerMonitor(overrides?: {
+  endpoint?: string;
+  container?: string;
+  tlsEnabled?: boolean;
+  tlsVerify?: boolean;
+  secretName?: string;
+  requireHealthy?: boolean;
+  maxRestartCount?: number;
+  minUptimeSeconds?: number;
+  timeoutSeconds?: number;
+  namespace?: string;
+}) {
+  return {
+    apiVersion: "monitoring.yuptime.io/v1" as const,
+    kind: "Monitor" as const,
+    metadata: { name: "test-docker", namespace: overrides?.namespace ?? "default" },
+    spec: {
+      enabled: true,
+      type: "docker" as const,
+      schedule: {
+        intervalSeconds: 60,
+        timeoutSeconds: overrides?.timeoutSeconds ?? 10,
+      },
+      target: {
+        docker: {
+          endpoint: overrides?.endpoint ?? "unix:///var/run/docker.sock",
+          container: overrides?.container ?? "web",
+          tls:
+            overrides?.tlsEnabled !== undefined
+              ? {
+                  enabled: overrides.tlsEnabled,
+                  verify: overrides?.tlsVerify ?? true,
+                  secretRef: overrides?.secretName
+                    ? {
+                        name: overrides.secretName,
+                        caKey: "ca.pem",
+                        certKey: "cert.pem",
+                        keyKey: "key.pem",
+                      }
+                    : undefined,
+                }
+              : undefined,
+          requireHealthy: overrides?.requireHealthy ?? true,
+          maxRestartCount: overrides?.maxRestartCount,
+          minUptimeSeconds: overrides?.minUptimeSeconds,
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Creates a Docker monitor with no target configured (for invalid config tests)
+ */
+export function createDockerMonitorNoTarget(overrides?: { timeoutSeconds?: number }) {
+  return {
+    apiVersion: "monitoring.yuptime.io/v1" as const,
+    kind: "Monitor" as const,
+    metadata: { name: "test-docker", namespace: "default" },
+    spec: {
+      enabled: true,
+      type: "docker" as const,
+      schedule: {
+        intervalSeconds: 60,
+        timeoutSeconds: overrides?.timeoutSeconds ?? 10,
+      },
+      target: {},
+    },
+  };
+}
+
+/**
+ * Creates an HTTP monitor for testing
+ */
+export function createHttpMonitor(overrides?: {
+  url?: string;
+  tls?: {
+    verify?: boolean;
+    sni?: string;
+    caBundleSecretRef?: { name: string; key: string };
+    clientCertSecretRef?: { name: string; certKey: string; keyKey: string };
+  };
+  proxy?: { mode: "none" | "http" | "socks"; url?: string };
+  timeoutSeconds?: number;
+}) {
+  return {
+    apiVersion: "monitoring.yuptime.io/v1" as const,
+    kind: "Monitor" as const,
+    metadata: { name: "test-http", namespace: "default" },
+    spec: {
+      enabled: true,
+      type: "http" as const,
+      schedule: {
+        intervalSeconds: 60,
+        timeoutSeconds: overrides?.timeoutSeconds ?? 10,
+      },
+      target: {
+        http: {
+          url: overrides?.url ?? "https://example.com",
+          method: "GET" as const,
+          followRedirects: true,
+          maxRedirects: 10,
+          ...(overrides?.tls && { tls: { verify: true, ...overrides.tls } }),
+          ...(overrides?.proxy && { proxy: overrides.proxy }),
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Creates an httpSteps monitor for testing
+ * Steps are partial; method defaults to GET like the parsed CRD.
+ */
+export function createHttpStepsMonitor(
+  steps: Array<Omit<HttpStep, "method"> & { method?: HttpStep["method"] }>,
+  overrides?: { maxRedirects?: number; timeoutSeconds?: number },
+) {
+  return {
+    apiVersion: "monitoring.yuptime.io/v1" as const,
+    kind: "Monitor" as const,
+    metadata: { name: "test-http-steps", namespace: "default" },
+    spec: {
+      enabled: true,
+      type: "httpSteps" as const,
+      schedule: {
+        intervalSeconds: 60,
+        timeoutSeconds: overrides?.timeoutSeconds ?? 10,
+      },
+      target: {
+        httpSteps: {
+          steps: steps.map((step) => ({ ...step, method: step.method ?? ("GET" as const) })),
+          followRedirects: true,
+          maxRedirects: overrides?.maxRedirects ?? 10,
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Creates a GraphQL monitor for testing
+ */
+export function createGraphqlMonitor(graphql: GraphqlTarget, successCriteria?: SuccessCriteria) {
+  return {
+    apiVersion: "monitoring.yuptime.io/v1" as const,
+    kind: "Monitor" as const,
+    metadata: { name: "test-graphql", namespace: "default" },
+    spec: {
+      enabled: true,
+      type: "graphql" as const,
+      schedule: {
+        intervalSeconds: 60,
+        timeoutSeconds: 10,
+      },
+      target: { graphql },
+      ...(successCriteria && { successCriteria }),
+    },
+  };
+}
+
+/**
+ * Creates a Prometheus query monitor for testing
+ */
+export function createPrometheusMonitor(
+  prometheus: PrometheusTarget,
+  criteria?: SuccessCriteria["prometheus"],
+) {
+  return {
+    apiVersion: "monitoring.yuptime.io/v1" as const,
+    kind: "Monitor" as const,
+    metadata: { name: "test-prometheus", namespace: "default" },
+    spec: {
+      enabled: true,
+      type: "prometheus" as const,
+      schedule: {
+        intervalSeconds: 60,
+        timeoutSeconds: 10,
+      },
+      target: { prometheus },
+      ...(criteria && { successCriteria: { prometheus: criteria } }),
+    },
+  };
+}
+
+/**
+ * Creates an SMTP, IMAP or POP3 monitor for testing
+ */
+export function createMailMonitor(
+  type: "smtp" | "imap" | "pop3",
+  overrides?: Partial<SmtpTarget>,
+  criteria?: SuccessCriteria["mail"],
+) {
+  const ports = { smtp: 25, imap: 143, pop3: 110 };
+  const target: MonitorTarget = {
+    [type]: { host: "mail.example.com", port: ports[type], heloName: "yuptime", ...overrides },
+  };
+
+  return {
+    apiVersion: "monitoring.yuptime.io/v1" as const,
+    kind: "Monitor" as const,
+    metadata: { name: `test-${type}`, namespace: "default" },
+    spec: {
+      enabled: true,
+      type,
+      schedule: {
+        intervalSeconds: 60,
+        timeoutSeconds: 10,
+      },
+      target,
+      ...(criteria && { successCriteria: { mail: criteria } }),
+    },
+  };
+}
+
+/**
+ * Creates an SSH monitor for testing
+ */
+export function createSshMonitor(overrides?: Partial<SshTarget>) {
+  return {
+    apiVersion: "monitoring.yuptime.io/v1" as const,
+    kind: "Monitor" as const,
+    metadata: { name: "test-ssh", namespace: "default" },
+    spec: {
+      enabled: true,
+      type: "ssh" as const,
+      schedule: {
+        intervalSeconds: 60,
+        timeoutSeconds: 10,
+      },
+      target: {
+        ssh: { host: "bastion.example.com", port: 22, ...overrides },
+      },
+    },
+  };
+}
+
+/**
+ * Creates a MongoDB monitor for testing
+ */
+export function createMongoDbMonitor(
+  overrides?: Partial<MongoDbTarget>,
+  criteria?: SuccessCriteria["mongodb"],
+) {
+  return {
+    apiVersion: "monitoring.yuptime.io/v1" as const,
+    kind: "Monitor" as const,
+    metadata: { name: "test-mongodb", namespace: "default" },
+    spec: {
+      enabled: true,
+      type: "mongodb" as const,
+      schedule: {
+        intervalSeconds: 60,
+        timeoutSeconds: 10,
+      },
+      target: {
+        mongodb: {
+          hosts: ["mongo.example.com"],
+          port: 27017,
+          database: "admin",
+          command: "ping" as const,
+          ...overrides,
+        },
+      },
+      ...(criteria && { successCriteria: { mongodb: criteria } }),
+    },
+  };
+}
+
+/**
+ * Creates a Kafka monitor for testing
+ */
+export function createKafkaMonitor(overrides?: Partial<KafkaTarget>) {
+  return {
+    apiVersion: "monitoring.yuptime.io/v1" as const,
+    kind: "Monitor" as const,
+    metadata: { name: "test-kafka", namespace: "default" },
+    spec: {
+      enabled: true,
+      type: "kafka" as const,
+      schedule: {
+        intervalSeconds: 60,
+        timeoutSeconds: 10,
+      },
+      target: {
+        kafka: { brokers: ["kafka.example.com:9092"], clientId: "yuptime", ...overrides },
+      },
+    },
+  };
+}
+
+/**
+ * Creates an AMQP monitor for testing
+ */
+export function createAmqpMonitor(
+  overrides?: Partial<AmqpTarget>,
+  criteria?: SuccessCriteria["amqp"],
+) {
+  return {
+    apiVersion: "monitoring.yuptime.io/v1" as const,
+    kind: "Monitor" as const,
+    metadata: { name: "test-amqp", namespace: "default" },
+    spec: {
+      enabled: true,
+      type: "amqp" as const,
+      schedule: {
+        intervalSeconds: 60,
+        timeoutSeconds: 10,
+      },
+      target: {
+        amqp: { host: "rabbitmq.example.com", port: 5672, vhost: "/", ...overrides },
+      },
+      ...(criteria && { successCriteria: { amqp: criteria } }),
+    },
+  };
+}
+
+/**
+ * Creates a NATS monitor for testing
+ */
+export function createNatsMonitor(
+  overrides?: Partial<NatsTarget>,
+  criteria?: SuccessCriteria["nats"],
+) {
+  return {
+    apiVersion: "monitoring.yuptime.io/v1" as const,
+    kind: "Monitor" as const,
+    metadata: { name: "test-nats", namespace: "default" },
+    spec: {
+      enabled: true,
+      type: "nats" as const,
+      schedule: {
+        intervalSeconds: 60,
+        timeoutSeconds: 10,
+      },
+      target: {
+        nats: { servers: ["nats.example.com:4222"], subject: "yuptime.probe", ...overrides },
+      },
+      ...(criteria && { successCriteria: { nats: criteria } }),
+    },
+  };
+}
+
+/**
+ * Creates an MQTT monitor for testing
+ */
+export function createMqttMonitor(
+  overrides?: Partial<MqttTarget>,
+  criteria?: SuccessCriteria["mqtt"],
+) {
+  return {
+    apiVersion: "monitoring.yuptime.io/v1" as const,
+    kind: "Monitor" as const,
+    metadata: { name: "test-mqtt", namespace: "default" },
+    spec: {
+      enabled: true,
+      type: "mqtt" as const,
+      schedule: {
+        intervalSeconds: 60,
+        timeoutSeconds: 10,
+      },
+      target: {
+        mqtt: {
+          host: "mqtt.example.com",
+          transport: "tcp" as const,
+          path: "/mqtt",
+          topic: "yuptime/probe",
+          qos: 0 as const,
+          ...overrides,
+        },
+      },
+      ...(criteria && { successCriteria: { mqtt: criteria } }),
+    },
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * Mock message broker client factories for testing
+ */
+
+import type { AmqpClient, AmqpClientConfig } from "../../checkers/amqp";
+import type { KafkaAdminClient, KafkaClientConfig, KafkaPartition } from "../../checkers/kafka";
+import type { MqttClient, MqttClientConfig } from "../../checkers/mqtt";
+import type { NatsClient, NatsClientConfig } from "../../checkers/nats";
+
+/**
+ * Mock Kafka admin client result
+ */
+export interface MockKafkaResult {
+  clusterId?: string;
+  brokers?: number;
+  /** Partitions of every topic; null means the topic does not exist */
+  partitions?: KafkaPartition[] | null;
+  connectError?: Error;
+  onConfig?: (config: KafkaClientConfig) => void;
+}
+
+/**
+ * Creates a mock Kafka admin client factory for testing
+ */
+export function createMockKafkaClientFactory(
+  result: MockKafkaResult = {},
+): (config: KafkaClientConfig) => Promise<KafkaAdminClient> {
+  return async (config: KafkaClientConfig) => {
+    result.onConfig?.(config);
+    return {
+      connect: async () => {
+        if (result.connectError) {
+          throw result.connectError;
+        }
+      },
+      describeCluster: async () => ({
+        clusterId: result.clusterId ?? "mock-cluster",
+        brokers: result.brokers ?? 3,
+      }),
+      topicPartitions: async (_topic: string) =>
+        result.partitions === undefined
+          ? [
+              { partition: 0, leader: 1 },
+              { partition: 1, leader: 2 },
+            ]
+          : result.partitions,
+      disconnect: async () => {
+        // Nothing to release
+      },
+    };
+  };
+}
+
+/**
+ * Mock AMQP client result
+ */
+export interface MockAmqpResult {
+  server?: string;
+  /** Queue state; null means the queue does not exist */
+  queue?: { messageCount: number; consumerCount: number } | null;
+  connectError?: Error;
+  closeError?: Error;
+  onConfig?: (config: AmqpClientConfig) => void;
+}
+
+/**
+ * Creates a mock AMQP client factory for testing
+ */
+export function createMockAmqpClientFactory(
+  result: MockAmqpResult = {},
+): (config: AmqpClientConfig) => Promise<AmqpClient> {
+  return async (config: AmqpClientConfig) => {
+    result.onConfig?.(config);
+    return {
+      connect: async () => {
+        if (result.connectError) {
+          throw result.connectError;
+        }
+        return { server: result.server ?? "RabbitMQ 3.13.1" };
+      },
+      checkQueue: async (_queue: string) =>
+        result.queue === undefined ? { messageCount: 0, consumerCount: 1 } : result.queue,
+      close: async () => {
+        if (result.closeError) {
+          throw result.closeError;
+        }
+      },
+    };
+  };
+}
+
+/**
+ * Mock NATS client result
+ */
+export interface MockNatsResult {
+  server?: string;
+  /** Delay before the probe message is delivered back */
+  roundTripDelayMs?: number;
+  /** Never deliver the probe message */
+  dropMessages?: boolean;
+  connectError?: Error;
+  onConfig?: (config: NatsClientConfig) => void;
+  onPublish?: (subject: string, payload: string) => void;
+}
+
+/**
+ * Creates a mock NATS client factory for testing
+ */
+export function createMockNatsClientFactory(
+  result: MockNatsResult = {},
+): (config: NatsClientConfig) => Promise<NatsClient> {
+  return async (config: NatsClientConfig) => {
+    result.onConfig?.(config);
+    return {
+      connect: async () => {
+        if (result.connectError) {
+          throw result.connectError;
+        }
+        return { server: result.server ?? "NATS 2.10.18" };
+      },
+      roundTrip: (subject: string, payload: string) => {
+        result.onPublish?.(subject, payload);
+        if (result.dropMessages) {
+          return new Promise<void>(() => {
+            // Never delivered
+          });
+        }
+        return new Promise<void>((resolve) => setTimeout(resolve, result.roundTripDelayMs ?? 0));
+      },
+      close: async () => {
+        // Nothing to release
+      },
+    };
+  };
+}
+
+/**
+ * Mock MQTT client result
+ */
+export interface MockMqttResult {
+  /** Delay before the probe message is delivered back */
+  roundTripDelayMs?: number;
+  /** Never deliver the probe message */
+  dropMessages?: boolean;
+  /** Retained message on the topic; undefined means there is none */
+  retained?: string;
+  connectError?: Error;
+  /** Error thrown when subscribing */
+  subscribeError?: Error;
+  onConfig?: (config: MqttClientConfig) => void;
+  onPublish?: (topic: string, payload: string, qos: number) => void;
+}
+
+/**
+ * Creates a mock MQTT client factory for testing
+ */
+export function createMockMqttClientFactory(
+  result: MockMqttResult = {},
+): (config: MqttClientConfig) => Promise<MqttClient> {
+  return async (config: MqttClientConfig) => {
+    result.onConfig?.(config);
+    return {
+      connect: async () => {
+        if (result.connectError) {
+          throw result.connectError;
+        }
+      },
+      roundTrip: async (topic: string, payload: string, qos: number) => {
+        if (result.subscribeError) {
+          throw result.subscribeError;
+        }
+        result.onPublish?.(topic, payload, qos);
+        if (result.dropMessages) {
+          return new Promise<void>(() => {
+            // Never delivered
+          });
+        }
+        return new Promise<void>((resolve) => setTimeout(resolve, result.roundTripDelayMs ?? 0));
+      },
+      retained: async () => {
+        if (result.subscribeError) {
+          throw result.subscribeError;
+        }
+        if (result.retained === undefined) {
+          return new Promise<string>(() => {
+            // No retained message
+          });
+        }
+        return result.retained;
+      },
+      close: async () => {
+        // Nothing to release
+      },
+    };
+  };
+}
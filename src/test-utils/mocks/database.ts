@@ -3,6 +3,7 @@
  */
 
 import type { GrpcClientConfig, GrpcHealthClient } from "../../checkers/grpc";
+import type { MongoDbClient, MongoDbClientConfig } from "../../checkers/mongodb";
 import type { MySqlClient, MySqlClientConfig } from "../../checkers/mysql";
 import type { PostgreSqlClient, PostgreSqlClientConfig } from "../../checkers/postgresql";
 import type { RedisClient, RedisClientConfig } from "../../checkers/redis";
@@ -121,6 +122,53 @@ export function createMockRedisClientFactory(
   };
 }
 
+/**
+ * Mock MongoDB client result
+ */
+export interface MockMongoDbResult {
+  /** hello response; ping always answers { ok: 1 } unless pingResult is set */
+  helloResult?: Record<string, unknown>;
+  pingResult?: Record<string, unknown>;
+  connectError?: Error;
+  commandError?: Error;
+  closeError?: Error;
+  onConfig?: (config: MongoDbClientConfig) => void;
+  onCommand?: (name: string) => void;
+}
+
+/**
+ * Creates a mock MongoDB client factory for testing
+ */
+export function createMockMongoDbClientFactory(
+  result: MockMongoDbResult = {},
+): (config: MongoDbClientConfig) => Promise<MongoDbClient> {
+  return async (config: MongoDbClientConfig) => {
+    result.onConfig?.(config);
+    return {
+      connect: async () => {
+        if (result.connectError) {
+          throw result.connectError;
+        }
+      },
+      command: async (name: "ping" | "hello") => {
+        result.onCommand?.(name);
+        if (result.commandError) {
+          throw result.commandError;
+        }
+        if (name === "ping") {
+          return result.pingResult ?? { ok: 1 };
+        }
+        return result.helloResult ?? { isWritablePrimary: true, ok: 1 };
+      },
+      close: async () => {
+        if (result.closeError) {
+          throw result.closeError;
+        }
+      },
+    };
+  };
+}
+
 /**
  * Mock gRPC client result
  */
@@ -0,0 +1,46 @@
+/**
+ * Mock Docker Engine client factory for testing
+ */
+
+import type { DockerClient, DockerClientConfig, DockerContainerState } from "../../checkers/docker";
+
+/**
+ * Mock Docker client result
+ */
+export interface MockDockerResult {
+  /** Container state returned by inspect; null means the container does not exist */
+  container?: DockerContainerState | null;
+  inspectError?: Error;
+  /** Receives the config passed to the factory */
+  onConfig?: (config: DockerClientConfig) => void;
+}
+
+/**
+ * Creates a mock Docker client factory for testing
+ */
+export function createMockDockerClientFactory(
+  result: MockDockerResult = {},
+): (config: DockerClientConfig) => Promise<DockerClient> {
+  return async (config: DockerClientConfig) => {
+    result.onConfig?.(config);
+
+    return {
+      inspectContainer: async (_container: string) => {
+        if (result.inspectError) {
+          throw result.inspectError;
+        }
+        if (result.container === null) {
+          return null;
+        }
+        return (
+          result.container ?? {
+            status: "running",
+            running: true,
+            restartCount: 0,
+            startedAt: new Date(Date.now() - 3600 * 1000).toISOString(),
+          }
+        );
+      },
+    };
+  };
+}
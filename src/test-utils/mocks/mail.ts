@@ -0,0 +1,82 @@
+/**
+ * Mock mail server connection for testing
+ */
+
+import type { MailConnection, MailConnectionConfig } from "../../checkers/mail";
+import type { CertificateInfo } from "../../types/crd/monitor";
+
+/**
+ * Scripted mail server behaviour
+ */
+export interface MockMailServer {
+  /** Lines sent when the connection opens */
+  greeting: string[];
+  /** Lines sent in reply to a command; commands without a reply leave the client waiting */
+  reply: (command: string) => string[] | undefined;
+  /** Certificate presented by STARTTLS or implicit TLS */
+  cert?: Partial<CertificateInfo>;
+  connectError?: Error;
+  startTlsError?: Error;
+}
+
+/**
+ * Creates a mock mail connector that records the commands it received
+ */
+export function createMockMailConnector(server: MockMailServer): ((
+  config: MailConnectionConfig,
+) => Promise<MailConnection>) & {
+  commands: string[];
+  configs: MailConnectionConfig[];
+  tlsUpgrades: number;
+} {
+  const connector = Object.assign(
+    async (config: MailConnectionConfig): Promise<MailConnection> => {
+      connector.configs.push(config);
+      if (server.connectError) {
+        throw server.connectError;
+      }
+
+      const lines = [...server.greeting];
+      let pending: ((line: string) => void) | undefined;
+
+      return {
+        readLine: () => {
+          const line = lines.shift();
+          if (line !== undefined) return Promise.resolve(line);
+          return new Promise((resolve) => {
+            pending = resolve;
+          });
+        },
+        writeLine: async (command: string) => {
+          connector.commands.push(command);
+          lines.push(...(server.reply(command) ?? []));
+
+          const line = pending && lines.shift();
+          if (pending && line !== undefined) {
+            const resolve = pending;
+            pending = undefined;
+            resolve(line);
+          }
+        },
+        startTls: async () => {
+          if (server.startTlsError) {
+            throw server.startTlsError;
+          }
+          connector.tlsUpgrades++;
+          return {
+            valid: true,
+            daysRemaining: 90,
+            subject: "mail.example.com",
+            ...server.cert,
+          };
+        },
+        close: () => {
+          // Nothing to release
+        },
+      };
+    },
+    { commands: [] as string[], configs: [] as MailConnectionConfig[], tlsUpgrades: 0 },
+  );
+
+  return connector;
+}
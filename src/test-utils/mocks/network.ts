@@ -3,6 +3,8 @@
  */
 
 import { afterEach, beforeEach } from "bun:test";
+import type { CertificateInspectOptions, CertificateInspector } from "../../lib/certificates";
+import type { CertificateInfo } from "../../types/crd/monitor";
 
 /**
  * Mock fetch responses
@@ -183,6 +185,71 @@ export function createMockPingExecutor(
   };
 }
 
+/**
+ * Creates a mock certificate inspector that records the handshakes it was asked for
+ * Pass an Error to simulate a failed TLS handshake.
+ */
+export function createMockCertificateInspector(
+  result: Partial<CertificateInfo> | Error = {},
+): CertificateInspector & { calls: CertificateInspectOptions[] } {
+  const calls: CertificateInspectOptions[] = [];
+
+  const inspector = async (options: CertificateInspectOptions): Promise<CertificateInfo> => {
+    calls.push(options);
+    if (result instanceof Error) {
+      throw result;
+    }
+    return {
+      expiresAt: "2027-01-01T00:00:00.000Z",
+      daysRemaining: 75,
+      valid: true,
+      subject: options.servername ?? options.host,
+      issuer: "Test CA",
+      hostnameValid: true,
+      chainTrusted: true,
+      ...result,
+    };
+  };
+
+  return Object.assign(inspector, { calls });
+}
+
+/**
+ * Creates a mock TLS connector returning an already connected socket and its certificate
+ * Pass an Error to simulate a failed TLS handshake; socket overrides drive send/expect.
+ */
+export function createMockTlsConnector(
+  result: Partial<CertificateInfo> | Error = {},
+  overrides?: SocketOverrides,
+): ((
+  options: CertificateInspectOptions,
+) => Promise<{ socket: TcpSocket; cert: CertificateInfo }>) & {
+  calls: CertificateInspectOptions[];
+  written: string[];
+} {
+  const inspector = createMockCertificateInspector(result);
+  const written: string[] = [];
+
+  const connector = async (options: CertificateInspectOptions) => {
+    const cert = await inspector(options);
+    const socket = createMockSocketFactory({
+      write(buffer, cb) {
+        written.push(buffer);
+        if (overrides?.write) {
+          return overrides.write.call(this, buffer, cb);
+        }
+        setTimeout(() => cb?.(), 5);
+        return true;
+      },
+      ...(overrides?.on && { on: overrides.on }),
+      ...(overrides?.destroy && { destroy: overrides.destroy }),
+    })();
+    return { socket, cert };
+  };
+
+  return Object.assign(connector, { calls: inspector.calls, written });
+}
+
 /**
  * Create a successful HTTP response mock
  */
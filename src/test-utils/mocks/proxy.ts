@@ -0,0 +1,165 @@
+/**
+ * Local proxy servers for testing proxied checkers
+ *
+ * Minimal HTTP CONNECT and SOCKS5 proxies that record the destinations they tunnel to.
+ */
+
+import { type AddressInfo, connect, createServer, type Server, type Socket } from "node:net";
+
+export interface MockProxyServer {
+  url: string;
+  /** Destinations requested through the proxy, as host:port */
+  requests: string[];
+  close(): Promise<void>;
+}
+
+interface MockProxyOptions {
+  username?: string;
+  password?: string;
+  /** Wait this long before confirming the tunnel */
+  delayMs?: number;
+}
+
+async function listen(server: Server, connections: Set<Socket>) {
+  server.on("connection", (socket) => {
+    connections.add(socket);
+    socket.on("close", () => connections.delete(socket));
+    socket.on("error", () => socket.destroy());
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    port,
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of connections) {
+          socket.destroy();
+        }
+        server.close(() => resolve());
+      }),
+  };
+}
+
+function pipeTo(client: Socket, host: string, port: number, onConnect: () => void) {
+  const upstream = connect(port, host, () => {
+    onConnect();
+    client.pipe(upstream);
+    upstream.pipe(client);
+  });
+  upstream.on("error", () => client.destroy());
+  client.on("close", () => upstream.destroy());
+}
+
+/**
+ * Start an HTTP CONNECT proxy, optionally requiring Basic proxy authentication
+ */
+export async function startConnectProxy(options: MockProxyOptions = {}): Promise<MockProxyServer> {
+  const requests: string[] = [];
+  const expectedAuth = options.username
+    ? `Basic ${Buffer.from(`${options.username}:${options.password ?? ""}`).toString("base64")}`
+    : undefined;
+
+  const server = createServer((client) => {
+    client.once("data", (data) => {
+      const head = data.toString();
+      const [requestLine = ""] = head.split("\r\n");
+      const match = /^CONNECT (\S+):(\d+) /.exec(requestLine);
+
+      if (!match?.[1] || !match[2]) {
+        client.end("HTTP/1.1 405 Method Not Allowed\r\n\r\n");
+        return;
+      }
+
+      const auth = /^proxy-authorization: (.+)$/im.exec(head)?.[1]?.trim();
+      if (expectedAuth && auth !== expectedAuth) {
+        client.end("HTTP/1.1 407 Proxy Authentication Required\r\n\r\n");
+        return;
+      }
+
+      const host = match[1].replace(/^\[|\]$/g, "");
+      requests.push(`${host}:${match[2]}`);
+      pipeTo(client, host, Number(match[2]), () => {
+        setTimeout(
+          () => client.write("HTTP/1.1 200 Connection Established\r\n\r\n"),
+          options.delayMs ?? 0,
+        );
+      });
+    });
+  });
+
+  const { port, close } = await listen(server, new Set());
+  return { url: `http://127.0.0.1:${port}`, requests, close };
+}
+
+/**
+ * Start a SOCKS5 proxy supporting domain and IPv4 destinations,
+ * optionally requiring username/password authentication
+ */
+export async function startSocksProxy(options: MockProxyOptions = {}): Promise<MockProxyServer> {
+  const requests: string[] = [];
+
+  const server = createServer((client) => {
+    let stage: "greeting" | "auth" | "request" = "greeting";
+
+    const onData = (data: Buffer) => {
+      if (stage === "greeting") {
+        const methods = [...data.subarray(2, 2 + data.readUInt8(1))];
+        if (options.username) {
+          if (!methods.includes(0x02)) {
+            client.end(Buffer.from([0x05, 0xff]));
+            return;
+          }
+          client.write(Buffer.from([0x05, 0x02]));
+          stage = "auth";
+        } else {
+          client.write(Buffer.from([0x05, 0x00]));
+          stage = "request";
+        }
+        return;
+      }
+
+      if (stage === "auth") {
+        const usernameLength = data.readUInt8(1);
+        const username = data.subarray(2, 2 + usernameLength).toString();
+        const passwordLength = data.readUInt8(2 + usernameLength);
+        const password = data
+          .subarray(3 + usernameLength, 3 + usernameLength + passwordLength)
+          .toString();
+        const valid = username === options.username && password === (options.password ?? "");
+        client.write(Buffer.from([0x01, valid ? 0x00 : 0x01]));
+        if (!valid) {
+          client.end();
+          return;
+        }
+        stage = "request";
+        return;
+      }
+
+      client.off("data", onData);
+      const addressType = data.readUInt8(3);
+      let host: string;
+      let offset: number;
+      if (addressType === 0x01) {
+        host = [...data.subarray(4, 8)].join(".");
+        offset = 8;
+      } else {
+        const length = data.readUInt8(4);
+        host = data.subarray(5, 5 + length).toString();
+        offset = 5 + length;
+      }
+      const port = data.readUInt16BE(offset);
+      requests.push(`${host}:${port}`);
+
+      pipeTo(client, host, port, () => {
+        client.write(Buffer.from([0x05, 0x00, 0x00, 0x01, 0, 0, 0, 0, 0, 0]));
+      });
+    };
+
+    client.on("data", onData);
+  });
+
+  const { port, close } = await listen(server, new Set());
+  return { url: `socks5://127.0.0.1:${port}`, requests, close };
+}
@@ -0,0 +1,55 @@
+/**
+ * Mock SSH client factory for testing
+ */
+
+import type { SshClient, SshClientConfig } from "../../checkers/ssh";
+
+/**
+ * Mock SSH client result
+ */
+export interface MockSshResult {
+  identification?: string;
+  /** Host key blob passed to verifyHostKey during key exchange */
+  hostKey?: Buffer;
+  connectError?: Error;
+  exitCode?: number | null;
+  output?: string;
+  /** Receives the config passed to the factory */
+  onConfig?: (config: SshClientConfig) => void;
+  /** Receives commands passed to exec */
+  onExec?: (command: string) => void;
+}
+
+/**
+ * Creates a mock SSH client factory for testing
+ * A host key rejected by verifyHostKey fails connect like ssh2 does.
+ */
+export function createMockSshClientFactory(
+  result: MockSshResult = {},
+): (config: SshClientConfig) => Promise<SshClient> {
+  return async (config: SshClientConfig) => {
+    result.onConfig?.(config);
+
+    return {
+      connect: async () => {
+        if (!config.verifyHostKey(result.hostKey ?? Buffer.from("mock-host-key"))) {
+          throw new Error("Host denied (verification failed)");
+        }
+        if (result.connectError) {
+          throw result.connectError;
+        }
+        return { identification: result.identification ?? "SSH-2.0-OpenSSH_9.6" };
+      },
+      exec: async (command: string) => {
+        result.onExec?.(command);
+        return {
+          exitCode: result.exitCode === undefined ? 0 : result.exitCode,
+          output: result.output ?? "",
+        };
+      },
+      end: () => {
+        // Nothing to release
+      },
+    };
+  };
+}
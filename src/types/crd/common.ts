@@ -34,6 +34,15 @@ export const SecretRefSchema = z.object({
 
 export type SecretRef = z.infer<typeof SecretRefSchema>;
 
+// Client certificate for mutual TLS (kubernetes.io/tls secret)
+export const ClientCertSecretRefSchema = z.object({
+  name: z.string(),
+  certKey: z.string().optional().default("tls.crt"),
+  keyKey: z.string().optional().default("tls.key"),
+});
+
+export type ClientCertSecretRef = z.infer<typeof ClientCertSecretRefSchema>;
+
 // Selector patterns
 export const LabelSelectorSchema = z.object({
   matchLabels: z.record(z.string()).optional(),
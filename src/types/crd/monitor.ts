@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { SecretRefSchema, StatusBaseSchema } from "./common";
+import { ClientCertSecretRefSchema, SecretRefSchema, StatusBaseSchema } from "./common";
 
 // DNS resolution configuration (per-monitor override)
 export const DnsConfigSchema = z.object({
@@ -11,6 +11,23 @@ export const DnsConfigSchema = z.object({
 
 export type DnsConfig = z.infer<typeof DnsConfigSchema>;
 
+// Outbound proxy for HTTP, GraphQL, WebSocket and TCP targets (overrides YuptimeSettings.networking.proxy)
+export const ProxyConfigSchema = z.object({
+  /** none connects directly, even when a cluster-wide proxy is configured */
+  mode: z.enum(["none", "http", "socks"]).optional().default("none"),
+  url: z.string().optional(),
+  urlFromSecretRef: SecretRefSchema.optional(),
+  credentialsSecretRef: z
+    .object({
+      name: z.string(),
+      usernameKey: z.string().optional().default("username"),
+      passwordKey: z.string().optional().default("password"),
+    })
+    .optional(),
+});
+
+export type ProxyConfig = z.infer<typeof ProxyConfigSchema>;
+
 // Monitor schedule configuration
 export const MonitorScheduleSchema = z.object({
   intervalSeconds: z.number().min(1),
@@ -64,6 +81,34 @@ export const HttpAuthSchema = z.object({
 
 export type HttpAuth = z.infer<typeof HttpAuthSchema>;
 
+// Field of a form or multipart request body
+export const HttpBodyFieldSchema = z.object({
+  name: z.string(),
+  value: z.string().optional(),
+  valueFromSecretRef: SecretRefSchema.optional(),
+  // Multipart only: send the value as a file with this name
+  filename: z.string().optional(),
+  contentType: z.string().optional(),
+});
+
+export type HttpBodyField = z.infer<typeof HttpBodyFieldSchema>;
+
+// HTTP request body; inline text, json and field values may use ${timestamp}-style variables
+export const HttpBodySchema = z.object({
+  type: z.enum(["none", "json", "text", "form", "multipart", "binary"]).optional(),
+  json: z.record(z.string(), z.unknown()).optional(),
+  text: z.string().optional(),
+  // Base64-encoded bytes for binary bodies
+  base64: z.string().optional(),
+  // Fields of form and multipart bodies
+  fields: z.array(HttpBodyFieldSchema).optional(),
+  // Body content read from a secret instead of json, text or base64
+  valueFromSecretRef: SecretRefSchema.optional(),
+  contentType: z.string().optional(),
+});
+
+export type HttpBody = z.infer<typeof HttpBodySchema>;
+
 // HTTP target configuration
 export const HttpTargetSchema = z.object({
   url: z.string().url(),
@@ -81,29 +126,21 @@ export const HttpTargetSchema = z.object({
       }),
     )
     .optional(),
-  body: z
-    .object({
-      type: z.enum(["none", "json", "text"]).optional(),
-      json: z.record(z.string(), z.unknown()).optional(),
-      text: z.string().optional(),
-    })
-    .optional(),
+  body: HttpBodySchema.optional(),
   expectedContentType: z.string().optional(),
-  maxBodyBytes: z.number().min(0).optional().default(1048576),
+  // Larger response bodies fail the check; 0 disables the limit
+  // Unset, the 1 MiB default only applies when success criteria inspect the body
+  maxBodyBytes: z.number().min(0).optional(),
   tls: z
     .object({
       verify: z.boolean().optional().default(true),
       sni: z.string().optional(),
       caBundleSecretRef: SecretRefSchema.optional(),
+      clientCertSecretRef: ClientCertSecretRefSchema.optional(),
       warnBeforeDays: z.number().min(0).optional(),
     })
     .optional(),
-  proxy: z
-    .object({
-      mode: z.enum(["none", "http", "socks"]).optional().default("none"),
-      urlFromSecretRef: SecretRefSchema.optional(),
-    })
-    .optional(),
+  proxy: ProxyConfigSchema.optional(),
   // DNS resolution override (HTTP uses external DNS by default)
   dns: DnsConfigSchema.optional(),
 });
@@ -116,11 +153,15 @@ export const TcpTargetSchema = z.object({
   port: z.number().min(1).max(65535),
   send: z.string().optional(),
   expect: z.string().optional(),
+  proxy: ProxyConfigSchema.optional(),
   tls: z
     .object({
       enabled: z.boolean().optional().default(false),
       verify: z.boolean().optional().default(true),
       sni: z.string().optional(),
+      caBundleSecretRef: SecretRefSchema.optional(),
+      clientCertSecretRef: ClientCertSecretRefSchema.optional(),
+      warnBeforeDays: z.number().min(0).optional(),
     })
     .optional(),
   // DNS resolution override (TCP uses system DNS by default)
@@ -129,6 +170,79 @@ export const TcpTargetSchema = z.object({
 
 export type TcpTarget = z.infer<typeof TcpTargetSchema>;
 
+// Mail server target shared by smtp, imap and pop3 (port defaults per protocol)
+const MailTargetBaseSchema = z.object({
+  host: z.string(),
+  tls: z
+    .object({
+      // starttls upgrades the plain connection, implicit connects over TLS (smtps, imaps, pop3s)
+      mode: z.enum(["none", "starttls", "implicit"]).optional().default("none"),
+      verify: z.boolean().optional().default(true),
+      sni: z.string().optional(),
+      caBundleSecretRef: SecretRefSchema.optional(),
+      warnBeforeDays: z.number().min(0).optional(),
+    })
+    .optional(),
+  // Log in after the capability exchange (and STARTTLS, if enabled)
+  credentialsSecretRef: z
+    .object({
+      name: z.string(),
+      usernameKey: z.string().optional().default("username"),
+      passwordKey: z.string().optional().default("password"),
+    })
+    .optional(),
+  // Credentials are only sent over TLS unless this is set
+  allowInsecureAuth: z.boolean().optional().default(false),
+  // DNS resolution override (mail checks use system DNS by default)
+  dns: DnsConfigSchema.optional(),
+});
+
+export const SmtpTargetSchema = MailTargetBaseSchema.extend({
+  port: z.number().min(1).max(65535).optional().default(25),
+  // Name sent with EHLO
+  heloName: z.string().optional().default("yuptime"),
+});
+
+export type SmtpTarget = z.infer<typeof SmtpTargetSchema>;
+
+export const ImapTargetSchema = MailTargetBaseSchema.extend({
+  port: z.number().min(1).max(65535).optional().default(143),
+});
+
+export type ImapTarget = z.infer<typeof ImapTargetSchema>;
+
+export const Pop3TargetSchema = MailTargetBaseSchema.extend({
+  port: z.number().min(1).max(65535).optional().default(110),
+});
+
+export type Pop3Target = z.infer<typeof Pop3TargetSchema>;
+
+// SSH target configuration
+export const SshTargetSchema = z.object({
+  host: z.string(),
+  port: z.number().min(1).max(65535).optional().default(22),
+  // Pinned host key fingerprints as printed by ssh-keygen -l (SHA256:...); any other key fails
+  hostKeyFingerprints: z.array(z.string()).optional(),
+  // Public key authentication; without it the check stops after key exchange
+  auth: z
+    .object({
+      username: z.string(),
+      privateKeySecretRef: z.object({
+        name: z.string(),
+        key: z.string().optional().default("ssh-privatekey"),
+        passphraseKey: z.string().optional(),
+      }),
+    })
+    .optional(),
+  // Command run after authenticating; it must exit 0 and its output contain expect
+  command: z.string().optional(),
+  expect: z.string().optional(),
+  // DNS resolution override (SSH uses system DNS by default)
+  dns: DnsConfigSchema.optional(),
+});
+
+export type SshTarget = z.infer<typeof SshTargetSchema>;
+
 // DNS target configuration
 export const DnsTargetSchema = z.object({
   name: z.string(),
@@ -156,6 +270,7 @@ export const WebSocketTargetSchema = z.object({
     .optional(),
   send: z.string().optional(),
   expect: z.string().optional(),
+  proxy: ProxyConfigSchema.optional(),
 });
 
 export type WebSocketTarget = z.infer<typeof WebSocketTargetSchema>;
@@ -203,12 +318,47 @@ export const K8sTargetSchema = z.object({
 
 export type K8sTarget = z.infer<typeof K8sTargetSchema>;
 
+// Phase timings of an HTTP check, in milliseconds
+export const HttpTimingsSchema = z.object({
+  dnsMs: z.number().optional(),
+  connectMs: z.number().optional(),
+  tlsMs: z.number().optional(),
+  firstByteMs: z.number().optional(),
+  transferMs: z.number().optional(),
+});
+
+export type HttpTimings = z.infer<typeof HttpTimingsSchema>;
+
+// Response header assertion; with no operator set the header only has to be present
+export const HttpHeaderAssertionSchema = z.object({
+  name: z.string(),
+  equals: z.string().optional(),
+  contains: z.string().optional(),
+  regex: z.string().optional(),
+  absent: z.boolean().optional(),
+});
+
+export type HttpHeaderAssertion = z.infer<typeof HttpHeaderAssertionSchema>;
+
+// Redirect chain assertions
+export const HttpRedirectCriteriaSchema = z.object({
+  finalUrl: z.string().optional(),
+  maxHops: z.number().min(0).optional(),
+  httpsUpgrade: z.boolean().optional(),
+});
+
+export type HttpRedirectCriteria = z.infer<typeof HttpRedirectCriteriaSchema>;
+
 // Success criteria
 export const SuccessCriteriaSchema = z.object({
   http: z
     .object({
       acceptedStatusCodes: z.array(z.number()).optional(),
       latencyMsUnder: z.number().optional(),
+      // Per-phase thresholds, keyed like the reported timings
+      phaseLatencyMsUnder: HttpTimingsSchema.optional(),
+      headers: z.array(HttpHeaderAssertionSchema).optional(),
+      redirects: HttpRedirectCriteriaSchema.optional(),
     })
     .optional(),
   keyword: z
@@ -282,6 +432,61 @@ export const SuccessCriteriaSchema = z.object({
       mustReceiveWithinSeconds: z.number().optional(),
     })
     .optional(),
+  // SMTP, IMAP and POP3 checks
+  mail: z
+    .object({
+      bannerContains: z.string().optional(),
+      // Each must be advertised, matched case-insensitively by name (e.g. AUTH) or in full (e.g. AUTH=PLAIN)
+      capabilities: z.array(z.string()).optional(),
+    })
+    .optional(),
+  // Replica set assertions, evaluated on the hello response
+  mongodb: z
+    .object({
+      // Role the member reached must have
+      role: z.enum(["primary", "secondary", "arbiter"]).optional(),
+      // The replica set must currently have a primary
+      requirePrimary: z.boolean().optional(),
+    })
+    .optional(),
+  // Depth and consumer thresholds for the amqp queue
+  amqp: z
+    .object({
+      maxMessages: z.number().min(0).optional(),
+      minConsumers: z.number().min(0).optional(),
+    })
+    .optional(),
+  // Publish/subscribe round trip of the nats probe
+  nats: z
+    .object({
+      latencyMsUnder: z.number().optional(),
+    })
+    .optional(),
+  // MQTT round trip, or the retained message on the topic instead of a round trip
+  mqtt: z
+    .object({
+      latencyMsUnder: z.number().optional(),
+      retained: z
+        .object({
+          equals: z.string().optional(),
+          contains: z.string().optional(),
+          matches: z.string().optional(), // Regex pattern
+        })
+        .optional(),
+    })
+    .optional(),
+  // Thresholds for the scalar or vector result of a prometheus query
+  prometheus: z
+    .object({
+      equals: z.number().optional(),
+      greaterThan: z.number().optional(),
+      lessThan: z.number().optional(),
+      // Vector results: every series must pass (all) or at least one (any)
+      match: z.enum(["all", "any"]).optional().default("all"),
+      // State reported when the query returns no series
+      onEmpty: z.enum(["up", "down"]).optional().default("down"),
+    })
+    .optional(),
 });
 
 export type SuccessCriteria = z.infer<typeof SuccessCriteriaSchema>;
@@ -331,6 +536,8 @@ export const MySqlTargetSchema = z.object({
     .object({
       enabled: z.boolean().optional().default(false),
       verify: z.boolean().optional().default(true),
+      caBundleSecretRef: SecretRefSchema.optional(),
+      clientCertSecretRef: ClientCertSecretRefSchema.optional(),
     })
     .optional(),
 });
@@ -352,6 +559,10 @@ export const PostgreSqlTargetSchema = z.object({
     .enum(["disable", "prefer", "require", "verify-ca", "verify-full"])
     .optional()
     .default("prefer"),
+  // Trusted in addition to the system roots when the connection uses SSL
+  caBundleSecretRef: SecretRefSchema.optional(),
+  // Presented when the connection uses SSL (sslMode other than disable)
+  clientCertSecretRef: ClientCertSecretRefSchema.optional(),
 });
 
 export type PostgreSqlTarget = z.infer<typeof PostgreSqlTargetSchema>;
@@ -370,12 +581,131 @@ export const RedisTargetSchema = z.object({
   tls: z
     .object({
       enabled: z.boolean().optional().default(false),
+      verify: z.boolean().optional().default(true),
+      caBundleSecretRef: SecretRefSchema.optional(),
+      clientCertSecretRef: ClientCertSecretRefSchema.optional(),
     })
     .optional(),
 });
 
 export type RedisTarget = z.infer<typeof RedisTargetSchema>;
 
+// MongoDB target configuration
+export const MongoDbTargetSchema = z.object({
+  // mongodb:// or mongodb+srv:// URI; set either this or hosts
+  connectionString: z.string().optional(),
+  // Seed list as host or host:port
+  hosts: z.array(z.string()).optional(),
+  // Port for hosts entries without one
+  port: z.number().min(1).max(65535).optional().default(27017),
+  replicaSet: z.string().optional(),
+  database: z.string().optional().default("admin"),
+  authSource: z.string().optional(),
+  credentialsSecretRef: z
+    .object({
+      name: z.string(),
+      usernameKey: z.string().optional().default("username"),
+      passwordKey: z.string().optional().default("password"),
+    })
+    .optional(),
+  command: z.enum(["ping", "hello"]).optional().default("ping"),
+  tls: z
+    .object({
+      enabled: z.boolean().optional().default(false),
+      verify: z.boolean().optional().default(true),
+      caBundleSecretRef: SecretRefSchema.optional(),
+      clientCertSecretRef: ClientCertSecretRefSchema.optional(),
+    })
+    .optional(),
+});
+
+export type MongoDbTarget = z.infer<typeof MongoDbTargetSchema>;
+
+// TLS settings shared by the message broker targets (kafka, amqp and nats)
+const BrokerTlsSchema = z.object({
+  enabled: z.boolean().optional().default(false),
+  verify: z.boolean().optional().default(true),
+  caBundleSecretRef: SecretRefSchema.optional(),
+  clientCertSecretRef: ClientCertSecretRefSchema.optional(),
+});
+
+// Username and password secret shared by the message broker targets
+const BrokerCredentialsSecretRefSchema = z.object({
+  name: z.string(),
+  usernameKey: z.string().optional().default("username"),
+  passwordKey: z.string().optional().default("password"),
+});
+
+// Kafka target configuration
+export const KafkaTargetSchema = z.object({
+  // Bootstrap brokers as host:port
+  brokers: z.array(z.string()).min(1),
+  clientId: z.string().optional().default("yuptime"),
+  // Every partition of this topic must have a leader
+  topic: z.string().optional(),
+  sasl: z
+    .object({
+      mechanism: z.enum(["plain", "scram-sha-256", "scram-sha-512"]).optional().default("plain"),
+      credentialsSecretRef: BrokerCredentialsSecretRefSchema,
+    })
+    .optional(),
+  tls: BrokerTlsSchema.optional(),
+});
+
+export type KafkaTarget = z.infer<typeof KafkaTargetSchema>;
+
+// AMQP 0-9-1 (RabbitMQ) target configuration
+export const AmqpTargetSchema = z.object({
+  host: z.string(),
+  port: z.number().min(1).max(65535).optional().default(5672),
+  vhost: z.string().optional().default("/"),
+  credentialsSecretRef: BrokerCredentialsSecretRefSchema.optional(),
+  // Queue that must exist; depth thresholds are in successCriteria.amqp
+  queue: z.string().optional(),
+  tls: BrokerTlsSchema.optional(),
+});
+
+export type AmqpTarget = z.infer<typeof AmqpTargetSchema>;
+
+// NATS target configuration
+export const NatsTargetSchema = z.object({
+  // Servers as host:port or nats:// URLs
+  servers: z.array(z.string()).min(1),
+  // Subject the round-trip probe is published to and received from
+  subject: z.string().optional().default("yuptime.probe"),
+  credentialsSecretRef: BrokerCredentialsSecretRefSchema.optional(),
+  tokenSecretRef: SecretRefSchema.optional(),
+  tls: BrokerTlsSchema.optional(),
+});
+
+export type NatsTarget = z.infer<typeof NatsTargetSchema>;
+
+// MQTT target configuration
+export const MqttTargetSchema = z.object({
+  host: z.string(),
+  // Defaults to 1883 (8883 with TLS) over tcp and 80 (443 with TLS) over websocket
+  port: z.number().min(1).max(65535).optional(),
+  transport: z.enum(["tcp", "websocket"]).optional().default("tcp"),
+  // WebSocket endpoint path
+  path: z.string().optional().default("/mqtt"),
+  // Topic the round-trip probe is published to, or that holds the retained message
+  topic: z.string().optional().default("yuptime/probe"),
+  qos: z
+    .union([z.literal(0), z.literal(1), z.literal(2)])
+    .optional()
+    .default(0),
+  // Generated per check when not set
+  clientId: z.string().optional(),
+  credentialsSecretRef: BrokerCredentialsSecretRefSchema.optional(),
+  tls: BrokerTlsSchema.extend({
+    sni: z.string().optional(),
+  }).optional(),
+  // DNS resolution override (system DNS by default)
+  dns: DnsConfigSchema.optional(),
+});
+
+export type MqttTarget = z.infer<typeof MqttTargetSchema>;
+
 // gRPC target configuration
 export const GrpcTargetSchema = z.object({
   host: z.string(),
@@ -385,6 +715,10 @@ export const GrpcTargetSchema = z.object({
     .object({
       enabled: z.boolean().optional().default(false),
       verify: z.boolean().optional().default(true),
+      sni: z.string().optional(),
+      caBundleSecretRef: SecretRefSchema.optional(),
+      clientCertSecretRef: ClientCertSecretRefSchema.optional(),
+      warnBeforeDays: z.number().min(0).optional(),
     })
     .optional(),
   // DNS resolution override (gRPC uses system DNS by default)
@@ -393,10 +727,177 @@ export const GrpcTargetSchema = z.object({
 
 export type GrpcTarget = z.infer<typeof GrpcTargetSchema>;
 
+// Docker target configuration (Docker Engine API)
+export const DockerTargetSchema = z.object({
+  // unix:///path/to/docker.sock, tcp://host:port or http(s)://host:port
+  endpoint: z.string().optional().default("unix:///var/run/docker.sock"),
+  container: z.string(),
+  tls: z
+    .object({
+      enabled: z.boolean().optional().default(false),
+      verify: z.boolean().optional().default(true),
+      // Client certificates (docker --tlsverify style ca.pem/cert.pem/key.pem)
+      secretRef: z
+        .object({
+          name: z.string(),
+          caKey: z.string().optional().default("ca.pem"),
+          certKey: z.string().optional().default("cert.pem"),
+          keyKey: z.string().optional().default("key.pem"),
+        })
+        .optional(),
+    })
+    .optional(),
+  requireHealthy: z.boolean().optional().default(true),
+  maxRestartCount: z.number().min(0).optional(),
+  minUptimeSeconds: z.number().min(0).optional(),
+});
+
+export type DockerTarget = z.infer<typeof DockerTargetSchema>;
+
+// Value captured from a step response into a variable, referenced as ${name} in later steps
+export const HttpStepExtractSchema = z.object({
+  name: z.string(),
+  // Exactly one source: JSONPath into the body, a response header or a cookie
+  jsonPath: z.string().optional(),
+  header: z.string().optional(),
+  cookie: z.string().optional(),
+});
+
+export type HttpStepExtract = z.infer<typeof HttpStepExtractSchema>;
+
+// Success criteria of a single step
+export const HttpStepCriteriaSchema = z.object({
+  acceptedStatusCodes: z.array(z.number()).optional(),
+  latencyMsUnder: z.number().optional(),
+  headers: z.array(HttpHeaderAssertionSchema).optional(),
+  contains: z.array(z.string()).optional(),
+  jsonQueries: z
+    .array(
+      z.object({
+        path: z.string(),
+        equals: z.unknown().optional(),
+        exists: z.boolean().optional(),
+        contains: z.string().optional(),
+        count: z.number().optional(),
+        greaterThan: z.number().optional(),
+        lessThan: z.number().optional(),
+      }),
+    )
+    .optional(),
+});
+
+export type HttpStepCriteria = z.infer<typeof HttpStepCriteriaSchema>;
+
+// One request of a multi-step HTTP transaction; url, header values and body may use ${variables}
+export const HttpStepSchema = z.object({
+  name: z.string(),
+  url: z.string(),
+  method: z.enum(["GET", "POST", "PUT", "DELETE", "PATCH", "HEAD"]).optional().default("GET"),
+  headers: z
+    .array(
+      z.object({
+        name: z.string(),
+        value: z.string().optional(),
+        valueFromSecretRef: SecretRefSchema.optional(),
+      }),
+    )
+    .optional(),
+  body: z
+    .object({
+      type: z.enum(["none", "json", "text"]).optional(),
+      json: z.record(z.string(), z.unknown()).optional(),
+      text: z.string().optional(),
+    })
+    .optional(),
+  extract: z.array(HttpStepExtractSchema).optional(),
+  successCriteria: HttpStepCriteriaSchema.optional(),
+});
+
+export type HttpStep = z.infer<typeof HttpStepSchema>;
+
+// Multi-step HTTP transaction target (e.g. login, then an authenticated API call)
+export const HttpStepsTargetSchema = z.object({
+  steps: z.array(HttpStepSchema).min(1),
+  followRedirects: z.boolean().optional().default(true),
+  maxRedirects: z.number().min(0).optional().default(10),
+  tls: z
+    .object({
+      verify: z.boolean().optional().default(true),
+    })
+    .optional(),
+});
+
+export type HttpStepsTarget = z.infer<typeof HttpStepsTargetSchema>;
+
+// GraphQL target configuration; the query is POSTed as JSON to the endpoint
+export const GraphqlTargetSchema = z.object({
+  url: z.string().url(),
+  query: z.string(),
+  operationName: z.string().optional(),
+  variables: z.record(z.string(), z.unknown()).optional(),
+  // String variables read from secrets (override variables of the same name)
+  variablesFromSecrets: z
+    .array(
+      z.object({
+        name: z.string(),
+        valueFromSecretRef: SecretRefSchema,
+      }),
+    )
+    .optional(),
+  // Authentication configuration (Basic, Bearer, OAuth2)
+  auth: HttpAuthSchema.optional(),
+  headers: z
+    .array(
+      z.object({
+        name: z.string(),
+        value: z.string().optional(),
+        valueFromSecretRef: SecretRefSchema.optional(),
+      }),
+    )
+    .optional(),
+  tls: z
+    .object({
+      verify: z.boolean().optional().default(true),
+    })
+    .optional(),
+  proxy: ProxyConfigSchema.optional(),
+});
+
+export type GraphqlTarget = z.infer<typeof GraphqlTargetSchema>;
+
+// Prometheus-compatible query API target; the query runs as an instant query
+export const PrometheusTargetSchema = z.object({
+  // Base URL of the server, e.g. http://prometheus.monitoring:9090
+  url: z.string().url(),
+  query: z.string(),
+  // Authentication configuration (Basic, Bearer, OAuth2)
+  auth: HttpAuthSchema.optional(),
+  headers: z
+    .array(
+      z.object({
+        name: z.string(),
+        value: z.string().optional(),
+        valueFromSecretRef: SecretRefSchema.optional(),
+      }),
+    )
+    .optional(),
+  tls: z
+    .object({
+      verify: z.boolean().optional().default(true),
+    })
+    .optional(),
+});
+
+export type PrometheusTarget = z.infer<typeof PrometheusTargetSchema>;
+
 // Monitor target container
 export const MonitorTargetSchema = z.object({
   http: HttpTargetSchema.optional(),
   tcp: TcpTargetSchema.optional(),
+  smtp: SmtpTargetSchema.optional(),
+  imap: ImapTargetSchema.optional(),
+  pop3: Pop3TargetSchema.optional(),
+  ssh: SshTargetSchema.optional(),
   dns: DnsTargetSchema.optional(),
   websocket: WebSocketTargetSchema.optional(),
   ping: PingTargetSchema.optional(),
@@ -407,7 +908,16 @@ export const MonitorTargetSchema = z.object({
   mysql: MySqlTargetSchema.optional(),
   postgresql: PostgreSqlTargetSchema.optional(),
   redis: RedisTargetSchema.optional(),
+  mongodb: MongoDbTargetSchema.optional(),
+  kafka: KafkaTargetSchema.optional(),
+  amqp: AmqpTargetSchema.optional(),
+  nats: NatsTargetSchema.optional(),
+  mqtt: MqttTargetSchema.optional(),
   grpc: GrpcTargetSchema.optional(),
+  docker: DockerTargetSchema.optional(),
+  httpSteps: HttpStepsTargetSchema.optional(),
+  graphql: GraphqlTargetSchema.optional(),
+  prometheus: PrometheusTargetSchema.optional(),
   keyword: z
     .object({
       target: z.union([HttpTargetSchema, z.object({ url: z.string() })]),
@@ -435,6 +945,10 @@ export const MonitorSpecSchema = z.object({
   type: z.enum([
     "http",
     "tcp",
+    "smtp",
+    "imap",
+    "pop3",
+    "ssh",
     "ping",
     "dns",
     "keyword",
@@ -446,9 +960,17 @@ export const MonitorSpecSchema = z.object({
     "steam",
     "k8s",
     "docker",
+    "httpSteps",
+    "graphql",
+    "prometheus",
     "mysql",
     "postgresql",
     "redis",
+    "mongodb",
+    "kafka",
+    "amqp",
+    "nats",
+    "mqtt",
     "grpc",
   ]),
   schedule: MonitorScheduleSchema,
@@ -462,23 +984,58 @@ export const MonitorSpecSchema = z.object({
 
 export type MonitorSpec = z.infer<typeof MonitorSpecSchema>;
 
+// Outcome of one step of an httpSteps check
+export const HttpStepResultSchema = z.object({
+  name: z.string(),
+  state: z.enum(["up", "down"]),
+  latencyMs: z.number(),
+  statusCode: z.number().optional(),
+});
+
+export type HttpStepResult = z.infer<typeof HttpStepResultSchema>;
+
 // Last check result
 export const LastResultSchema = z.object({
   state: z.enum(["up", "down", "pending", "flapping", "paused"]),
   checkedAt: z.string(),
   latencyMs: z.number().optional(),
   attempts: z.number(),
+  failingSince: z.string().optional(),
   reason: z.string().optional(),
   message: z.string().optional(),
+  timings: HttpTimingsSchema.optional(),
+  steps: z.array(HttpStepResultSchema).optional(),
+  // Set by the controller while the monitor is flapping; state keeps the check outcome
+  flapping: z.boolean().optional(),
 });
 
 export type LastResult = z.infer<typeof LastResultSchema>;
 
-// Certificate info
+// Certificate presented in the TLS chain (leaf first)
+export const CertificateChainEntrySchema = z.object({
+  subject: z.string(),
+  issuer: z.string(),
+  expiresAt: z.string(),
+});
+
+export type CertificateChainEntry = z.infer<typeof CertificateChainEntrySchema>;
+
+// Certificate info captured from the TLS handshake
 export const CertificateInfoSchema = z.object({
   expiresAt: z.string().optional(),
+  notBefore: z.string().optional(),
   daysRemaining: z.number().optional(),
+  // Trusted chain, hostname match and within the validity period
   valid: z.boolean().optional(),
+  subject: z.string().optional(),
+  issuer: z.string().optional(),
+  subjectAltNames: z.array(z.string()).optional(),
+  fingerprint256: z.string().optional(),
+  hostnameValid: z.boolean().optional(),
+  chainTrusted: z.boolean().optional(),
+  validationError: z.string().optional(),
+  chain: z.array(CertificateChainEntrySchema).optional(),
+  checkedAt: z.string().optional(),
 });
 
 export type CertificateInfo = z.infer<typeof CertificateInfoSchema>;
@@ -489,16 +1046,63 @@ export const UptimeStatsSchema = z.object({
   last24h: z.number().optional(),
   last7d: z.number().optional(),
   last30d: z.number().optional(),
+  // When uptime tracking started (windows never reach further back)
+  since: z.string().optional(),
 });
 
 export type UptimeStats = z.infer<typeof UptimeStatsSchema>;
 
+// Downtime interval (open while endedAt is unset)
+export const DowntimeIntervalSchema = z.object({
+  startedAt: z.string(),
+  endedAt: z.string().optional(),
+});
+
+export type DowntimeInterval = z.infer<typeof DowntimeIntervalSchema>;
+
+// Alert suppressed by a maintenance window or silence
+export const SuppressedTransitionSchema = z.object({
+  fromState: z.string(),
+  toState: z.string(),
+  suppressedAt: z.string(),
+  sourceKind: z.enum(["MaintenanceWindow", "Silence"]),
+  sourceNamespace: z.string(),
+  sourceName: z.string(),
+  reason: z.string().optional(),
+});
+
+export type SuppressedTransition = z.infer<typeof SuppressedTransitionSchema>;
+
+// Last push received by the push endpoint (push monitors)
+export const PushRecordSchema = z.object({
+  state: z.enum(["up", "down"]),
+  receivedAt: z.string(),
+  latencyMs: z.number().optional(),
+  message: z.string().optional(),
+});
+
+export type PushRecord = z.infer<typeof PushRecordSchema>;
+
 // Monitor status
 export const MonitorStatusSchema = StatusBaseSchema.extend({
   lastResult: LastResultSchema.optional(),
+  // State the controller last alerted on (pending results never change it)
+  lastState: z.enum(["up", "down", "flapping", "paused"]).optional(),
+  lastTransitionAt: z.string().optional(),
   uptime: UptimeStatsSchema.optional(),
+  // Bounded downtime history backing the uptime windows
+  downtime: z.array(DowntimeIntervalSchema).optional(),
   cert: CertificateInfoSchema.optional(),
+  // Certificate the controller last sent a cert-expiring alert for
+  certExpiringAlert: z
+    .object({
+      expiresAt: z.string(),
+      notifiedAt: z.string(),
+    })
+    .optional(),
   nextRunAt: z.string().optional(),
+  lastPush: PushRecordSchema.optional(),
+  suppressedTransitions: z.array(SuppressedTransitionSchema).optional(),
 });
 
 export type MonitorStatus = z.infer<typeof MonitorStatusSchema>;
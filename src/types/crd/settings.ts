@@ -39,6 +39,18 @@ export const YuptimeSettingsSpecSchema = z.object({
         tcpFallbackPort: z.number().min(1).max(65535).optional().default(443),
       })
       .optional(),
+    // Default egress proxy for HTTP, WebSocket and TCP monitors without their own proxy
+    proxy: z
+      .object({
+        mode: z.enum(["none", "http", "socks"]).optional().default("none"),
+        url: z.string().optional(),
+        // Hosts reached directly: exact names, ".suffix" / "*.suffix" domains, IPs or "*"
+        noProxy: z
+          .array(z.string())
+          .optional()
+          .default(["localhost", "127.0.0.1", ".svc", ".cluster.local"]),
+      })
+      .optional(),
   }),
 });
 
@@ -38,7 +38,7 @@ customresourcedefinition: "monitors.monitoring.yuptime.io": {
 							}
 							type: {
 								type: "string"
-								enum: ["http", "tcp", "ping", "dns", "keyword", "jsonQuery", "xmlQuery", "htmlQuery", "websocket", "push", "steam", "k8s", "docker", "mysql", "postgresql", "redis", "grpc"]
+								enum: ["http", "tcp", "smtp", "imap", "pop3", "ssh", "ping", "dns", "keyword", "jsonQuery", "xmlQuery", "htmlQuery", "websocket", "push", "steam", "k8s", "docker", "httpSteps", "graphql", "prometheus", "mysql", "postgresql", "redis", "mongodb", "kafka", "amqp", "nats", "mqtt", "grpc"]
 							}
 							schedule: {
 								type: "object"
@@ -173,10 +173,60 @@ customresourcedefinition: "monitors.monitoring.yuptime.io": {
 													}
 												}
 											}
+											body: {
+												type: "object"
+												properties: {
+													type: {
+														type: "string"
+														enum: ["none", "json", "text", "form", "multipart", "binary"]
+													}
+													json: {
+														type:                                   "object"
+														"x-kubernetes-preserve-unknown-fields": true
+													}
+													text: type: "string"
+													base64: {
+														type:        "string"
+														description: "Base64-encoded bytes for binary bodies"
+													}
+													fields: {
+														type:        "array"
+														description: "Fields of form and multipart bodies"
+														items: {
+															type: "object"
+															required: ["name"]
+															properties: {
+																name: type: "string"
+																value: type: "string"
+																valueFromSecretRef: {
+																	type: "object"
+																	required: ["name", "key"]
+																	properties: {
+																		name: type: "string"
+																		key: type: "string"
+																	}
+																}
+																filename: type: "string"
+																contentType: type: "string"
+															}
+														}
+													}
+													valueFromSecretRef: {
+														type:        "object"
+														description: "Body content read from a secret instead of json, text or base64"
+														required: ["name", "key"]
+														properties: {
+															name: type: "string"
+															key: type: "string"
+														}
+													}
+													contentType: type: "string"
+												}
+											}
 											expectedContentType: type: "string"
 											maxBodyBytes: {
-												type:    "integer"
-												default: 1048576
+												type:        "integer"
+												description: "Responses with a larger body fail with BODY_TOO_LARGE (0 disables the limit; unset, 1 MiB when the body is inspected)"
 											}
 											tls: {
 												type: "object"
@@ -186,9 +236,57 @@ customresourcedefinition: "monitors.monitoring.yuptime.io": {
 														default: true
 													}
 													sni: type: "string"
+													caBundleSecretRef: {
+														type: "object"
+														required: ["name", "key"]
+														properties: {
+															name: type: "string"
+															key: type: "string"
+															namespace: type: "string"
+														}
+													}
+													clientCertSecretRef: {
+														type:        "object"
+														description: "kubernetes.io/tls secret presented for mutual TLS"
+														required: ["name"]
+														properties: {
+															name: type: "string"
+															certKey: type: "string"
+															keyKey: type: "string"
+														}
+													}
 													warnBeforeDays: type: "integer"
 												}
 											}
+											proxy: {
+												type:        "object"
+												description: "Egress proxy; overrides YuptimeSettings networking.proxy (mode none connects directly)"
+												properties: {
+													mode: {
+														type: "string"
+														enum: ["none", "http", "socks"]
+													}
+													url: type: "string"
+													urlFromSecretRef: {
+														type: "object"
+														required: ["name", "key"]
+														properties: {
+															name: type: "string"
+															key: type: "string"
+															namespace: type: "string"
+														}
+													}
+													credentialsSecretRef: {
+														type: "object"
+														required: ["name"]
+														properties: {
+															name: type: "string"
+															usernameKey: type: "string"
+															passwordKey: type: "string"
+														}
+													}
+												}
+											}
 											dns: {
 												type: "object"
 												description: "DNS resolution override (HTTP uses external DNS by default)"
@@ -223,6 +321,55 @@ customresourcedefinition: "monitors.monitoring.yuptime.io": {
 													enabled: type: "boolean"
 													verify: type: "boolean"
 													sni: type: "string"
+													caBundleSecretRef: {
+														type: "object"
+														required: ["name", "key"]
+														properties: {
+															name: type: "string"
+															key: type: "string"
+															namespace: type: "string"
+														}
+													}
+													clientCertSecretRef: {
+														type:        "object"
+														description: "kubernetes.io/tls secret presented for mutual TLS"
+														required: ["name"]
+														properties: {
+															name: type: "string"
+															certKey: type: "string"
+															keyKey: type: "string"
+														}
+													}
+													warnBeforeDays: type: "integer"
+												}
+											}
+											proxy: {
+												type:        "object"
+												description: "Egress proxy; overrides YuptimeSettings networking.proxy (mode none connects directly)"
+												properties: {
+													mode: {
+														type: "string"
+														enum: ["none", "http", "socks"]
+													}
+													url: type: "string"
+													urlFromSecretRef: {
+														type: "object"
+														required: ["name", "key"]
+														properties: {
+															name: type: "string"
+															key: type: "string"
+															namespace: type: "string"
+														}
+													}
+													credentialsSecretRef: {
+														type: "object"
+														required: ["name"]
+														properties: {
+															name: type: "string"
+															usernameKey: type: "string"
+															passwordKey: type: "string"
+														}
+													}
 												}
 											}
 											dns: {
@@ -238,6 +385,243 @@ customresourcedefinition: "monitors.monitoring.yuptime.io": {
 											}
 										}
 									}
+									smtp: {
+										type: "object"
+										required: ["host"]
+										properties: {
+											host: type: "string"
+											port: {
+												type:    "integer"
+												minimum: 1
+												maximum: 65535
+												default: 25
+											}
+											heloName: {
+												type:        "string"
+												description: "Name sent with EHLO"
+												default:     "yuptime"
+											}
+											tls: {
+												type: "object"
+												properties: {
+													mode: {
+														type:        "string"
+														description: "starttls upgrades the plain connection, implicit connects over TLS"
+														enum: ["none", "starttls", "implicit"]
+														default:     "none"
+													}
+													verify: type: "boolean"
+													sni: type: "string"
+													caBundleSecretRef: {
+														type: "object"
+														required: ["name", "key"]
+														properties: {
+															name: type: "string"
+															key: type: "string"
+															namespace: type: "string"
+														}
+													}
+													warnBeforeDays: type: "integer"
+												}
+											}
+											credentialsSecretRef: {
+												type:        "object"
+												description: "Log in after the capability exchange"
+												required: ["name"]
+												properties: {
+													name: type: "string"
+													usernameKey: type: "string"
+													passwordKey: type: "string"
+												}
+											}
+											allowInsecureAuth: {
+												type:        "boolean"
+												description: "Send credentials over a plain connection (tls.mode: none)"
+												default:     false
+											}
+											dns: {
+												type: "object"
+												properties: {
+													useSystemResolver: type: "boolean"
+													resolvers: {
+														type: "array"
+														items: type: "string"
+													}
+												}
+											}
+										}
+									}
+									imap: {
+										type: "object"
+										required: ["host"]
+										properties: {
+											host: type: "string"
+											port: {
+												type:    "integer"
+												minimum: 1
+												maximum: 65535
+												default: 143
+											}
+											tls: {
+												type: "object"
+												properties: {
+													mode: {
+														type:        "string"
+														description: "starttls upgrades the plain connection, implicit connects over TLS"
+														enum: ["none", "starttls", "implicit"]
+														default:     "none"
+													}
+													verify: type: "boolean"
+													sni: type: "string"
+													caBundleSecretRef: {
+														type: "object"
+														required: ["name", "key"]
+														properties: {
+															name: type: "string"
+															key: type: "string"
+															namespace: type: "string"
+														}
+													}
+													warnBeforeDays: type: "integer"
+												}
+											}
+											credentialsSecretRef: {
+												type:        "object"
+												description: "Log in after the capability exchange"
+												required: ["name"]
+												properties: {
+													name: type: "string"
+													usernameKey: type: "string"
+													passwordKey: type: "string"
+												}
+											}
+											allowInsecureAuth: {
+												type:        "boolean"
+												description: "Send credentials over a plain connection (tls.mode: none)"
+												default:     false
+											}
+											dns: {
+												type: "object"
+												properties: {
+													useSystemResolver: type: "boolean"
+													resolvers: {
+														type: "array"
+														items: type: "string"
+													}
+												}
+											}
+										}
+									}
+									pop3: {
+										type: "object"
+										required: ["host"]
+										properties: {
+											host: type: "string"
+											port: {
+												type:    "integer"
+												minimum: 1
+												maximum: 65535
+												default: 110
+											}
+											tls: {
+												type: "object"
+												properties: {
+													mode: {
+														type:        "string"
+														description: "starttls upgrades the plain connection, implicit connects over TLS"
+														enum: ["none", "starttls", "implicit"]
+														default:     "none"
+													}
+													verify: type: "boolean"
+													sni: type: "string"
+													caBundleSecretRef: {
+														type: "object"
+														required: ["name", "key"]
+														properties: {
+															name: type: "string"
+															key: type: "string"
+															namespace: type: "string"
+														}
+													}
+													warnBeforeDays: type: "integer"
+												}
+											}
+											credentialsSecretRef: {
+												type:        "object"
+												description: "Log in after the capability exchange"
+												required: ["name"]
+												properties: {
+													name: type: "string"
+													usernameKey: type: "string"
+													passwordKey: type: "string"
+												}
+											}
+											allowInsecureAuth: {
+												type:        "boolean"
+												description: "Send credentials over a plain connection (tls.mode: none)"
+												default:     false
+											}
+											dns: {
+												type: "object"
+												properties: {
+													useSystemResolver: type: "boolean"
+													resolvers: {
+														type: "array"
+														items: type: "string"
+													}
+												}
+											}
+										}
+									}
+									ssh: {
+										type: "object"
+										required: ["host"]
+										properties: {
+											host: type: "string"
+											port: {
+												type:    "integer"
+												minimum: 1
+												maximum: 65535
+												default: 22
+											}
+											hostKeyFingerprints: {
+												type:        "array"
+												description: "Pinned host key fingerprints (SHA256:..., as printed by ssh-keygen -l)"
+												items: type: "string"
+											}
+											auth: {
+												type: "object"
+												required: ["username", "privateKeySecretRef"]
+												properties: {
+													username: type: "string"
+													privateKeySecretRef: {
+														type: "object"
+														required: ["name"]
+														properties: {
+															name: type: "string"
+															key: type: "string"
+															passphraseKey: type: "string"
+														}
+													}
+												}
+											}
+											command: {
+												type:        "string"
+												description: "Command run after authenticating; must exit 0"
+											}
+											expect: type: "string"
+											dns: {
+												type: "object"
+												properties: {
+													useSystemResolver: type: "boolean"
+													resolvers: {
+														type: "array"
+														items: type: "string"
+													}
+												}
+											}
+										}
+									}
 									dns: {
 										type: "object"
 										required: [
@@ -278,6 +662,58 @@ customresourcedefinition: "monitors.monitoring.yuptime.io": {
 											url: type: "string"
 											send: type: "string"
 											expect: type: "string"
+											proxy: {
+												type:        "object"
+												description: "Egress proxy; overrides YuptimeSettings networking.proxy (mode none connects directly)"
+												properties: {
+													mode: {
+														type: "string"
+														enum: ["none", "http", "socks"]
+													}
+													url: type: "string"
+													urlFromSecretRef: {
+														type: "object"
+														required: ["name", "key"]
+														properties: {
+															name: type: "string"
+															key: type: "string"
+															namespace: type: "string"
+														}
+													}
+													credentialsSecretRef: {
+														type: "object"
+														required: ["name"]
+														properties: {
+															name: type: "string"
+															usernameKey: type: "string"
+															passwordKey: type: "string"
+														}
+													}
+												}
+											}
+										}
+									}
+									push: {
+										type: "object"
+										required: ["tokenSecretRef", "expireSeconds"]
+										properties: {
+											tokenSecretRef: {
+												type: "object"
+												required: ["name", "key"]
+												properties: {
+													name: type: "string"
+													key: type: "string"
+													namespace: type: "string"
+												}
+											}
+											expireSeconds: {
+												type:    "integer"
+												minimum: 1
+											}
+											gracePeriodSeconds: {
+												type:    "integer"
+												minimum: 0
+											}
 										}
 									}
 								mysql: {
@@ -303,6 +739,32 @@ customresourcedefinition: "monitors.monitoring.yuptime.io": {
 											}
 										}
 										healthQuery: type: "string"
+										tls: {
+											type: "object"
+											properties: {
+												enabled: type: "boolean"
+												verify: type: "boolean"
+												caBundleSecretRef: {
+													type: "object"
+													required: ["name", "key"]
+													properties: {
+														name: type: "string"
+														key: type: "string"
+														namespace: type: "string"
+													}
+												}
+												clientCertSecretRef: {
+													type:        "object"
+													description: "kubernetes.io/tls secret presented for mutual TLS"
+													required: ["name"]
+													properties: {
+														name: type: "string"
+														certKey: type: "string"
+														keyKey: type: "string"
+													}
+												}
+											}
+										}
 									}
 								}
 								postgresql: {
@@ -321,75 +783,845 @@ customresourcedefinition: "monitors.monitoring.yuptime.io": {
 										database: type: "string"
 										credentialsSecretRef: {
 											type: "object"
-											properties: {
-												name: type: "string"
-												usernameKey: type: "string"
-												passwordKey: type: "string"
+											properties: {
+												name: type: "string"
+												usernameKey: type: "string"
+												passwordKey: type: "string"
+											}
+										}
+										healthQuery: type: "string"
+										sslMode: {
+											type: "string"
+											enum: ["disable", "prefer", "require", "verify-ca", "verify-full"]
+										}
+										caBundleSecretRef: {
+											type: "object"
+											required: ["name", "key"]
+											properties: {
+												name: type: "string"
+												key: type: "string"
+												namespace: type: "string"
+											}
+										}
+										clientCertSecretRef: {
+											type:        "object"
+											description: "kubernetes.io/tls secret presented for mutual TLS"
+											required: ["name"]
+											properties: {
+												name: type: "string"
+												certKey: type: "string"
+												keyKey: type: "string"
+											}
+										}
+									}
+								}
+								redis: {
+									type: "object"
+									required: [
+										"host",
+										"port",
+									]
+									properties: {
+										host: type: "string"
+										port: {
+											type:    "integer"
+											minimum: 1
+											maximum: 65535
+										}
+										database: {
+											type:    "integer"
+											minimum: 0
+										}
+										credentialsSecretRef: {
+											type: "object"
+											properties: {
+												name: type: "string"
+												passwordKey: type: "string"
+											}
+										}
+										tls: {
+											type: "object"
+											properties: {
+												enabled: type: "boolean"
+												verify: type: "boolean"
+												caBundleSecretRef: {
+													type: "object"
+													required: ["name", "key"]
+													properties: {
+														name: type: "string"
+														key: type: "string"
+														namespace: type: "string"
+													}
+												}
+												clientCertSecretRef: {
+													type:        "object"
+													description: "kubernetes.io/tls secret presented for mutual TLS"
+													required: ["name"]
+													properties: {
+														name: type: "string"
+														certKey: type: "string"
+														keyKey: type: "string"
+													}
+												}
+											}
+										}
+									}
+								}
+								mongodb: {
+									type: "object"
+									properties: {
+										connectionString: {
+											type:        "string"
+											description: "mongodb:// or mongodb+srv:// URI; set either this or hosts"
+										}
+										hosts: {
+											type:        "array"
+											description: "Seed list as host or host:port"
+											items: type: "string"
+										}
+										port: {
+											type:    "integer"
+											minimum: 1
+											maximum: 65535
+										}
+										replicaSet: type: "string"
+										database: type: "string"
+										authSource: type: "string"
+										credentialsSecretRef: {
+											type: "object"
+											properties: {
+												name: type: "string"
+												usernameKey: type: "string"
+												passwordKey: type: "string"
+											}
+										}
+										command: {
+											type: "string"
+											enum: ["ping", "hello"]
+										}
+										tls: {
+											type: "object"
+											properties: {
+												enabled: type: "boolean"
+												verify: type: "boolean"
+												caBundleSecretRef: {
+													type: "object"
+													required: ["name", "key"]
+													properties: {
+														name: type: "string"
+														key: type: "string"
+														namespace: type: "string"
+													}
+												}
+												clientCertSecretRef: {
+													type:        "object"
+													description: "kubernetes.io/tls secret presented for mutual TLS"
+													required: ["name"]
+													properties: {
+														name: type: "string"
+														certKey: type: "string"
+														keyKey: type: "string"
+													}
+												}
+											}
+										}
+									}
+								}
+								kafka: {
+									type: "object"
+									required: ["brokers"]
+									properties: {
+										brokers: {
+											type:        "array"
+											description: "Bootstrap brokers as host:port"
+											minItems:    1
+											items: type: "string"
+										}
+										clientId: type: "string"
+										topic: {
+											type:        "string"
+											description: "Topic whose partitions must all have a leader"
+										}
+										sasl: {
+											type: "object"
+											required: ["credentialsSecretRef"]
+											properties: {
+												mechanism: {
+													type: "string"
+													enum: ["plain", "scram-sha-256", "scram-sha-512"]
+												}
+												credentialsSecretRef: {
+													type: "object"
+													required: ["name"]
+													properties: {
+														name: type: "string"
+														usernameKey: type: "string"
+														passwordKey: type: "string"
+													}
+												}
+											}
+										}
+										tls: {
+											type: "object"
+											properties: {
+												enabled: type: "boolean"
+												verify: type: "boolean"
+												caBundleSecretRef: {
+													type: "object"
+													required: ["name", "key"]
+													properties: {
+														name: type: "string"
+														key: type: "string"
+														namespace: type: "string"
+													}
+												}
+												clientCertSecretRef: {
+													type:        "object"
+													description: "kubernetes.io/tls secret presented for mutual TLS"
+													required: ["name"]
+													properties: {
+														name: type: "string"
+														certKey: type: "string"
+														keyKey: type: "string"
+													}
+												}
+											}
+										}
+									}
+								}
+								amqp: {
+									type: "object"
+									required: ["host"]
+									properties: {
+										host: type: "string"
+										port: {
+											type:    "integer"
+											minimum: 1
+											maximum: 65535
+										}
+										vhost: type: "string"
+										credentialsSecretRef: {
+											type: "object"
+											required: ["name"]
+											properties: {
+												name: type: "string"
+												usernameKey: type: "string"
+												passwordKey: type: "string"
+											}
+										}
+										queue: {
+											type:        "string"
+											description: "Queue that must exist; declared passively"
+										}
+										tls: {
+											type: "object"
+											properties: {
+												enabled: type: "boolean"
+												verify: type: "boolean"
+												caBundleSecretRef: {
+													type: "object"
+													required: ["name", "key"]
+													properties: {
+														name: type: "string"
+														key: type: "string"
+														namespace: type: "string"
+													}
+												}
+												clientCertSecretRef: {
+													type:        "object"
+													description: "kubernetes.io/tls secret presented for mutual TLS"
+													required: ["name"]
+													properties: {
+														name: type: "string"
+														certKey: type: "string"
+														keyKey: type: "string"
+													}
+												}
+											}
+										}
+									}
+								}
+								nats: {
+									type: "object"
+									required: ["servers"]
+									properties: {
+										servers: {
+											type:        "array"
+											description: "Servers as host:port or nats:// URLs"
+											minItems:    1
+											items: type: "string"
+										}
+										subject: {
+											type:        "string"
+											description: "Subject the round-trip probe is published to"
+										}
+										credentialsSecretRef: {
+											type: "object"
+											required: ["name"]
+											properties: {
+												name: type: "string"
+												usernameKey: type: "string"
+												passwordKey: type: "string"
+											}
+										}
+										tokenSecretRef: {
+											type: "object"
+											required: ["name", "key"]
+											properties: {
+												name: type: "string"
+												key: type: "string"
+												namespace: type: "string"
+											}
+										}
+										tls: {
+											type: "object"
+											properties: {
+												enabled: type: "boolean"
+												verify: type: "boolean"
+												caBundleSecretRef: {
+													type: "object"
+													required: ["name", "key"]
+													properties: {
+														name: type: "string"
+														key: type: "string"
+														namespace: type: "string"
+													}
+												}
+												clientCertSecretRef: {
+													type:        "object"
+													description: "kubernetes.io/tls secret presented for mutual TLS"
+													required: ["name"]
+													properties: {
+														name: type: "string"
+														certKey: type: "string"
+														keyKey: type: "string"
+													}
+												}
+											}
+										}
+									}
+								}
+								mqtt: {
+									type: "object"
+									required: ["host"]
+									properties: {
+										host: type: "string"
+										port: {
+											type:        "integer"
+											description: "Defaults to 1883 (8883 with TLS) over tcp and 80 (443 with TLS) over websocket"
+											minimum:     1
+											maximum:     65535
+										}
+										transport: {
+											type: "string"
+											enum: ["tcp", "websocket"]
+										}
+										path: {
+											type:        "string"
+											description: "WebSocket endpoint path"
+										}
+										topic: {
+											type:        "string"
+											description: "Topic the round-trip probe is published to, or that holds the retained message"
+										}
+										qos: {
+											type: "integer"
+											enum: [0, 1, 2]
+										}
+										clientId: type: "string"
+										credentialsSecretRef: {
+											type: "object"
+											required: ["name"]
+											properties: {
+												name: type: "string"
+												usernameKey: type: "string"
+												passwordKey: type: "string"
+											}
+										}
+										tls: {
+											type: "object"
+											properties: {
+												enabled: type: "boolean"
+												verify: type: "boolean"
+												sni: type: "string"
+												caBundleSecretRef: {
+													type: "object"
+													required: ["name", "key"]
+													properties: {
+														name: type: "string"
+														key: type: "string"
+														namespace: type: "string"
+													}
+												}
+												clientCertSecretRef: {
+													type:        "object"
+													description: "kubernetes.io/tls secret presented for mutual TLS"
+													required: ["name"]
+													properties: {
+														name: type: "string"
+														certKey: type: "string"
+														keyKey: type: "string"
+													}
+												}
+											}
+										}
+										dns: {
+											type:        "object"
+											description: "DNS resolution override"
+											properties: {
+												useSystemResolver: type: "boolean"
+												resolvers: {
+													type: "array"
+													items: type: "string"
+												}
+											}
+										}
+									}
+								}
+								grpc: {
+									type: "object"
+									required: [
+										"host",
+										"port",
+									]
+									properties: {
+										host: type: "string"
+										port: {
+											type:    "integer"
+											minimum: 1
+											maximum: 65535
+										}
+										service: type: "string"
+										tls: {
+											type: "object"
+											properties: {
+												enabled: type: "boolean"
+												verify: type: "boolean"
+												sni: type: "string"
+												caBundleSecretRef: {
+													type: "object"
+													required: ["name", "key"]
+													properties: {
+														name: type: "string"
+														key: type: "string"
+														namespace: type: "string"
+													}
+												}
+												clientCertSecretRef: {
+													type:        "object"
+													description: "kubernetes.io/tls secret presented for mutual TLS"
+													required: ["name"]
+													properties: {
+														name: type: "string"
+														certKey: type: "string"
+														keyKey: type: "string"
+													}
+												}
+												warnBeforeDays: type: "integer"
+											}
+										}
+										dns: {
+											type: "object"
+											description: "DNS resolution override (gRPC uses system DNS by default)"
+											properties: {
+												useSystemResolver: type: "boolean"
+												resolvers: {
+													type: "array"
+													items: type: "string"
+												}
+											}
+										}
+									}
+								}
+								docker: {
+									type: "object"
+									required: ["container"]
+									properties: {
+										endpoint: {
+											type:        "string"
+											description: "unix:///var/run/docker.sock, tcp://host:port or http(s)://host:port"
+										}
+										container: type: "string"
+										tls: {
+											type: "object"
+											properties: {
+												enabled: type: "boolean"
+												verify: type: "boolean"
+												secretRef: {
+													type: "object"
+													required: ["name"]
+													properties: {
+														name: type: "string"
+														caKey: type: "string"
+														certKey: type: "string"
+														keyKey: type: "string"
+													}
+												}
+											}
+										}
+										requireHealthy: type: "boolean"
+										maxRestartCount: {
+											type:    "integer"
+											minimum: 0
+										}
+										minUptimeSeconds: {
+											type:    "integer"
+											minimum: 0
+										}
+									}
+								}
+								httpSteps: {
+									type: "object"
+									required: ["steps"]
+									properties: {
+										steps: {
+											type:     "array"
+											minItems: 1
+											items: {
+												type: "object"
+												required: ["name", "url"]
+												properties: {
+													name: type: "string"
+													url: {
+														type:        "string"
+														description: "May reference variables extracted by earlier steps as ${name}"
+													}
+													method: {
+														type: "string"
+														enum: ["GET", "POST", "PUT", "DELETE", "PATCH", "HEAD"]
+														default: "GET"
+													}
+													headers: {
+														type: "array"
+														items: {
+															type: "object"
+															properties: {
+																name: type: "string"
+																value: type: "string"
+																valueFromSecretRef: {
+																	type: "object"
+																	properties: {
+																		name: type: "string"
+																		key: type: "string"
+																	}
+																}
+															}
+														}
+													}
+													body: {
+														type: "object"
+														properties: {
+															type: {
+																type: "string"
+																enum: ["none", "json", "text"]
+															}
+															json: {
+																type:                                   "object"
+																"x-kubernetes-preserve-unknown-fields": true
+															}
+															text: type: "string"
+														}
+													}
+													extract: {
+														type: "array"
+														items: {
+															type: "object"
+															required: ["name"]
+															properties: {
+																name: type: "string"
+																jsonPath: type: "string"
+																header: type: "string"
+																cookie: type: "string"
+															}
+														}
+													}
+													successCriteria: {
+														type: "object"
+														properties: {
+															acceptedStatusCodes: {
+																type: "array"
+																items: type: "integer"
+															}
+															latencyMsUnder: type: "integer"
+															headers: {
+																type: "array"
+																items: {
+																	type: "object"
+																	required: ["name"]
+																	properties: {
+																		name: type: "string"
+																		equals: type: "string"
+																		contains: type: "string"
+																		regex: type: "string"
+																		absent: type: "boolean"
+																	}
+																}
+															}
+															contains: {
+																type: "array"
+																items: type: "string"
+															}
+															jsonQueries: {
+																type: "array"
+																items: {
+																	type: "object"
+																	required: ["path"]
+																	properties: {
+																		path: type: "string"
+																		equals: "x-kubernetes-preserve-unknown-fields": true
+																		exists: type: "boolean"
+																		contains: type: "string"
+																		count: type: "integer"
+																		greaterThan: type: "number"
+																		lessThan: type: "number"
+																	}
+																}
+															}
+														}
+													}
+												}
+											}
+										}
+										followRedirects: {
+											type:    "boolean"
+											default: true
+										}
+										maxRedirects: {
+											type:    "integer"
+											default: 10
+										}
+										tls: {
+											type: "object"
+											properties: verify: {
+												type:    "boolean"
+												default: true
+											}
+										}
+									}
+								}
+								graphql: {
+									type: "object"
+									required: ["url", "query"]
+									properties: {
+										url: type: "string"
+										query: type: "string"
+										operationName: type: "string"
+										variables: {
+											type:                                   "object"
+											"x-kubernetes-preserve-unknown-fields": true
+										}
+										variablesFromSecrets: {
+											type:        "array"
+											description: "String variables read from secrets; override variables of the same name"
+											items: {
+												type: "object"
+												required: ["name", "valueFromSecretRef"]
+												properties: {
+													name: type: "string"
+													valueFromSecretRef: {
+														type: "object"
+														required: ["name", "key"]
+														properties: {
+															name: type: "string"
+															key: type: "string"
+														}
+													}
+												}
+											}
+										}
+										auth: {
+											type: "object"
+											properties: {
+												basic: {
+													type: "object"
+													properties: {
+														secretRef: {
+															type: "object"
+															required: ["name"]
+															properties: {
+																name: type: "string"
+																usernameKey: type: "string"
+																passwordKey: type: "string"
+															}
+														}
+													}
+												}
+												bearer: {
+													type: "object"
+													properties: {
+														tokenSecretRef: {
+															type: "object"
+															required: ["name", "key"]
+															properties: {
+																name: type: "string"
+																key: type: "string"
+															}
+														}
+													}
+												}
+												oauth2: {
+													type: "object"
+													required: ["tokenUrl", "clientSecretRef"]
+													properties: {
+														tokenUrl: type: "string"
+														clientSecretRef: {
+															type: "object"
+															required: ["name"]
+															properties: {
+																name: type: "string"
+																clientIdKey: type: "string"
+																clientSecretKey: type: "string"
+															}
+														}
+														scopes: {
+															type: "array"
+															items: type: "string"
+														}
+													}
+												}
+											}
+										}
+										headers: {
+											type: "array"
+											items: {
+												type: "object"
+												properties: {
+													name: type: "string"
+													value: type: "string"
+													valueFromSecretRef: {
+														type: "object"
+														properties: {
+															name: type: "string"
+															key: type: "string"
+														}
+													}
+												}
+											}
+										}
+										tls: {
+											type: "object"
+											properties: verify: {
+												type:    "boolean"
+												default: true
 											}
 										}
-										healthQuery: type: "string"
-										sslMode: {
-											type: "string"
-											enum: ["disable", "prefer", "require", "verify-ca", "verify-full"]
+										proxy: {
+											type:        "object"
+											description: "Egress proxy; overrides YuptimeSettings networking.proxy (mode none connects directly)"
+											properties: {
+												mode: {
+													type: "string"
+													enum: ["none", "http", "socks"]
+												}
+												url: type: "string"
+												urlFromSecretRef: {
+													type: "object"
+													required: ["name", "key"]
+													properties: {
+														name: type: "string"
+														key: type: "string"
+														namespace: type: "string"
+													}
+												}
+												credentialsSecretRef: {
+													type: "object"
+													required: ["name"]
+													properties: {
+														name: type: "string"
+														usernameKey: type: "string"
+														passwordKey: type: "string"
+													}
+												}
+											}
 										}
 									}
 								}
-								redis: {
+								prometheus: {
 									type: "object"
-									required: [
-										"host",
-										"port",
-									]
+									required: ["url", "query"]
 									properties: {
-										host: type: "string"
-										port: {
-											type:    "integer"
-											minimum: 1
-											maximum: 65535
+										url: {
+											type:        "string"
+											description: "Base URL of the Prometheus-compatible API"
 										}
-										database: {
-											type:    "integer"
-											minimum: 0
+										query: {
+											type:        "string"
+											description: "PromQL expression, run as an instant query"
 										}
-										credentialsSecretRef: {
+										auth: {
 											type: "object"
 											properties: {
-												name: type: "string"
-												passwordKey: type: "string"
+												basic: {
+													type: "object"
+													properties: {
+														secretRef: {
+															type: "object"
+															required: ["name"]
+															properties: {
+																name: type: "string"
+																usernameKey: type: "string"
+																passwordKey: type: "string"
+															}
+														}
+													}
+												}
+												bearer: {
+													type: "object"
+													properties: {
+														tokenSecretRef: {
+															type: "object"
+															required: ["name", "key"]
+															properties: {
+																name: type: "string"
+																key: type: "string"
+															}
+														}
+													}
+												}
+												oauth2: {
+													type: "object"
+													required: ["tokenUrl", "clientSecretRef"]
+													properties: {
+														tokenUrl: type: "string"
+														clientSecretRef: {
+															type: "object"
+															required: ["name"]
+															properties: {
+																name: type: "string"
+																clientIdKey: type: "string"
+																clientSecretKey: type: "string"
+															}
+														}
+														scopes: {
+															type: "array"
+															items: type: "string"
+														}
+													}
+												}
 											}
 										}
-									}
-								}
-								grpc: {
-									type: "object"
-									required: [
-										"host",
-										"port",
-									]
-									properties: {
-										host: type: "string"
-										port: {
-											type:    "integer"
-											minimum: 1
-											maximum: 65535
-										}
-										service: type: "string"
-										tls: {
-											type: "object"
-											properties: {
-												enabled: type: "boolean"
-												verify: type: "boolean"
+										headers: {
+											type: "array"
+											items: {
+												type: "object"
+												properties: {
+													name: type: "string"
+													value: type: "string"
+													valueFromSecretRef: {
+														type: "object"
+														properties: {
+															name: type: "string"
+															key: type: "string"
+														}
+													}
+												}
 											}
 										}
-										dns: {
+										tls: {
 											type: "object"
-											description: "DNS resolution override (gRPC uses system DNS by default)"
-											properties: {
-												useSystemResolver: type: "boolean"
-												resolvers: {
-													type: "array"
-													items: type: "string"
-												}
+											properties: verify: {
+												type:    "boolean"
+												default: true
 											}
 										}
 									}
@@ -407,6 +1639,41 @@ customresourcedefinition: "monitors.monitoring.yuptime.io": {
 												items: type: "integer"
 											}
 											latencyMsUnder: type: "integer"
+											phaseLatencyMsUnder: {
+												type: "object"
+												properties: {
+													dnsMs: type: "integer"
+													connectMs: type: "integer"
+													tlsMs: type: "integer"
+													firstByteMs: type: "integer"
+													transferMs: type: "integer"
+												}
+											}
+											headers: {
+												type: "array"
+												items: {
+													type: "object"
+													required: ["name"]
+													properties: {
+														name: type: "string"
+														equals: type: "string"
+														contains: type: "string"
+														regex: type: "string"
+														absent: type: "boolean"
+													}
+												}
+											}
+											redirects: {
+												type: "object"
+												properties: {
+													finalUrl: type: "string"
+													maxHops: {
+														type:    "integer"
+														minimum: 0
+													}
+													httpsUpgrade: type: "boolean"
+												}
+											}
 										}
 									}
 									keyword: {
@@ -492,6 +1759,92 @@ customresourcedefinition: "monitors.monitoring.yuptime.io": {
 											}
 										}
 									}
+									mail: {
+										type: "object"
+										properties: {
+											bannerContains: type: "string"
+											capabilities: {
+												type:        "array"
+												description: "Capabilities that must be advertised (full, e.g. AUTH=PLAIN, or by name, e.g. AUTH)"
+												items: type: "string"
+											}
+										}
+									}
+									mongodb: {
+										type:        "object"
+										description: "Replica set assertions, evaluated on the hello response"
+										properties: {
+											role: {
+												type: "string"
+												enum: ["primary", "secondary", "arbiter"]
+											}
+											requirePrimary: type: "boolean"
+										}
+									}
+									amqp: {
+										type:        "object"
+										description: "Queue thresholds; require target.amqp.queue"
+										properties: {
+											maxMessages: {
+												type:    "integer"
+												minimum: 0
+											}
+											minConsumers: {
+												type:    "integer"
+												minimum: 0
+											}
+										}
+									}
+									nats: {
+										type: "object"
+										properties: {
+											latencyMsUnder: {
+												type:    "integer"
+												minimum: 0
+											}
+										}
+									}
+									mqtt: {
+										type: "object"
+										properties: {
+											latencyMsUnder: {
+												type:    "integer"
+												minimum: 0
+											}
+											retained: {
+												type:        "object"
+												description: "Check the retained message on the topic instead of a round trip"
+												properties: {
+													equals: type:   "string"
+													contains: type: "string"
+													matches: {
+														type:        "string"
+														description: "Regex pattern"
+													}
+												}
+											}
+										}
+									}
+									prometheus: {
+										type: "object"
+										properties: {
+											equals: type:      "number"
+											greaterThan: type: "number"
+											lessThan: type:    "number"
+											match: {
+												type:        "string"
+												description: "Vector results: every series must pass (all) or at least one (any)"
+												enum: ["all", "any"]
+												default:     "all"
+											}
+											onEmpty: {
+												type:        "string"
+												description: "State reported when the query returns no series"
+												enum: ["up", "down"]
+												default:     "down"
+											}
+										}
+									}
 								}
 							}
 							alerting: {
@@ -561,10 +1914,42 @@ customresourcedefinition: "monitors.monitoring.yuptime.io": {
 									checkedAt: type: "string"
 									latencyMs: type: "number"
 									attempts: type: "integer"
+									failingSince: type: "string"
 									reason: type: "string"
 									message: type: "string"
+									flapping: type: "boolean"
+									timings: {
+										type: "object"
+										properties: {
+											dnsMs: type: "number"
+											connectMs: type: "number"
+											tlsMs: type: "number"
+											firstByteMs: type: "number"
+											transferMs: type: "number"
+										}
+									}
+									steps: {
+										type: "array"
+										items: {
+											type: "object"
+											properties: {
+												name: type: "string"
+												state: {
+													type: "string"
+													enum: ["up", "down"]
+												}
+												latencyMs: type: "number"
+												statusCode: type: "integer"
+											}
+										}
+									}
 								}
 							}
+							lastState: {
+								type: "string"
+								enum: ["up", "down", "flapping", "paused"]
+							}
+							lastTransitionAt: type: "string"
 							uptime: {
 								type: "object"
 								properties: {
@@ -572,9 +1957,88 @@ customresourcedefinition: "monitors.monitoring.yuptime.io": {
 									last24h: type: "number"
 									last7d: type: "number"
 									last30d: type: "number"
+									since: type: "string"
+								}
+							}
+							downtime: {
+								type: "array"
+								items: {
+									type: "object"
+									properties: {
+										startedAt: type: "string"
+										endedAt: type: "string"
+									}
+								}
+							}
+							cert: {
+								type: "object"
+								properties: {
+									expiresAt: type: "string"
+									notBefore: type: "string"
+									daysRemaining: type: "integer"
+									valid: type: "boolean"
+									subject: type: "string"
+									issuer: type: "string"
+									subjectAltNames: {
+										type: "array"
+										items: type: "string"
+									}
+									fingerprint256: type: "string"
+									hostnameValid: type: "boolean"
+									chainTrusted: type: "boolean"
+									validationError: type: "string"
+									chain: {
+										type: "array"
+										items: {
+											type: "object"
+											properties: {
+												subject: type: "string"
+												issuer: type: "string"
+												expiresAt: type: "string"
+											}
+										}
+									}
+									checkedAt: type: "string"
+								}
+							}
+							certExpiringAlert: {
+								type: "object"
+								properties: {
+									expiresAt: type: "string"
+									notifiedAt: type: "string"
 								}
 							}
 							nextRunAt: type: "string"
+							lastPush: {
+								type: "object"
+								properties: {
+									state: {
+										type: "string"
+										enum: ["up", "down"]
+									}
+									receivedAt: type: "string"
+									latencyMs: type: "number"
+									message: type: "string"
+								}
+							}
+							suppressedTransitions: {
+								type: "array"
+								items: {
+									type: "object"
+									properties: {
+										fromState: type: "string"
+										toState: type: "string"
+										suppressedAt: type: "string"
+										sourceKind: {
+											type: "string"
+											enum: ["MaintenanceWindow", "Silence"]
+										}
+										sourceNamespace: type: "string"
+										sourceName: type: "string"
+										reason: type: "string"
+									}
+								}
+							}
 						}
 					}
 				}
@@ -592,6 +2056,10 @@ customresourcedefinition: "monitors.monitoring.yuptime.io": {
 				name:     "Last Check"
 				type:     "string"
 				jsonPath: ".status.lastResult.checkedAt"
+			}, {
+				name:     "Uptime 24h"
+				type:     "number"
+				jsonPath: ".status.uptime.last24h"
 			}, {
 				name:     "Age"
 				type:     "date"
@@ -780,15 +2248,22 @@ customresourcedefinition: "monitorsets.monitoring.yuptime.io": {
 					spec: {
 						type: "object"
 						properties: {
-							template: {
+							defaults: {
 								type:                                   "object"
 								"x-kubernetes-preserve-unknown-fields": true
 							}
-							targets: {
+							items: {
 								type: "array"
 								items: {
-									type:                                   "object"
-									"x-kubernetes-preserve-unknown-fields": true
+									type: "object"
+									required: ["name", "spec"]
+									properties: {
+										name: type: "string"
+										spec: {
+											type:                                   "object"
+											"x-kubernetes-preserve-unknown-fields": true
+										}
+									}
 								}
 							}
 						}
@@ -797,6 +2272,19 @@ customresourcedefinition: "monitorsets.monitoring.yuptime.io": {
 						type: "object"
 						properties: {
 							observedGeneration: type: "integer"
+							validCount: type: "integer"
+							invalidCount: type: "integer"
+							itemStatuses: {
+								type: "array"
+								items: {
+									type: "object"
+									properties: {
+										name: type: "string"
+										ready: type: "boolean"
+										message: type: "string"
+									}
+								}
+							}
 							conditions: {
 								type: "array"
 								items: {
@@ -948,6 +2436,23 @@ customresourcedefinition: "yuptimesettings.monitoring.yuptime.io": {
 											}
 										}
 									}
+									proxy: {
+										type:        "object"
+										description: "Default egress proxy for HTTP, WebSocket and TCP monitors"
+										properties: {
+											mode: {
+												type: "string"
+												enum: ["none", "http", "socks"]
+												default: "none"
+											}
+											url: type: "string"
+											noProxy: {
+												type: "array"
+												items: type: "string"
+												default: ["localhost", "127.0.0.1", ".svc", ".cluster.local"]
+											}
+										}
+									}
 								}
 							}
 						}
@@ -53,10 +53,6 @@ import (
 							name: "KUBE_NAMESPACE"
 							valueFrom: fieldRef: fieldPath: "metadata.namespace"
 						},
-						// TLS settings for development
-						if #config.mode == "development" {
-							{name: "NODE_TLS_REJECT_UNAUTHORIZED", value: "0"}
-						},
 					]
 					securityContext: #config.securityContext
 					resources:       #config.resources